@@ -0,0 +1,72 @@
+import express from 'express';
+import supertest from 'supertest';
+import { registerRoutes } from '../../server/routes';
+import { storage } from '../../server/storage';
+
+// Admin-only actions of routes reviewers may use too still need a token with the admin scope
+describe('API Token API Tests', () => {
+  const app = express();
+  app.use(express.json());
+
+  let evaluateToken: string;
+  let adminToken: string;
+  let reviewId: number;
+
+  beforeAll(async () => {
+    await registerRoutes(app);
+    const admin = supertest.agent(app);
+    await admin.post('/api/auth/login').send({ username: 'admin', password: 'admin123' }).expect(200);
+
+    const evaluate = await admin.post('/api/auth/tokens').send({ name: 'Scripts', scopes: ['evaluate'] }).expect(201);
+    evaluateToken = evaluate.body.token;
+    const full = await admin.post('/api/auth/tokens').send({ name: 'Admin scripts', scopes: ['admin'] }).expect(201);
+    adminToken = full.body.token;
+
+    const reviews = await storage.getAllReviews();
+    reviewId = reviews.find(review => !review.isPublished)!.id;
+  });
+
+  it('should refuse to publish a review with an evaluate-scoped token', async () => {
+    await supertest(app)
+      .patch(`/api/reviews/${reviewId}`)
+      .set('Authorization', `Bearer ${evaluateToken}`)
+      .send({ isPublished: true })
+      .expect(403);
+
+    expect((await storage.getReview(reviewId))!.isPublished).toBeFalsy();
+  });
+
+  it('should publish a review with an admin-scoped token', async () => {
+    const response = await supertest(app)
+      .patch(`/api/reviews/${reviewId}`)
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send({ isPublished: true })
+      .expect(200);
+
+    expect(response.body).toHaveProperty('isPublished', true);
+  });
+
+  it('should refuse to assign a new review to someone else with an evaluate-scoped token', async () => {
+    const review = (await storage.getReview(reviewId))!;
+    const reviewer = (await storage.getUserByUsername('reviewer'))!;
+    const reviewData = {
+      carId: review.carId,
+      reviewerId: reviewer.id,
+      status: 'pending',
+      startDate: new Date().toISOString(),
+      endDate: new Date().toISOString()
+    };
+
+    await supertest(app)
+      .post('/api/reviews')
+      .set('Authorization', `Bearer ${evaluateToken}`)
+      .send(reviewData)
+      .expect(403);
+
+    await supertest(app)
+      .post('/api/reviews')
+      .set('Authorization', `Bearer ${adminToken}`)
+      .send(reviewData)
+      .expect(201);
+  });
+});
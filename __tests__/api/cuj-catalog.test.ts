@@ -0,0 +1,128 @@
+import express from 'express';
+import supertest from 'supertest';
+import { registerRoutes } from '../../server/routes';
+import { storage } from '../../server/storage';
+
+describe('CUJ Catalog Management Tests', () => {
+  const app = express();
+  app.use(express.json());
+
+  let admin: supertest.SuperAgentTest;
+  let reviewedVersionId: number;
+  let editedVersionId: number;
+  let categoryId: number;
+  let cujId: number;
+  const taskIds: number[] = [];
+
+  beforeAll(async () => {
+    await registerRoutes(app);
+    admin = supertest.agent(app);
+    await admin.post('/api/auth/login').send({ username: 'admin', password: 'admin123' }).expect(200);
+  });
+
+  it('should make edits of a version that reviews use in a copy of it', async () => {
+    const reviewedVersion = await admin.get('/api/cuj-database-versions/active').expect(200);
+    reviewedVersionId = reviewedVersion.body.id;
+    const reviewedTasks = await storage.getTasksForReview(1);
+    const reviewedCategories = await storage.getCujCategoriesForVersion(reviewedVersionId);
+
+    const categoryResponse = await admin
+      .post('/api/cuj-categories')
+      .send({ name: 'Climate', description: 'Cabin climate controls', icon: 'thermostat' })
+      .expect(201);
+
+    const activeVersion = await admin.get('/api/cuj-database-versions/active').expect(200);
+    editedVersionId = activeVersion.body.id;
+    expect(editedVersionId).not.toBe(reviewedVersionId);
+    expect(categoryResponse.body).toHaveProperty('cujDatabaseVersionId', editedVersionId);
+    categoryId = categoryResponse.body.id;
+
+    const copiedCategories = await storage.getCujCategoriesForVersion(editedVersionId);
+    expect(copiedCategories.map(category => category.name))
+      .toEqual([...reviewedCategories.map(category => category.name), 'Climate']);
+    expect((await storage.getTasksForVersion(editedVersionId)).length).toBe(reviewedTasks.length);
+
+    // The reviews keep the catalog they were started with
+    expect(await storage.getTasksForReview(1)).toEqual(reviewedTasks);
+    expect(await storage.getCujCategoriesForVersion(reviewedVersionId)).toEqual(reviewedCategories);
+  });
+
+  it('should edit a version no review uses in place', async () => {
+    const cujResponse = await admin
+      .post('/api/cujs')
+      .send({ categoryId, name: 'Temperature' })
+      .expect(201);
+
+    expect(cujResponse.body).toHaveProperty('cujDatabaseVersionId', editedVersionId);
+    cujId = cujResponse.body.id;
+
+    for (const name of ['Raise the temperature', 'Lower the temperature']) {
+      const taskResponse = await admin
+        .post('/api/tasks')
+        .send({ cujId, name, expectedOutcome: 'Temperature changes' })
+        .expect(201);
+      taskIds.push(taskResponse.body.id);
+    }
+
+    const tasksResponse = await admin.get(`/api/cujs/${cujId}/tasks`).expect(200);
+    expect(tasksResponse.body.map((task: { id: number }) => task.id)).toEqual(taskIds);
+    expect((await admin.get('/api/cuj-database-versions/active')).body.id).toBe(editedVersionId);
+  });
+
+  it('should reject a task without an expected outcome', async () => {
+    await admin
+      .post('/api/tasks')
+      .send({ cujId, name: 'Turn on the fan', expectedOutcome: '' })
+      .expect(400);
+  });
+
+  it('should update a task', async () => {
+    const response = await admin
+      .patch(`/api/tasks/${taskIds[0]}`)
+      .send({ prerequisites: 'Vehicle is on', expectedOutcome: 'Cabin gets warmer' })
+      .expect(200);
+
+    expect(response.body).toHaveProperty('name', 'Raise the temperature');
+    expect(response.body).toHaveProperty('prerequisites', 'Vehicle is on');
+    expect(response.body).toHaveProperty('expectedOutcome', 'Cabin gets warmer');
+  });
+
+  it('should reorder tasks within a CUJ', async () => {
+    await admin
+      .post('/api/tasks/reorder')
+      .send({ ids: [...taskIds].reverse() })
+      .expect(200);
+
+    const response = await admin.get(`/api/cujs/${cujId}/tasks`).expect(200);
+    expect(response.body.map((task: { id: number }) => task.id)).toEqual([...taskIds].reverse());
+  });
+
+  it('should refuse to reorder tasks of different CUJs together', async () => {
+    const allTasks = await admin.get('/api/tasks').expect(200);
+    const otherTask = allTasks.body.find((task: { cujId: number }) => task.cujId !== cujId);
+
+    await admin
+      .post('/api/tasks/reorder')
+      .send({ ids: [taskIds[0], otherTask.id] })
+      .expect(400);
+  });
+
+  it('should keep an evaluated task for its review when it is deleted', async () => {
+    const [task] = await storage.getTasksForReview(1);
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: task.id, doable: true, usabilityScore: 3, visualsScore: 3 });
+
+    await admin.delete(`/api/tasks/${task.id}`).expect(200);
+
+    expect(await storage.getTask(task.id)).toBeDefined();
+    expect((await storage.getTasksForReview(1)).map(reviewed => reviewed.id)).toContain(task.id);
+    // The copy the task was deleted from stays inactive like the version it was made of
+    expect((await admin.get('/api/cuj-database-versions/active')).body.id).toBe(editedVersionId);
+  });
+
+  it('should delete a category together with its CUJs and tasks', async () => {
+    await admin.delete(`/api/cuj-categories/${categoryId}`).expect(200);
+
+    await admin.get(`/api/cujs/${cujId}/tasks`).expect(404);
+    await admin.get(`/api/tasks/${taskIds[0]}`).expect(404);
+  });
+});
@@ -1,33 +1,24 @@
+import express from 'express';
 import supertest from 'supertest';
-import { createServer } from '../../server/index';
-import { Express } from 'express';
+import { registerRoutes } from '../../server/routes';
 
 describe('CUJ Synchronization Tests', () => {
-  let server: Express;
-  let request: supertest.SuperTest<supertest.Test>;
-  let adminCookie: string[];
+  const app = express();
+  app.use(express.json());
+
+  let admin: supertest.SuperAgentTest;
   let cujVersionId: number;
 
   beforeAll(async () => {
-    server = await createServer();
-    request = supertest(server);
-
-    // Login as admin to get auth cookie
-    const loginResponse = await request
-      .post('/api/auth/login')
-      .send({
-        username: 'admin',
-        password: 'password',
-      });
-
-    adminCookie = loginResponse.headers['set-cookie'];
+    await registerRoutes(app);
+    admin = supertest.agent(app);
+    await admin.post('/api/auth/login').send({ username: 'admin', password: 'admin123' }).expect(200);
   });
 
   describe('CUJ Categories', () => {
     it('should get all CUJ categories', async () => {
-      const response = await request
+      const response = await admin
         .get('/api/cuj-categories')
-        .set('Cookie', adminCookie)
         .expect(200);
 
       expect(Array.isArray(response.body)).toBeTruthy();
@@ -38,15 +29,13 @@ describe('CUJ Synchronization Tests', () => {
   describe('CUJs', () => {
     it('should get CUJs for a category', async () => {
       // Get the first category ID
-      const categoriesResponse = await request
-        .get('/api/cuj-categories')
-        .set('Cookie', adminCookie);
+      const categoriesResponse = await admin
+        .get('/api/cuj-categories');
       
       const categoryId = categoriesResponse.body[0].id;
       
-      const response = await request
+      const response = await admin
         .get(`/api/cuj-categories/${categoryId}/cujs`)
-        .set('Cookie', adminCookie)
         .expect(200);
 
       expect(Array.isArray(response.body)).toBeTruthy();
@@ -56,23 +45,20 @@ describe('CUJ Synchronization Tests', () => {
   describe('Tasks', () => {
     it('should get tasks for a CUJ', async () => {
       // Get the first category ID
-      const categoriesResponse = await request
-        .get('/api/cuj-categories')
-        .set('Cookie', adminCookie);
+      const categoriesResponse = await admin
+        .get('/api/cuj-categories');
       
       const categoryId = categoriesResponse.body[0].id;
       
       // Get the first CUJ for that category
-      const cujsResponse = await request
-        .get(`/api/cuj-categories/${categoryId}/cujs`)
-        .set('Cookie', adminCookie);
+      const cujsResponse = await admin
+        .get(`/api/cuj-categories/${categoryId}/cujs`);
       
       if (cujsResponse.body.length > 0) {
         const cujId = cujsResponse.body[0].id;
         
-        const response = await request
+        const response = await admin
           .get(`/api/cujs/${cujId}/tasks`)
-          .set('Cookie', adminCookie)
           .expect(200);
 
         expect(Array.isArray(response.body)).toBeTruthy();
@@ -84,19 +70,17 @@ describe('CUJ Synchronization Tests', () => {
 
   describe('CUJ Database Versions', () => {
     it('should create a new CUJ database version', async () => {
-      const response = await request
+      const response = await admin
         .post('/api/cuj-database-versions')
-        .set('Cookie', adminCookie)
         .send({
-          name: 'Test Version',
-          description: 'Test version created by API tests',
-          isActive: false,
-          createdById: 1 // Admin user ID
+          versionNumber: 'Test Version',
+          sourceType: 'manual',
+          isActive: false
         })
-        .expect(200);
+        .expect(201);
 
       expect(response.body).toHaveProperty('id');
-      expect(response.body).toHaveProperty('name', 'Test Version');
+      expect(response.body).toHaveProperty('versionNumber', 'Test Version');
       expect(response.body).toHaveProperty('isActive', false);
       
       // Save the version ID for later tests
@@ -104,9 +88,8 @@ describe('CUJ Synchronization Tests', () => {
     });
 
     it('should get all CUJ database versions', async () => {
-      const response = await request
+      const response = await admin
         .get('/api/cuj-database-versions')
-        .set('Cookie', adminCookie)
         .expect(200);
 
       expect(Array.isArray(response.body)).toBeTruthy();
@@ -120,9 +103,8 @@ describe('CUJ Synchronization Tests', () => {
         return;
       }
 
-      const response = await request
-        .post(`/api/cuj-database-versions/${cujVersionId}/activate`)
-        .set('Cookie', adminCookie)
+      const response = await admin
+        .post(`/api/cuj-database-versions/${cujVersionId}/set-active`)
         .expect(200);
 
       expect(response.body).toHaveProperty('id', cujVersionId);
@@ -130,9 +112,8 @@ describe('CUJ Synchronization Tests', () => {
     });
 
     it('should get the active CUJ database version', async () => {
-      const response = await request
+      const response = await admin
         .get('/api/cuj-database-versions/active')
-        .set('Cookie', adminCookie)
         .expect(200);
 
       expect(response.body).toHaveProperty('isActive', true);
@@ -141,16 +122,96 @@ describe('CUJ Synchronization Tests', () => {
 
   describe('CUJ Data Sync', () => {
     it('should get CUJ sync status', async () => {
-      const response = await request
-        .get('/api/cuj-sync/status')
-        .set('Cookie', adminCookie)
+      const response = await admin
+        .get('/api/admin/cuj-sync-status')
         .expect(200);
 
       expect(response.body).toHaveProperty('lastSync');
       expect(response.body).toHaveProperty('status');
     });
 
-    // Note: Testing the actual sync requires a spreadsheet data source
-    // which we can't easily mock in this test
+    it('should import a CSV spreadsheet into a new inactive version', async () => {
+      const csv = [
+        'Category,CUJ,Task,Prerequisites,Expected Outcome',
+        'Navigation,Destination Entry,Enter an address,Vehicle is on,Route is displayed',
+        'Navigation,Destination Entry,Pick a saved place,,Route to the saved place is displayed',
+        'Media,Radio,Tune to an FM station,,FM audio plays',
+      ].join('\n');
+
+      const response = await admin
+        .post('/api/admin/sync-cuj-data')
+        .attach('file', Buffer.from(csv), 'catalog.csv')
+        .expect(200);
+
+      expect(response.body).toHaveProperty('success', true);
+      expect(response.body).toHaveProperty('versionId');
+
+      const versionsResponse = await admin
+        .get('/api/cuj-database-versions')
+        .expect(200);
+
+      const version = versionsResponse.body.find((v: any) => v.id === response.body.versionId);
+      expect(version).toHaveProperty('sourceFileName', 'catalog.csv');
+      expect(version).toHaveProperty('isActive', false);
+    });
+
+    it('should keep the task list of existing reviews when a new version is activated', async () => {
+      const reviewsResponse = await admin
+        .get('/api/reviews');
+      const reviewId = reviewsResponse.body[0].id;
+
+      const tasksBefore = await admin
+        .get(`/api/reviews/${reviewId}/tasks`)
+        .expect(200);
+
+      const csv = [
+        'Category,CUJ,Task,Prerequisites,Expected Outcome',
+        'Climate,Temperature,Set the cabin temperature,,Temperature changes',
+      ].join('\n');
+      const importResponse = await admin
+        .post('/api/admin/sync-cuj-data')
+        .attach('file', Buffer.from(csv), 'climate.csv')
+        .expect(200);
+
+      await admin
+        .post(`/api/cuj-database-versions/${importResponse.body.versionId}/set-active`)
+        .expect(200);
+
+      const tasksAfter = await admin
+        .get(`/api/reviews/${reviewId}/tasks`)
+        .expect(200);
+
+      expect(tasksAfter.body.tasks.map((task: any) => task.id))
+        .toEqual(tasksBefore.body.tasks.map((task: any) => task.id));
+
+      const activeCategories = await admin
+        .get('/api/cuj-categories')
+        .expect(200);
+      expect(activeCategories.body.map((category: any) => category.name)).toEqual(['Climate']);
+    });
+
+    it('should report row errors without creating a version', async () => {
+      const versionsBefore = await admin
+        .get('/api/cuj-database-versions');
+
+      const csv = [
+        'Category,CUJ,Task,Prerequisites,Expected Outcome',
+        'Navigation,Destination Entry,Enter an address,,',
+      ].join('\n');
+
+      const response = await admin
+        .post('/api/admin/sync-cuj-data')
+        .attach('file', Buffer.from(csv), 'broken.csv')
+        .expect(400);
+
+      expect(response.body).toHaveProperty('success', false);
+      expect(response.body.errors).toEqual([
+        expect.objectContaining({ row: 2, column: 'Expected Outcome' })
+      ]);
+
+      const versionsAfter = await admin
+        .get('/api/cuj-database-versions');
+      expect(versionsAfter.body.length).toBe(versionsBefore.body.length);
+    });
   });
-});
\ No newline at end of file
+});
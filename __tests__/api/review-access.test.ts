@@ -0,0 +1,114 @@
+import express from 'express';
+import supertest from 'supertest';
+import { registerRoutes } from '../../server/routes';
+import { storage } from '../../server/storage';
+
+// Who may look at the scores of a review: admins, its participants, and everyone once it is published
+describe('Review Access API Tests', () => {
+  const app = express();
+  app.use(express.json());
+
+  const login = async (username: string, password: string) => {
+    const agent = supertest.agent(app);
+    await agent.post('/api/auth/login').send({ username, password }).expect(200);
+    return agent;
+  };
+
+  let reviewer: supertest.SuperAgentTest;
+  let tony: supertest.SuperAgentTest;
+  let admin: supertest.SuperAgentTest;
+  let firstBuildId: number;
+  let reReviewId: number;
+
+  beforeAll(async () => {
+    await registerRoutes(app);
+    reviewer = await login('reviewer', 'review123');
+    tony = await login('tony', 'password123');
+    admin = await login('admin', 'admin123');
+
+    // The seeded reviewer's review of the first build, re-reviewed by Tony on a later build
+    const [firstBuild] = await storage.getReviewsByReviewer((await storage.getUserByUsername('reviewer'))!.id);
+    const tonyUser = await storage.getUserByUsername('tony');
+    const reReview = await storage.createReview({
+      carId: firstBuild.carId,
+      reviewerId: tonyUser!.id,
+      status: 'in_progress',
+      startDate: new Date(),
+      endDate: new Date(),
+      previousReviewId: firstBuild.id
+    });
+    firstBuildId = firstBuild.id;
+    reReviewId = reReview.id;
+  });
+
+  describe('Build history', () => {
+    it('should turn away users who do not take part in an unpublished review', async () => {
+      await tony.get(`/api/reviews/${firstBuildId}/build-history`).expect(403);
+      await tony.get(`/api/reviews/${firstBuildId}/regressions`).expect(403);
+    });
+
+    it('should leave builds the user may not see out of the history', async () => {
+      const own = await tony.get(`/api/reviews/${reReviewId}/build-history`).expect(200);
+      expect(own.body.map((entry: { reviewId: number }) => entry.reviewId)).toEqual([reReviewId]);
+
+      // The regressions would show the ratings of the earlier build
+      await tony.get(`/api/reviews/${reReviewId}/regressions`).expect(403);
+
+      const all = await admin.get(`/api/reviews/${reReviewId}/build-history`).expect(200);
+      expect(all.body.map((entry: { reviewId: number }) => entry.reviewId)).toEqual([firstBuildId, reReviewId]);
+    });
+
+    it('should show the builds of published reviews to everyone', async () => {
+      await storage.updateReview(firstBuildId, 1, { isPublished: true });
+
+      const history = await tony.get(`/api/reviews/${reReviewId}/build-history`).expect(200);
+      expect(history.body).toHaveLength(2);
+      await tony.get(`/api/reviews/${reReviewId}/regressions`).expect(200);
+      await reviewer.get(`/api/reviews/${firstBuildId}/build-history`).expect(200);
+
+      await storage.updateReview(firstBuildId, 1, { isPublished: false });
+    });
+  });
+
+  describe('Score breakdown', () => {
+    it('should turn away users who do not take part in an unpublished review', async () => {
+      await tony.get(`/api/reviews/${firstBuildId}/score-breakdown`).expect(403);
+      await reviewer.get(`/api/reviews/${firstBuildId}/score-breakdown`).expect(200);
+      await admin.get(`/api/reviews/${firstBuildId}/score-breakdown`).expect(200);
+    });
+
+    it('should show external users the scores of published reviews without contributions', async () => {
+      const external = await login('external', 'external123');
+      await external.get(`/api/reviews/${firstBuildId}/score-breakdown`).expect(403);
+
+      await storage.updateReview(firstBuildId, 1, { isPublished: true });
+
+      const full = await admin.get(`/api/reviews/${firstBuildId}/score-breakdown`).expect(200);
+      const redacted = await external.get(`/api/reviews/${firstBuildId}/score-breakdown`).expect(200);
+      expect(redacted.body.overallScore).toEqual(full.body.overallScore);
+      for (const category of redacted.body.categories) {
+        expect(category.contributions).toEqual([]);
+        for (const cuj of category.cujs) {
+          expect(cuj.tasks.every((task: { contributions: unknown[] }) => task.contributions.length === 0)).toBe(true);
+        }
+      }
+
+      await storage.updateReview(firstBuildId, 1, { isPublished: false });
+    });
+  });
+
+  describe('Reports', () => {
+    it('should only show the report of an unpublished review to admins and participants', async () => {
+      const report = await storage.createReport({ reviewId: firstBuildId });
+
+      await tony.get(`/api/reviews/${firstBuildId}/report`).expect(403);
+      await tony.get(`/api/reports/${report.id}`).expect(403);
+      await reviewer.get(`/api/reports/${report.id}`).expect(200);
+      await admin.get(`/api/reviews/${firstBuildId}/report`).expect(200);
+
+      await storage.updateReview(firstBuildId, 1, { isPublished: true });
+      await tony.get(`/api/reports/${report.id}`).expect(200);
+      await storage.updateReview(firstBuildId, 1, { isPublished: false });
+    });
+  });
+});
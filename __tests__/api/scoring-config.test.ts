@@ -0,0 +1,75 @@
+import express from 'express';
+import supertest from 'supertest';
+import { registerRoutes } from '../../server/routes';
+import { storage } from '../../server/storage';
+
+// Category overrides are checked merged over the global weights, which each add up to 100, and
+// dimensions keep the scale their ratings were given on
+describe('Scoring Config API Tests', () => {
+  const app = express();
+  app.use(express.json());
+
+  let admin: supertest.SuperAgentTest;
+
+  beforeAll(async () => {
+    await registerRoutes(app);
+    admin = supertest.agent(app);
+    await admin.post('/api/auth/login').send({ username: 'admin', password: 'admin123' }).expect(200);
+  });
+
+  // 60 + the global 37.5 usability and 18.75 visuals weights
+  const skewed = { categoryName: 'Media', taskDoableWeight: 60 };
+
+  it('should reject overrides whose merged weights do not add up to 100', async () => {
+    const response = await admin.put('/api/admin/scoring-config/category-overrides')
+      .send({ overrides: [skewed] })
+      .expect(400);
+
+    expect(response.body).toEqual({
+      error: 'Invalid scoring weights for Media',
+      formErrors: ['Media: Doable, usability and visuals weights must add up to 100%'],
+      fieldErrors: {}
+    });
+    expect((await storage.getScoringConfig()).categoryOverrides).toEqual([]);
+
+    const invalid = await admin.put('/api/admin/scoring-config/category-overrides')
+      .send({ overrides: [{ categoryName: 'Media', taskDoableWeight: 120 }] })
+      .expect(400);
+    expect(invalid.body.error).toBe('Invalid scoring weights');
+  });
+
+  it('should not simulate overrides that could not be saved', async () => {
+    const response = await admin.post('/api/admin/scoring-config/simulate')
+      .send({ categoryOverrides: [skewed] })
+      .expect(400);
+
+    expect(response.body.formErrors).toEqual(['Media: Doable, usability and visuals weights must add up to 100%']);
+  });
+
+  it('should save overrides that add up together with the global weights', async () => {
+    const balanced = { categoryName: 'Media', taskDoableWeight: 60, taskUsabilityWeight: 21.25 };
+    await admin.put('/api/admin/scoring-config/category-overrides').send({ overrides: [balanced] }).expect(200);
+
+    // Global weights that would skew the saved override are turned away as well
+    const response = await admin.patch('/api/admin/scoring-config/task')
+      .send({ doableWeight: 40, usabilityWeight: 40, visualsWeight: 20 })
+      .expect(400);
+    expect(response.body.error).toBe('Invalid scoring weights for Media');
+  });
+
+  it('should only rescale dimensions no evaluation is rated on yet', async () => {
+    const dimensions = await storage.getEvaluationDimensions();
+    const usability = dimensions.find(dimension => dimension.key === 'usability')!;
+    const visuals = dimensions.find(dimension => dimension.key === 'visuals')!;
+    const [task] = await storage.getTasksForReview(1);
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: task.id, doable: true, usabilityScore: 4 });
+
+    const response = await admin.patch(`/api/admin/evaluation-dimensions/${usability.id}`)
+      .send({ scaleMax: 5 })
+      .expect(400);
+    expect(response.body.error).toBe('The scale of Usability & Interaction can\'t be changed once evaluations are rated on it');
+
+    await admin.patch(`/api/admin/evaluation-dimensions/${usability.id}`).send({ description: 'How easy was it?' }).expect(200);
+    await admin.patch(`/api/admin/evaluation-dimensions/${visuals.id}`).send({ scaleMax: 5 }).expect(200);
+  });
+});
@@ -39,7 +39,7 @@ describe('Login E2E Tests', () => {
 
   it('should login as admin and redirect to admin dashboard', async () => {
     await page.type('input[name="username"]', 'admin');
-    await page.type('input[name="password"]', 'password');
+    await page.type('input[name="password"]', 'admin123');
     
     // Click submit and wait for navigation
     await Promise.all([
@@ -59,7 +59,7 @@ describe('Login E2E Tests', () => {
 
   it('should login as reviewer and redirect to reviewer dashboard', async () => {
     await page.type('input[name="username"]', 'reviewer');
-    await page.type('input[name="password"]', 'password');
+    await page.type('input[name="password"]', 'review123');
     
     // Click submit and wait for navigation
     await Promise.all([
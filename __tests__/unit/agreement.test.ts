@@ -0,0 +1,56 @@
+import { createTestStorage } from '../../server/testData';
+import { cohensKappa, fleissKappa, getCarAgreement, pairwiseAgreement, ratingSpread, Rating } from '../../server/agreement';
+
+function ratings(raterId: number, values: number[]): Rating[] {
+  return values.map((value, index) => ({ itemKey: `item-${index}`, raterId, value }));
+}
+
+describe('Inter-rater Agreement Tests', () => {
+  const twoRaters = [...ratings(1, [1, 1, 0, 0]), ...ratings(2, [1, 0, 0, 0])];
+
+  it('should compute Cohen\'s kappa for two raters', () => {
+    expect(cohensKappa(twoRaters, 1, 2)).toEqual({ raterIds: [1, 2], items: 4, kappa: 0.5 });
+  });
+
+  it('should compute Fleiss\' kappa over items rated at least twice', () => {
+    expect(fleissKappa(twoRaters)).toBeCloseTo(0.4667, 4);
+    expect(fleissKappa(ratings(1, [1, 2, 3]))).toBeNull();
+  });
+
+  it('should treat raters that never vary as agreeing perfectly', () => {
+    expect(fleissKappa([...ratings(1, [3, 3]), ...ratings(2, [3, 3])])).toBe(1);
+  });
+
+  it('should summarise the spread of scores', () => {
+    expect(ratingSpread([2, 4])).toEqual({ count: 2, mean: 3, min: 2, max: 4, range: 2, stdDev: 1 });
+    expect(pairwiseAgreement([true, true, false])).toBeCloseTo(1 / 3);
+  });
+
+  it('should rank the tasks reviewers disagree on most first', async () => {
+    const storage = createTestStorage();
+    const firstReview = (await storage.getReview(1))!;
+    const otherReviewer = await storage.createUser({ username: 'second', password: 'password', name: 'Second Reviewer', role: 'reviewer' });
+    const secondReview = await storage.createReview({
+      carId: firstReview.carId,
+      reviewerId: otherReviewer.id,
+      status: 'in_progress',
+      startDate: new Date(),
+      endDate: new Date(),
+      cujDatabaseVersionId: null
+    });
+    const [agreedTask, disputedTask] = await storage.getTasksForReview(firstReview.id);
+
+    for (const [reviewId, usabilityScore] of [[firstReview.id, 1], [secondReview.id, 4]]) {
+      await storage.createTaskEvaluation({ reviewId, taskId: agreedTask.id, doable: true, usabilityScore: 3, visualsScore: 3 });
+      await storage.createTaskEvaluation({ reviewId, taskId: disputedTask.id, doable: usabilityScore > 1, usabilityScore, visualsScore: 3 });
+    }
+
+    const agreement = (await getCarAgreement(storage, firstReview.carId))!;
+
+    expect(agreement.raters.map(rater => rater.id).sort()).toEqual([firstReview.reviewerId, otherReviewer.id].sort());
+    expect(agreement.tasks.map(task => task.task.id)).toEqual([disputedTask.id, agreedTask.id]);
+    expect(agreement.tasks[0].doableAgreement).toBe(0);
+    expect(agreement.tasks[0].usability.range).toBe(3);
+    expect(agreement.tasks[1].disagreement).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import { createTestStorage } from '../../server/testData';
+import {
+  authenticateApiToken,
+  createApiToken,
+  hasScope,
+  hashApiToken,
+  requiredScope
+} from '../../server/apiTokens';
+
+describe('API Token Tests', () => {
+  it('should only store the hash of a new token', async () => {
+    const storage = createTestStorage();
+
+    const created = await createApiToken(storage, 2, { name: 'Import script', scopes: ['evaluate', 'read'] });
+
+    expect(created.token).toMatch(/^smc_/);
+    expect(created.token.startsWith(created.tokenPrefix)).toBe(true);
+    expect(created.scopes).toEqual(['read', 'evaluate']);
+    expect(created.expiresAt).toBeNull();
+
+    const [stored] = await storage.getApiTokensForUser(2);
+    expect(stored).not.toHaveProperty('token');
+    expect(stored.tokenHash).toBe(hashApiToken(created.token));
+    expect(stored.tokenHash).not.toContain(created.token);
+  });
+
+  it('should sign in the owner of a token and record when it was used', async () => {
+    const storage = createTestStorage();
+    const created = await createApiToken(storage, 2, { name: 'Import script', scopes: ['read'] });
+    const usedAt = new Date('2026-01-02T03:04:05Z');
+
+    const result = await authenticateApiToken(storage, created.token, usedAt);
+
+    expect(result?.user.username).toBe('reviewer');
+    expect(result?.token.lastUsedAt).toEqual(usedAt);
+    expect((await storage.getApiTokensForUser(2))[0].lastUsedAt).toEqual(usedAt);
+
+    expect(await authenticateApiToken(storage, `${created.token}x`)).toBeNull();
+    expect(await authenticateApiToken(storage, 'not-a-token')).toBeNull();
+  });
+
+  it('should reject expired and revoked tokens', async () => {
+    const storage = createTestStorage();
+    const createdAt = new Date('2026-01-01T00:00:00Z');
+    const expiring = await createApiToken(storage, 2, { name: 'Weekly', scopes: ['read'], expiresInDays: 7 }, createdAt);
+
+    expect(expiring.expiresAt).toEqual(new Date('2026-01-08T00:00:00Z'));
+    expect(await authenticateApiToken(storage, expiring.token, new Date('2026-01-07T23:59:59Z'))).not.toBeNull();
+    expect(await authenticateApiToken(storage, expiring.token, new Date('2026-01-08T00:00:00Z'))).toBeNull();
+
+    const revoked = await createApiToken(storage, 2, { name: 'Leaked', scopes: ['read'] });
+    await storage.updateApiToken(revoked.id, { revokedAt: new Date() });
+    expect(await authenticateApiToken(storage, revoked.token)).toBeNull();
+  });
+
+  it('should require the scope matching the request', async () => {
+    const storage = createTestStorage();
+    const reader = await createApiToken(storage, 1, { name: 'Reader', scopes: ['read'] });
+    const evaluator = await createApiToken(storage, 1, { name: 'Evaluator', scopes: ['evaluate'] });
+    const admin = await createApiToken(storage, 1, { name: 'Admin', scopes: ['admin'] });
+
+    expect(requiredScope('GET')).toBe('read');
+    expect(requiredScope('POST', ['reviewer', 'admin'])).toBe('evaluate');
+    expect(requiredScope('GET', ['admin'])).toBe('admin');
+
+    // Each scope includes the ones before it
+    expect([reader, evaluator, admin].map(token => hasScope(token, 'read'))).toEqual([true, true, true]);
+    expect([reader, evaluator, admin].map(token => hasScope(token, 'evaluate'))).toEqual([false, true, true]);
+    expect([reader, evaluator, admin].map(token => hasScope(token, 'admin'))).toEqual([false, false, true]);
+  });
+});
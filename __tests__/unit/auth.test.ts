@@ -0,0 +1,176 @@
+import ldap from 'ldapjs';
+import { AddressInfo } from 'net';
+import { createTestStorage } from '../../server/testData';
+import {
+  DEACTIVATED_ACCOUNT,
+  LdapConfig,
+  authenticateLdap,
+  authenticateLocal,
+  escapeFilterValue,
+  hashPassword,
+  parseRoleGroups
+} from '../../server/auth';
+
+const BASE_DN = 'ou=people,dc=example,dc=com';
+const SERVICE_DN = 'cn=service,dc=example,dc=com';
+const ADMINS = 'cn=admins,ou=groups,dc=example,dc=com';
+const REVIEWERS = 'cn=reviewers,ou=groups,dc=example,dc=com';
+
+type DirectoryUser = { uid: string; cn: string; password: string; memberOf: string[] };
+
+describe('Authentication Tests', () => {
+  describe('local provider', () => {
+    it('should accept the hashed password and reject any other', async () => {
+      const storage = createTestStorage();
+      await storage.createUser({ username: 'dana', password: await hashPassword('s3cret'), name: 'Dana', role: 'reviewer' });
+
+      const success = await authenticateLocal(storage, 'dana', 's3cret');
+      expect(success.user?.username).toBe('dana');
+
+      expect((await authenticateLocal(storage, 'dana', 'wrong')).user).toBeNull();
+      expect((await authenticateLocal(storage, 'dana', '')).user).toBeNull();
+      expect((await authenticateLocal(storage, 'nobody', 's3cret')).user).toBeNull();
+    });
+
+    it('should turn away deactivated users even with the right password', async () => {
+      const storage = createTestStorage();
+      const reviewer = await storage.getUserByUsername('reviewer');
+      await storage.setUserDeactivated(reviewer!.id, new Date());
+
+      expect(await authenticateLocal(storage, 'reviewer', 'review123')).toEqual({ user: null, message: DEACTIVATED_ACCOUNT });
+
+      await storage.setUserDeactivated(reviewer!.id, null);
+      expect((await authenticateLocal(storage, 'reviewer', 'review123')).user?.username).toBe('reviewer');
+    });
+
+    it('should not store seeded passwords in plain text', async () => {
+      const storage = createTestStorage();
+      const admin = await storage.getUserByUsername('admin');
+
+      expect(admin?.password).not.toBe('admin123');
+      expect((await authenticateLocal(storage, 'admin', 'admin123')).user?.role).toBe('admin');
+    });
+  });
+
+  describe('LDAP provider', () => {
+    // An in-process directory with a service account and a few people
+    const people = new Map<string, DirectoryUser>();
+    const dnOf = (uid: string) => `uid=${uid},${BASE_DN}`;
+    let server: ldap.Server;
+    let config: LdapConfig;
+
+    beforeAll(async () => {
+      server = ldap.createServer();
+
+      server.bind('dc=example,dc=com', (req: any, res: any, next: any) => {
+        const dn = req.dn.toString().replace(/\s+/g, '');
+        const password = req.credentials;
+        const person = [...people.values()].find(candidate => dnOf(candidate.uid) === dn);
+        const valid = dn === SERVICE_DN ? password === 'service-pass' : person?.password === password;
+        if (!valid) return next(new ldap.InvalidCredentialsError());
+        res.end();
+        return next();
+      });
+
+      server.search(BASE_DN, (req: any, res: any, next: any) => {
+        for (const person of people.values()) {
+          const entry = { dn: dnOf(person.uid), attributes: { uid: person.uid, cn: person.cn, memberof: person.memberOf } };
+          if (req.filter.matches(entry.attributes)) res.send(entry);
+        }
+        res.end();
+        return next();
+      });
+
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+      const { port } = server.address() as unknown as AddressInfo;
+
+      config = {
+        url: `ldap://127.0.0.1:${port}`,
+        bindDn: SERVICE_DN,
+        bindPassword: 'service-pass',
+        searchBase: BASE_DN,
+        searchFilter: '(uid={{username}})',
+        nameAttribute: 'cn',
+        // The ldapjs server only returns requested attributes named in lower case
+        groupAttribute: 'memberof',
+        roleGroups: [{ role: 'admin', group: ADMINS }, { role: 'reviewer', group: REVIEWERS }],
+        defaultRole: null
+      };
+    });
+
+    afterAll(() => {
+      server.close();
+    });
+
+    beforeEach(() => {
+      people.clear();
+      people.set('ada', { uid: 'ada', cn: 'Ada Lovelace', password: 'engine', memberOf: [REVIEWERS] });
+      people.set('grace', { uid: 'grace', cn: 'Grace Hopper', password: 'cobol', memberOf: [REVIEWERS, ADMINS] });
+      people.set('eve', { uid: 'eve', cn: 'Eve', password: 'apple', memberOf: [] });
+    });
+
+    it('should provision users on their first login with the role of their groups', async () => {
+      const storage = createTestStorage();
+
+      const result = await authenticateLdap(storage, config, 'ada', 'engine');
+
+      expect(result.user).toMatchObject({ username: 'ada', name: 'Ada Lovelace', role: 'reviewer', password: '' });
+      expect(await storage.getUserByUsername('ada')).toEqual(result.user);
+
+      // The first configured group wins
+      expect((await authenticateLdap(storage, config, 'grace', 'cobol')).user?.role).toBe('admin');
+    });
+
+    it('should reject wrong and empty passwords', async () => {
+      const storage = createTestStorage();
+
+      expect(await authenticateLdap(storage, config, 'ada', 'wrong')).toEqual({ user: null, message: 'Invalid username or password' });
+      expect((await authenticateLdap(storage, config, 'ada', '')).user).toBeNull();
+      expect((await authenticateLdap(storage, config, 'nobody', 'engine')).user).toBeNull();
+      expect(await storage.getUserByUsername('ada')).toBeUndefined();
+    });
+
+    it('should turn away users outside the configured groups unless there is a default role', async () => {
+      const storage = createTestStorage();
+
+      const result = await authenticateLdap(storage, config, 'eve', 'apple');
+      expect(result.user).toBeNull();
+      expect(await storage.getUserByUsername('eve')).toBeUndefined();
+
+      const withDefault = await authenticateLdap(storage, { ...config, defaultRole: 'external' }, 'eve', 'apple');
+      expect(withDefault.user?.role).toBe('external');
+    });
+
+    it('should refresh the role and name of returning users', async () => {
+      const storage = createTestStorage();
+      const first = await authenticateLdap(storage, config, 'ada', 'engine');
+
+      people.set('ada', { uid: 'ada', cn: 'Ada King', password: 'engine', memberOf: [ADMINS] });
+      const second = await authenticateLdap(storage, config, 'ada', 'engine');
+
+      expect(second.user).toMatchObject({ id: first.user!.id, name: 'Ada King', role: 'admin' });
+    });
+
+    it('should not let the username change the search filter', async () => {
+      const storage = createTestStorage();
+
+      expect((await authenticateLdap(storage, config, '*', 'engine')).user).toBeNull();
+    });
+
+    it('should fail when the directory is unreachable', async () => {
+      const storage = createTestStorage();
+
+      await expect(authenticateLdap(storage, { ...config, url: 'ldap://127.0.0.1:1' }, 'ada', 'engine')).rejects.toThrow();
+    });
+  });
+
+  it('should parse role groups and escape filter values', () => {
+    expect(parseRoleGroups(`admin=${ADMINS}; reviewer=${REVIEWERS};`)).toEqual([
+      { role: 'admin', group: ADMINS },
+      { role: 'reviewer', group: REVIEWERS }
+    ]);
+    expect(() => parseRoleGroups('owner=cn=owners')).toThrow('Invalid LDAP_ROLE_GROUPS entry');
+
+    expect(escapeFilterValue('a*(b)\\')).toBe('a\\2a\\28b\\29\\5c');
+  });
+});
@@ -0,0 +1,63 @@
+import { createTestStorage } from '../../server/testData';
+import { getBuildHistory, getBuildRegressions, summarizeTaskEvaluations } from '../../server/buildHistory';
+
+describe('Build History Tests', () => {
+  async function createReReview() {
+    const storage = createTestStorage();
+    const firstReview = (await storage.getReview(1))!;
+    const { id: _id, ...vehicle } = firstReview.car;
+    const newBuild = await storage.createCar({ ...vehicle, androidVersion: '16.0', buildFingerprint: 'NEW-BUILD' });
+    const reReview = await storage.createReview({
+      carId: newBuild.id,
+      reviewerId: firstReview.reviewerId,
+      status: 'in_progress',
+      startDate: new Date(),
+      endDate: new Date(),
+      cujDatabaseVersionId: firstReview.cujDatabaseVersionId ?? null,
+      previousReviewId: firstReview.id
+    });
+    return { storage, firstReview, reReview };
+  }
+
+  it('should treat a task as not doable when any evaluator could not do it', () => {
+    const evaluation = { doable: true, usabilityScore: 4, visualsScore: null };
+    const evaluations = [evaluation, { ...evaluation, doable: false, usabilityScore: 3 }] as any[];
+
+    expect(summarizeTaskEvaluations(evaluations)).toEqual({ doable: false, usabilityScore: 3.5, visualsScore: null });
+    expect(summarizeTaskEvaluations([])).toEqual({ doable: null, usabilityScore: null, visualsScore: null });
+  });
+
+  it('should list the builds of a vehicle oldest first from any of its reviews', async () => {
+    const { storage, firstReview, reReview } = await createReReview();
+
+    const fromFirst = (await getBuildHistory(storage, firstReview.id))!;
+    const fromReReview = (await getBuildHistory(storage, reReview.id))!;
+
+    expect(fromFirst.map(build => build.reviewId)).toEqual([firstReview.id, reReview.id]);
+    expect(fromReReview).toEqual(fromFirst);
+    expect(fromReReview[1].car.androidVersion).toBe('16.0');
+    expect(await getBuildHistory(storage, 999)).toBeUndefined();
+  });
+
+  it('should list tasks that regressed since the previous build', async () => {
+    const { storage, firstReview, reReview } = await createReReview();
+    const [brokenTask, uglierTask, improvedTask] = await storage.getTasksForReview(firstReview.id);
+
+    for (const task of [brokenTask, uglierTask, improvedTask]) {
+      await storage.createTaskEvaluation({ reviewId: firstReview.id, taskId: task.id, doable: true, usabilityScore: 3, visualsScore: 3 });
+    }
+    await storage.createTaskEvaluation({ reviewId: reReview.id, taskId: brokenTask.id, doable: false, undoableReason: 'Crashes on launch', usabilityScore: 3, visualsScore: 3 });
+    await storage.createTaskEvaluation({ reviewId: reReview.id, taskId: uglierTask.id, doable: true, usabilityScore: 3, visualsScore: 2 });
+    await storage.createTaskEvaluation({ reviewId: reReview.id, taskId: improvedTask.id, doable: true, usabilityScore: 4, visualsScore: 4 });
+
+    const report = (await getBuildRegressions(storage, reReview.id))!;
+
+    expect(report.previousReview.reviewId).toBe(firstReview.id);
+    expect(report.regressions.map(regression => [regression.taskName, regression.aspects])).toEqual([
+      [brokenTask.name, ['doable']],
+      [uglierTask.name, ['visuals']]
+    ]);
+    expect(report.regressions[0].feedback).toBe('Crashes on launch');
+    expect(await getBuildRegressions(storage, firstReview.id)).toBeUndefined();
+  });
+});
@@ -0,0 +1,48 @@
+import { createTestStorage } from '../../server/testData';
+import { compareReviews, compareScores } from '../../server/comparison';
+
+describe('Review Comparison Tests', () => {
+  it('should take deltas against the first review and mark the best and worst scores', () => {
+    expect(compareScores([70, 82.5, 65, null])).toEqual({
+      scores: [70, 82.5, 65, null],
+      deltas: [0, 12.5, -5, null],
+      winners: [1],
+      losers: [2]
+    });
+  });
+
+  it('should not pick winners on a tie or with a single score', () => {
+    expect(compareScores([80, 80])).toEqual({ scores: [80, 80], deltas: [0, 0], winners: [], losers: [] });
+    expect(compareScores([null, 80])).toEqual({ scores: [null, 80], deltas: [null, null], winners: [], losers: [] });
+  });
+
+  it('should align the category, CUJ and task scores of reviews', async () => {
+    const storage = createTestStorage();
+    const firstReview = (await storage.getReview(1))!;
+    const secondReview = (await storage.getReview((await storage.createReview({
+      carId: firstReview.carId,
+      reviewerId: firstReview.reviewerId,
+      status: 'in_progress',
+      startDate: new Date(),
+      endDate: new Date(),
+      cujDatabaseVersionId: firstReview.cujDatabaseVersionId ?? null
+    })).id))!;
+    const [task] = await storage.getTasksForReview(firstReview.id);
+
+    await storage.createTaskEvaluation({ reviewId: firstReview.id, taskId: task.id, doable: true, usabilityScore: 2, visualsScore: 2 });
+    await storage.createTaskEvaluation({ reviewId: secondReview.id, taskId: task.id, doable: true, usabilityScore: 4, visualsScore: 4 });
+
+    const comparison = await compareReviews(storage, [firstReview, secondReview]);
+    const category = comparison.categories.find(category => category.categoryId === task.cuj.categoryId)!;
+    const cuj = category.cujs.find(cuj => cuj.cujId === task.cujId)!;
+    const comparedTask = cuj.tasks.find(comparedTask => comparedTask.taskId === task.id)!;
+
+    expect(comparison.reviews.map(review => review.reviewId)).toEqual([firstReview.id, secondReview.id]);
+    expect(comparedTask.scores[1]).toBe(100);
+    expect(comparedTask.deltas[1]).toBeCloseTo(100 - comparedTask.scores[0]!);
+    expect(comparedTask.winners).toEqual([1]);
+    expect(cuj.winners).toEqual([1]);
+    expect(category.winners).toEqual([1]);
+    expect(comparison.overall.losers).toEqual([0]);
+  });
+});
@@ -0,0 +1,83 @@
+import { diffCujCatalogs, CujCatalogSnapshot } from '../../server/cujDiff';
+
+function snapshot(idOffset: number, versionId: number, tasks: Array<{ name: string; prerequisites?: string | null; expectedOutcome: string }>, extraCuj = false): CujCatalogSnapshot {
+  const category = { id: idOffset + 1, name: 'Navigation', description: 'Maps and routing', icon: 'map', cujDatabaseVersionId: versionId, sortOrder: 0 };
+  const cujs = [{ id: idOffset + 1, categoryId: category.id, name: 'Destination Entry', description: null, cujDatabaseVersionId: versionId, sortOrder: 0 }];
+  if (extraCuj) {
+    cujs.push({ id: idOffset + 2, categoryId: category.id, name: 'Saved Places', description: null, cujDatabaseVersionId: versionId, sortOrder: 1 });
+  }
+  return {
+    categories: [category],
+    cujs,
+    tasks: tasks.map((task, index) => ({
+      id: idOffset + index + 1,
+      cujId: cujs[0].id,
+      name: task.name,
+      prerequisites: task.prerequisites ?? null,
+      expectedOutcome: task.expectedOutcome,
+      cujDatabaseVersionId: versionId,
+      sortOrder: index
+    }))
+  };
+}
+
+describe('CUJ Catalog Diff Tests', () => {
+  it('should report no changes for identical catalogs', () => {
+    const tasks = [{ name: 'Enter an address', expectedOutcome: 'Route is displayed' }];
+    const diff = diffCujCatalogs(snapshot(0, 1, tasks), snapshot(100, 2, tasks));
+
+    for (const section of [diff.categories, diff.cujs, diff.tasks]) {
+      expect(section).toEqual({ added: [], removed: [], modified: [] });
+    }
+  });
+
+  it('should report added and removed tasks and CUJs', () => {
+    const diff = diffCujCatalogs(
+      snapshot(0, 1, [
+        { name: 'Enter an address', expectedOutcome: 'Route is displayed' },
+        { name: 'Cancel route', expectedOutcome: 'Guidance stops' }
+      ]),
+      snapshot(100, 2, [
+        { name: 'Enter an address', expectedOutcome: 'Route is displayed' },
+        { name: 'Add a stop', expectedOutcome: 'Stop is added to the route' }
+      ], true)
+    );
+
+    expect(diff.cujs.added).toEqual([
+      { path: ['Navigation', 'Saved Places'], fromId: null, toId: 102, changes: [] }
+    ]);
+    expect(diff.tasks.added.map(entry => entry.path)).toEqual([['Navigation', 'Destination Entry', 'Add a stop']]);
+    expect(diff.tasks.removed.map(entry => entry.path)).toEqual([['Navigation', 'Destination Entry', 'Cancel route']]);
+    expect(diff.tasks.modified).toEqual([]);
+  });
+
+  it('should report field-level changes of modified tasks', () => {
+    const diff = diffCujCatalogs(
+      snapshot(0, 1, [{ name: 'Enter an address', prerequisites: 'Vehicle is on', expectedOutcome: 'Route is displayed' }]),
+      snapshot(100, 2, [{ name: 'Enter an address', expectedOutcome: 'Route preview is displayed' }])
+    );
+
+    expect(diff.tasks.modified).toEqual([{
+      path: ['Navigation', 'Destination Entry', 'Enter an address'],
+      fromId: 1,
+      toId: 101,
+      changes: [
+        { field: 'prerequisites', from: 'Vehicle is on', to: null },
+        { field: 'expectedOutcome', from: 'Route is displayed', to: 'Route preview is displayed' }
+      ]
+    }]);
+  });
+
+  it('should report a renamed task with the same expected outcome as modified', () => {
+    const diff = diffCujCatalogs(
+      snapshot(0, 1, [{ name: 'Enter an address', expectedOutcome: 'Route is displayed' }]),
+      snapshot(100, 2, [{ name: 'Enter a destination address', expectedOutcome: 'Route is displayed' }])
+    );
+
+    expect(diff.tasks.added).toEqual([]);
+    expect(diff.tasks.removed).toEqual([]);
+    expect(diff.tasks.modified[0].changes).toEqual([
+      { field: 'name', from: 'Enter an address', to: 'Enter a destination address' }
+    ]);
+  });
+});
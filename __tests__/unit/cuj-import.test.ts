@@ -0,0 +1,111 @@
+import * as XLSX from 'xlsx';
+import { groupCujImportRows, nextCujVersionNumber, parseCujSpreadsheet } from '../../server/cujImport';
+
+function csvBuffer(lines: string[]): Buffer {
+  return Buffer.from(lines.join('\n'));
+}
+
+describe('CUJ Spreadsheet Import Tests', () => {
+  it('should parse valid rows from a CSV file', () => {
+    const { rows, errors } = parseCujSpreadsheet(csvBuffer([
+      'Category,CUJ,Task,Prerequisites,Expected Outcome',
+      'Navigation,Destination Entry,Enter an address,Vehicle is on,Route is displayed',
+      'Media,Radio,Tune to an FM station,,FM audio plays',
+    ]));
+
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      row: 2,
+      category: { name: 'Navigation', description: null, icon: 'category' },
+      cuj: { name: 'Destination Entry', description: null },
+      task: { name: 'Enter an address', prerequisites: 'Vehicle is on', expectedOutcome: 'Route is displayed' },
+    });
+    expect(rows[1].task.prerequisites).toBeNull();
+  });
+
+  it('should parse an XLSX workbook with differently spelled headers', () => {
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['category name', 'cuj name', 'task name', 'Pre-requisites', 'Expected_Outcome', 'Category Icon'],
+      ['Communications', 'Phone Calls', 'Call a contact', 'Phone paired', 'Call connects', 'phone'],
+    ]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, sheet, 'CUJs');
+    const buffer = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+
+    const { rows, errors } = parseCujSpreadsheet(buffer);
+
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0].category).toEqual({ name: 'Communications', description: null, icon: 'phone' });
+  });
+
+  it('should report missing required columns', () => {
+    const { rows, errors } = parseCujSpreadsheet(csvBuffer([
+      'Category,CUJ,Task',
+      'Navigation,Destination Entry,Enter an address',
+    ]));
+
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      { row: 1, column: 'Expected Outcome', message: 'Missing required column "Expected Outcome"' },
+    ]);
+  });
+
+  it('should report each invalid row and skip blank rows', () => {
+    const { errors } = parseCujSpreadsheet(csvBuffer([
+      'Category,CUJ,Task,Prerequisites,Expected Outcome',
+      'Navigation,,Enter an address,,Route is displayed',
+      ',,,,',
+      'Navigation,Destination Entry,,,',
+    ]));
+
+    expect(errors).toEqual([
+      { row: 2, column: 'CUJ', message: 'CUJ is required' },
+      { row: 4, column: 'Task', message: 'Task is required' },
+      { row: 4, column: 'Expected Outcome', message: 'Expected outcome is required' },
+    ]);
+  });
+
+  it('should report duplicate tasks within the same CUJ', () => {
+    const { errors } = parseCujSpreadsheet(csvBuffer([
+      'Category,CUJ,Task,Prerequisites,Expected Outcome',
+      'Navigation,Destination Entry,Enter an address,,Route is displayed',
+      'navigation,destination entry,Enter an Address,,Route is displayed',
+    ]));
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ row: 3, column: 'Task' });
+  });
+
+  it('should report a spreadsheet without task rows', () => {
+    const { errors } = parseCujSpreadsheet(csvBuffer([
+      'Category,CUJ,Task,Prerequisites,Expected Outcome',
+    ]));
+
+    expect(errors).toEqual([
+      { row: 0, column: null, message: 'The spreadsheet does not contain any task rows' },
+    ]);
+  });
+
+  it('should number imports one above the highest version in use', () => {
+    expect(nextCujVersionNumber([])).toBe('v1.0');
+    // An admin-created v3.0 next to a single import, and a version named by date
+    expect(nextCujVersionNumber([{ versionNumber: 'v1.0' }, { versionNumber: 'v3.0' }, { versionNumber: '2025-Q1' }])).toBe('v4.0');
+  });
+
+  it('should group rows into one category and CUJ per name', () => {
+    const { rows } = parseCujSpreadsheet(csvBuffer([
+      'Category,CUJ,Task,Prerequisites,Expected Outcome',
+      'Navigation,Destination Entry,Enter an address,,Route is displayed',
+      'Media,Radio,Tune to an FM station,,FM audio plays',
+      'navigation,destination entry,Pick a saved place,,Route to the saved place is displayed',
+    ]));
+
+    const catalog = groupCujImportRows(rows);
+
+    expect(catalog.map(({ category }) => category.name)).toEqual(['Navigation', 'Media']);
+    expect(catalog[0].cujs).toHaveLength(1);
+    expect(catalog[0].cujs[0].tasks.map(task => task.name)).toEqual(['Enter an address', 'Pick a saved place']);
+  });
+});
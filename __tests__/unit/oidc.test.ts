@@ -0,0 +1,234 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync, randomUUID, sign } from 'crypto';
+import { createTestStorage } from '../../server/testData';
+import { OidcConfig, completeOidcLogin, getOidcConfig, startOidcLogin } from '../../server/oidc';
+
+const CLIENT_ID = 'score-my-car';
+const REDIRECT_URI = 'http://localhost:5000/api/auth/oidc/callback';
+
+// A local OpenID provider that signs in whoever `claims` describes, checking PKCE at the token endpoint
+function createMockProvider() {
+  const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const jwk = { ...publicKey.export({ format: 'jwk' }), kid: 'test-key', alg: 'RS256', use: 'sig' };
+  const codes = new Map<string, { challenge: string; nonce: string }>();
+  const provider = { issuer: '', claims: {} as Record<string, unknown> };
+
+  const base64url = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  const signIdToken = (payload: object) => {
+    const input = `${base64url({ alg: 'RS256', typ: 'JWT', kid: jwk.kid })}.${base64url(payload)}`;
+    return `${input}.${sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`;
+  };
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (req, res) => {
+    res.json({
+      issuer: provider.issuer,
+      authorization_endpoint: `${provider.issuer}/authorize`,
+      token_endpoint: `${provider.issuer}/token`,
+      jwks_uri: `${provider.issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['none']
+    });
+  });
+
+  app.get('/jwks', (req, res) => {
+    res.json({ keys: [jwk] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method } = req.query as Record<string, string>;
+    if (client_id !== CLIENT_ID || redirect_uri !== REDIRECT_URI || code_challenge_method !== 'S256') {
+      return res.status(400).send('Invalid authorization request');
+    }
+    const code = randomUUID();
+    codes.set(code, { challenge: code_challenge, nonce });
+    res.redirect(`${redirect_uri}?code=${code}&state=${state}`);
+  });
+
+  app.post('/token', (req, res) => {
+    const grant = codes.get(req.body.code);
+    codes.delete(req.body.code);
+    const challenge = createHash('sha256').update(req.body.code_verifier ?? '').digest('base64url');
+    if (!grant || grant.challenge !== challenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'The code verifier does not match' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    res.json({
+      access_token: randomUUID(),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: signIdToken({ iss: provider.issuer, aud: CLIENT_ID, iat: now, exp: now + 300, nonce: grant.nonce, ...provider.claims })
+    });
+  });
+
+  return { app, provider };
+}
+
+describe('OIDC Tests', () => {
+  const { app, provider } = createMockProvider();
+  let server: Server;
+  let config: OidcConfig;
+
+  beforeAll(async () => {
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    provider.issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    config = getOidcConfig({
+      OIDC_ISSUER: provider.issuer,
+      OIDC_CLIENT_ID: CLIENT_ID,
+      OIDC_REDIRECT_URI: REDIRECT_URI,
+      OIDC_ROLE_MAPPING: 'admin=car-admins;reviewer=car-reviewers'
+    })!;
+  });
+
+  afterAll(() => {
+    server.closeAllConnections();
+    server.close();
+  });
+
+  // Signs in at the provider as `claims`, returning the URL it redirects back to
+  async function authorize(claims: Record<string, unknown>) {
+    provider.claims = claims;
+    const { url, checks } = await startOidcLogin(config);
+    const response = await fetch(url, { redirect: 'manual' });
+    return { callbackUrl: response.headers.get('location')!, checks };
+  }
+
+  it('should provision users on their first login with the role of their claims', async () => {
+    const storage = createTestStorage();
+    const { callbackUrl, checks } = await authorize({
+      sub: 'abc123', email: 'Ada@Example.com', email_verified: true, name: 'Ada Lovelace', groups: ['car-reviewers']
+    });
+
+    const result = await completeOidcLogin(storage, config, callbackUrl, checks);
+
+    expect(result.user).toMatchObject({
+      username: 'ada@example.com',
+      name: 'Ada Lovelace',
+      role: 'reviewer',
+      password: '',
+      oidcSubject: `${provider.issuer}|abc123`
+    });
+
+    // Later logins find the user by subject, and their role follows their claims
+    const next = await authorize({ sub: 'abc123', email: 'ada@example.com', name: 'Ada Lovelace', groups: ['car-admins'] });
+    const again = await completeOidcLogin(storage, config, next.callbackUrl, next.checks);
+    expect(again.user).toMatchObject({ id: result.user!.id, role: 'admin' });
+  });
+
+  it('should reject responses that fail the PKCE or state checks', async () => {
+    const storage = createTestStorage();
+    const claims = { sub: 'abc123', email: 'ada@example.com', groups: ['car-reviewers'] };
+
+    const wrongVerifier = await authorize(claims);
+    const verifierResult = await completeOidcLogin(storage, config, wrongVerifier.callbackUrl, {
+      ...wrongVerifier.checks,
+      codeVerifier: 'x'.repeat(43)
+    });
+    expect(verifierResult).toEqual({ user: null, message: 'The code verifier does not match' });
+
+    const wrongState = await authorize(claims);
+    const stateResult = await completeOidcLogin(storage, config, wrongState.callbackUrl, {
+      ...wrongState.checks,
+      state: 'forged'
+    });
+    expect(stateResult.user).toBeNull();
+    expect(await storage.getUserByOidcSubject(`${provider.issuer}|abc123`)).toBeUndefined();
+  });
+
+  it('should link existing users by verified email only', async () => {
+    const storage = createTestStorage();
+    const local = await storage.createUser({ username: 'grace@example.com', password: 'hash', name: 'Grace', role: 'internal' });
+
+    const unverified = await authorize({ sub: 'evil', email: 'grace@example.com', email_verified: false });
+    const rejected = await completeOidcLogin(storage, config, unverified.callbackUrl, unverified.checks);
+    expect(rejected.user).toBeNull();
+    expect((await storage.getUser(local.id))?.oidcSubject).toBeNull();
+
+    // Providers that don't say whether they verified the email are treated the same way
+    const unstated = await authorize({ sub: 'evil', email: 'grace@example.com', preferred_username: 'grace@example.com' });
+    expect((await completeOidcLogin(storage, config, unstated.callbackUrl, unstated.checks)).user).toBeNull();
+    expect((await storage.getUser(local.id))?.oidcSubject).toBeNull();
+
+    const verified = await authorize({
+      sub: 'grace', email: 'grace@example.com', email_verified: true, name: 'Grace Hopper', groups: ['car-reviewers']
+    });
+    const linked = await completeOidcLogin(storage, config, verified.callbackUrl, verified.checks);
+
+    expect(linked.user).toMatchObject({ id: local.id, name: 'Grace Hopper', role: 'reviewer', oidcSubject: `${provider.issuer}|grace` });
+  });
+
+  it('should take the role away from users the mapping no longer covers', async () => {
+    const storage = createTestStorage();
+    const admin = await authorize({ sub: 'ada', email: 'ada@example.com', email_verified: true, groups: ['car-admins'] });
+    const { user } = await completeOidcLogin(storage, config, admin.callbackUrl, admin.checks);
+    expect(user?.role).toBe('admin');
+
+    // Removed from the admin group at the provider, they get the default role, or none at all
+    const withDefault = { ...config, defaultRole: 'external' as const };
+    const removed = await authorize({ sub: 'ada', email: 'ada@example.com', email_verified: true, groups: ['other'] });
+    expect((await completeOidcLogin(storage, withDefault, removed.callbackUrl, removed.checks)).user)
+      .toMatchObject({ id: user!.id, role: 'external' });
+
+    const again = await authorize({ sub: 'ada', email: 'ada@example.com', email_verified: true, groups: ['other'] });
+    expect((await completeOidcLogin(storage, config, again.callbackUrl, again.checks)).user).toBeNull();
+
+    // Without a mapping, roles stay as admins set them
+    const unmapped = { ...config, roleMapping: [] };
+    const local = await authorize({ sub: 'ada', email: 'ada@example.com', email_verified: true });
+    expect((await completeOidcLogin(storage, unmapped, local.callbackUrl, local.checks)).user?.role).toBe('external');
+  });
+
+  it('should only let listed domains sign in once admins listed any', async () => {
+    const storage = createTestStorage();
+    await storage.createSignInDomain({ domain: 'example.com' });
+    const claims = { email_verified: true, groups: ['car-reviewers'] };
+
+    const outsider = await authorize({ ...claims, sub: 'mallory', email: 'mallory@example.org' });
+    expect(await completeOidcLogin(storage, config, outsider.callbackUrl, outsider.checks))
+      .toEqual({ user: null, message: 'Your email domain is not allowed to sign in' });
+
+    const noEmail = await authorize({ ...claims, sub: 'anonymous' });
+    expect((await completeOidcLogin(storage, config, noEmail.callbackUrl, noEmail.checks)).user).toBeNull();
+
+    const unverified = await authorize({ sub: 'mallory', email: 'mallory@example.com', groups: ['car-reviewers'] });
+    expect(await completeOidcLogin(storage, config, unverified.callbackUrl, unverified.checks))
+      .toEqual({ user: null, message: 'Your email domain is not allowed to sign in' });
+
+    const member = await authorize({ ...claims, sub: 'ada', email: 'ada@example.com' });
+    expect((await completeOidcLogin(storage, config, member.callbackUrl, member.checks)).user?.username).toBe('ada@example.com');
+  });
+
+  it('should turn away new users without a role unless there is a default role', async () => {
+    const storage = createTestStorage();
+
+    const first = await authorize({ sub: 'eve', email: 'eve@example.com', groups: ['other'] });
+    expect((await completeOidcLogin(storage, config, first.callbackUrl, first.checks)).user).toBeNull();
+
+    const withDefault = { ...config, defaultRole: 'external' as const };
+    const second = await authorize({ sub: 'eve', email: 'eve@example.com', groups: ['other'] });
+    expect((await completeOidcLogin(storage, withDefault, second.callbackUrl, second.checks)).user?.role).toBe('external');
+  });
+
+  it('should read the configuration from the environment', () => {
+    expect(getOidcConfig({})).toBeNull();
+    expect(() => getOidcConfig({ OIDC_ISSUER: 'https://sso.example.com' })).toThrow('OIDC_CLIENT_ID and OIDC_REDIRECT_URI are required');
+    expect(config).toMatchObject({
+      clientSecret: null,
+      scopes: 'openid email profile',
+      roleClaim: 'groups',
+      roleMapping: [{ role: 'admin', group: 'car-admins' }, { role: 'reviewer', group: 'car-reviewers' }],
+      defaultRole: null
+    });
+  });
+});
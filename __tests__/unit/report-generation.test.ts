@@ -0,0 +1,127 @@
+import { createTestStorage } from '../../server/testData';
+import { deriveTopIssues, freezeReportScores, generateReportForReview, thawReportScores, updateBenchmarkRanks } from '../../server/reportGeneration';
+
+describe('Report Generation Tests', () => {
+  it('should list undoable tasks first, then the lowest scores', async () => {
+    const storage = createTestStorage();
+    const categories = await storage.getCategoriesForReview(1);
+    const [firstTask, secondTask] = await storage.getTasksForReview(1);
+
+    const evaluations = [
+      await storage.createTaskEvaluation({ reviewId: 1, taskId: firstTask.id, doable: true, usabilityScore: 2, usabilityFeedback: 'Small buttons', visualsScore: 3 }),
+      await storage.createTaskEvaluation({ reviewId: 1, taskId: secondTask.id, doable: false, undoableReason: 'Crashes', usabilityScore: 1, visualsScore: 4 })
+    ];
+
+    const issues = deriveTopIssues(categories, [firstTask, secondTask], evaluations, []);
+
+    expect(issues).toEqual([
+      { category: secondTask.cuj.category.name, description: `${secondTask.name}: not doable – Crashes` },
+      { category: secondTask.cuj.category.name, description: `${secondTask.name}: usability rated 1/4` },
+      { category: firstTask.cuj.category.name, description: `${firstTask.name}: usability rated 2/4 – Small buttons` }
+    ]);
+  });
+
+  it('should rate low scores against the scale of their dimension', async () => {
+    const storage = createTestStorage();
+    const categories = await storage.getCategoriesForReview(1);
+    const [task] = await storage.getTasksForReview(1);
+    const usability = (await storage.getEvaluationDimensions()).find(dimension => dimension.key === 'usability')!;
+    await storage.updateEvaluationDimension(usability.id, { scaleMin: 1, scaleMax: 7 });
+
+    const evaluation = await storage.createTaskEvaluation({ reviewId: 1, taskId: task.id, doable: true, usabilityScore: 3, visualsScore: 4 });
+
+    expect(deriveTopIssues(categories, [task], [evaluation], [], await storage.getEvaluationDimensions())).toEqual([
+      { category: task.cuj.category.name, description: `${task.name}: usability rated 3/7` }
+    ]);
+    expect(deriveTopIssues(categories, [task], [evaluation], [])).toEqual([]);
+  });
+
+  it('should create the report once and refresh it when the review is completed again', async () => {
+    const storage = createTestStorage();
+    const [task] = await storage.getTasksForReview(1);
+
+    const empty = await generateReportForReview(storage, 1);
+    expect(empty.overallScore).toBeNull();
+    expect(empty.topIssues).toEqual([]);
+
+    await storage.updateReport(empty.id, { topLikes: 'Fast navigation' });
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: task.id, doable: false, usabilityScore: 4, visualsScore: 4 });
+
+    const refreshed = await generateReportForReview(storage, 1);
+    expect(refreshed.id).toBe(empty.id);
+    expect(refreshed.overallScore).not.toBeNull();
+    expect(refreshed.topIssues).toHaveLength(1);
+    expect(refreshed.topLikes).toBe('Fast navigation');
+    expect((await storage.getReportForReview(1))!.id).toBe(empty.id);
+  });
+
+  it('should keep the scores of a published report when the scoring config changes', async () => {
+    const storage = createTestStorage();
+    const [task] = await storage.getTasksForReview(1);
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: task.id, doable: true, usabilityScore: 2, visualsScore: 2 });
+
+    const published = await freezeReportScores(storage, 1);
+    const publishedScore = published.overallScore;
+    expect(published.scoreSnapshot!.overallScore).toBe(publishedScore);
+    expect(published.scoreSnapshot!.scoringConfig.taskDoableWeight).toBe((await storage.getScoringConfig()).taskDoableWeight);
+
+    await storage.updateTaskScoringConfig({ taskDoableWeight: 10, taskUsabilityWeight: 45, taskVisualsWeight: 45 });
+    await generateReportForReview(storage, 1);
+
+    const report = (await storage.getReport(published.id))!;
+    expect(report.overallScore).toBe(publishedScore);
+    expect(report.scoreSnapshot!.overallScore).toBe(publishedScore);
+    expect(report.currentOverallScore).not.toBe(publishedScore);
+
+    const unpublished = (await thawReportScores(storage, 1))!;
+    expect(unpublished.scoreSnapshot).toBeNull();
+    expect(unpublished.overallScore).toBe(report.currentOverallScore);
+  });
+
+  it('should rank published reviews within their benchmark cohort', async () => {
+    const storage = createTestStorage();
+    for (const [reviewId, usabilityScore] of [[1, 4], [2, 1]]) {
+      const [task] = await storage.getTasksForReview(reviewId);
+      await storage.createTaskEvaluation({ reviewId, taskId: task.id, doable: true, usabilityScore, visualsScore: 4 });
+      await storage.updateReview(reviewId, 1, { isPublished: true });
+      await freezeReportScores(storage, reviewId);
+    }
+
+    // Both seeded cars are from 2025, but run different Android versions
+    await updateBenchmarkRanks(storage);
+    const first = (await storage.getReportForReview(1))!;
+    const second = (await storage.getReportForReview(2))!;
+    expect([first.benchmarkRank, first.benchmarkComparison]).toEqual([1, 'better']);
+    expect([second.benchmarkRank, second.benchmarkComparison]).toEqual([2, 'worse']);
+
+    await storage.createScoringConfigVersion({ benchmarkCohort: 'androidVersion' });
+    await updateBenchmarkRanks(storage);
+    expect((await storage.getReportForReview(2))!.benchmarkRank).toBe(1);
+    expect((await storage.getReportForReview(2))!.benchmarkComparison).toBeNull();
+
+    await storage.updateReview(2, 1, { isPublished: false });
+    await updateBenchmarkRanks(storage);
+    expect((await storage.getReportForReview(2))!.benchmarkRank).toBeNull();
+  });
+
+  it('should rank published reviews by the scores their reports show', async () => {
+    const storage = createTestStorage();
+    for (const [reviewId, usabilityScore] of [[1, 4], [2, 1]]) {
+      const [task] = await storage.getTasksForReview(reviewId);
+      await storage.createTaskEvaluation({ reviewId, taskId: task.id, doable: true, usabilityScore, visualsScore: 4 });
+      await storage.updateReview(reviewId, 1, { isPublished: true });
+      await freezeReportScores(storage, reviewId);
+    }
+
+    // Rated higher after publishing, the second review still shows and ranks with its frozen score
+    const [task] = await storage.getTasksForReview(2);
+    await storage.updateTaskEvaluation(2, task.id, { doable: true, usabilityScore: 4, visualsScore: 4 });
+    await storage.updateTaskScoringConfig({ taskDoableWeight: 10, taskUsabilityWeight: 10, taskVisualsWeight: 80 });
+    await updateBenchmarkRanks(storage);
+
+    const first = (await storage.getReportForReview(1))!;
+    const second = (await storage.getReportForReview(2))!;
+    expect(second.overallScore).toBeLessThan(first.overallScore!);
+    expect([first.benchmarkRank, second.benchmarkRank]).toEqual([1, 2]);
+  });
+});
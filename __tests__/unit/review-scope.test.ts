@@ -0,0 +1,60 @@
+import { createTestStorage } from '../../server/testData';
+import { getReviewScope, canEvaluateCategory } from '../../server/reviewScope';
+
+describe('Review Scope Tests', () => {
+  it('should include the whole catalog when the reviewer has no assignments for the car', async () => {
+    const storage = createTestStorage();
+    const review = (await storage.getReview(1))!;
+
+    const scope = await getReviewScope(storage, review);
+
+    expect(scope.assignedCategoryIds).toBeNull();
+    expect(scope.tasks).toEqual(await storage.getTasksForReview(review.id));
+  });
+
+  it('should limit categories and tasks to the assigned categories', async () => {
+    const storage = createTestStorage();
+    const review = (await storage.getReview(1))!;
+    const [category] = await storage.getCategoriesForReview(review.id);
+    await storage.createReviewerAssignment({ reviewerId: review.reviewerId, carId: review.carId, categoryId: category.id });
+
+    const scope = await getReviewScope(storage, review);
+
+    expect(scope.assignedCategoryIds).toEqual([category.id]);
+    expect(scope.categories.map(c => c.id)).toEqual([category.id]);
+    expect(scope.tasks.length).toBeGreaterThan(0);
+    expect(scope.tasks.every(task => task.cuj.category.id === category.id)).toBe(true);
+  });
+
+  it('should ignore assignments for other cars', async () => {
+    const storage = createTestStorage();
+    const review = (await storage.getReview(1))!;
+    const otherReview = (await storage.getReview(2))!;
+    const [category] = await storage.getCategoriesForReview(review.id);
+    await storage.createReviewerAssignment({ reviewerId: review.reviewerId, carId: otherReview.carId, categoryId: category.id });
+
+    const scope = await getReviewScope(storage, review);
+
+    expect(scope.assignedCategoryIds).toBeNull();
+  });
+
+  it('should split a multi-reviewer review by category ownership', async () => {
+    const storage = createTestStorage();
+    const lead = (await storage.getReview(1))!;
+    const second = await storage.createUser({ username: 'second', password: 'password', name: 'Second Reviewer', role: 'reviewer' });
+    const [owned] = await storage.getCategoriesForReview(lead.id);
+    await storage.addReviewParticipant({ reviewId: lead.id, userId: second.id });
+    await storage.setReviewCategoryOwner({ reviewId: lead.id, categoryId: owned.id, userId: second.id });
+    const review = (await storage.getReview(1))!;
+
+    const secondScope = await getReviewScope(storage, review, second.id);
+    const leadScope = await getReviewScope(storage, review, review.reviewerId);
+    const wholeScope = await getReviewScope(storage, review);
+
+    expect(secondScope.assignedCategoryIds).toEqual([owned.id]);
+    expect(leadScope.assignedCategoryIds).not.toContain(owned.id);
+    expect(wholeScope.tasks).toHaveLength(secondScope.tasks.length + leadScope.tasks.length);
+    expect(canEvaluateCategory(review, second.id, owned.id)).toBe(true);
+    expect(canEvaluateCategory(review, review.reviewerId, owned.id)).toBe(false);
+  });
+});
@@ -0,0 +1,188 @@
+import { createTestStorage } from '../../server/testData';
+import { getReviewScoreBreakdown } from '../../server/reportGeneration';
+import { builtInRatingsError, calculateTaskScoreBreakdown, calculateCategoryScoreBreakdown, calculateOverallScore, dimensionRatingError } from '../../shared/scoring';
+import { evaluationDimensionSchema, taskEvaluationInputSchema, EvaluationDimension } from '../../shared/schema';
+
+describe('Score Breakdown Tests', () => {
+  it('should list the points each dimension contributed', () => {
+    const task = calculateTaskScoreBreakdown(
+      { doable: true, usabilityScore: 2, visualsScore: null },
+      { doable: 40, usability: 40, visuals: 20 }
+    );
+    expect(task.score).toBe(60);
+    expect(task.contributions).toEqual([
+      { dimension: 'doable', weight: 40, rating: true, points: 40 },
+      { dimension: 'usability', weight: 40, rating: 2, points: 20 },
+      { dimension: 'visuals', weight: 20, rating: null, points: null }
+    ]);
+
+    const category = calculateCategoryScoreBreakdown(
+      60,
+      { responsivenessScore: 4, writingScore: 2, emotionalScore: null },
+      { tasks: 80, responsiveness: 15, writing: 5, emotional: 5 }
+    );
+    expect(category.score).toBe(65.5);
+    expect(category.contributions.map(contribution => contribution.points)).toEqual([48, 15, 2.5, null]);
+  });
+
+  it('should roll task scores up through CUJs and categories to the overall score', async () => {
+    const storage = createTestStorage();
+    const tasks = await storage.getTasksForReview(1);
+    const [first, second] = tasks.filter(task => task.cuj.categoryId === tasks[0].cuj.categoryId);
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: first.id, doable: true, usabilityScore: 4, visualsScore: 4 });
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: second.id, doable: false, usabilityScore: 2, visualsScore: 2 });
+
+    const breakdown = await getReviewScoreBreakdown(storage, 1);
+    const category = breakdown.categories.find(entry => entry.categoryId === first.cuj.categoryId)!;
+    const taskEntries = category.cujs.flatMap(cuj => cuj.tasks);
+
+    expect(taskEntries).toHaveLength(tasks.filter(task => task.cuj.categoryId === category.categoryId).length);
+    expect(taskEntries.find(entry => entry.taskId === first.id)!.score).toBe(100);
+    expect(taskEntries.filter(entry => entry.evaluationId === null).every(entry => entry.score === null)).toBe(true);
+    expect(category.taskScore).toBe((100 + taskEntries.find(entry => entry.taskId === second.id)!.score!) / 2);
+
+    const report = await storage.createReport({ reviewId: 1 });
+    const reportWithScores = (await storage.getReport(report.id))!;
+    expect(reportWithScores.currentOverallScore).toBe(breakdown.overallScore);
+    expect(reportWithScores.categoryScores.find(entry => entry.category.id === category.categoryId)!.score).toBe(category.score);
+  });
+
+  it('should roll up CUJ scores with their doable rate and failing tasks into reports', async () => {
+    const storage = createTestStorage();
+    const tasks = await storage.getTasksForReview(1);
+    const cuj = tasks.find(task => tasks.filter(other => other.cujId === task.cujId).length >= 2)!.cuj;
+    const cujTasks = tasks.filter(task => task.cujId === cuj.id);
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: cujTasks[0].id, doable: true, usabilityScore: 4, visualsScore: 4 });
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: cujTasks[1].id, doable: false, usabilityScore: 4, visualsScore: 4 });
+
+    const report = await storage.createReport({ reviewId: 1 });
+    const categoryScore = (await storage.getReport(report.id))!.categoryScores
+      .find(entry => entry.category.id === cuj.categoryId)!;
+    const cujScore = categoryScore.cujScores.find(entry => entry.cujId === cuj.id)!;
+
+    expect(cujScore).toEqual({
+      cujId: cuj.id,
+      cujName: cuj.name,
+      score: 78.2,
+      doableRate: 0.5,
+      failingTaskCount: 1,
+      evaluatedTaskCount: 2,
+      notApplicableTaskCount: 0,
+      taskCount: cujTasks.length
+    });
+  });
+
+  it('should leave tasks that are not applicable out of scores and completion, and list them in reports', async () => {
+    const storage = createTestStorage();
+    const tasks = await storage.getTasksForReview(1);
+    const cuj = tasks.find(task => tasks.filter(other => other.cujId === task.cujId).length >= 2)!.cuj;
+    const [applicable, notApplicable] = tasks.filter(task => task.cujId === cuj.id);
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: applicable.id, doable: true, usabilityScore: 4, visualsScore: 4 });
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: notApplicable.id, notApplicable: true, notApplicableReason: 'No wireless Android Auto' });
+
+    const breakdown = await getReviewScoreBreakdown(storage, 1);
+    const cujScore = breakdown.categories.flatMap(category => category.cujs).find(entry => entry.cujId === cuj.id)!;
+    expect(cujScore.score).toBe(100);
+    expect(cujScore.evaluatedTaskCount).toBe(1);
+    expect(cujScore.notApplicableTaskCount).toBe(1);
+    expect(cujScore.tasks.find(task => task.taskId === notApplicable.id)!.score).toBeNull();
+
+    expect(await storage.getCompletedTaskIds(1)).toEqual([applicable.id]);
+    expect(await storage.getNotApplicableTaskIds(1)).toEqual([notApplicable.id]);
+
+    const report = await storage.createReport({ reviewId: 1 });
+    expect((await storage.getReport(report.id))!.notApplicableTasks).toEqual([{
+      taskId: notApplicable.id,
+      taskName: notApplicable.name,
+      cujName: cuj.name,
+      categoryName: notApplicable.cuj.category.name,
+      reason: 'No wireless Android Auto'
+    }]);
+  });
+
+  it('should require a reason for tasks that are not applicable and drop their ratings', () => {
+    const evaluation = { reviewId: 1, taskId: 1, doable: false, usabilityScore: 1, visualsScore: 2 };
+    expect(taskEvaluationInputSchema.safeParse({ ...evaluation, notApplicable: true, notApplicableReason: ' ' }).success).toBe(false);
+    expect(taskEvaluationInputSchema.parse({ ...evaluation, notApplicable: true, notApplicableReason: ' Not fitted ' })).toMatchObject({
+      notApplicable: true,
+      notApplicableReason: 'Not fitted',
+      doable: null,
+      usabilityScore: null,
+      visualsScore: null
+    });
+    expect(taskEvaluationInputSchema.parse({ ...evaluation, notApplicableReason: 'Leftover' })).toMatchObject({
+      notApplicable: false,
+      notApplicableReason: null,
+      doable: false
+    });
+  });
+
+  it('should add ratings on admin-defined dimensions on their own scale', async () => {
+    const safety: EvaluationDimension = {
+      id: 1, key: null, name: 'Safety', description: null, level: 'task', scaleMin: 0, scaleMax: 10, labels: [],
+      feedbackThreshold: 3, weight: 20, isActive: true, createdBy: null, createdAt: new Date(), updatedAt: new Date()
+    };
+    const weights = { doable: 40, usability: 40, visuals: 20 };
+    const evaluation = { doable: true, usabilityScore: 2, visualsScore: null };
+
+    expect(calculateTaskScoreBreakdown(evaluation, weights, [safety]).score).toBe(60);
+    const rated = calculateTaskScoreBreakdown({ ...evaluation, ratings: [{ dimensionId: 1, score: 5 }] }, weights, [safety]);
+    expect(rated.score).toBe(58.3);
+    expect(rated.contributions[3]).toEqual({ dimension: 'custom', dimensionId: 1, dimensionName: 'Safety', weight: 20, rating: 5, points: 10 });
+
+    expect(dimensionRatingError(safety, { dimensionId: 1, score: 11 })).toBe('Safety must be rated from 0 to 10');
+    expect(dimensionRatingError(safety, { dimensionId: 1, score: 3 })).toBe('Safety needs feedback for ratings of 3 or lower');
+    expect(dimensionRatingError(safety, { dimensionId: 1, score: 3, feedback: 'Distracting' })).toBeNull();
+    expect(evaluationDimensionSchema.safeParse({ ...safety, scaleMin: 10 }).success).toBe(false);
+    expect(evaluationDimensionSchema.safeParse({ ...safety, labels: [{ value: 12, label: 'Too high' }] }).success).toBe(false);
+
+    const storage = createTestStorage();
+    const [task] = await storage.getTasksForReview(1);
+    const dimension = await storage.createEvaluationDimension({ ...safety, labels: [] });
+    await storage.createTaskEvaluation({
+      reviewId: 1, taskId: task.id, doable: true, usabilityScore: 4, visualsScore: 4,
+      ratings: [{ dimensionId: dimension.id, score: 5 }]
+    });
+    const taskScore = async () => (await getReviewScoreBreakdown(storage, 1)).categories
+      .flatMap(category => category.cujs.flatMap(cuj => cuj.tasks))
+      .find(entry => entry.taskId === task.id)!.score;
+
+    expect(await taskScore()).toBe(91.7);
+    await storage.updateEvaluationDimension(dimension.id, { isActive: false });
+    expect(await taskScore()).toBe(100);
+  });
+
+  it('should score the built-in dimensions on the scale they are set to', async () => {
+    const storage = createTestStorage();
+    const dimensions = await storage.getEvaluationDimensions();
+    const usability = dimensions.find(dimension => dimension.key === 'usability')!;
+    const weights = { doable: 40, usability: 40, visuals: 20 };
+    const evaluation = { doable: true, usabilityScore: 4, visualsScore: 4 };
+
+    expect(calculateTaskScoreBreakdown(evaluation, weights, dimensions).score).toBe(100);
+    expect(builtInRatingsError({ usabilityScore: 5 }, dimensions)).toBe('Usability & Interaction must be rated from 1 to 4');
+
+    const rescaled = await storage.updateEvaluationDimension(usability.id, { scaleMax: 5 });
+    const fivePoint = dimensions.map(dimension => dimension.id === rescaled.id ? rescaled : dimension);
+    expect(calculateTaskScoreBreakdown(evaluation, weights, fivePoint).contributions[1].points).toBe(32);
+    expect(builtInRatingsError({ usabilityScore: 5 }, fivePoint)).toBeNull();
+  });
+
+  it('should weight the overall score by category importance', async () => {
+    expect(calculateOverallScore([80, null, 40])).toBe(60);
+    expect(calculateOverallScore([80, null, 40], [3, 1, 1])).toBe(70);
+    expect(calculateOverallScore([80, 40], [0, 0])).toBeNull();
+
+    const storage = createTestStorage();
+    const tasks = await storage.getTasksForReview(1);
+    const otherCategoryTask = tasks.find(task => task.cuj.categoryId !== tasks[0].cuj.categoryId)!;
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: tasks[0].id, doable: true, usabilityScore: 4, visualsScore: 4 });
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: otherCategoryTask.id, doable: false, usabilityScore: 1, visualsScore: 1 });
+
+    await storage.createScoringConfigVersion({
+      categoryOverrides: [{ categoryName: tasks[0].cuj.category.name, importance: 0 }]
+    });
+    const breakdown = await getReviewScoreBreakdown(storage, 1);
+    expect(breakdown.overallScore).toBe(breakdown.categories.find(category => category.categoryId === otherCategoryTask.cuj.categoryId)!.score);
+  });
+});
@@ -0,0 +1,106 @@
+import { createTestStorage } from '../../server/testData';
+import { generateReportForReview } from '../../server/reportGeneration';
+import { getCategoryWeights } from '../../client/src/lib/utils';
+import { categoryWeightsSchema, taskWeightsSchema } from '../../shared/schema';
+
+describe('Scoring Config History Tests', () => {
+  it('should create a new version for every change and keep earlier versions intact', async () => {
+    const storage = createTestStorage();
+    const original = await storage.getScoringConfig();
+
+    const taskChange = await storage.updateTaskScoringConfig({ taskDoableWeight: 50, taskUsabilityWeight: 30, taskVisualsWeight: 20, changeNote: 'Favour doability', updatedBy: 1 });
+    const categoryChange = await storage.updateCategoryScoringConfig({ categoryTasksWeight: 70, updatedBy: 1 });
+
+    expect(taskChange.version).toBe(original.version + 1);
+    expect(taskChange.changeNote).toBe('Favour doability');
+    expect(categoryChange.version).toBe(original.version + 2);
+    expect(categoryChange.taskDoableWeight).toBe(50);
+    expect(categoryChange.categoryResponsivenessWeight).toBe(original.categoryResponsivenessWeight);
+
+    expect((await storage.getScoringConfigHistory()).map(config => config.version)).toEqual([3, 2, 1]);
+    expect(await storage.getScoringConfigVersion(original.id)).toEqual(original);
+    expect((await storage.getScoringConfig()).id).toBe(categoryChange.id);
+  });
+
+  it('should record the config version a report was scored with', async () => {
+    const storage = createTestStorage();
+    const report = await generateReportForReview(storage, 1);
+    expect(report.scoringConfigId).toBe((await storage.getScoringConfig()).id);
+
+    const updated = await storage.updateTaskScoringConfig({ taskDoableWeight: 60 });
+    expect((await generateReportForReview(storage, 1)).scoringConfigId).toBe(updated.id);
+  });
+
+  it('should fall back to the global weights for categories and weights without an override', async () => {
+    const storage = createTestStorage();
+    const config = await storage.createScoringConfigVersion({
+      categoryOverrides: [{ categoryName: 'Navigation', categoryTasksWeight: 50, taskVisualsWeight: 0 }]
+    });
+
+    expect(getCategoryWeights(config, ' navigation ')).toEqual({
+      task: { doable: config.taskDoableWeight, usability: config.taskUsabilityWeight, visuals: 0 },
+      category: {
+        tasks: 50,
+        responsiveness: config.categoryResponsivenessWeight,
+        writing: config.categoryWritingWeight,
+        emotional: config.categoryEmotionalWeight
+      },
+      importance: 1
+    });
+    expect(getCategoryWeights(config, 'Media').category.tasks).toBe(config.categoryTasksWeight);
+
+    // Later versions keep the overrides unless they replace them
+    const next = await storage.updateTaskScoringConfig({ taskDoableWeight: 50 });
+    expect(next.categoryOverrides).toEqual(config.categoryOverrides);
+  });
+
+  it('should score overridden categories with their own weights in reports', async () => {
+    const storage = createTestStorage();
+    const tasks = await storage.getTasksForReview(1);
+    const overriddenTask = tasks[0];
+    const otherTask = tasks.find(task => task.cuj.categoryId !== overriddenTask.cuj.categoryId)!;
+    for (const task of [overriddenTask, otherTask]) {
+      await storage.createTaskEvaluation({ reviewId: 1, taskId: task.id, doable: true, usabilityScore: 2, visualsScore: 4 });
+    }
+
+    const report = await generateReportForReview(storage, 1);
+    const scoreOf = async (categoryId: number) =>
+      (await storage.getReport(report.id))!.categoryScores.find(entry => entry.category.id === categoryId)!.score;
+    const overriddenBefore = await scoreOf(overriddenTask.cuj.categoryId);
+    const otherBefore = await scoreOf(otherTask.cuj.categoryId);
+
+    await storage.createScoringConfigVersion({
+      categoryOverrides: [{ categoryName: overriddenTask.cuj.category.name.toUpperCase(), taskUsabilityWeight: 0, taskVisualsWeight: 100, taskDoableWeight: 0 }]
+    });
+
+    expect(await scoreOf(overriddenTask.cuj.categoryId)).not.toBe(overriddenBefore);
+    expect(await scoreOf(otherTask.cuj.categoryId)).toBe(otherBefore);
+  });
+
+  it('should reject task weights that are negative or do not add up to 100', () => {
+    expect(taskWeightsSchema.safeParse({ doableWeight: 40, usabilityWeight: 30.005, visualsWeight: 30 }).success).toBe(true);
+
+    const wrongTotal = taskWeightsSchema.safeParse({ doableWeight: 50, usabilityWeight: 30, visualsWeight: 30 });
+    expect(wrongTotal.success).toBe(false);
+    if (!wrongTotal.success) {
+      expect(wrongTotal.error.flatten().formErrors).toEqual(['Doable, usability and visuals weights must add up to 100%']);
+    }
+
+    const negative = taskWeightsSchema.safeParse({ doableWeight: -10, visualsWeight: 30 });
+    expect(negative.success).toBe(false);
+    if (!negative.success) {
+      const { fieldErrors } = negative.error.flatten();
+      expect(Object.keys(fieldErrors).sort()).toEqual(['doableWeight', 'usabilityWeight']);
+    }
+  });
+
+  it('should leave the emotional bonus out of the category weight total', () => {
+    expect(categoryWeightsSchema.safeParse({ taskAvgWeight: 60, responsivenessWeight: 20, writingWeight: 20, emotionalWeight: 15 }).success).toBe(true);
+
+    const wrongTotal = categoryWeightsSchema.safeParse({ taskAvgWeight: 60, responsivenessWeight: 20, writingWeight: 5, emotionalWeight: 15 });
+    expect(wrongTotal.success).toBe(false);
+    if (!wrongTotal.success) {
+      expect(wrongTotal.error.flatten().formErrors).toEqual(['Task average, responsiveness and writing weights must add up to 100%']);
+    }
+  });
+});
@@ -0,0 +1,33 @@
+import { createTestStorage } from '../../server/testData';
+import { simulateScoring } from '../../server/scoringSimulation';
+
+describe('Scoring Simulation Tests', () => {
+  it('should rescore reviews with candidate weights without saving them', async () => {
+    const storage = createTestStorage();
+    const [task] = await storage.getTasksForReview(1);
+
+    // Review 1 can do the task but it is hard to use, review 2 can't do it but is great to use
+    await storage.createTaskEvaluation({ reviewId: 1, taskId: task.id, doable: true, usabilityScore: 1, visualsScore: 1 });
+    await storage.createTaskEvaluation({ reviewId: 2, taskId: task.id, doable: false, usabilityScore: 4, visualsScore: 4 });
+
+    const current = await storage.getScoringConfig();
+    const candidate = { ...current, taskDoableWeight: 0, taskUsabilityWeight: 50, taskVisualsWeight: 50 };
+    const reviews = [(await storage.getReview(1))!, (await storage.getReview(2))!];
+
+    const simulation = await simulateScoring(storage, candidate, reviews);
+
+    expect(simulation.scoringConfigId).toBe(current.id);
+    // Dropping the doable weight moves review 2 ahead of review 1
+    expect(simulation.reviews.map(review => review.reviewId)).toEqual([2, 1]);
+
+    const [second, first] = simulation.reviews;
+    expect([second.currentRank, second.simulatedRank]).toEqual([2, 1]);
+    expect([first.currentRank, first.simulatedRank]).toEqual([1, 2]);
+    expect(first.delta).toBe(+(first.simulatedScore! - first.currentScore!).toFixed(1));
+
+    const category = second.categories.find(category => category.categoryId === task.cuj.categoryId)!;
+    expect(category.simulatedScore).toBeGreaterThan(category.currentScore!);
+
+    expect(await storage.getScoringConfigHistory()).toHaveLength(1);
+  });
+});
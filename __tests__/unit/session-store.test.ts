@@ -0,0 +1,93 @@
+import session from 'express-session';
+import { createTestStorage } from '../../server/testData';
+import { StorageSessionStore, getSessionSecret, toSessionSummary } from '../../server/sessionStore';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A session as express-session hands it to the store, signed in as `userId` when given
+function sessionData(expires: Date, userId?: number) {
+  return {
+    cookie: { originalMaxAge: HOUR_MS, expires, httpOnly: true, path: '/' },
+    client: { userAgent: 'Mozilla/5.0 Firefox/128.0', ipAddress: '10.0.0.7' },
+    ...(userId ? { passport: { user: userId } } : {})
+  } as unknown as session.SessionData;
+}
+
+// The callback-style store API as promises
+const promisify = <T>(call: (callback: (err?: unknown, result?: T) => void) => void) =>
+  new Promise<T | undefined>((resolve, reject) => call((err, result) => (err ? reject(err) : resolve(result))));
+
+describe('Session Store Tests', () => {
+  it('should keep sessions in storage, so a new store still finds them', async () => {
+    const storage = createTestStorage();
+    const expires = new Date(Date.now() + HOUR_MS);
+    await promisify(done => new StorageSessionStore(storage, { pruneIntervalMs: null }).set('sid-1', sessionData(expires, 2), done));
+
+    // As after a server restart
+    const restarted = new StorageSessionStore(storage, { pruneIntervalMs: null });
+    const restored = await promisify<session.SessionData | null>(done => restarted.get('sid-1', done));
+
+    expect(restored).toMatchObject({ passport: { user: 2 }, cookie: { expires: expires.toISOString() } });
+    expect(await storage.getSession('sid-1')).toMatchObject({
+      userId: 2,
+      userAgent: 'Mozilla/5.0 Firefox/128.0',
+      ipAddress: '10.0.0.7',
+      expiresAt: expires
+    });
+  });
+
+  it('should not return expired sessions and prune them', async () => {
+    const storage = createTestStorage();
+    const store = new StorageSessionStore(storage, { pruneIntervalMs: null });
+    await promisify(done => store.set('expired', sessionData(new Date(Date.now() - 1000), 2), done));
+    await promisify(done => store.set('active', sessionData(new Date(Date.now() + HOUR_MS), 2), done));
+
+    expect(await promisify(done => store.get('expired', done))).toBeNull();
+    expect(await storage.deleteExpiredSessions(new Date())).toBe(1);
+    expect((await storage.getSessionsForUser(2)).map(stored => stored.sid)).toEqual(['active']);
+  });
+
+  it('should extend sessions that are touched and forget destroyed ones', async () => {
+    const storage = createTestStorage();
+    const store = new StorageSessionStore(storage, { pruneIntervalMs: null });
+    await promisify(done => store.set('sid-1', sessionData(new Date(Date.now() + HOUR_MS), 1), done));
+
+    const extended = new Date(Date.now() + 2 * HOUR_MS);
+    await promisify(done => store.touch('sid-1', sessionData(extended, 1), done));
+    expect((await storage.getSession('sid-1'))?.expiresAt).toEqual(extended);
+
+    await promisify(done => store.destroy('sid-1', done));
+    expect(await promisify(done => store.get('sid-1', done))).toBeNull();
+  });
+
+  it('should sign a user out of every session at once', async () => {
+    const storage = createTestStorage();
+    const store = new StorageSessionStore(storage, { pruneIntervalMs: null });
+    const expires = new Date(Date.now() + HOUR_MS);
+    await promisify(done => store.set('laptop', sessionData(expires, 2), done));
+    await promisify(done => store.set('tablet', sessionData(expires, 2), done));
+    await promisify(done => store.set('admin', sessionData(expires, 1), done));
+
+    expect(await storage.deleteSessionsForUser(2)).toBe(2);
+    expect(await promisify(done => store.get('laptop', done))).toBeNull();
+    expect(await promisify(done => store.get('admin', done))).not.toBeNull();
+  });
+
+  it('should describe sessions without their session ID', async () => {
+    const storage = createTestStorage();
+    const store = new StorageSessionStore(storage, { pruneIntervalMs: null });
+    await promisify(done => store.set('secret-sid', sessionData(new Date(Date.now() + HOUR_MS), 2), done));
+
+    const [stored] = await storage.getSessionsForUser(2);
+
+    expect(toSessionSummary(stored, 'secret-sid')).not.toHaveProperty('sid');
+    expect(toSessionSummary(stored, 'secret-sid').current).toBe(true);
+    expect(toSessionSummary(stored, 'other-sid').current).toBe(false);
+  });
+
+  it('should require a session secret in production', () => {
+    expect(getSessionSecret({ SESSION_SECRET: 'from-env' })).toBe('from-env');
+    expect(getSessionSecret({ NODE_ENV: 'development' })).toBe('scoreMyCarSecret');
+    expect(() => getSessionSecret({ NODE_ENV: 'production' })).toThrow('SESSION_SECRET must be set in production');
+  });
+});
@@ -0,0 +1,99 @@
+import { createTestStorage } from '../../server/testData';
+import { reassignUserWork } from '../../server/userManagement';
+import { importUsers, parseUserSpreadsheet } from '../../server/userImport';
+import { authenticateLocal } from '../../server/auth';
+
+function csvBuffer(lines: string[]): Buffer {
+  return Buffer.from(lines.join('\n'));
+}
+
+describe('User Management Tests', () => {
+  describe('reassigning work', () => {
+    it('should hand open reviews, owned categories and assignments to the new reviewer', async () => {
+      const storage = createTestStorage();
+      const [reviewer, tony, victor] = await Promise.all(
+        ['reviewer', 'tony', 'victor'].map(username => storage.getUserByUsername(username))
+      );
+      const [led, completed] = await storage.getReviewsByReviewer(reviewer!.id);
+      const [category] = Array.from(storage.cujCategories.values());
+      await storage.updateReview(completed.id, 1, { status: 'completed' });
+
+      // Victor leads a review the departing reviewer takes part in and owns a category of
+      const joined = await storage.createReview({
+        carId: led.carId, reviewerId: victor!.id, status: 'pending', startDate: new Date(), endDate: new Date()
+      });
+      await storage.addReviewParticipant({ reviewId: joined.id, userId: reviewer!.id });
+      await storage.setReviewCategoryOwner({ reviewId: joined.id, categoryId: category.id, userId: reviewer!.id });
+      await storage.createReviewerAssignment({ reviewerId: reviewer!.id, carId: led.carId, categoryId: category.id });
+
+      const result = await reassignUserWork(storage, reviewer!.id, tony!.id, 1);
+
+      expect(result).toEqual({ reviews: 2, assignments: 1 });
+      expect((await storage.getReview(led.id))?.reviewerId).toBe(tony!.id);
+      expect((await storage.getReview(completed.id))?.reviewerId).toBe(reviewer!.id);
+
+      const reassigned = await storage.getReview(joined.id);
+      expect(reassigned?.participants.map(user => user.username)).toEqual(['victor', 'tony']);
+      expect(reassigned?.categoryOwners).toMatchObject([{ categoryId: category.id, userId: tony!.id }]);
+
+      expect(await storage.getReviewerAssignmentsForReviewer(reviewer!.id)).toEqual([]);
+      expect(await storage.getReviewerAssignmentsForReviewer(tony!.id)).toHaveLength(1);
+    });
+  });
+
+  describe('CSV import', () => {
+    it('should create the users of a valid file with hashed passwords', async () => {
+      const storage = createTestStorage();
+      const { rows, errors } = parseUserSpreadsheet(csvBuffer([
+        'Username,Full Name,Role,Password',
+        'dana,Dana Scully,Admin,trustno1x',
+        'fox,Fox Mulder,,',
+      ]));
+      expect(errors).toEqual([]);
+
+      const result = await importUsers(storage, rows);
+
+      expect(result.errors).toEqual([]);
+      expect(result.created).toMatchObject([
+        { username: 'dana', name: 'Dana Scully', role: 'admin', deactivatedAt: null },
+        { username: 'fox', name: 'Fox Mulder', role: 'reviewer', password: '' },
+      ]);
+      expect((await authenticateLocal(storage, 'dana', 'trustno1x')).user?.username).toBe('dana');
+    });
+
+    it('should report every problem and create nobody', async () => {
+      const storage = createTestStorage();
+      const { rows, errors } = parseUserSpreadsheet(csvBuffer([
+        'Username,Name,Role,Password',
+        'dana,Dana Scully,boss,',
+        'fox,,reviewer,short',
+        'walter,Walter Skinner,admin,',
+        'walter,Walter Again,admin,',
+      ]));
+
+      expect(errors).toEqual([
+        { row: 2, column: 'Role', message: 'Role must be one of reviewer, internal, external, admin' },
+        { row: 3, column: 'Name', message: 'Name is required' },
+        { row: 3, column: 'Password', message: 'Password must be at least 8 characters' },
+        { row: 5, column: 'Username', message: 'Duplicate username "walter" (first seen on row 4)' },
+      ]);
+      expect(parseUserSpreadsheet(csvBuffer(['Name,Role', 'Dana,admin'])).errors)
+        .toEqual([{ row: 1, column: 'Username', message: 'Missing required column "Username"' }]);
+
+      const taken = await importUsers(storage, [...rows, { row: 6, username: 'tony', name: 'Tony', role: 'reviewer', password: null }]);
+      expect(taken).toEqual({ created: [], errors: [{ row: 6, column: 'Username', message: 'User "tony" already exists' }] });
+      expect(await storage.getUserByUsername('walter')).toBeUndefined();
+    });
+
+    it('should create nobody when a user of the batch conflicts', async () => {
+      const storage = createTestStorage();
+      const dana = { username: 'dana', name: 'Dana Scully', role: 'reviewer', password: '' };
+
+      await expect(storage.createUsers([dana, { username: 'tony', name: 'Tony', role: 'reviewer', password: '' }]))
+        .rejects.toThrow('User "tony" already exists');
+      await expect(storage.createUsers([dana, { ...dana, name: 'Dana Again' }]))
+        .rejects.toThrow('User "dana" already exists');
+      expect(await storage.getUserByUsername('dana')).toBeUndefined();
+    });
+  });
+});
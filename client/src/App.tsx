@@ -10,9 +10,13 @@ import ReviewerDashboard from "@/pages/reviewer";
 import ReviewDetail from "@/pages/reviewer/review-detail";
 import TaskEvaluation from "@/pages/reviewer/task-evaluation";
 import CategoryEvaluation from "@/pages/reviewer/category-evaluation";
+import RegressionsView from "@/pages/reviewer/regressions";
 import ReportView from "@/pages/reports/report";
+import ComparisonView from "@/pages/reports/comparison";
 import AdminDashboard from "@/pages/admin";
 import MediaTestPage from "@/pages/media-test";
+import ApiTokens from "@/pages/account/api-tokens";
+import Sessions from "@/pages/account/sessions";
 import AuthenticatedLayout from "@/components/layout/authenticated-layout";
 
 function PrivateRoute({ component: Component, roles, ...rest }: any) {
@@ -123,11 +127,25 @@ function Router() {
             <Route path="/reviews/:reviewId/categories/:categoryId" component={(props) => 
               <PrivateRoute component={CategoryEvaluation} roles={["reviewer", "admin"]} {...props} />
             } />
+            <Route path="/reviews/:id/regressions" component={(props) => 
+              <PrivateRoute component={RegressionsView} roles={["reviewer", "admin"]} {...props} />
+            } />
             
             {/* Report routes - available to all authenticated users */}
             <Route path="/reports/:id" component={(props) => 
               <PrivateRoute component={ReportView} {...props} />
             } />
+            <Route path="/comparisons" component={(props) => 
+              <PrivateRoute component={ComparisonView} roles={["reviewer", "admin"]} {...props} />
+            } />
+            
+            {/* Account routes - available to all authenticated users */}
+            <Route path="/account/api-tokens" component={(props) => 
+              <PrivateRoute component={ApiTokens} {...props} />
+            } />
+            <Route path="/account/sessions" component={(props) => 
+              <PrivateRoute component={Sessions} {...props} />
+            } />
             
             {/* Admin routes */}
             <Route path="/admin" component={(props) => 
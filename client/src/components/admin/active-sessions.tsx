@@ -0,0 +1,105 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { UserSessionsSummary } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDateTime } from "@/lib/utils";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, LogOut } from "lucide-react";
+
+/**
+ * Users who are signed in, with a way to sign them out everywhere, e.g. when a reviewer leaves
+ * the team or a laptop goes missing.
+ */
+export function ActiveSessions() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: summaries, isLoading } = useQuery<UserSessionsSummary[]>({
+    queryKey: ["/api/admin/sessions"],
+  });
+
+  const forceLogout = useMutation({
+    mutationFn: async (userId: number) => {
+      return await apiRequest<{ revokedSessions: number }>(`/api/admin/users/${userId}/logout`, { method: "POST" });
+    },
+    onSuccess: ({ revokedSessions }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sessions"] });
+      toast({
+        title: "User Signed Out",
+        description: `Ended ${revokedSessions} ${revokedSessions === 1 ? "session" : "sessions"}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Signing Out User",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!summaries || summaries.length === 0) {
+    return <p className="text-sm text-muted-foreground">Nobody is signed in.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>User</TableHead>
+          <TableHead>Role</TableHead>
+          <TableHead>Sessions</TableHead>
+          <TableHead>Last Active</TableHead>
+          <TableHead></TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {summaries.map(({ user, sessionCount, lastSeenAt }) => (
+          <TableRow key={user.id}>
+            <TableCell>
+              <div className="font-medium">{user.name}</div>
+              <div className="text-xs text-muted-foreground">{user.username}</div>
+            </TableCell>
+            <TableCell>
+              <Badge variant="outline" className="capitalize">{user.role}</Badge>
+            </TableCell>
+            <TableCell>{sessionCount}</TableCell>
+            <TableCell>{formatDateTime(lastSeenAt)}</TableCell>
+            <TableCell>
+              {user.id !== currentUser?.id && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => forceLogout.mutate(user.id)}
+                  disabled={forceLogout.isPending}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign Out
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,73 @@
+import { useQuery } from "@tanstack/react-query";
+import { AssignmentCoverage } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+/**
+ * Car × category matrix of the active catalog showing who is assigned to review what,
+ * with gaps highlighted so admins can spot categories nobody will evaluate.
+ */
+export function AssignmentCoverageMatrix() {
+  const { data: coverage, isLoading } = useQuery<AssignmentCoverage[]>({
+    queryKey: ["/api/reviewer-assignments/coverage"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!coverage || coverage.length === 0 || coverage[0].categories.length === 0) {
+    return <p className="text-center py-8 text-muted-foreground">No cars or categories to cover yet.</p>;
+  }
+
+  const categories = coverage[0].categories.map((entry) => entry.category);
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Car</TableHead>
+            {categories.map((category) => (
+              <TableHead key={category.id} className="text-center">{category.name}</TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {coverage.map(({ car, categories: carCategories, unassignedCategoryIds }) => (
+            <TableRow key={car.id}>
+              <TableCell className="font-medium whitespace-nowrap">
+                {car.make} {car.model} ({car.year})
+                {unassignedCategoryIds.length > 0 && (
+                  <div className="text-xs text-destructive flex items-center mt-1">
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {unassignedCategoryIds.length} unassigned
+                  </div>
+                )}
+              </TableCell>
+              {carCategories.map(({ category, reviewers }) => (
+                <TableCell
+                  key={category.id}
+                  className={`text-center text-sm ${reviewers.length === 0 ? "bg-destructive/10 text-destructive" : ""}`}
+                >
+                  {reviewers.length === 0 ? "Unassigned" : reviewers.map((reviewer) => reviewer.name).join(", ")}
+                </TableCell>
+              ))}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BenchmarkCohort, ScoringConfig, benchmarkCohorts } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+const cohortLabels: Record<BenchmarkCohort, string> = {
+  year: "Same model year",
+  androidVersion: "Same Android version",
+  all: "All published reviews",
+};
+
+/**
+ * Chooses which published reviews a review is ranked against. Ranks are recalculated on save.
+ */
+export function BenchmarkCohortSetting() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [cohort, setCohort] = useState<BenchmarkCohort>("year");
+  const [changeNote, setChangeNote] = useState("");
+
+  const { data: config, isLoading } = useQuery<ScoringConfig>({
+    queryKey: ["/api/admin/scoring-config"],
+  });
+
+  useEffect(() => {
+    if (config) setCohort(config.benchmarkCohort);
+  }, [config]);
+
+  const saveCohort = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<ScoringConfig>("/api/admin/scoring-config/benchmark-cohort", {
+        method: "PATCH",
+        body: JSON.stringify({ benchmarkCohort: cohort, changeNote }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-config/history"] });
+      setChangeNote("");
+      toast({
+        title: "Benchmark Cohort Saved",
+        description: `Published reviews are now ranked against: ${cohortLabels[cohort].toLowerCase()}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Saving Benchmark Cohort",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !config) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+      <Select value={cohort} onValueChange={(value) => setCohort(value as BenchmarkCohort)}>
+        <SelectTrigger className="w-full sm:w-64">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {benchmarkCohorts.map((value) => (
+            <SelectItem key={value} value={value}>
+              {cohortLabels[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        placeholder="Change note (optional)"
+        value={changeNote}
+        className="sm:max-w-xs"
+        onChange={(e) => setChangeNote(e.target.value)}
+      />
+      <Button
+        onClick={() => saveCohort.mutate()}
+        disabled={cohort === config.benchmarkCohort || saveCohort.isPending}
+      >
+        {saveCohort.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : "Save Changes"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CategoryWeightOverride, CujCategory, ScoringConfig, ScoringWeightErrors, ScoringWeightField } from "@shared/schema";
+import { ApiError, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Trash } from "lucide-react";
+
+type OverrideField = ScoringWeightField | "importance";
+
+const weightColumns: Array<{ field: OverrideField; label: string }> = [
+  { field: "taskDoableWeight", label: "Doable" },
+  { field: "taskUsabilityWeight", label: "Usability" },
+  { field: "taskVisualsWeight", label: "Visuals" },
+  { field: "categoryTasksWeight", label: "Task Avg" },
+  { field: "categoryResponsivenessWeight", label: "Responsiveness" },
+  { field: "categoryWritingWeight", label: "Writing" },
+  { field: "categoryEmotionalWeight", label: "Emotional" },
+  { field: "importance", label: "Importance" },
+];
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Per-category overrides of the task and category level weights, and of how much the category
+ * counts towards the overall score. A blank field falls back to the default shown as its placeholder.
+ */
+export function CategoryWeightOverrides() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [overrides, setOverrides] = useState<CategoryWeightOverride[]>([]);
+  const [changed, setChanged] = useState(false);
+  const [changeNote, setChangeNote] = useState("");
+
+  const { data: config, isLoading } = useQuery<ScoringConfig>({
+    queryKey: ["/api/admin/scoring-config"],
+  });
+
+  const { data: categories } = useQuery<CujCategory[]>({
+    queryKey: ["/api/cuj-categories"],
+  });
+
+  useEffect(() => {
+    if (config) {
+      setOverrides(config.categoryOverrides ?? []);
+      setChanged(false);
+    }
+  }, [config]);
+
+  const saveOverrides = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<ScoringConfig>("/api/admin/scoring-config/category-overrides", {
+        method: "PUT",
+        body: JSON.stringify({ overrides, changeNote }),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-config/history"] });
+      setChangeNote("");
+      toast({
+        title: "Category Overrides Saved",
+        description: "The per-category weights have been updated.",
+      });
+    },
+    onError: (error) => {
+      const weightErrors = error instanceof ApiError ? error.body as Partial<ScoringWeightErrors> | null : null;
+      toast({
+        title: "Error Saving Overrides",
+        description: weightErrors?.formErrors?.[0]
+          ?? (error instanceof Error ? error.message : "An unexpected error occurred"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateOverrides = (next: CategoryWeightOverride[]) => {
+    setOverrides(next);
+    setChanged(true);
+  };
+
+  const handleWeightChange = (categoryName: string, field: OverrideField, value: string) => {
+    updateOverrides(overrides.map((override) => {
+      if (override.categoryName !== categoryName) return override;
+
+      const { [field]: _previous, ...rest } = override;
+      const weight = parseFloat(value);
+      return isNaN(weight) ? rest : { ...rest, [field]: weight };
+    }));
+  };
+
+  if (isLoading || !config) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const availableCategories = (categories ?? []).filter(
+    (category) => !overrides.some((override) => sameName(override.categoryName, category.name))
+  );
+
+  return (
+    <div className="space-y-4">
+      <Select
+        value=""
+        onValueChange={(categoryName) => updateOverrides([...overrides, { categoryName }])}
+        disabled={availableCategories.length === 0}
+      >
+        <SelectTrigger className="w-full sm:w-80">
+          <SelectValue placeholder="Add an override for a category" />
+        </SelectTrigger>
+        <SelectContent>
+          {availableCategories.map((category) => (
+            <SelectItem key={category.id} value={category.name}>
+              {category.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {overrides.length === 0 ? (
+        <p className="text-center py-4 text-muted-foreground">
+          Every category is scored with the global weights.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Category</TableHead>
+              {weightColumns.map(({ field, label }) => (
+                <TableHead key={field}>{label}</TableHead>
+              ))}
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {overrides.map((override) => (
+              <TableRow key={override.categoryName}>
+                <TableCell className="font-medium">{override.categoryName}</TableCell>
+                {weightColumns.map(({ field }) => (
+                  <TableCell key={field}>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={field === "importance" ? undefined : "100"}
+                      step="0.01"
+                      className="w-20"
+                      placeholder={field === "importance" ? "1" : config[field].toString()}
+                      value={override[field] ?? ""}
+                      onChange={(e) => handleWeightChange(override.categoryName, field, e.target.value)}
+                    />
+                  </TableCell>
+                ))}
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateOverrides(overrides.filter((other) => other !== override))}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <Input
+          placeholder="Change note (optional)"
+          value={changeNote}
+          className="max-w-xs"
+          onChange={(e) => setChangeNote(e.target.value)}
+        />
+        <Button
+          onClick={() => saveOverrides.mutate()}
+          disabled={!changed || saveOverrides.isPending}
+        >
+          {saveOverrides.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : "Save Changes"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,412 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { CujCategory, Cuj, Task } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  FileText,
+  FolderTree,
+  Layers,
+  Loader2,
+  Pencil,
+  PlusCircle,
+  Trash,
+} from "lucide-react";
+
+type CatalogKind = "category" | "cuj" | "task";
+
+// Field values of the editor dialog; unused fields are ignored for the kind being edited
+type CatalogForm = {
+  name: string;
+  description: string;
+  icon: string;
+  prerequisites: string;
+  expectedOutcome: string;
+};
+
+type EditorState = {
+  kind: CatalogKind;
+  id?: number;       // set when editing an existing item
+  parentId?: number; // category for a new CUJ, CUJ for a new task
+  form: CatalogForm;
+};
+
+type DeleteState = {
+  kind: CatalogKind;
+  id: number;
+  name: string;
+};
+
+interface CujCatalogTreeProps {
+  categories: CujCategory[];
+  cujs: Cuj[];
+  tasks: Task[];
+}
+
+const endpoints: Record<CatalogKind, string> = {
+  category: "/api/cuj-categories",
+  cuj: "/api/cujs",
+  task: "/api/tasks",
+};
+
+const kindLabels: Record<CatalogKind, string> = {
+  category: "Category",
+  cuj: "CUJ",
+  task: "Task",
+};
+
+function formPayload(kind: CatalogKind, form: CatalogForm) {
+  const optional = (value: string) => value.trim() || null;
+  switch (kind) {
+    case "category":
+      return { name: form.name, description: optional(form.description), icon: form.icon.trim() || "category" };
+    case "cuj":
+      return { name: form.name, description: optional(form.description) };
+    case "task":
+      return { name: form.name, prerequisites: optional(form.prerequisites), expectedOutcome: form.expectedOutcome };
+  }
+}
+
+export function CujCatalogTree({ categories, cujs, tasks }: CujCatalogTreeProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [deleting, setDeleting] = useState<DeleteState | null>(null);
+
+  const invalidateCatalog = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/cuj-categories"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cujs"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reviewer-assignments/coverage"] });
+    // Edits of a version that reviews use are saved as a new version
+    queryClient.invalidateQueries({ queryKey: ["/api/cuj-database-versions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/cuj-database-versions/active"] });
+  };
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (state: EditorState) => {
+      const payload: Record<string, unknown> = formPayload(state.kind, state.form);
+      if (state.id !== undefined) {
+        return await apiRequest(`${endpoints[state.kind]}/${state.id}`, {
+          method: "PATCH",
+          body: JSON.stringify(payload),
+        });
+      }
+      if (state.kind === "cuj") payload.categoryId = state.parentId;
+      if (state.kind === "task") payload.cujId = state.parentId;
+      return await apiRequest(endpoints[state.kind], {
+        method: "POST",
+        body: JSON.stringify(payload),
+      });
+    },
+    onSuccess: (_, state) => {
+      invalidateCatalog();
+      setEditor(null);
+      toast({
+        title: state.id !== undefined ? `${kindLabels[state.kind]} Updated` : `${kindLabels[state.kind]} Created`,
+        description: `"${state.form.name}" has been saved.`,
+      });
+    },
+    onError: showError("Error Saving Catalog Item"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (state: DeleteState) => {
+      return await apiRequest(`${endpoints[state.kind]}/${state.id}`, { method: "DELETE" });
+    },
+    onSuccess: (_, state) => {
+      invalidateCatalog();
+      toast({
+        title: `${kindLabels[state.kind]} Deleted`,
+        description: `"${state.name}" has been removed from the catalog.`,
+      });
+    },
+    onError: showError("Error Deleting Catalog Item"),
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async ({ kind, ids }: { kind: CatalogKind; ids: number[] }) => {
+      return await apiRequest(`${endpoints[kind]}/reorder`, {
+        method: "POST",
+        body: JSON.stringify({ ids }),
+      });
+    },
+    onSuccess: invalidateCatalog,
+    onError: showError("Error Reordering Catalog"),
+  });
+
+  // Swaps an item with its neighbour and persists the new order of the siblings
+  const move = (kind: CatalogKind, siblings: { id: number }[], index: number, offset: -1 | 1) => {
+    const ids = siblings.map((sibling) => sibling.id);
+    const target = index + offset;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    reorderMutation.mutate({ kind, ids });
+  };
+
+  const toggle = (key: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const openEditor = (kind: CatalogKind, item?: Partial<CatalogForm> & { id: number }, parentId?: number) => {
+    setEditor({
+      kind,
+      id: item?.id,
+      parentId,
+      form: {
+        name: item?.name ?? "",
+        description: item?.description ?? "",
+        icon: item?.icon ?? "",
+        prerequisites: item?.prerequisites ?? "",
+        expectedOutcome: item?.expectedOutcome ?? "",
+      },
+    });
+  };
+
+  const updateForm = (field: keyof CatalogForm, value: string) => {
+    setEditor((current) => current && { ...current, form: { ...current.form, [field]: value } });
+  };
+
+  const renderActions = (
+    kind: CatalogKind,
+    item: { id: number; name: string },
+    siblings: { id: number }[],
+    index: number,
+    onEdit: () => void
+  ) => (
+    <div className="flex items-center gap-1 shrink-0">
+      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0 || reorderMutation.isPending}
+        onClick={() => move(kind, siblings, index, -1)} title="Move up">
+        <ArrowUp className="h-3 w-3" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === siblings.length - 1 || reorderMutation.isPending}
+        onClick={() => move(kind, siblings, index, 1)} title="Move down">
+        <ArrowDown className="h-3 w-3" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onEdit} title={`Edit ${kindLabels[kind]}`}>
+        <Pencil className="h-3 w-3" />
+      </Button>
+      <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive" title={`Delete ${kindLabels[kind]}`}
+        onClick={() => setDeleting({ kind, id: item.id, name: item.name })}>
+        <Trash className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Reviews keep the catalog they were started with. Changing a version that reviews use saves a new version.
+        </p>
+        <Button variant="outline" size="sm" onClick={() => openEditor("category")}>
+          <PlusCircle className="h-4 w-4 mr-1" />
+          Add Category
+        </Button>
+      </div>
+
+      {categories.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-4">No categories found</p>
+      )}
+
+      <ul className="space-y-2">
+        {categories.map((category, categoryIndex) => {
+          const categoryKey = `category-${category.id}`;
+          const categoryCujs = cujs.filter((cuj) => cuj.categoryId === category.id);
+          return (
+            <li key={category.id} className="border rounded-md">
+              <div className="flex items-center gap-2 px-2 py-1 bg-muted/40">
+                <button className="flex flex-1 items-center gap-1 text-left font-medium min-w-0" onClick={() => toggle(categoryKey)}>
+                  {collapsed.has(categoryKey) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                  <FolderTree className="h-4 w-4 text-primary" />
+                  <span className="truncate">{category.name}</span>
+                  <span className="text-xs font-normal text-muted-foreground ml-1">({categoryCujs.length} CUJs)</span>
+                </button>
+                {renderActions("category", category, categories, categoryIndex, () =>
+                  openEditor("category", { ...category, description: category.description ?? "", icon: category.icon ?? "" }))}
+              </div>
+
+              {!collapsed.has(categoryKey) && (
+                <ul className="pl-6 py-1 space-y-1">
+                  {categoryCujs.map((cuj, cujIndex) => {
+                    const cujKey = `cuj-${cuj.id}`;
+                    const cujTasks = tasks.filter((task) => task.cujId === cuj.id);
+                    return (
+                      <li key={cuj.id}>
+                        <div className="flex items-center gap-2 px-2 py-1 rounded hover:bg-muted/30">
+                          <button className="flex flex-1 items-center gap-1 text-left text-sm min-w-0" onClick={() => toggle(cujKey)}>
+                            {collapsed.has(cujKey) ? <ChevronRight className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                            <Layers className="h-3 w-3 text-primary" />
+                            <span className="truncate">{cuj.name}</span>
+                            <span className="text-xs text-muted-foreground ml-1">({cujTasks.length} tasks)</span>
+                          </button>
+                          {renderActions("cuj", cuj, categoryCujs, cujIndex, () =>
+                            openEditor("cuj", { ...cuj, description: cuj.description ?? "" }))}
+                        </div>
+
+                        {!collapsed.has(cujKey) && (
+                          <ul className="pl-6 space-y-1">
+                            {cujTasks.map((task, taskIndex) => (
+                              <li key={task.id} className="flex items-center gap-2 px-2 py-1 rounded hover:bg-muted/30">
+                                <div className="flex flex-1 items-start gap-1 text-sm min-w-0">
+                                  <FileText className="h-3 w-3 mt-1 text-muted-foreground shrink-0" />
+                                  <div className="min-w-0">
+                                    <div className="truncate">{task.name}</div>
+                                    <div className="text-xs text-muted-foreground truncate">{task.expectedOutcome}</div>
+                                  </div>
+                                </div>
+                                {renderActions("task", task, cujTasks, taskIndex, () =>
+                                  openEditor("task", { ...task, prerequisites: task.prerequisites ?? "" }))}
+                              </li>
+                            ))}
+                            <li>
+                              <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => openEditor("task", undefined, cuj.id)}>
+                                <PlusCircle className="h-3 w-3 mr-1" />
+                                Add Task
+                              </Button>
+                            </li>
+                          </ul>
+                        )}
+                      </li>
+                    );
+                  })}
+                  <li>
+                    <Button variant="ghost" size="sm" className="text-xs h-7" onClick={() => openEditor("cuj", undefined, category.id)}>
+                      <PlusCircle className="h-3 w-3 mr-1" />
+                      Add CUJ
+                    </Button>
+                  </li>
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* Create / edit dialog */}
+      <Dialog open={editor !== null} onOpenChange={(open) => !open && setEditor(null)}>
+        <DialogContent>
+          {editor && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editor.id !== undefined ? "Edit" : "Add"} {kindLabels[editor.kind]}</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-3">
+                <div className="space-y-1">
+                  <Label htmlFor="catalog-name">Name</Label>
+                  <Input id="catalog-name" value={editor.form.name} onChange={(e) => updateForm("name", e.target.value)} />
+                </div>
+
+                {editor.kind !== "task" && (
+                  <div className="space-y-1">
+                    <Label htmlFor="catalog-description">Description</Label>
+                    <Textarea id="catalog-description" value={editor.form.description}
+                      onChange={(e) => updateForm("description", e.target.value)} />
+                  </div>
+                )}
+
+                {editor.kind === "category" && (
+                  <div className="space-y-1">
+                    <Label htmlFor="catalog-icon">Icon</Label>
+                    <Input id="catalog-icon" placeholder="category" value={editor.form.icon}
+                      onChange={(e) => updateForm("icon", e.target.value)} />
+                  </div>
+                )}
+
+                {editor.kind === "task" && (
+                  <>
+                    <div className="space-y-1">
+                      <Label htmlFor="catalog-prerequisites">Prerequisites</Label>
+                      <Textarea id="catalog-prerequisites" value={editor.form.prerequisites}
+                        onChange={(e) => updateForm("prerequisites", e.target.value)} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label htmlFor="catalog-expected-outcome">Expected Outcome</Label>
+                      <Textarea id="catalog-expected-outcome" value={editor.form.expectedOutcome}
+                        onChange={(e) => updateForm("expectedOutcome", e.target.value)} />
+                    </div>
+                  </>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setEditor(null)}>Cancel</Button>
+                <Button
+                  onClick={() => saveMutation.mutate(editor)}
+                  disabled={saveMutation.isPending || !editor.form.name.trim() ||
+                    (editor.kind === "task" && !editor.form.expectedOutcome.trim())}
+                >
+                  {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                  Save
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete confirmation */}
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting ? kindLabels[deleting.kind] : ""}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.name}"{deleting?.kind === "category" && " and all of its CUJs and tasks"}
+              {deleting?.kind === "cuj" && " and all of its tasks"} will be removed from the catalog.
+              Items that already have evaluations cannot be deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleting && deleteMutation.mutate(deleting)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  CujDatabaseVersion,
+  CujCatalogDiff,
+  CujCatalogDiffEntry,
+  CujCatalogDiffSection
+} from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { ArrowRight, Loader2, Minus, Pencil, Plus } from "lucide-react";
+
+interface CujVersionDiffProps {
+  versions: CujDatabaseVersion[];
+  activeVersionId?: number;
+}
+
+const fieldLabels: Record<string, string> = {
+  name: "Name",
+  description: "Description",
+  icon: "Icon",
+  prerequisites: "Prerequisites",
+  expectedOutcome: "Expected outcome",
+};
+
+function DiffEntry({ entry, kind }: { entry: CujCatalogDiffEntry; kind: "added" | "removed" | "modified" }) {
+  const styles = {
+    added: { icon: <Plus className="h-3 w-3 text-green-600" />, className: "border-green-200 bg-green-50" },
+    removed: { icon: <Minus className="h-3 w-3 text-red-600" />, className: "border-red-200 bg-red-50" },
+    modified: { icon: <Pencil className="h-3 w-3 text-amber-600" />, className: "border-amber-200 bg-amber-50" },
+  }[kind];
+
+  return (
+    <li className={`rounded border px-3 py-2 text-sm ${styles.className}`}>
+      <div className="flex items-center gap-2 font-medium">
+        {styles.icon}
+        <span>{entry.path.join(" › ")}</span>
+      </div>
+      {entry.changes.length > 0 && (
+        <dl className="mt-1 space-y-1 pl-5 text-xs">
+          {entry.changes.map((change) => (
+            <div key={change.field}>
+              <dt className="text-muted-foreground">{fieldLabels[change.field] || change.field}</dt>
+              <dd>
+                <span className="line-through text-red-700">{change.from ?? "—"}</span>
+                <ArrowRight className="inline h-3 w-3 mx-1 text-muted-foreground" />
+                <span className="text-green-700">{change.to ?? "—"}</span>
+              </dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </li>
+  );
+}
+
+function DiffSection({ title, section }: { title: string; section: CujCatalogDiffSection }) {
+  const total = section.added.length + section.removed.length + section.modified.length;
+
+  return (
+    <div>
+      <h5 className="text-sm font-medium mb-2">
+        {title}{" "}
+        <span className="text-xs font-normal text-muted-foreground">
+          ({section.added.length} added, {section.removed.length} removed, {section.modified.length} modified)
+        </span>
+      </h5>
+      {total === 0 ? (
+        <p className="text-xs text-muted-foreground">No changes</p>
+      ) : (
+        <ul className="space-y-1">
+          {section.added.map((entry) => <DiffEntry key={`added-${entry.toId}`} entry={entry} kind="added" />)}
+          {section.removed.map((entry) => <DiffEntry key={`removed-${entry.fromId}`} entry={entry} kind="removed" />)}
+          {section.modified.map((entry) => <DiffEntry key={`modified-${entry.fromId}`} entry={entry} kind="modified" />)}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function CujVersionDiff({ versions, activeVersionId }: CujVersionDiffProps) {
+  const [fromId, setFromId] = useState<string>("");
+  const [toId, setToId] = useState<string>("");
+
+  // Default to comparing the active catalog against the newest other version
+  useEffect(() => {
+    if (fromId || versions.length < 2) return;
+    const from = activeVersionId ?? versions[0].id;
+    const to = [...versions].reverse().find((version) => version.id !== from);
+    setFromId(String(from));
+    if (to) setToId(String(to.id));
+  }, [versions, activeVersionId, fromId]);
+
+  const canCompare = fromId !== "" && toId !== "" && fromId !== toId;
+
+  const { data: diff, isLoading, error } = useQuery<CujCatalogDiff>({
+    queryKey: [`/api/cuj-database-versions/${fromId}/diff/${toId}`],
+    enabled: canCompare,
+  });
+
+  if (versions.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Import another spreadsheet to compare catalog versions.
+      </p>
+    );
+  }
+
+  const versionLabel = (version: CujDatabaseVersion) =>
+    `${version.versionNumber}${version.id === activeVersionId ? " (active)" : ""}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">From</Label>
+          <Select value={fromId} onValueChange={setFromId}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={String(version.id)}>{versionLabel(version)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+        <div className="space-y-1">
+          <Label className="text-xs">To</Label>
+          <Select value={toId} onValueChange={setToId}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Select version" />
+            </SelectTrigger>
+            <SelectContent>
+              {versions.map((version) => (
+                <SelectItem key={version.id} value={String(version.id)}>{versionLabel(version)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {!canCompare ? (
+        <p className="text-sm text-muted-foreground">Select two different versions to compare.</p>
+      ) : isLoading ? (
+        <div className="flex items-center text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          Comparing versions...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">Failed to load diff: {String(error)}</p>
+      ) : diff ? (
+        <div className="space-y-4">
+          <DiffSection title="Categories" section={diff.categories} />
+          <DiffSection title="CUJs" section={diff.cujs} />
+          <DiffSection title="Tasks" section={diff.tasks} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { DimensionScaleLabel, EvaluationDimension, EvaluationDimensionLevel, ScoringWeightErrors } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Pencil, Plus } from "lucide-react";
+
+type DimensionForm = {
+  name: string;
+  description: string;
+  level: EvaluationDimensionLevel;
+  scaleMin: string;
+  scaleMax: string;
+  feedbackThreshold: string;
+  weight: string;
+  isActive: boolean;
+  labels: Record<number, Omit<DimensionScaleLabel, "value">>;
+};
+
+const emptyForm: DimensionForm = {
+  name: "",
+  description: "",
+  level: "task",
+  scaleMin: "1",
+  scaleMax: "4",
+  feedbackThreshold: "2",
+  weight: "10",
+  isActive: true,
+  labels: {},
+};
+
+const toForm = (dimension: EvaluationDimension): DimensionForm => ({
+  name: dimension.name,
+  description: dimension.description ?? "",
+  level: dimension.level,
+  scaleMin: dimension.scaleMin.toString(),
+  scaleMax: dimension.scaleMax.toString(),
+  feedbackThreshold: dimension.feedbackThreshold?.toString() ?? "",
+  weight: dimension.weight.toString(),
+  isActive: dimension.isActive,
+  labels: Object.fromEntries(dimension.labels.map(({ value, ...label }) => [value, label])),
+});
+
+// Points of the scale being edited, empty while its range isn't valid
+const formPoints = (form: DimensionForm) => {
+  const min = parseInt(form.scaleMin);
+  const max = parseInt(form.scaleMax);
+  if (isNaN(min) || isNaN(max) || max <= min || max - min > 10) return [];
+  return Array.from({ length: max - min + 1 }, (_, index) => min + index);
+};
+
+// The dimension as the API expects it; labels of points outside the scale or left blank are dropped
+const toPayload = (form: DimensionForm) => ({
+  name: form.name,
+  description: form.description.trim() || null,
+  level: form.level,
+  scaleMin: parseInt(form.scaleMin),
+  scaleMax: parseInt(form.scaleMax),
+  feedbackThreshold: form.feedbackThreshold === "" ? null : parseInt(form.feedbackThreshold),
+  weight: parseFloat(form.weight),
+  isActive: form.isActive,
+  labels: formPoints(form)
+    .filter((value) => form.labels[value]?.label.trim())
+    .map((value) => ({ value, ...form.labels[value] })),
+});
+
+function getFieldErrors(error: unknown): ScoringWeightErrors["fieldErrors"] {
+  if (!(error instanceof ApiError) || !error.body || typeof error.body !== "object") return {};
+  return "fieldErrors" in error.body ? (error.body as ScoringWeightErrors).fieldErrors : {};
+}
+
+function FieldErrors({ messages }: { messages?: string[] }) {
+  if (!messages || messages.length === 0) return null;
+  return <p className="text-sm text-destructive mt-1">{messages[0]}</p>;
+}
+
+/**
+ * Rating dimensions of the evaluations, each with its own scale, labels, feedback threshold and
+ * weight. The built-in dimensions are listed too, but only their wording and scale can be changed.
+ * Dimensions are retired rather than deleted so the ratings already given on them are kept, and
+ * the server keeps their scale once they have been rated on.
+ */
+export function EvaluationDimensions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<EvaluationDimension | "new" | null>(null);
+  const [form, setForm] = useState<DimensionForm>(emptyForm);
+  const [fieldErrors, setFieldErrors] = useState<ScoringWeightErrors["fieldErrors"]>({});
+
+  const { data: dimensions, isLoading } = useQuery<EvaluationDimension[]>({
+    queryKey: ["/api/evaluation-dimensions?includeInactive=true"],
+  });
+
+  const invalidateDimensions = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/evaluation-dimensions?includeInactive=true"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/evaluation-dimensions"] });
+  };
+
+  const saveDimension = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<EvaluationDimension>(
+        editing === "new" || !editing
+          ? "/api/admin/evaluation-dimensions"
+          : `/api/admin/evaluation-dimensions/${editing.id}`,
+        {
+          method: editing === "new" ? "POST" : "PATCH",
+          body: JSON.stringify(toPayload(form)),
+        }
+      );
+    },
+    onSuccess: (dimension) => {
+      invalidateDimensions();
+      setEditing(null);
+      toast({
+        title: "Dimension Saved",
+        description: `${dimension.name} is now ${dimension.isActive ? "rated on" : "left off"} ${dimension.level} evaluations.`,
+      });
+    },
+    onError: (error) => {
+      setFieldErrors(getFieldErrors(error));
+      toast({
+        title: "Error Saving Dimension",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleActive = useMutation({
+    mutationFn: async (dimension: EvaluationDimension) => {
+      return await apiRequest<EvaluationDimension>(`/api/admin/evaluation-dimensions/${dimension.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ isActive: !dimension.isActive }),
+      });
+    },
+    onSuccess: invalidateDimensions,
+    onError: (error) => {
+      toast({
+        title: "Error Updating Dimension",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Built-in dimensions are weighed in the scoring config and always rated
+  const editingBuiltIn = editing !== null && editing !== "new" && editing.key !== null;
+
+  const openEditor = (dimension: EvaluationDimension | "new") => {
+    setForm(dimension === "new" ? emptyForm : toForm(dimension));
+    setFieldErrors({});
+    setEditing(dimension);
+  };
+
+  const updateForm = (update: Partial<DimensionForm>) => {
+    setForm({ ...form, ...update });
+  };
+
+  const updateLabel = (value: number, update: Partial<Omit<DimensionScaleLabel, "value">>) => {
+    const current = form.labels[value] ?? { label: "", description: "" };
+    updateForm({ labels: { ...form.labels, [value]: { ...current, ...update } } });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Usability, visuals, responsiveness, writing and emotional take their weights from the scoring config above.
+          Any other rated dimension adds its weight on top of them.
+        </p>
+        <Button size="sm" className="gap-1" onClick={() => openEditor("new")}>
+          <Plus className="h-4 w-4" />
+          Add Dimension
+        </Button>
+      </div>
+
+      {!dimensions || dimensions.length === 0 ? (
+        <p className="text-center py-4 text-muted-foreground">
+          Evaluations are rated on the built-in dimensions only.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Dimension</TableHead>
+              <TableHead>Level</TableHead>
+              <TableHead>Scale</TableHead>
+              <TableHead>Feedback At</TableHead>
+              <TableHead>Weight</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {dimensions.map((dimension) => (
+              <TableRow key={dimension.id}>
+                <TableCell>
+                  <div className="font-medium">{dimension.name}</div>
+                  {dimension.description && (
+                    <div className="text-xs text-muted-foreground">{dimension.description}</div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="secondary">{dimension.level === "task" ? "Task" : "Category"}</Badge>
+                </TableCell>
+                <TableCell>{dimension.scaleMin}–{dimension.scaleMax}</TableCell>
+                <TableCell>
+                  {dimension.feedbackThreshold === null ? "—" : `≤ ${dimension.feedbackThreshold}`}
+                </TableCell>
+                <TableCell>{dimension.key === null ? `${dimension.weight}%` : "Built-in"}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={dimension.isActive}
+                    onCheckedChange={() => toggleActive.mutate(dimension)}
+                    disabled={toggleActive.isPending || dimension.key !== null}
+                  />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button variant="ghost" size="sm" onClick={() => openEditor(dimension)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "Add Dimension" : "Edit Dimension"}</DialogTitle>
+            <DialogDescription>
+              Reviewers rate this dimension on every {form.level} they evaluate while it is active.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              saveDimension.mutate();
+            }}
+          >
+            <div className="grid grid-cols-2 gap-4 py-4">
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="dimensionName">Name *</Label>
+                <Input
+                  id="dimensionName"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="Safety/Distraction"
+                />
+                <FieldErrors messages={fieldErrors.name} />
+              </div>
+
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="dimensionDescription">Question</Label>
+                <Textarea
+                  id="dimensionDescription"
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  placeholder="How much did the task take your attention off the road?"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Level</Label>
+                <Select
+                  value={form.level}
+                  onValueChange={(level) => updateForm({ level: level as EvaluationDimensionLevel })}
+                  disabled={editingBuiltIn}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="task">Task</SelectItem>
+                    <SelectItem value="category">Category</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dimensionWeight">Weight (%)</Label>
+                <Input
+                  id="dimensionWeight"
+                  type="number"
+                  min="0"
+                  max="100"
+                  step="0.01"
+                  value={form.weight}
+                  onChange={(e) => updateForm({ weight: e.target.value })}
+                  disabled={editingBuiltIn}
+                />
+                <FieldErrors messages={fieldErrors.weight} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dimensionScaleMin">Scale From</Label>
+                <Input
+                  id="dimensionScaleMin"
+                  type="number"
+                  min="0"
+                  value={form.scaleMin}
+                  onChange={(e) => updateForm({ scaleMin: e.target.value })}
+                />
+                <FieldErrors messages={fieldErrors.scaleMin} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dimensionScaleMax">Scale To</Label>
+                <Input
+                  id="dimensionScaleMax"
+                  type="number"
+                  max="10"
+                  value={form.scaleMax}
+                  onChange={(e) => updateForm({ scaleMax: e.target.value })}
+                />
+                <FieldErrors messages={fieldErrors.scaleMax} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="dimensionFeedbackThreshold">Require Feedback At Or Below</Label>
+                <Input
+                  id="dimensionFeedbackThreshold"
+                  type="number"
+                  value={form.feedbackThreshold}
+                  onChange={(e) => updateForm({ feedbackThreshold: e.target.value })}
+                  placeholder="Never"
+                />
+                <FieldErrors messages={fieldErrors.feedbackThreshold} />
+              </div>
+
+              <div className="flex items-center space-x-2 self-end pb-2">
+                <Switch
+                  id="dimensionActive"
+                  checked={form.isActive}
+                  onCheckedChange={(isActive) => updateForm({ isActive })}
+                  disabled={editingBuiltIn}
+                />
+                <Label htmlFor="dimensionActive">Active</Label>
+              </div>
+
+              {formPoints(form).length > 0 && (
+                <div className="space-y-2 col-span-2">
+                  <Label>Scale Labels</Label>
+                  {formPoints(form).map((value) => (
+                    <div key={value} className="flex items-center gap-2">
+                      <span className="w-6 text-sm text-muted-foreground text-right">{value}</span>
+                      <Input
+                        className="w-40"
+                        placeholder="Label"
+                        value={form.labels[value]?.label ?? ""}
+                        onChange={(e) => updateLabel(value, { label: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Description"
+                        value={form.labels[value]?.description ?? ""}
+                        onChange={(e) => updateLabel(value, { description: e.target.value })}
+                      />
+                    </div>
+                  ))}
+                  <FieldErrors messages={fieldErrors.labels} />
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="submit" disabled={saveDimension.isPending}>
+                {saveDimension.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Saving...
+                  </>
+                ) : "Save Dimension"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
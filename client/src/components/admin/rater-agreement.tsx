@@ -0,0 +1,202 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AgreementDimension, Car, CarAgreement, RatingSpread } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Loader2 } from "lucide-react";
+
+// Items at or above this disagreement are worth discussing in a calibration session
+const CALIBRATION_THRESHOLD = 0.5;
+
+const dimensionLabels: Record<AgreementDimension, string> = {
+  doable: "Doable",
+  usability: "Usability",
+  visuals: "Visuals",
+  responsiveness: "Responsiveness",
+  writing: "Writing",
+  emotional: "Emotional",
+};
+
+const formatKappa = (kappa: number | null) => (kappa === null ? "N/A" : kappa.toFixed(2));
+
+const formatSpread = (spread: RatingSpread) =>
+  spread.count < 2 ? "N/A" : `${spread.min}–${spread.max} (σ ${spread.stdDev!.toFixed(2)})`;
+
+function DisagreementBadge({ disagreement }: { disagreement: number }) {
+  if (disagreement >= CALIBRATION_THRESHOLD) {
+    return (
+      <Badge variant="destructive" className="whitespace-nowrap">
+        <AlertTriangle className="h-3 w-3 mr-1" />
+        {Math.round(disagreement * 100)}%
+      </Badge>
+    );
+  }
+  return <Badge variant="secondary">{Math.round(disagreement * 100)}%</Badge>;
+}
+
+/**
+ * Inter-rater agreement for one car: kappa per rating dimension and the tasks and
+ * categories reviewers disagree on most, flagged for calibration.
+ */
+export function RaterAgreement() {
+  const [carId, setCarId] = useState<string>("");
+
+  const { data: cars } = useQuery<Car[]>({
+    queryKey: ["/api/cars"],
+  });
+
+  const { data: agreement, isLoading } = useQuery<CarAgreement>({
+    queryKey: [`/api/cars/${carId}/agreement`],
+    enabled: !!carId,
+  });
+
+  const raterName = (id: number) => agreement?.raters.find((rater) => rater.id === id)?.name ?? `#${id}`;
+
+  return (
+    <div className="space-y-6">
+      <Select value={carId} onValueChange={setCarId}>
+        <SelectTrigger className="w-full sm:w-80">
+          <SelectValue placeholder="Select a car" />
+        </SelectTrigger>
+        <SelectContent>
+          {cars?.map((car) => (
+            <SelectItem key={car.id} value={car.id.toString()}>
+              {car.make} {car.model} ({car.year})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {!carId ? (
+        <p className="text-center py-8 text-muted-foreground">Select a car to compare its reviewers.</p>
+      ) : isLoading || !agreement ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : agreement.raters.length < 2 ? (
+        <p className="text-center py-8 text-muted-foreground">
+          Agreement needs evaluations of this car from at least two reviewers.
+        </p>
+      ) : (
+        <>
+          <div>
+            <h4 className="text-sm font-medium mb-2">
+              Agreement by Dimension ({agreement.raters.map((rater) => rater.name).join(", ")})
+            </h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Dimension</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead className="text-right">Fleiss' κ</TableHead>
+                  <TableHead>Cohen's κ per reviewer pair</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {agreement.dimensions.map((dimension) => (
+                  <TableRow key={dimension.dimension}>
+                    <TableCell className="font-medium">{dimensionLabels[dimension.dimension]}</TableCell>
+                    <TableCell className="text-right">{dimension.items}</TableCell>
+                    <TableCell className="text-right">{formatKappa(dimension.fleissKappa)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {dimension.cohensKappa.length === 0
+                        ? "N/A"
+                        : dimension.cohensKappa
+                            .map((pair) => `${raterName(pair.raterIds[0])} / ${raterName(pair.raterIds[1])}: ${formatKappa(pair.kappa)}`)
+                            .join(" · ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-medium mb-2">Tasks by Disagreement</h4>
+            {agreement.tasks.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No task has been evaluated by more than one reviewer.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Task</TableHead>
+                    <TableHead className="text-right">Reviewers</TableHead>
+                    <TableHead className="text-right">Doable Agreement</TableHead>
+                    <TableHead>Usability</TableHead>
+                    <TableHead>Visuals</TableHead>
+                    <TableHead className="text-right">Disagreement</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agreement.tasks.map((entry) => (
+                    <TableRow key={entry.task.id}>
+                      <TableCell>
+                        <div className="font-medium">{entry.task.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {entry.task.categoryName} › {entry.task.cujName}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{entry.raterIds.length}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.doableAgreement === null ? "N/A" : `${Math.round(entry.doableAgreement * 100)}%`}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatSpread(entry.usability)}</TableCell>
+                      <TableCell className="text-sm">{formatSpread(entry.visuals)}</TableCell>
+                      <TableCell className="text-right">
+                        <DisagreementBadge disagreement={entry.disagreement} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          {agreement.categories.length > 0 && (
+            <div>
+              <h4 className="text-sm font-medium mb-2">Categories by Disagreement</h4>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Responsiveness</TableHead>
+                    <TableHead>Writing</TableHead>
+                    <TableHead>Emotional</TableHead>
+                    <TableHead className="text-right">Disagreement</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {agreement.categories.map((entry) => (
+                    <TableRow key={entry.category.id}>
+                      <TableCell className="font-medium">{entry.category.name}</TableCell>
+                      <TableCell className="text-sm">{formatSpread(entry.responsiveness)}</TableCell>
+                      <TableCell className="text-sm">{formatSpread(entry.writing)}</TableCell>
+                      <TableCell className="text-sm">{formatSpread(entry.emotional)}</TableCell>
+                      <TableCell className="text-right">
+                        <DisagreementBadge disagreement={entry.disagreement} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CujCategory, ReviewWithDetails, User } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Crown, Loader2, Trash, UserPlus } from "lucide-react";
+
+interface ReviewParticipantsProps {
+  review: ReviewWithDetails;
+}
+
+const unowned = "none";
+
+/**
+ * Lets admins add reviewers to a review and hand each category of it to one of the participants.
+ */
+export function ReviewParticipants({ review }: ReviewParticipantsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newParticipantId, setNewParticipantId] = useState<string>("");
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  // All categories of the review's catalog version, not just the ones in the admin's scope
+  const { data: categories, isLoading: isLoadingCategories } = useQuery<CujCategory[]>({
+    queryKey: [
+      review.cujDatabaseVersionId
+        ? `/api/cuj-categories?versionId=${review.cujDatabaseVersionId}`
+        : "/api/cuj-categories",
+    ],
+  });
+
+  const invalidateReview = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/reviews/${review.id}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/reviews/${review.id}/categories`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/reviews/${review.id}/tasks`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+  };
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const addParticipantMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      return await apiRequest(`/api/reviews/${review.id}/participants`, {
+        method: "POST",
+        body: JSON.stringify({ userId }),
+      });
+    },
+    onSuccess: () => {
+      invalidateReview();
+      setNewParticipantId("");
+    },
+    onError: showError("Error Adding Participant"),
+  });
+
+  const removeParticipantMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      return await apiRequest(`/api/reviews/${review.id}/participants/${userId}`, { method: "DELETE" });
+    },
+    onSuccess: invalidateReview,
+    onError: showError("Error Removing Participant"),
+  });
+
+  const setOwnerMutation = useMutation({
+    mutationFn: async ({ categoryId, userId }: { categoryId: number; userId: number | null }) => {
+      const url = `/api/reviews/${review.id}/category-owners/${categoryId}`;
+      if (userId === null) {
+        return await apiRequest(url, { method: "DELETE" });
+      }
+      return await apiRequest(url, { method: "PUT", body: JSON.stringify({ userId }) });
+    },
+    onSuccess: invalidateReview,
+    onError: showError("Error Assigning Category Owner"),
+  });
+
+  const candidates = (users || []).filter(
+    (user) =>
+      (user.role === "reviewer" || user.role === "admin") &&
+      !user.deactivatedAt &&
+      !review.participants.some((participant) => participant.id === user.id)
+  );
+
+  const ownerOf = (categoryId: number) =>
+    review.categoryOwners.find((owner) => owner.categoryId === categoryId)?.userId;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-sm font-medium mb-2">Participants</h4>
+        <div className="space-y-2">
+          {review.participants.map((participant) => (
+            <div key={participant.id} className="flex items-center justify-between border rounded-md px-3 py-2">
+              <div className="flex items-center text-sm">
+                {participant.id === review.reviewerId && <Crown className="h-4 w-4 mr-2 text-primary" />}
+                <span className="font-medium">{participant.name}</span>
+                <span className="text-muted-foreground ml-2">
+                  {participant.id === review.reviewerId ? "Lead reviewer" : participant.username}
+                </span>
+              </div>
+              {participant.id !== review.reviewerId && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeParticipantMutation.mutate(participant.id)}
+                  disabled={removeParticipantMutation.isPending}
+                >
+                  <Trash className="h-4 w-4 text-destructive" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-3">
+          <Select value={newParticipantId} onValueChange={setNewParticipantId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select a reviewer" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((user) => (
+                <SelectItem key={user.id} value={user.id.toString()}>
+                  {user.name} ({user.username})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => addParticipantMutation.mutate(parseInt(newParticipantId))}
+            disabled={!newParticipantId || addParticipantMutation.isPending}
+          >
+            {addParticipantMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <UserPlus className="mr-2 h-4 w-4" />
+            )}
+            Add
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">Category Ownership</h4>
+        <p className="text-xs text-muted-foreground mb-3">
+          Owned categories can only be evaluated by their owner. Unowned categories are open to every participant.
+        </p>
+        {isLoadingCategories ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {(categories || []).map((category) => (
+              <div key={category.id} className="flex items-center justify-between gap-4">
+                <span className="text-sm">{category.name}</span>
+                <Select
+                  value={ownerOf(category.id)?.toString() ?? unowned}
+                  onValueChange={(value) =>
+                    setOwnerMutation.mutate({
+                      categoryId: category.id,
+                      userId: value === unowned ? null : parseInt(value),
+                    })
+                  }
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={unowned}>Any participant</SelectItem>
+                    {review.participants.map((participant) => (
+                      <SelectItem key={participant.id} value={participant.id.toString()}>
+                        {participant.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
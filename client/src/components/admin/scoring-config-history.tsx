@@ -0,0 +1,131 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ScoringConfig, User } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDateTime } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCcw } from "lucide-react";
+
+const formatWeights = (weights: number[]) => weights.map((weight) => `${weight}%`).join(" / ");
+
+/**
+ * Lists every version of the scoring config, newest first, and lets admins roll back to an
+ * earlier one. A rollback is recorded as a new version with the earlier weights.
+ */
+export function ScoringConfigHistory() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: history, isLoading } = useQuery<ScoringConfig[]>({
+    queryKey: ["/api/admin/scoring-config/history"],
+  });
+
+  const { data: users } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: async (config: ScoringConfig) => {
+      return await apiRequest<ScoringConfig>(`/api/admin/scoring-config/${config.id}/rollback`, {
+        method: "POST",
+        body: JSON.stringify({}),
+      });
+    },
+    onSuccess: (config, target) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/scoring-config/history"] });
+      toast({
+        title: "Scoring Config Rolled Back",
+        description: `The weights of version ${target.version} are now current as version ${config.version}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Rolling Back",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const userName = (id: number | null) =>
+    id === null ? "System" : users?.find((user) => user.id === id)?.name ?? `#${id}`;
+
+  if (isLoading || !history) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Version</TableHead>
+          <TableHead>Changed</TableHead>
+          <TableHead>Task (Doable / Usability / Visuals)</TableHead>
+          <TableHead>Category (Tasks / Responsiveness / Writing / Emotional)</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {history.map((config, index) => (
+          <TableRow key={config.id}>
+            <TableCell>
+              <div className="flex items-center gap-2">
+                <span className="font-medium">v{config.version}</span>
+                {index === 0 && <Badge variant="secondary">Current</Badge>}
+              </div>
+            </TableCell>
+            <TableCell>
+              <div className="text-sm">{formatDateTime(config.updatedAt)} by {userName(config.updatedBy)}</div>
+              {config.changeNote && (
+                <div className="text-xs text-muted-foreground">{config.changeNote}</div>
+              )}
+            </TableCell>
+            <TableCell className="text-sm">
+              {formatWeights([config.taskDoableWeight, config.taskUsabilityWeight, config.taskVisualsWeight])}
+            </TableCell>
+            <TableCell className="text-sm">
+              {formatWeights([
+                config.categoryTasksWeight,
+                config.categoryResponsivenessWeight,
+                config.categoryWritingWeight,
+                config.categoryEmotionalWeight,
+              ])}
+              {config.categoryOverrides?.length > 0 && (
+                <div className="text-xs text-muted-foreground">
+                  Overridden for {config.categoryOverrides.map((override) => override.categoryName).join(", ")}
+                </div>
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              {index > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => rollbackMutation.mutate(config)}
+                  disabled={rollbackMutation.isPending}
+                >
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                  Roll Back
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
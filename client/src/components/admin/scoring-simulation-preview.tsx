@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ReviewWithDetails, ScoringSimulation, ScoringWeightErrors, ScoringWeightField } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { cn, formatScore } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowDown, ArrowUp, Loader2, Play } from "lucide-react";
+
+type ReviewScope = "all" | "published";
+
+interface ScoringSimulationPreviewProps {
+  weights: Partial<Record<ScoringWeightField, number>>;
+}
+
+const formatDelta = (delta: number | null) =>
+  delta === null ? "—" : delta > 0 ? `+${delta.toFixed(1)}` : delta.toFixed(1);
+
+const deltaClass = (delta: number | null) =>
+  delta === null || delta === 0 ? "text-muted-foreground" : delta > 0 ? "text-green-700" : "text-red-700";
+
+/**
+ * Shows how the weights being edited would change the scores and ranks of the reviews before
+ * they are saved. Nothing is stored until the weights themselves are saved.
+ */
+export function ScoringSimulationPreview({ weights }: ScoringSimulationPreviewProps) {
+  const { toast } = useToast();
+  const [scope, setScope] = useState<ReviewScope>("all");
+  const [simulatedWeights, setSimulatedWeights] = useState<string | null>(null);
+
+  const { data: reviews } = useQuery<ReviewWithDetails[]>({
+    queryKey: ["/api/reviews"],
+  });
+
+  const simulate = useMutation({
+    mutationFn: async () => {
+      const reviewIds = scope === "published"
+        ? (reviews ?? []).filter((review) => review.isPublished).map((review) => review.id)
+        : undefined;
+      return await apiRequest<ScoringSimulation>("/api/admin/scoring-config/simulate", {
+        method: "POST",
+        body: JSON.stringify({ weights, reviewIds }),
+      });
+    },
+    onSuccess: () => {
+      setSimulatedWeights(JSON.stringify(weights));
+    },
+    onError: (error) => {
+      const weightErrors = error instanceof ApiError ? error.body as Partial<ScoringWeightErrors> | null : null;
+      toast({
+        title: "Error Previewing Weights",
+        description: weightErrors?.formErrors?.[0]
+          ?? (error instanceof Error ? error.message : "An unexpected error occurred"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const simulation = simulate.data;
+  const isOutdated = simulation && simulatedWeights !== JSON.stringify(weights);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <Select value={scope} onValueChange={(value) => setScope(value as ReviewScope)}>
+          <SelectTrigger className="w-full sm:w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All reviews</SelectItem>
+            <SelectItem value="published">Published reviews only</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button onClick={() => simulate.mutate()} disabled={simulate.isPending}>
+          {simulate.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Calculating...
+            </>
+          ) : (
+            <>
+              <Play className="mr-2 h-4 w-4" />
+              Preview Impact
+            </>
+          )}
+        </Button>
+        {isOutdated && (
+          <span className="text-sm text-muted-foreground">The weights changed since this preview.</span>
+        )}
+      </div>
+
+      {!simulation ? (
+        <p className="text-center py-4 text-muted-foreground">
+          Edit the weights above, then preview how they would change review scores before saving.
+        </p>
+      ) : simulation.reviews.length === 0 ? (
+        <p className="text-center py-4 text-muted-foreground">There are no reviews to score.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Review</TableHead>
+              <TableHead>Current</TableHead>
+              <TableHead>Preview</TableHead>
+              <TableHead>Change</TableHead>
+              <TableHead>Rank</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {simulation.reviews.map((review) => {
+              const changedCategories = review.categories.filter((category) => category.delta);
+              const rankChange = review.currentRank !== null && review.simulatedRank !== null
+                ? review.currentRank - review.simulatedRank
+                : 0;
+              return (
+                <TableRow key={review.reviewId}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">
+                        {review.car.make} {review.car.model} ({review.car.year})
+                      </span>
+                      {review.isPublished && <Badge variant="secondary">Published</Badge>}
+                    </div>
+                    {changedCategories.length > 0 && (
+                      <div className="text-xs text-muted-foreground">
+                        {changedCategories.map((category) => (
+                          <span key={category.categoryId} className="mr-3">
+                            {category.categoryName}{" "}
+                            <span className={deltaClass(category.delta)}>{formatDelta(category.delta)}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatScore(review.currentScore)}</TableCell>
+                  <TableCell className="font-medium">{formatScore(review.simulatedScore)}</TableCell>
+                  <TableCell className={cn("font-medium", deltaClass(review.delta))}>
+                    {formatDelta(review.delta)}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <span>{review.currentRank ?? "—"}</span>
+                      <span className="text-muted-foreground">→</span>
+                      <span className="font-medium">{review.simulatedRank ?? "—"}</span>
+                      {rankChange > 0 && <ArrowUp className="h-4 w-4 text-green-700" />}
+                      {rankChange < 0 && <ArrowDown className="h-4 w-4 text-red-700" />}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { SignInDomain } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { formatDateTime } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Plus, Trash } from "lucide-react";
+
+// The first reason the API gave for rejecting the domain
+function getDomainError(error: unknown): string | null {
+  if (!(error instanceof ApiError) || !error.body || typeof error.body !== "object") return null;
+  const body = error.body as { error?: string; fieldErrors?: Record<string, string[]> };
+  return body.fieldErrors?.domain?.[0] ?? body.error ?? null;
+}
+
+/**
+ * The email domains allowed to sign in with single sign-on. While none are listed, anyone the
+ * provider signs in may use the app.
+ */
+export function SignInDomains() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [domain, setDomain] = useState("");
+  const [domainError, setDomainError] = useState<string | null>(null);
+
+  const { data: domains, isLoading } = useQuery<SignInDomain[]>({
+    queryKey: ["/api/admin/sign-in-domains"],
+  });
+
+  const addDomain = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<SignInDomain>("/api/admin/sign-in-domains", {
+        method: "POST",
+        body: JSON.stringify({ domain }),
+      });
+    },
+    onSuccess: (added) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sign-in-domains"] });
+      setDomain("");
+      setDomainError(null);
+      toast({
+        title: "Domain Allowed",
+        description: `Users with ${added.domain} emails can now sign in with single sign-on.`,
+      });
+    },
+    onError: (error) => {
+      setDomainError(getDomainError(error) ?? (error instanceof Error ? error.message : "An unexpected error occurred"));
+    },
+  });
+
+  const removeDomain = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/admin/sign-in-domains/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sign-in-domains"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Removing Domain",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        {domains && domains.length > 0
+          ? "Only users whose verified email belongs to one of these domains can sign in with single sign-on."
+          : "Anyone your single sign-on provider signs in can use the app. Add a domain to limit sign-ins to it."}
+      </p>
+
+      <form
+        className="flex flex-col sm:flex-row gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          addDomain.mutate();
+        }}
+      >
+        <div className="flex-1">
+          <Input
+            placeholder="example.com"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            aria-invalid={domainError !== null}
+          />
+          {domainError && <p className="text-sm text-destructive mt-1">{domainError}</p>}
+        </div>
+        <Button type="submit" disabled={!domain.trim() || addDomain.isPending}>
+          {addDomain.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="mr-2 h-4 w-4" />
+          )}
+          Allow Domain
+        </Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : domains && domains.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Domain</TableHead>
+              <TableHead>Added</TableHead>
+              <TableHead className="w-16"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {domains.map((allowed) => (
+              <TableRow key={allowed.id}>
+                <TableCell className="font-medium">{allowed.domain}</TableCell>
+                <TableCell>{formatDateTime(allowed.createdAt)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeDomain.mutate(allowed.id)}
+                    disabled={removeDomain.isPending}
+                    aria-label={`Remove ${allowed.domain}`}
+                  >
+                    <Trash className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,403 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  ImportError,
+  User,
+  UserImportResult,
+  UserReassignmentResult,
+  UserRole,
+  userRoles,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, Loader2, Pencil, Upload, UserCheck, UserX, X } from "lucide-react";
+
+const NO_REASSIGNMENT = "none";
+
+/**
+ * Every user of the app: edit their name and role, deactivate users who leave after handing
+ * their open reviews and assignments to someone else, and import new users from a CSV with
+ * Username, Name, Role and Password columns.
+ */
+export function UserManagement() {
+  const { user: currentUser } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importErrors, setImportErrors] = useState<ImportError[]>([]);
+  const [editing, setEditing] = useState<User | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editRole, setEditRole] = useState<UserRole>("reviewer");
+  const [deactivating, setDeactivating] = useState<User | null>(null);
+  const [reassignTo, setReassignTo] = useState(NO_REASSIGNMENT);
+
+  const { data: users, isLoading } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred",
+      variant: "destructive",
+    });
+  };
+
+  const updateUser = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<User>(`/api/users/${editing!.id}`, {
+        method: "PATCH",
+        body: JSON.stringify({ name: editName, role: editRole }),
+      });
+    },
+    onSuccess: (updated) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setEditing(null);
+      toast({
+        title: "User Updated",
+        description: `${updated.name} is now ${updated.role === "admin" ? "an" : "a"} ${updated.role}.`,
+      });
+    },
+    onError: showError("Error Updating User"),
+  });
+
+  // Reassigns first, so a failed reassignment leaves the user active to try again
+  const deactivateUser = useMutation({
+    mutationFn: async () => {
+      const user = deactivating!;
+      let reassigned: UserReassignmentResult | null = null;
+      if (reassignTo !== NO_REASSIGNMENT) {
+        reassigned = await apiRequest<UserReassignmentResult>(`/api/users/${user.id}/reassign`, {
+          method: "POST",
+          body: JSON.stringify({ toUserId: parseInt(reassignTo) }),
+        });
+      }
+      const deactivated = await apiRequest<User>(`/api/users/${user.id}/deactivate`, { method: "POST" });
+      return { deactivated, reassigned };
+    },
+    onSuccess: ({ deactivated, reassigned }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reviewer-assignments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reviewer-assignments/coverage"] });
+      setDeactivating(null);
+      toast({
+        title: "User Deactivated",
+        description: reassigned
+          ? `${deactivated.name} can no longer sign in. ${reassigned.reviews} open review(s) and ${reassigned.assignments} assignment(s) were handed over.`
+          : `${deactivated.name} can no longer sign in.`,
+      });
+    },
+    onError: showError("Error Deactivating User"),
+  });
+
+  const reactivateUser = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest<User>(`/api/users/${id}/reactivate`, { method: "POST" });
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "User Reactivated",
+        description: `${user.name} can sign in again.`,
+      });
+    },
+    onError: showError("Error Reactivating User"),
+  });
+
+  // Uses fetch directly because apiRequest always sends JSON and the upload is multipart
+  const importUsers = useMutation({
+    mutationFn: async (file: File): Promise<UserImportResult> => {
+      const formData = new FormData();
+      formData.append("file", file);
+
+      const response = await fetch("/api/users/import", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      const result = await response.json();
+
+      // Row validation problems come back as a report rather than a failure
+      if (!response.ok && !result.errors) {
+        throw new Error(result.message || result.error || response.statusText);
+      }
+      return result;
+    },
+    onSuccess: (data) => {
+      setImportErrors(data.errors || []);
+
+      if (!data.success) {
+        toast({
+          title: "CSV Needs Fixes",
+          description: data.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: "Users Imported",
+        description: data.message,
+      });
+    },
+    onError: showError("Error Importing Users"),
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      importUsers.mutate(file);
+    }
+    // Lets the same file be picked again after fixing it
+    e.target.value = "";
+  };
+
+  const openEdit = (user: User) => {
+    setEditing(user);
+    setEditName(user.name);
+    setEditRole(user.role as UserRole);
+  };
+
+  const openDeactivate = (user: User) => {
+    setDeactivating(user);
+    setReassignTo(NO_REASSIGNMENT);
+  };
+
+  // Reviews and assignments can only go to active reviewers
+  const reassignCandidates = (users || []).filter(
+    (user) =>
+      user.id !== deactivating?.id &&
+      !user.deactivatedAt &&
+      (user.role === "reviewer" || user.role === "admin")
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          Deactivated users keep their reviews but can no longer sign in.
+        </p>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={importUsers.isPending}
+        >
+          {importUsers.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 h-4 w-4" />
+          )}
+          Import CSV
+        </Button>
+      </div>
+
+      {/* Row-level problems from the last import */}
+      {importErrors.length > 0 && (
+        <div className="border border-destructive/30 rounded-md">
+          <div className="p-3 flex items-center justify-between bg-destructive/5 border-b border-destructive/30">
+            <h4 className="text-sm font-medium text-destructive flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              {importErrors.length} problem(s) found. Nothing was imported.
+            </h4>
+            <Button variant="ghost" size="sm" onClick={() => setImportErrors([])}>
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Row</TableHead>
+                  <TableHead className="w-32">Column</TableHead>
+                  <TableHead>Problem</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {importErrors.map((error, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{error.row || "—"}</TableCell>
+                    <TableCell>{error.column || "—"}</TableCell>
+                    <TableCell>{error.message}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>User</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {users?.map((user) => (
+              <TableRow key={user.id} className={user.deactivatedAt ? "text-muted-foreground" : undefined}>
+                <TableCell>
+                  <div className="font-medium">{user.name}</div>
+                  <div className="text-xs text-muted-foreground">{user.username}</div>
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="capitalize">{user.role}</Badge>
+                </TableCell>
+                <TableCell>
+                  {user.deactivatedAt ? (
+                    <Badge variant="destructive">Deactivated</Badge>
+                  ) : (
+                    <Badge variant="secondary">Active</Badge>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => openEdit(user)} aria-label={`Edit ${user.name}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    {user.deactivatedAt ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => reactivateUser.mutate(user.id)}
+                        disabled={reactivateUser.isPending}
+                      >
+                        <UserCheck className="mr-2 h-4 w-4" />
+                        Reactivate
+                      </Button>
+                    ) : user.id !== currentUser?.id && (
+                      <Button variant="outline" size="sm" onClick={() => openDeactivate(user)}>
+                        <UserX className="mr-2 h-4 w-4" />
+                        Deactivate
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {/* Edit User Dialog */}
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit {editing?.username}</DialogTitle>
+            <DialogDescription>Usernames can't be changed, as sign-ins match on them.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="user-name">Name</Label>
+              <Input id="user-name" value={editName} onChange={(e) => setEditName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="user-role">Role</Label>
+              <Select
+                value={editRole}
+                onValueChange={(value) => setEditRole(value as UserRole)}
+                disabled={editing?.id === currentUser?.id}
+              >
+                <SelectTrigger id="user-role" className="capitalize">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {userRoles.map((role) => (
+                    <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter className="flex space-x-2 justify-end">
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button onClick={() => updateUser.mutate()} disabled={!editName.trim() || updateUser.isPending}>
+              {updateUser.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Deactivate User Dialog */}
+      <Dialog open={deactivating !== null} onOpenChange={(open) => !open && setDeactivating(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Deactivate {deactivating?.name}</DialogTitle>
+            <DialogDescription>
+              They are signed out everywhere and can no longer sign in. Completed reviews keep them as their reviewer.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Label htmlFor="reassign-to">Hand open reviews and assignments to</Label>
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger id="reassign-to">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_REASSIGNMENT}>Nobody, leave them as they are</SelectItem>
+                {reassignCandidates.map((user) => (
+                  <SelectItem key={user.id} value={user.id.toString()}>
+                    {user.name} ({user.username})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter className="flex space-x-2 justify-end">
+            <Button variant="outline" onClick={() => setDeactivating(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={() => deactivateUser.mutate()} disabled={deactivateUser.isPending}>
+              {deactivateUser.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Deactivate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
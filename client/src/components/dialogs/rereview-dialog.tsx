@@ -0,0 +1,128 @@
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Review, ReviewWithDetails } from "@shared/schema";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { RefreshCw } from "lucide-react";
+
+interface ReReviewDialogProps {
+  review: ReviewWithDetails;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReReviewCreated: (review: Review) => void;
+}
+
+/**
+ * Starts a review of a new build of the car, linked to the current review so regressions
+ * between the two builds can be tracked.
+ */
+export function ReReviewDialog({
+  review,
+  open,
+  onOpenChange,
+  onReReviewCreated,
+}: ReReviewDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [build, setBuild] = useState({ androidVersion: "", buildFingerprint: "" });
+
+  const reReviewMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<Review>(`/api/reviews/${review.id}/rereview`, {
+        method: "POST",
+        body: JSON.stringify(build),
+      });
+    },
+    onSuccess: (newReview) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reviews"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/cars"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${review.id}/build-history`] });
+      toast({
+        title: "Re-review created",
+        description: `A review of the new ${review.car.make} ${review.car.model} build has been started.`,
+      });
+      setBuild({ androidVersion: "", buildFingerprint: "" });
+      onOpenChange(false);
+      onReReviewCreated(newReview);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error creating re-review",
+        description: String(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setBuild({ ...build, [e.target.name]: e.target.value });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    reReviewMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>Re-review a New Build</DialogTitle>
+          <DialogDescription>
+            Review the {review.car.make} {review.car.model} ({review.car.year}) again on a new build. It was
+            last reviewed on Android {review.car.androidVersion}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-2 gap-4 py-4">
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="androidVersion">Android Version *</Label>
+              <Input
+                id="androidVersion"
+                name="androidVersion"
+                value={build.androidVersion}
+                onChange={handleInputChange}
+                placeholder={review.car.androidVersion}
+                required
+              />
+            </div>
+
+            <div className="space-y-2 col-span-2">
+              <Label htmlFor="buildFingerprint">Build Fingerprint</Label>
+              <Input
+                id="buildFingerprint"
+                name="buildFingerprint"
+                value={build.buildFingerprint}
+                onChange={handleInputChange}
+                placeholder={review.car.buildFingerprint}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="submit"
+              className="flex gap-2 items-center"
+              disabled={reReviewMutation.isPending}
+            >
+              <RefreshCw className="h-4 w-4" />
+              {reReviewMutation.isPending ? "Creating..." : "Start Re-review"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
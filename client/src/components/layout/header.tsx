@@ -1,7 +1,7 @@
 import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { getUserInitials } from "@/lib/utils";
-import { Car, LogOut, User } from "lucide-react";
+import { Car, KeyRound, Laptop, LogOut, User } from "lucide-react";
 import { useLocation } from "wouter";
 import {
   DropdownMenu,
@@ -51,6 +51,16 @@ function Header() {
               Reviews
             </Button>
           )}
+
+          {canReviewCars(user) && (
+            <Button 
+              variant="ghost" 
+              onClick={() => setLocation('/comparisons')}
+              className="px-4 h-10"
+            >
+              Compare
+            </Button>
+          )}
           
           {canAccessAdminSettings(user) && (
             <Button 
@@ -86,6 +96,14 @@ function Header() {
                   Role: <span className="ml-1 capitalize font-medium">{user.role}</span>
                 </span>
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setLocation('/account/api-tokens')} className="flex items-center">
+                <KeyRound className="mr-2 h-4 w-4" />
+                <span>API Tokens</span>
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setLocation('/account/sessions')} className="flex items-center">
+                <Laptop className="mr-2 h-4 w-4" />
+                <span>Sessions</span>
+              </DropdownMenuItem>
               <DropdownMenuSeparator />
               <DropdownMenuItem onClick={handleLogout} className="text-red-600 focus:text-red-600">
                 <LogOut className="mr-2 h-4 w-4" />
@@ -1,7 +1,7 @@
 import { useLocation } from "wouter";
 import { useAuth } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
-import { ClipboardCheck, History, Settings } from "lucide-react";
+import { ClipboardCheck, GitCompare, History, Settings } from "lucide-react";
 import { canAccessAdminSettings, canReviewCars } from "@/lib/auth";
 
 function MobileNav() {
@@ -22,6 +22,17 @@ function MobileNav() {
           <span className="text-xs">Reviews</span>
         </Button>
       )}
+
+      {canReviewCars(user) && (
+        <Button
+          variant="ghost" 
+          className={`flex flex-col items-center px-4 py-2 h-auto ${location.startsWith('/comparisons') ? 'text-primary' : 'text-gray-500'}`}
+          onClick={() => setLocation('/comparisons')}
+        >
+          <GitCompare className="h-5 w-5 mb-1" />
+          <span className="text-xs">Compare</span>
+        </Button>
+      )}
       
       <Button
         variant="ghost" 
@@ -0,0 +1,126 @@
+import { DimensionRating, EvaluationDimension } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+interface DimensionRatingFieldsProps {
+  dimensions: EvaluationDimension[];
+  value: DimensionRating[];
+  onChange: (ratings: DimensionRating[]) => void;
+}
+
+type ScaleDefinition = Pick<EvaluationDimension, "scaleMin" | "scaleMax" | "labels">;
+
+// Colors the points of any scale like the 1-4 ratings, from poor at the bottom to excellent at the top
+const pointClass = (dimension: ScaleDefinition, point: number) => {
+  const position = (point - dimension.scaleMin) / (dimension.scaleMax - dimension.scaleMin);
+  return position < 0.25 ? "border-score-poor bg-score-poor/20"
+    : position < 0.5 ? "border-score-fair bg-score-fair/20"
+    : position < 0.75 ? "border-score-good bg-score-good/20"
+    : "border-score-excellent bg-score-excellent/20";
+};
+
+const scalePoints = (dimension: ScaleDefinition) =>
+  Array.from({ length: dimension.scaleMax - dimension.scaleMin + 1 }, (_, index) => dimension.scaleMin + index);
+
+interface DimensionScaleProps {
+  dimension: ScaleDefinition;
+  id: string; // prefix of the ids of the points
+  value: number | undefined;
+  onChange: (score: number) => void;
+}
+
+/**
+ * The points of a dimension's scale to pick a rating from, each with its label and description.
+ */
+export function DimensionScale({ dimension, id, value, onChange }: DimensionScaleProps) {
+  return (
+    <RadioGroup
+      value={value !== undefined ? value.toString() : ""}
+      onValueChange={(score) => onChange(Number(score))}
+      className="grid gap-2 w-full"
+      style={{ gridTemplateColumns: `repeat(${scalePoints(dimension).length}, minmax(0, 1fr))` }}
+    >
+      {scalePoints(dimension).map((point) => {
+        const label = dimension.labels.find((entry) => entry.value === point);
+        return (
+          <div key={point} className="flex flex-col items-center">
+            <div className="text-center mb-2">
+              {label && <span className="font-medium text-sm block">{label.label}</span>}
+              <span className="text-xs block">{point}</span>
+            </div>
+            <RadioGroupItem
+              value={point.toString()}
+              id={`${id}-${point}`}
+              className={`w-10 h-10 rounded-full border-2 ${pointClass(dimension, point)}`}
+            />
+            {label?.description && (
+              <div className="mt-2 text-center">
+                <p className="text-xs text-muted-foreground">{label.description}</p>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </RadioGroup>
+  );
+}
+
+/**
+ * Rating questions for the dimensions admins defined next to the built-in ones, each on its own
+ * scale. Asks for feedback when a rating is at or below the dimension's feedback threshold.
+ */
+export function DimensionRatingFields({ dimensions, value, onChange }: DimensionRatingFieldsProps) {
+  const ratingOf = (dimension: EvaluationDimension) =>
+    value.find((rating) => rating.dimensionId === dimension.id);
+
+  const setRating = (dimension: EvaluationDimension, update: Partial<DimensionRating>) => {
+    const current = ratingOf(dimension);
+    const others = value.filter((rating) => rating.dimensionId !== dimension.id);
+    onChange([...others, { dimensionId: dimension.id, score: current?.score ?? dimension.scaleMin, ...current, ...update }]);
+  };
+
+  return (
+    <>
+      {dimensions.map((dimension) => {
+        const rating = ratingOf(dimension);
+        const needsFeedback = rating !== undefined
+          && dimension.feedbackThreshold !== null
+          && rating.score <= dimension.feedbackThreshold;
+
+        return (
+          <Card key={dimension.id}>
+            <CardContent className="p-4">
+              <h4 className="font-medium">{dimension.name}</h4>
+              {dimension.description && (
+                <p className="text-sm text-muted-foreground mb-4">{dimension.description}</p>
+              )}
+
+              <DimensionScale
+                dimension={dimension}
+                id={`dimension-${dimension.id}`}
+                value={rating?.score}
+                onChange={(score) => setRating(dimension, { score })}
+              />
+
+              {needsFeedback && (
+                <div className="mt-4 space-y-2">
+                  <Label htmlFor={`dimension-${dimension.id}-feedback`}>
+                    Please provide details about the {dimension.name.toLowerCase()} issues
+                  </Label>
+                  <Textarea
+                    id={`dimension-${dimension.id}-feedback`}
+                    placeholder="Describe the specific issues you experienced..."
+                    value={rating.feedback ?? ""}
+                    onChange={(e) => setRating(dimension, { feedback: e.target.value })}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </>
+  );
+}
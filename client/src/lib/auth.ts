@@ -6,7 +6,7 @@ interface AuthState {
   user: User | null;
   loading: boolean;
   error: string | null;
-  login: (username: string, password?: string) => Promise<void>;
+  login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
   checkAuth: () => Promise<void>;
 }
@@ -17,8 +17,8 @@ export const useAuth = create<AuthState>((set) => ({
   loading: true,
   error: null,
   
-  login: async (username: string, password: string = '') => {
-    console.log(`Attempting login with LDAP: ${username}`);
+  login: async (username: string, password: string) => {
+    console.log(`Attempting login: ${username}`);
     set({ loading: true, error: null });
     try {
       console.log('Making login request...');
@@ -31,10 +31,7 @@ export const useAuth = create<AuthState>((set) => ({
       const res = await fetch('/api/auth/login', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          username,
-          password: 'placeholder' // Send a placeholder to satisfy Passport's basic requirement
-        }), 
+        body: JSON.stringify({ username, password }), 
         credentials: 'include',
       });
       
@@ -156,7 +153,7 @@ export const useAuth = create<AuthState>((set) => ({
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ 
                   username: 'reviewer',
-                  password: 'placeholder' // Send placeholder for Passport
+                  password: 'review123' // Local development account
                 }),
                 credentials: 'include',
               });
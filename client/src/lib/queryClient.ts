@@ -1,9 +1,23 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Keeps the parsed JSON body of a failed request, e.g. for field errors to show inline
+export class ApiError extends Error {
+  constructor(public status: number, text: string, public body: unknown) {
+    super(`${status}: ${text}`);
+    this.name = "ApiError";
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let body: unknown = null;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Not every error response is JSON
+    }
+    throw new ApiError(res.status, text, body);
   }
 }
 
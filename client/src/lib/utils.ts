@@ -1,8 +1,6 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
 import { 
-  TaskEvaluation, 
-  CategoryEvaluation, 
   scoringScaleDescriptions,
   TaskEvaluationWithTask,
   CategoryEvaluationWithCategory,
@@ -10,9 +8,27 @@ import {
   ReviewWithDetails,
   TaskWithCategory,
   CujCategory,
-  Task
+  Task,
+  ScoreBreakdown,
+  BuildRegressions,
+  TaskBuildResult,
+  DimensionRating,
+  EvaluationDimension,
+  BuiltInDimensionKey,
+  builtInDimensionDefinitions
 } from "@shared/schema";
 import FileSaver from 'file-saver';
+import { dimensionRatingError, listNotApplicableTasks } from "@shared/scoring";
+
+// Scoring lives in shared/ so the server can use it without pulling in client code
+export {
+  calculateTaskScore,
+  calculateCategoryScore,
+  calculateOverallScore,
+  getCategoryWeights,
+  calculateScoreBreakdown,
+  listNotApplicableTasks
+} from "@shared/scoring";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
@@ -96,123 +112,45 @@ export function getScoreDescription(score: number | null | undefined, type: keyo
   return scoringScaleDescriptions[type]?.[roundedScore]?.description || "";
 }
 
-// Calculate task evaluation score based on weights
-export function calculateTaskScore(
-  evaluation: Partial<TaskEvaluation> | null,
-  weights?: { doable: number, usability: number, visuals: number }
-): number | null {
-  if (!evaluation) return null;
-  
-  // Default weights based on requirements (as percentages)
-  // Doable: 43.75%, Usability: 37.5%, Visuals: 18.75%
-  const defaultWeights = {
-    doable: 43.75,
-    usability: 37.5,
-    visuals: 18.75
-  };
-  
-  // Use provided weights or defaults
-  const useWeights = weights || defaultWeights;
-  
-  // Ensure we have values to calculate with
-  if (evaluation.doable === undefined || evaluation.doable === null) {
-    return null;
-  }
-  
-  let score = 0;
-  let maxPossibleScore = 100; // Scale to percentage (0-100)
-  
-  // Doable is binary - full score (43.75%) or zero
-  // Yes = 43.75%/43.75% of task score, No = 0%/43.75% of task score
-  score += (evaluation.doable ? useWeights.doable : 0);
-  
-  // Usability & Interaction: 37.5% of task score, scaled between 1-4
-  if (evaluation.usabilityScore !== undefined && evaluation.usabilityScore !== null) {
-    // Convert 1-4 scale to percentage of the 37.5% weight
-    score += (evaluation.usabilityScore / 4) * useWeights.usability;
-  } else {
-    maxPossibleScore -= useWeights.usability;
-  }
-  
-  // Visuals: 18.75% of task score, scaled between 1-4
-  if (evaluation.visualsScore !== undefined && evaluation.visualsScore !== null) {
-    // Convert 1-4 scale to percentage of the 18.75% weight
-    score += (evaluation.visualsScore / 4) * useWeights.visuals;
-  } else {
-    maxPossibleScore -= useWeights.visuals;
+// Scores of the task evaluations in a breakdown, by evaluation id
+function getTaskScoresByEvaluationId(breakdown: ScoreBreakdown): Map<number, number | null> {
+  const taskScores = new Map<number, number | null>();
+  for (const category of breakdown.categories) {
+    for (const task of category.cujs.flatMap(cuj => cuj.tasks)) {
+      if (task.evaluationId !== null) taskScores.set(task.evaluationId, task.score);
+    }
   }
-  
-  // If we can't calculate a meaningful score, return null
-  if (maxPossibleScore === 0) return null;
-  
-  // Return score as a percentage (0-100)
-  return parseFloat((score).toFixed(1));
+  return taskScores;
 }
 
-// Calculate category evaluation score based on weights
-export function calculateCategoryScore(
-  taskAvgScore: number | null,
-  categoryEval: Partial<CategoryEvaluation> | null,
-  weights?: { 
-    tasks: number, 
-    responsiveness: number, 
-    writing: number, 
-    emotional: number 
-  }
-): number | null {
-  if (!categoryEval && taskAvgScore === null) return null;
-  
-  // Default weights based on requirements (as percentages)
-  // Tasks: 80%, Responsiveness: 15%, Writing: 5%, Emotional: 5% (bonus)
-  const defaultWeights = {
-    tasks: 80,
-    responsiveness: 15,
-    writing: 5,
-    emotional: 5 // Bonus
-  };
-  
-  // Use provided weights or defaults
-  const useWeights = weights || defaultWeights;
-  
-  let score = 0;
-  let maxPossibleScore = 100; // Scale to percentage (0-100)
-  
-  // Average of all task scores (80% of overall score)
-  if (taskAvgScore !== null) {
-    // Convert task score (0-100) to percentage of 80% weight
-    score += taskAvgScore * (useWeights.tasks / 100);
-  } else {
-    maxPossibleScore -= useWeights.tasks;
-  }
-  
-  // System Feedback & Responsiveness (15% of overall score)
-  if (categoryEval?.responsivenessScore !== undefined && categoryEval.responsivenessScore !== null) {
-    // Convert 1-4 scale to percentage of 15% weight
-    score += (categoryEval.responsivenessScore / 4) * useWeights.responsiveness;
-  } else {
-    maxPossibleScore -= useWeights.responsiveness;
-  }
-  
-  // Writing (5% of overall score)
-  if (categoryEval?.writingScore !== undefined && categoryEval.writingScore !== null) {
-    // Convert 1-4 scale to percentage of 5% weight
-    score += (categoryEval.writingScore / 4) * useWeights.writing;
-  } else {
-    maxPossibleScore -= useWeights.writing;
+// First problem with the ratings of an evaluation on admin-defined dimensions: one left unrated,
+// off its scale or missing the feedback its rating needs
+export function getDimensionRatingsError(dimensions: EvaluationDimension[], ratings: DimensionRating[]): string | null {
+  for (const dimension of dimensions) {
+    const rating = ratings.find((entry) => entry.dimensionId === dimension.id);
+    const error = rating ? dimensionRatingError(dimension, rating) : `Please rate ${dimension.name}`;
+    if (error) return error;
   }
-  
-  // If we can't calculate a meaningful score, return null
-  if (maxPossibleScore === 0) return null;
-  
-  // Emotional score is a bonus (5% overall score)
-  // Only add this if it exists, but don't reduce maxPossibleScore if missing
-  if (categoryEval?.emotionalScore !== undefined && categoryEval.emotionalScore !== null) {
-    // Convert 1-4 scale to percentage of 5% weight
-    score += (categoryEval.emotionalScore / 4) * useWeights.emotional;
-  }
-  
-  // Return score as a percentage (0-100)
-  return parseFloat(score.toFixed(1));
+  return null;
+}
+
+export type BuiltInDimension = Pick<EvaluationDimension, "name" | "description" | "scaleMin" | "scaleMax" | "labels" | "feedbackThreshold">;
+
+// Definition of a built-in dimension, the seeded one until the definitions admins manage have loaded
+export function getBuiltInDimension(dimensions: EvaluationDimension[], key: BuiltInDimensionKey): BuiltInDimension {
+  const definition = dimensions.find((dimension) => dimension.key === key)
+    ?? builtInDimensionDefinitions.find((dimension) => dimension.key === key)!;
+  return { ...definition, description: definition.description ?? null, feedbackThreshold: definition.feedbackThreshold ?? null };
+}
+
+// Whether a built-in rating is low enough for the evaluation forms to ask what went wrong
+export function asksForFeedback(dimension: BuiltInDimension, score: number | undefined): boolean {
+  return score !== undefined && dimension.feedbackThreshold !== null && score <= dimension.feedbackThreshold;
+}
+
+// A built-in rating out of the top of its dimension's scale, e.g. "3/4"
+function formatRating(rating: number | string | null, dimensions: EvaluationDimension[], key: BuiltInDimensionKey): string {
+  return `${rating}/${getBuiltInDimension(dimensions, key).scaleMax}`;
 }
 
 // Format a score as a fixed decimal
@@ -232,11 +170,13 @@ export function getUserInitials(name: string): string {
     .join('');
 }
 
-// Export review data to CSV
+// Export review data to CSV. Ratings are shown out of the scales of the dimensions given
 export function exportReviewToCSV(
   review: ReviewWithDetails, 
   taskEvaluations: TaskEvaluationWithTask[], 
-  categoryEvaluations: CategoryEvaluationWithCategory[]
+  categoryEvaluations: CategoryEvaluationWithCategory[],
+  breakdown: ScoreBreakdown,
+  dimensions: EvaluationDimension[] = []
 ): void {
   // Format headers
   const headers = [
@@ -248,6 +188,7 @@ export function exportReviewToCSV(
     'Usability Score',
     'Visuals Score',
     'Task Score',
+    'CUJ Score',
     'Task Feedback'
   ];
 
@@ -273,6 +214,8 @@ export function exportReviewToCSV(
 
   // Get all evaluation data rows
   const rows: string[][] = [];
+  const taskScores = getTaskScoresByEvaluationId(breakdown);
+  const cujScores = new Map(breakdown.categories.flatMap(category => category.cujs).map(cuj => [cuj.cujId, cuj.score]));
 
   // Process each category and its tasks
   Object.values(categoriesMap).forEach(({ category, tasks }) => {
@@ -287,16 +230,18 @@ export function exportReviewToCSV(
         'Overall Assessment',
         'Yes',
         'N/A',
-        `Responsiveness: ${categoryEval.responsivenessScore}/4`,
-        `Writing: ${categoryEval.writingScore}/4`,
-        `Emotional: ${categoryEval.emotionalScore}/4`,
-        categoryEval.responsivenessScore !== null && categoryEval.responsivenessScore <= 2 ? categoryEval.responsivenessFeedback || 'No feedback' : 'N/A'
+        `Responsiveness: ${formatRating(categoryEval.responsivenessScore, dimensions, 'responsiveness')}`,
+        `Writing: ${formatRating(categoryEval.writingScore, dimensions, 'writing')}`,
+        `Emotional: ${formatRating(categoryEval.emotionalScore, dimensions, 'emotional')}`,
+        'N/A',
+        asksForFeedback(getBuiltInDimension(dimensions, 'responsiveness'), categoryEval.responsivenessScore ?? undefined)
+          ? categoryEval.responsivenessFeedback || 'No feedback' : 'N/A'
       ]);
     }
     
-    // Add all tasks for this category
-    tasks.forEach(taskEval => {
-      const taskScore = calculateTaskScore(taskEval);
+    // Add all tasks for this category; tasks that don't apply to the car are listed at the end
+    tasks.filter(taskEval => !taskEval.notApplicable).forEach(taskEval => {
+      const taskScore = taskScores.get(taskEval.id);
       
       rows.push([
         category.name,
@@ -304,15 +249,31 @@ export function exportReviewToCSV(
         taskEval.task.name,
         'Yes',
         taskEval.doable ? 'Yes' : 'No',
-        `${taskEval.usabilityScore}/4`,
-        `${taskEval.visualsScore}/4`,
-        taskScore ? formatScore(taskScore) : 'N/A',
-        taskEval.usabilityScore && taskEval.usabilityScore <= 2 ? 
+        formatRating(taskEval.usabilityScore, dimensions, 'usability'),
+        formatRating(taskEval.visualsScore, dimensions, 'visuals'),
+        formatScore(taskScore),
+        formatScore(cujScores.get(taskEval.task.cujId)),
+        asksForFeedback(getBuiltInDimension(dimensions, 'usability'), taskEval.usabilityScore ?? undefined) ? 
           taskEval.usabilityFeedback || 'No feedback' : 'N/A'
       ]);
     });
   });
 
+  listNotApplicableTasks(breakdown).forEach(task => {
+    rows.push([
+      task.categoryName,
+      task.cujName,
+      task.taskName,
+      'Not applicable',
+      'N/A',
+      'N/A',
+      'N/A',
+      'N/A',
+      'N/A',
+      task.reason
+    ]);
+  });
+
   // Convert to CSV format
   const csvContent = [
     headers.join(','),
@@ -333,7 +294,9 @@ export function exportReviewToCSV(
 export function generateGoogleDocsExport(
   report: ReportWithReview,
   taskEvaluations: TaskEvaluationWithTask[],
-  categoryEvaluations: CategoryEvaluationWithCategory[]
+  categoryEvaluations: CategoryEvaluationWithCategory[],
+  breakdown: ScoreBreakdown,
+  dimensions: EvaluationDimension[] = []
 ): string {
   // Base Google Docs template URL
   const baseUrl = 'https://docs.google.com/document/create';
@@ -341,19 +304,11 @@ export function generateGoogleDocsExport(
   // Create a title for the document
   const title = `${report.review.car.make} ${report.review.car.model} (${report.review.car.year}) Evaluation Report`;
   
-  // Calculate overall averages for tasks
-  let totalTaskScore = 0;
-  let taskCount = 0;
-  
-  taskEvaluations.forEach(taskEval => {
-    const score = calculateTaskScore(taskEval);
-    if (score !== null) {
-      totalTaskScore += score;
-      taskCount++;
-    }
-  });
-  
-  const avgTaskScore = taskCount > 0 ? totalTaskScore / taskCount : 0;
+  // Scores come from the breakdown so the export matches the report page
+  const taskScores = getTaskScoresByEvaluationId(breakdown);
+  const taskCount = taskEvaluations.filter(taskEval => taskScores.get(taskEval.id) != null).length;
+  const notApplicableTasks = listNotApplicableTasks(breakdown);
+  const evaluatedTasks = taskEvaluations.filter(taskEval => !taskEval.notApplicable);
   
   // Create a structured document content using markdown formatting
   // This will display nicely in Google Docs without requiring docx generation
@@ -378,8 +333,9 @@ export function generateGoogleDocsExport(
   
   // Summary section
   sections.push('## Summary');
-  sections.push(`Overall Score: **${formatScore(avgTaskScore)}/100**`);
+  sections.push(`Overall Score: **${formatScore(breakdown.overallScore)}/100**`);
   sections.push(`Total Tasks Evaluated: ${taskCount}`);
+  sections.push(`Tasks Not Applicable: ${notApplicableTasks.length}`);
   sections.push(`Category Evaluations: ${categoryEvaluations.length}`);
   sections.push('');
   
@@ -394,17 +350,16 @@ export function generateGoogleDocsExport(
     const writingScore = catEval.writingScore || 'N/A';
     const emotionalScore = catEval.emotionalScore || 'N/A';
     
-    // Calculate category score
-    const categoryScore = calculateCategoryScore(null, catEval);
-    const scoreDisplay = categoryScore !== null ? formatScore(categoryScore) : 'N/A';
+    const categoryScore = breakdown.categories.find(category => category.categoryId === catEval.categoryId)?.score;
+    const scoreDisplay = formatScore(categoryScore);
     
-    sections.push(`| ${categoryName} | ${responsivenessScore}/4 | ${writingScore}/4 | ${emotionalScore}/4 | ${scoreDisplay} |`);
+    sections.push(`| ${categoryName} | ${formatRating(responsivenessScore, dimensions, 'responsiveness')} | ${formatRating(writingScore, dimensions, 'writing')} | ${formatRating(emotionalScore, dimensions, 'emotional')} | ${scoreDisplay} |`);
   });
   
   sections.push('');
   
   // Task evaluations (limited to reduce size)
-  if (taskEvaluations.length > 0) {
+  if (evaluatedTasks.length > 0) {
     sections.push('## Task Evaluations');
     sections.push('_Sample of tasks (limited to 10 tasks)_');
     sections.push('');
@@ -412,21 +367,31 @@ export function generateGoogleDocsExport(
     sections.push('|------|----------|--------|-----------|---------|-------|');
     
     // Show up to 10 tasks to avoid making the document too large
-    taskEvaluations.slice(0, 10).forEach(taskEval => {
-      const taskScore = calculateTaskScore(taskEval);
-      const scoreFormatted = taskScore !== null ? formatScore(taskScore) : 'N/A';
+    evaluatedTasks.slice(0, 10).forEach(taskEval => {
+      const scoreFormatted = formatScore(taskScores.get(taskEval.id));
       const categoryName = taskEval.task.cuj?.category?.name || 'Unknown';
       
-      sections.push(`| ${taskEval.task.name} | ${categoryName} | ${taskEval.doable ? 'Yes' : 'No'} | ${taskEval.usabilityScore}/4 | ${taskEval.visualsScore}/4 | ${scoreFormatted} |`);
+      sections.push(`| ${taskEval.task.name} | ${categoryName} | ${taskEval.doable ? 'Yes' : 'No'} | ${formatRating(taskEval.usabilityScore, dimensions, 'usability')} | ${formatRating(taskEval.visualsScore, dimensions, 'visuals')} | ${scoreFormatted} |`);
     });
     
-    if (taskEvaluations.length > 10) {
-      sections.push(`_...and ${taskEvaluations.length - 10} more tasks..._`);
+    if (evaluatedTasks.length > 10) {
+      sections.push(`_...and ${evaluatedTasks.length - 10} more tasks..._`);
     }
     
     sections.push('');
   }
   
+  // Tasks that don't exist on the car, left out of the scores
+  if (notApplicableTasks.length > 0) {
+    sections.push('## Not Applicable Tasks');
+    sections.push('| Task | Category | Reason |');
+    sections.push('|------|----------|--------|');
+    notApplicableTasks.forEach(task => {
+      sections.push(`| ${task.taskName} | ${task.categoryName} | ${task.reason} |`);
+    });
+    sections.push('');
+  }
+  
   // Note about CSV export
   sections.push('## Note');
   sections.push('This is a simplified preview of the evaluation report. A CSV file has been downloaded to your device.');
@@ -448,10 +413,12 @@ export function generateGoogleDocsExport(
 export function exportReviewToGoogleSheets(
   review: ReviewWithDetails,
   taskEvaluations: TaskEvaluationWithTask[],
-  categoryEvaluations: CategoryEvaluationWithCategory[]
+  categoryEvaluations: CategoryEvaluationWithCategory[],
+  breakdown: ScoreBreakdown,
+  dimensions: EvaluationDimension[] = []
 ): string {
   // First, create and download the CSV file for the user
-  exportReviewToCSV(review, taskEvaluations, categoryEvaluations);
+  exportReviewToCSV(review, taskEvaluations, categoryEvaluations, breakdown, dimensions);
   
   // Create a more descriptive query string to pass to Google Sheets
   const title = `${review.car.make} ${review.car.model} (${review.car.year}) Evaluation`;
@@ -490,3 +457,58 @@ export function exportReviewToGoogleSheets(
   // Return the URL to create a new pre-filled Google Sheet
   return `${sheetsUrl}?title=${encodeURIComponent(title)}`;
 }
+
+// Format the combined ratings of a task in one build for the regression export
+function formatBuildResult(result: TaskBuildResult, aspect: 'doable' | 'usability' | 'visuals', dimensions: EvaluationDimension[]): string {
+  if (aspect === 'doable') {
+    return result.doable === null ? 'N/A' : result.doable ? 'Yes' : 'No';
+  }
+  const rating = aspect === 'usability' ? result.usabilityScore : result.visualsScore;
+  return rating === null ? 'N/A' : formatRating(formatScore(rating, 2), dimensions, aspect);
+}
+
+// Export the tasks that regressed since the previous build as CSV for bug triage
+export function exportRegressionsToCSV(report: BuildRegressions, dimensions: EvaluationDimension[] = []): void {
+  const { car } = report.review;
+  const previousCar = report.previousReview.car;
+
+  const headers = [
+    'Category',
+    'CUJ',
+    'Task',
+    'Regression',
+    `Previous (${previousCar.androidVersion})`,
+    `Current (${car.androidVersion})`,
+    'Previous Build',
+    'Current Build',
+    'Feedback'
+  ];
+
+  // One row per regressed aspect so each can be filed as its own bug
+  const rows: string[][] = report.regressions.flatMap(regression =>
+    regression.aspects.map(aspect => [
+      regression.categoryName,
+      regression.cujName,
+      regression.taskName,
+      aspect === 'doable' ? 'No longer doable' : aspect === 'usability' ? 'Usability dropped' : 'Visuals dropped',
+      formatBuildResult(regression.previous, aspect, dimensions),
+      formatBuildResult(regression.current, aspect, dimensions),
+      previousCar.buildFingerprint,
+      car.buildFingerprint,
+      regression.feedback || ''
+    ])
+  );
+
+  const csvContent = [
+    headers.join(','),
+    ...rows.map(row =>
+      row.map(cell =>
+        // Escape quotes and wrap in quotes to handle commas in content
+        `"${String(cell).replace(/"/g, '""')}"`
+      ).join(',')
+    )
+  ].join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8' });
+  FileSaver.saveAs(blob, `${car.make}_${car.model}_Regressions_${car.androidVersion}_${new Date().toISOString().split('T')[0]}.csv`);
+}
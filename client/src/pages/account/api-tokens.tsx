@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Check, Copy, KeyRound, Loader2, Plus } from "lucide-react";
+import { ApiToken, ApiTokenScope, CreatedApiToken, apiTokenScopes } from "@shared/schema";
+import { apiRequest, ApiError } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { formatDateTime } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const scopeDescriptions: Record<ApiTokenScope, string> = {
+  read: "View reviews, evaluations and reports",
+  evaluate: "Also create and update reviews and evaluations",
+  admin: "Also use admin-only endpoints",
+};
+
+const expiryOptions = [
+  { value: "7", label: "7 days" },
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+type TokenFieldErrors = Partial<Record<"name" | "scopes" | "expiresInDays", string[]>>;
+
+function getFieldErrors(error: unknown): TokenFieldErrors {
+  if (!(error instanceof ApiError) || !error.body || typeof error.body !== "object") return {};
+  return (error.body as { fieldErrors?: TokenFieldErrors }).fieldErrors ?? {};
+}
+
+function tokenStatus(token: ApiToken): { label: string; variant: "secondary" | "destructive" | "outline" } {
+  if (token.revokedAt) return { label: "Revoked", variant: "destructive" };
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return { label: "Expired", variant: "outline" };
+  return { label: "Active", variant: "secondary" };
+}
+
+/**
+ * Personal access tokens for scripts, sent as "Authorization: Bearer <token>" instead of a session
+ * cookie. A token is only shown once, right after it is created.
+ */
+export default function ApiTokens() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [_, setLocation] = useLocation();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read"]);
+  const [expiry, setExpiry] = useState("90");
+  const [fieldErrors, setFieldErrors] = useState<TokenFieldErrors>({});
+  const [created, setCreated] = useState<CreatedApiToken | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: tokens, isLoading } = useQuery<ApiToken[]>({
+    queryKey: ["/api/auth/tokens"],
+  });
+
+  // Only admins can hand a token the admin scope
+  const availableScopes = apiTokenScopes.filter((scope) => scope !== "admin" || user?.role === "admin");
+
+  const createToken = useMutation({
+    mutationFn: async () => {
+      return await apiRequest<CreatedApiToken>("/api/auth/tokens", {
+        method: "POST",
+        body: JSON.stringify({
+          name,
+          scopes,
+          expiresInDays: expiry === "never" ? null : parseInt(expiry),
+        }),
+      });
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      setCreated(token);
+      setCopied(false);
+      setName("");
+      setFieldErrors({});
+    },
+    onError: (error) => {
+      setFieldErrors(getFieldErrors(error));
+      toast({
+        title: "Error Creating Token",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeToken = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest<ApiToken>(`/api/auth/tokens/${id}`, { method: "DELETE" });
+    },
+    onSuccess: (token) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/tokens"] });
+      toast({
+        title: "Token Revoked",
+        description: `${token.name} can no longer be used.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Revoking Token",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope) => {
+    setScopes((current) => current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]);
+  };
+
+  const copyToken = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.token);
+    setCopied(true);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-20 sm:pb-6">
+      <div className="flex items-center mb-6">
+        <Button variant="ghost" className="mr-2" onClick={() => setLocation("/")}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h2 className="text-2xl font-medium text-foreground">API Tokens</h2>
+      </div>
+
+      {created && (
+        <Alert className="mb-6">
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>Copy your new token now</AlertTitle>
+          <AlertDescription>
+            <p className="mb-2">{created.name} won't be shown again. Send it as an Authorization header:</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-muted px-2 py-1 text-xs">{created.token}</code>
+              <Button variant="outline" size="sm" onClick={copyToken}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <code className="block mt-2 text-xs text-muted-foreground">
+              curl -H "Authorization: Bearer {created.tokenPrefix}..." {window.location.origin}/api/reviews
+            </code>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card className="overflow-hidden mb-6">
+        <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
+          <h3 className="font-medium text-lg text-primary">New Token</h3>
+          <p className="text-sm text-muted-foreground">
+            Tokens act as you, limited to their scopes. Each scope includes the ones above it.
+          </p>
+        </div>
+        <CardContent className="p-4">
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createToken.mutate();
+            }}
+          >
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="token-name">Name</Label>
+                <Input
+                  id="token-name"
+                  placeholder="e.g. Tesla evaluation import"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                {fieldErrors.name && <p className="text-sm text-destructive mt-1">{fieldErrors.name[0]}</p>}
+              </div>
+              <div>
+                <Label>Expires after</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {expiryOptions.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {fieldErrors.expiresInDays && (
+                  <p className="text-sm text-destructive mt-1">{fieldErrors.expiresInDays[0]}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-3 cursor-pointer">
+                  <Checkbox checked={scopes.includes(scope)} onCheckedChange={() => toggleScope(scope)} />
+                  <span className="text-sm">
+                    <span className="font-medium capitalize">{scope}</span>
+                    <span className="text-muted-foreground"> · {scopeDescriptions[scope]}</span>
+                  </span>
+                </label>
+              ))}
+              {fieldErrors.scopes && <p className="text-sm text-destructive">{fieldErrors.scopes[0]}</p>}
+            </div>
+
+            <Button type="submit" disabled={!name.trim() || scopes.length === 0 || createToken.isPending}>
+              {createToken.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="mr-2 h-4 w-4" />
+              )}
+              Create Token
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="overflow-hidden">
+        <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
+          <h3 className="font-medium text-lg text-primary">Your Tokens</h3>
+        </div>
+        <CardContent className="p-4">
+          {isLoading ? (
+            <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+          ) : !tokens || tokens.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">You haven't created any tokens yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Last Used</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map((token) => {
+                  const status = tokenStatus(token);
+                  return (
+                    <TableRow key={token.id}>
+                      <TableCell>
+                        <div className="font-medium">{token.name}</div>
+                        <code className="text-xs text-muted-foreground">{token.tokenPrefix}...</code>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1">
+                          {token.scopes.map((scope) => (
+                            <Badge key={scope} variant="outline" className="capitalize">{scope}</Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatDateTime(token.createdAt)}</TableCell>
+                      <TableCell>{token.expiresAt ? formatDateTime(token.expiresAt) : "Never"}</TableCell>
+                      <TableCell>{token.lastUsedAt ? formatDateTime(token.lastUsedAt) : "Never used"}</TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        {!token.revokedAt && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => revokeToken.mutate(token.id)}
+                            disabled={revokeToken.isPending}
+                          >
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
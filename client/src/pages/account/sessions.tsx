@@ -0,0 +1,144 @@
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Laptop } from "lucide-react";
+import { SessionSummary } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDateTime } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const browsers: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const systems: [RegExp, string][] = [
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+];
+
+// e.g. "Chrome on macOS", falling back to the raw user agent for anything else
+function describeUserAgent(userAgent: string | null): string {
+  if (!userAgent) return "Unknown device";
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = systems.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (!browser) return userAgent;
+  return system ? `${browser} on ${system}` : browser;
+}
+
+/**
+ * The devices the user is signed in on. Signing out one of them ends its session on its next request.
+ */
+export default function Sessions() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [_, setLocation] = useLocation();
+
+  const { data: sessions, isLoading } = useQuery<SessionSummary[]>({
+    queryKey: ["/api/auth/sessions"],
+  });
+
+  const revokeSession = useMutation({
+    mutationFn: async (id: number) => {
+      return await apiRequest(`/api/auth/sessions/${id}`, { method: "DELETE" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/sessions"] });
+      toast({
+        title: "Session Signed Out",
+        description: "That device will have to sign in again.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Signing Out Session",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-20 sm:pb-6">
+      <div className="flex items-center mb-6">
+        <Button variant="ghost" className="mr-2" onClick={() => setLocation("/")}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h2 className="text-2xl font-medium text-foreground">Sessions</h2>
+      </div>
+
+      <Card className="overflow-hidden">
+        <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
+          <h3 className="font-medium text-lg text-primary">Where You're Signed In</h3>
+          <p className="text-sm text-muted-foreground">
+            Sign out any session you don't recognize or no longer use.
+          </p>
+        </div>
+        <CardContent className="p-4">
+          {isLoading ? (
+            <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+          ) : !sessions || sessions.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No active sessions.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>IP Address</TableHead>
+                  <TableHead>Signed In</TableHead>
+                  <TableHead>Last Active</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Laptop className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">{describeUserAgent(session.userAgent)}</span>
+                        {session.current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{session.ipAddress ?? "Unknown"}</TableCell>
+                    <TableCell>{formatDateTime(session.createdAt)}</TableCell>
+                    <TableCell>{formatDateTime(session.lastSeenAt)}</TableCell>
+                    <TableCell>{formatDateTime(session.expiresAt)}</TableCell>
+                    <TableCell>
+                      {!session.current && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => revokeSession.mutate(session.id)}
+                          disabled={revokeSession.isPending}
+                        >
+                          Sign Out
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
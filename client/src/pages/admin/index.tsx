@@ -1,11 +1,11 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, ApiError } from "@/lib/queryClient";
 import { 
   ScoringConfig, 
   CujCategory,
@@ -13,9 +13,12 @@ import {
   Task,
   TaskWithCategory,
   CujDatabaseVersion,
+  CujImportError,
+  CujSyncResult,
   ReviewerAssignmentWithDetails,
   User,
-  Car
+  Car,
+  ScoringWeightErrors
 } from "@shared/schema";
 import { 
   Loader2, 
@@ -33,9 +36,31 @@ import {
   Trash,
   UserCheck,
   X,
-  AlertTriangle
+  AlertTriangle,
+  GitCompare,
+  Scale,
+  History,
+  SlidersHorizontal,
+  Trophy,
+  FlaskConical,
+  Ruler,
+  Globe,
+  MonitorSmartphone,
+  Users
 } from "lucide-react";
 import { formatDateTime } from "@/lib/utils";
+import { CujVersionDiff } from "@/components/admin/cuj-version-diff";
+import { CujCatalogTree } from "@/components/admin/cuj-catalog-tree";
+import { AssignmentCoverageMatrix } from "@/components/admin/assignment-coverage";
+import { RaterAgreement } from "@/components/admin/rater-agreement";
+import { ScoringConfigHistory } from "@/components/admin/scoring-config-history";
+import { CategoryWeightOverrides } from "@/components/admin/category-weight-overrides";
+import { BenchmarkCohortSetting } from "@/components/admin/benchmark-cohort-setting";
+import { ScoringSimulationPreview } from "@/components/admin/scoring-simulation-preview";
+import { EvaluationDimensions } from "@/components/admin/evaluation-dimensions";
+import { SignInDomains } from "@/components/admin/sign-in-domains";
+import { ActiveSessions } from "@/components/admin/active-sessions";
+import { UserManagement } from "@/components/admin/user-management";
 import { 
   Table, 
   TableBody, 
@@ -61,6 +86,23 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
+// Field errors of weights the server rejected, null for any other failure
+function getScoringWeightErrors(error: unknown): ScoringWeightErrors | null {
+  if (!(error instanceof ApiError) || !error.body || typeof error.body !== "object") return null;
+  return "fieldErrors" in error.body ? error.body as ScoringWeightErrors : null;
+}
+
+function WeightErrors({ messages }: { messages?: string[] }) {
+  if (!messages || messages.length === 0) return null;
+  return (
+    <>
+      {messages.map((message) => (
+        <p key={message} className="text-sm text-destructive mt-1">{message}</p>
+      ))}
+    </>
+  );
+}
+
 export default function AdminDashboard() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -72,6 +114,8 @@ export default function AdminDashboard() {
   // State for tracking if weights have been changed
   const [taskWeightsChanged, setTaskWeightsChanged] = useState(false);
   const [categoryWeightsChanged, setCategoryWeightsChanged] = useState(false);
+  const [taskWeightErrors, setTaskWeightErrors] = useState<ScoringWeightErrors | null>(null);
+  const [categoryWeightErrors, setCategoryWeightErrors] = useState<ScoringWeightErrors | null>(null);
   
   // State for reviewer assignment management
   const [isCreateAssignmentOpen, setIsCreateAssignmentOpen] = useState(false);
@@ -82,6 +126,10 @@ export default function AdminDashboard() {
   });
   const [existingAssignment, setExistingAssignment] = useState<ReviewerAssignmentWithDetails | null>(null);
   
+  // State for CUJ spreadsheet import
+  const cujFileInputRef = useRef<HTMLInputElement>(null);
+  const [cujImportErrors, setCujImportErrors] = useState<CujImportError[]>([]);
+  
   // Fetch current scoring configuration
   const { data: config, isLoading: isLoadingConfig } = useQuery<ScoringConfig>({
     queryKey: ['/api/admin/scoring-config'],
@@ -139,6 +187,10 @@ export default function AdminDashboard() {
     visualsWeight: 0
   });
   
+  // Optional notes recorded with the next scoring config version
+  const [taskChangeNote, setTaskChangeNote] = useState("");
+  const [categoryChangeNote, setCategoryChangeNote] = useState("");
+  
   // State for category level weights
   const [categoryLevelWeights, setCategoryLevelWeights] = useState({
     taskAvgWeight: 0,
@@ -170,11 +222,14 @@ export default function AdminDashboard() {
     mutationFn: async (weights: typeof taskLevelWeights) => {
       return await apiRequest('/api/admin/scoring-config/task', {
         method: 'PATCH',
-        body: JSON.stringify(weights)
+        body: JSON.stringify({ ...weights, changeNote: taskChangeNote })
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/scoring-config'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/scoring-config/history'] });
+      setTaskChangeNote("");
+      setTaskWeightErrors(null);
       toast({
         title: "Task Weights Updated",
         description: "Task level scoring weights have been successfully updated.",
@@ -182,9 +237,13 @@ export default function AdminDashboard() {
       setTaskWeightsChanged(false);
     },
     onError: (error) => {
+      const weightErrors = getScoringWeightErrors(error);
+      setTaskWeightErrors(weightErrors);
       toast({
         title: "Error Updating Weights",
-        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        description: weightErrors
+          ? weightErrors.formErrors[0] ?? "Some of the weights are invalid."
+          : error instanceof Error ? error.message : "An unexpected error occurred",
         variant: "destructive",
       });
     },
@@ -195,11 +254,14 @@ export default function AdminDashboard() {
     mutationFn: async (weights: typeof categoryLevelWeights) => {
       return await apiRequest('/api/admin/scoring-config/category', {
         method: 'PATCH',
-        body: JSON.stringify(weights)
+        body: JSON.stringify({ ...weights, changeNote: categoryChangeNote })
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/admin/scoring-config'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/scoring-config/history'] });
+      setCategoryChangeNote("");
+      setCategoryWeightErrors(null);
       toast({
         title: "Category Weights Updated",
         description: "Category level scoring weights have been successfully updated.",
@@ -207,9 +269,13 @@ export default function AdminDashboard() {
       setCategoryWeightsChanged(false);
     },
     onError: (error) => {
+      const weightErrors = getScoringWeightErrors(error);
+      setCategoryWeightErrors(weightErrors);
       toast({
         title: "Error Updating Weights",
-        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        description: weightErrors
+          ? weightErrors.formErrors[0] ?? "Some of the weights are invalid."
+          : error instanceof Error ? error.message : "An unexpected error occurred",
         variant: "destructive",
       });
     },
@@ -225,6 +291,7 @@ export default function AdminDashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/reviewer-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reviewer-assignments/coverage'] });
       toast({
         title: "Assignment Created",
         description: "Reviewer assignment has been successfully created.",
@@ -250,6 +317,7 @@ export default function AdminDashboard() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/reviewer-assignments'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reviewer-assignments/coverage'] });
       toast({
         title: "Assignment Removed",
         description: "Reviewer assignment has been successfully removed.",
@@ -265,21 +333,44 @@ export default function AdminDashboard() {
   });
   
   // Sync CUJ data mutation
+  // Uses fetch directly because apiRequest always sends JSON and the upload is multipart
   const syncCujData = useMutation({
-    mutationFn: async () => {
-      return await apiRequest('/api/admin/sync-cuj-data', {
+    mutationFn: async (file: File): Promise<CujSyncResult> => {
+      const formData = new FormData();
+      formData.append('file', file);
+      
+      const response = await fetch('/api/admin/sync-cuj-data', {
         method: 'POST',
-        body: JSON.stringify({})
+        body: formData,
+        credentials: 'include'
       });
+      const result = await response.json();
+      
+      // Row validation problems come back as a report rather than a failure
+      if (!response.ok && !result.errors) {
+        throw new Error(result.message || result.error || response.statusText);
+      }
+      return result;
     },
-    onSuccess: (data: any) => {
+    onSuccess: (data) => {
+      setCujImportErrors(data.errors || []);
+      
+      if (!data.success) {
+        toast({
+          title: "Spreadsheet Needs Fixes",
+          description: data.message,
+          variant: "destructive",
+        });
+        return;
+      }
+      
       queryClient.invalidateQueries({ queryKey: ['/api/admin/cuj-sync-status'] });
       queryClient.invalidateQueries({ queryKey: ['/api/cuj-database-versions'] });
       queryClient.invalidateQueries({ queryKey: ['/api/cuj-database-versions/active'] });
       
       toast({
-        title: "CUJ Data Synced",
-        description: `Critical User Journey data has been successfully updated. Version ${data?.versionId ? `#${data.versionId}` : ''} created.`,
+        title: "CUJ Data Imported",
+        description: `${data.message}. Set the new version active to use it for new reviews.`,
       });
     },
     onError: (error) => {
@@ -294,7 +385,7 @@ export default function AdminDashboard() {
   // Set active CUJ database version mutation
   const setActiveCujDatabaseVersion = useMutation({
     mutationFn: async (versionId: number) => {
-      return await apiRequest(`/api/cuj-database-versions/${versionId}/activate`, {
+      return await apiRequest(`/api/cuj-database-versions/${versionId}/set-active`, {
         method: 'POST',
         body: JSON.stringify({})
       });
@@ -322,6 +413,7 @@ export default function AdminDashboard() {
     if (!isNaN(numValue) && numValue >= 0) {
       setTaskLevelWeights(prev => ({ ...prev, [field]: numValue }));
       setTaskWeightsChanged(true);
+      setTaskWeightErrors(null);
     }
   };
   
@@ -331,6 +423,7 @@ export default function AdminDashboard() {
     if (!isNaN(numValue) && numValue >= 0) {
       setCategoryLevelWeights(prev => ({ ...prev, [field]: numValue }));
       setCategoryWeightsChanged(true);
+      setCategoryWeightErrors(null);
     }
   };
   
@@ -344,9 +437,14 @@ export default function AdminDashboard() {
     updateCategoryWeights.mutate(categoryLevelWeights);
   };
   
-  // Handle CUJ data sync
-  const handleSyncCujData = () => {
-    syncCujData.mutate();
+  // Handle CUJ data sync from an uploaded spreadsheet
+  const handleSyncCujData = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      syncCujData.mutate(file);
+    }
+    // Reset so selecting the same file again after fixing it triggers another upload
+    event.target.value = '';
   };
   
   // Handle set active CUJ database version
@@ -576,7 +674,7 @@ export default function AdminDashboard() {
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="0">Select a reviewer</SelectItem>
-                  {users?.filter(user => user.role === 'reviewer').map(user => (
+                  {users?.filter(user => user.role === 'reviewer' && !user.deactivatedAt).map(user => (
                     <SelectItem key={user.id} value={user.id.toString()}>
                       {user.name}
                     </SelectItem>
@@ -670,9 +768,11 @@ export default function AdminDashboard() {
       </Dialog>
       
       <Tabs defaultValue={activeTab} onValueChange={setActiveTab} className="mb-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="config">Configuration</TabsTrigger>
           <TabsTrigger value="assignments">Reviewer Assignments</TabsTrigger>
+          <TabsTrigger value="calibration">Calibration</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
           <TabsTrigger value="data">CUJ Data Tables</TabsTrigger>
         </TabsList>
         
@@ -811,6 +911,7 @@ export default function AdminDashboard() {
                         If "Yes" = full score, "No" = 0 points
                       </div>
                     </div>
+                    <WeightErrors messages={taskWeightErrors?.fieldErrors.doableWeight} />
                   </div>
                   
                   <div>
@@ -828,6 +929,7 @@ export default function AdminDashboard() {
                       />
                       <span className="ml-2">%</span>
                     </div>
+                    <WeightErrors messages={taskWeightErrors?.fieldErrors.usabilityWeight} />
                   </div>
                   
                   <div>
@@ -845,10 +947,23 @@ export default function AdminDashboard() {
                       />
                       <span className="ml-2">%</span>
                     </div>
+                    <WeightErrors messages={taskWeightErrors?.fieldErrors.visualsWeight} />
                   </div>
                 </div>
 
-                <div className="mt-6 flex justify-end">
+                {!!taskWeightErrors?.formErrors.length && (
+                  <div className="mt-4 text-right">
+                    <WeightErrors messages={taskWeightErrors.formErrors} />
+                  </div>
+                )}
+
+                <div className="mt-6 flex items-center justify-end gap-2">
+                  <Input
+                    placeholder="Change note (optional)"
+                    value={taskChangeNote}
+                    className="max-w-xs"
+                    onChange={(e) => setTaskChangeNote(e.target.value)}
+                  />
                   <Button
                     onClick={handleSaveTaskConfig}
                     disabled={!taskWeightsChanged || updateTaskWeights.isPending}
@@ -890,6 +1005,7 @@ export default function AdminDashboard() {
                         Average of all task scores in the category
                       </div>
                     </div>
+                    <WeightErrors messages={categoryWeightErrors?.fieldErrors.taskAvgWeight} />
                   </div>
                   
                   <div>
@@ -907,6 +1023,7 @@ export default function AdminDashboard() {
                       />
                       <span className="ml-2">%</span>
                     </div>
+                    <WeightErrors messages={categoryWeightErrors?.fieldErrors.responsivenessWeight} />
                   </div>
                   
                   <div>
@@ -924,6 +1041,7 @@ export default function AdminDashboard() {
                       />
                       <span className="ml-2">%</span>
                     </div>
+                    <WeightErrors messages={categoryWeightErrors?.fieldErrors.writingWeight} />
                   </div>
                   
                   <div>
@@ -944,10 +1062,23 @@ export default function AdminDashboard() {
                         Bonus points that won't decrease the score
                       </div>
                     </div>
+                    <WeightErrors messages={categoryWeightErrors?.fieldErrors.emotionalWeight} />
                   </div>
                 </div>
 
-                <div className="mt-6 flex justify-end">
+                {!!categoryWeightErrors?.formErrors.length && (
+                  <div className="mt-4 text-right">
+                    <WeightErrors messages={categoryWeightErrors.formErrors} />
+                  </div>
+                )}
+
+                <div className="mt-6 flex items-center justify-end gap-2">
+                  <Input
+                    placeholder="Change note (optional)"
+                    value={categoryChangeNote}
+                    className="max-w-xs"
+                    onChange={(e) => setCategoryChangeNote(e.target.value)}
+                  />
                   <Button
                     onClick={handleSaveCategoryConfig}
                     disabled={!categoryWeightsChanged || updateCategoryWeights.isPending}
@@ -963,6 +1094,76 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
 
+            {/* Preview of the unsaved task and category weights */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <FlaskConical className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Weight Change Preview</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <ScoringSimulationPreview
+                  weights={{
+                    taskDoableWeight: taskLevelWeights.doableWeight,
+                    taskUsabilityWeight: taskLevelWeights.usabilityWeight,
+                    taskVisualsWeight: taskLevelWeights.visualsWeight,
+                    categoryTasksWeight: categoryLevelWeights.taskAvgWeight,
+                    categoryResponsivenessWeight: categoryLevelWeights.responsivenessWeight,
+                    categoryWritingWeight: categoryLevelWeights.writingWeight,
+                    categoryEmotionalWeight: categoryLevelWeights.emotionalWeight,
+                  }}
+                />
+              </CardContent>
+            </Card>
+
+            {/* Category Weight Overrides */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <SlidersHorizontal className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Category Weight Overrides</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <CategoryWeightOverrides />
+              </CardContent>
+            </Card>
+
+            {/* Evaluation Dimensions */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <Ruler className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Evaluation Dimensions</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <EvaluationDimensions />
+              </CardContent>
+            </Card>
+
+            {/* Benchmark Cohort */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <Trophy className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Benchmark Cohort</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <BenchmarkCohortSetting />
+              </CardContent>
+            </Card>
+
+            {/* Scoring Config History */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <History className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Scoring Config History</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <ScoringConfigHistory />
+              </CardContent>
+            </Card>
+
             {/* CUJ Data Management */}
             <Card className="overflow-hidden">
               <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
@@ -971,7 +1172,10 @@ export default function AdminDashboard() {
               
               <CardContent className="p-4">
                 <div className="mb-4">
-                  <p className="text-muted-foreground">Update the master CUJ data from external source.</p>
+                  <p className="text-muted-foreground">
+                    Import the master CUJ data from an XLSX or CSV spreadsheet with Category, CUJ, Task, Prerequisites and Expected Outcome columns.
+                    Each import creates a new inactive version.
+                  </p>
                 </div>
 
                 <div className="flex items-center justify-between mb-6">
@@ -989,25 +1193,67 @@ export default function AdminDashboard() {
                       </>
                     )}
                   </div>
+                  <input
+                    ref={cujFileInputRef}
+                    type="file"
+                    accept=".xlsx,.xls,.csv"
+                    className="hidden"
+                    onChange={handleSyncCujData}
+                  />
                   <Button 
-                    onClick={handleSyncCujData}
+                    onClick={() => cujFileInputRef.current?.click()}
                     disabled={syncCujData.isPending}
                     className="flex items-center"
                   >
                     {syncCujData.isPending ? (
                       <>
                         <Loader2 className="mr-1 h-4 w-4 animate-spin" />
-                        Syncing...
+                        Importing...
                       </>
                     ) : (
                       <>
                         <RefreshCw className="mr-1 h-4 w-4" />
-                        Sync Now
+                        Import Spreadsheet
                       </>
                     )}
                   </Button>
                 </div>
                 
+                {/* Row-level problems from the last import */}
+                {cujImportErrors.length > 0 && (
+                  <div className="mb-6 border border-destructive/30 rounded-md">
+                    <div className="p-3 flex items-center justify-between bg-destructive/5 border-b border-destructive/30">
+                      <h4 className="text-sm font-medium text-destructive flex items-center">
+                        <AlertTriangle className="h-4 w-4 mr-1" />
+                        {cujImportErrors.length} problem(s) found. Nothing was imported.
+                      </h4>
+                      <Button variant="ghost" size="sm" onClick={() => setCujImportErrors([])}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="max-h-64 overflow-y-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="w-16">Row</TableHead>
+                            <TableHead className="w-40">Column</TableHead>
+                            <TableHead>Problem</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {cujImportErrors.map((importError, index) => (
+                            <TableRow key={index}>
+                              <TableCell className="font-mono">{importError.row > 0 ? importError.row : '-'}</TableCell>
+                              <TableCell>{importError.column || '-'}</TableCell>
+                              <TableCell>{importError.message}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+                
                 {/* CUJ Database Versions */}
                 <div>
                   <h4 className="text-base font-medium mb-3 flex items-center">
@@ -1078,7 +1324,7 @@ export default function AdminDashboard() {
                         ) : (
                           <TableRow>
                             <TableCell colSpan={6} className="text-center py-4 text-muted-foreground">
-                              No database versions found. Click "Sync Now" to create a new version.
+                              No database versions found. Click "Import Spreadsheet" to create a new version.
                             </TableCell>
                           </TableRow>
                         )}
@@ -1086,6 +1332,30 @@ export default function AdminDashboard() {
                     </Table>
                   </div>
                 </div>
+                
+                {/* Changes between CUJ Database Versions */}
+                <div>
+                  <h4 className="text-base font-medium mb-3 flex items-center">
+                    <GitCompare className="h-4 w-4 mr-1" />
+                    Compare Versions
+                  </h4>
+                  <CujVersionDiff
+                    versions={cujDatabaseVersions || []}
+                    activeVersionId={activeCujDatabaseVersion?.id}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* Sign-in Domains */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <Globe className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Sign-in Domains</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <SignInDomains />
               </CardContent>
             </Card>
           </div>
@@ -1182,6 +1452,57 @@ export default function AdminDashboard() {
                 )}
               </CardContent>
             </Card>
+            
+            {/* Coverage Matrix */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <UserCheck className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Category Coverage</h3>
+              </div>
+              <CardContent className="p-4">
+                <AssignmentCoverageMatrix />
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+        
+        <TabsContent value="calibration" className="mt-6">
+          <Card className="overflow-hidden">
+            <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+              <Scale className="h-5 w-5 mr-2 text-primary" />
+              <h3 className="font-medium text-lg text-primary">Inter-rater Agreement</h3>
+            </div>
+            <CardContent className="p-4">
+              <RaterAgreement />
+            </CardContent>
+          </Card>
+        </TabsContent>
+        
+        <TabsContent value="users" className="mt-6">
+          <div className="space-y-6">
+            {/* Users */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <Users className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Users</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <UserManagement />
+              </CardContent>
+            </Card>
+
+            {/* Active Sessions */}
+            <Card className="overflow-hidden">
+              <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+                <MonitorSmartphone className="h-5 w-5 mr-2 text-primary" />
+                <h3 className="font-medium text-lg text-primary">Active Sessions</h3>
+              </div>
+              
+              <CardContent className="p-4">
+                <ActiveSessions />
+              </CardContent>
+            </Card>
           </div>
         </TabsContent>
         
@@ -1201,6 +1522,24 @@ export default function AdminDashboard() {
             </div>
           </div>
         
+          {/* Editable catalog tree */}
+          <Card className="mb-6 overflow-hidden">
+            <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
+              <FolderTree className="h-5 w-5 mr-2 text-primary" />
+              <h3 className="font-medium text-lg text-primary">Catalog Editor</h3>
+              {activeCujDatabaseVersion && (
+                <span className="ml-2 text-sm text-muted-foreground">({activeCujDatabaseVersion.versionNumber})</span>
+              )}
+            </div>
+            <CardContent className="p-4">
+              <CujCatalogTree
+                categories={categories || []}
+                cujs={cujs || []}
+                tasks={tasks || []}
+              />
+            </CardContent>
+          </Card>
+        
           {/* Categories Table */}
           <Card className="mb-6 overflow-hidden">
             <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200 flex items-center">
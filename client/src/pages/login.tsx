@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/lib/auth";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,13 +10,22 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { Car, AlertCircle } from "lucide-react";
+import { Car, AlertCircle, KeyRound } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
 const loginSchema = z.object({
-  username: z.string().min(1, "LDAP identifier is required"),
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
 });
 
+// Local development and test accounts
+const demoAccounts: Record<string, { username: string; password: string }> = {
+  reviewer: { username: "reviewer", password: "review123" },
+  admin: { username: "admin", password: "admin123" },
+  internal: { username: "internal", password: "internal123" },
+  external: { username: "external", password: "external123" },
+};
+
 type LoginFormValues = z.infer<typeof loginSchema>;
 
 export default function Login() {
@@ -24,6 +34,12 @@ export default function Login() {
   const [_, setLocation] = useLocation();
   const { toast } = useToast();
   const [loginAttempts, setLoginAttempts] = useState(0);
+  // Failed single sign-ons come back here with the reason
+  const [ssoError] = useState(() => new URLSearchParams(window.location.search).get("error"));
+
+  const { data: providers } = useQuery<{ oidc: boolean }>({
+    queryKey: ["/api/auth/providers"],
+  });
 
   // If already authenticated, redirect to homepage
   useEffect(() => {
@@ -36,6 +52,7 @@ export default function Login() {
     resolver: zodResolver(loginSchema),
     defaultValues: {
       username: "",
+      password: "",
     },
   });
 
@@ -43,7 +60,7 @@ export default function Login() {
     console.log("Form submitted with:", data);
     setIsLoggingIn(true);
     try {
-      await login(data.username);
+      await login(data.username, data.password);
       // The redirection is handled by the useEffect above
     } catch (err) {
       console.error("Login error in form:", err);
@@ -51,7 +68,7 @@ export default function Login() {
       
       toast({
         title: "Login Failed",
-        description: error || "Invalid LDAP identifier",
+        description: error || "Invalid username or password",
         variant: "destructive",
       });
     } finally {
@@ -61,20 +78,8 @@ export default function Login() {
 
   // Helper function to fill demo credentials
   const fillDemoCredentials = (role: string) => {
-    switch(role) {
-      case 'reviewer':
-        form.setValue('username', 'reviewer');
-        break;
-      case 'admin':
-        form.setValue('username', 'admin');
-        break;
-      case 'internal':
-        form.setValue('username', 'internal');
-        break;
-      case 'external':
-        form.setValue('username', 'external');
-        break;
-    }
+    form.setValue('username', demoAccounts[role].username);
+    form.setValue('password', demoAccounts[role].password);
   };
 
   return (
@@ -92,6 +97,14 @@ export default function Login() {
           </CardDescription>
         </CardHeader>
         <CardContent className="pt-4">
+          {ssoError && (
+            <Alert variant="destructive" className="mb-6">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>Single Sign-On Failed</AlertTitle>
+              <AlertDescription>{ssoError}</AlertDescription>
+            </Alert>
+          )}
+
           {loginAttempts > 0 && (
             <Alert variant="destructive" className="mb-6">
               <AlertCircle className="h-4 w-4" />
@@ -99,10 +112,11 @@ export default function Login() {
               <AlertDescription>
                 Please use one of the following test accounts:
                 <div className="mt-2 text-xs bg-white/20 p-3 rounded space-y-1">
-                  <div><strong>Reviewer:</strong> username: reviewer</div>
-                  <div><strong>Admin:</strong> username: admin</div>
-                  <div><strong>Internal:</strong> username: internal</div>
-                  <div><strong>External:</strong> username: external</div>
+                  {Object.entries(demoAccounts).map(([role, account]) => (
+                    <div key={role}>
+                      <strong className="capitalize">{role}:</strong> {account.username} / {account.password}
+                    </div>
+                  ))}
                 </div>
               </AlertDescription>
             </Alert>
@@ -128,6 +142,26 @@ export default function Login() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel className="text-sm font-medium">Password</FormLabel>
+                    <FormControl>
+                      <Input 
+                        type="password"
+                        placeholder="Enter your password" 
+                        autoComplete="current-password"
+                        {...field} 
+                        className="h-11"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <Button 
                 type="submit" 
                 className="w-full h-11 text-base font-medium" 
@@ -135,6 +169,22 @@ export default function Login() {
               >
                 {isLoggingIn ? "Logging in..." : "Sign In"}
               </Button>
+
+              {providers?.oidc && (
+                <>
+                  <div className="flex items-center gap-3">
+                    <div className="h-px flex-1 bg-border" />
+                    <span className="text-xs uppercase text-muted-foreground">or</span>
+                    <div className="h-px flex-1 bg-border" />
+                  </div>
+                  <Button asChild type="button" variant="outline" className="w-full h-11 text-base font-medium">
+                    <a href="/api/auth/oidc/login">
+                      <KeyRound className="mr-2 h-4 w-4" />
+                      Sign in with SSO
+                    </a>
+                  </Button>
+                </>
+              )}
               
               <div className="mt-6">
                 <p className="text-sm text-center mb-3 text-muted-foreground">Quick access demo accounts:</p>
@@ -0,0 +1,265 @@
+import React, { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart } from "recharts";
+import { ArrowLeft, ChevronDown, ChevronRight } from "lucide-react";
+import { ComparedScores, ReviewComparison, ReviewWithDetails } from "@shared/schema";
+import { cn } from "@/lib/utils";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ScorePill } from "@/components/ui/score-pill";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Matches the number of chart colors, and the limit of the comparisons API
+const MAX_COMPARED_REVIEWS = 5;
+
+const carName = (car: ReviewComparison["reviews"][number]["car"]) => `${car.make} ${car.model} (${car.year})`;
+
+const formatDelta = (delta: number | null) =>
+  delta === null ? "" : delta > 0 ? `+${delta.toFixed(1)}` : delta.toFixed(1);
+
+// One score per compared review, green where the car wins and red where it loses
+function ComparedScoreCells({ compared, size = "sm" }: { compared: ComparedScores; size?: "sm" | "md" }) {
+  return (
+    <>
+      {compared.scores.map((score, index) => (
+        <TableCell
+          key={index}
+          className={cn(
+            compared.winners.includes(index) && "bg-green-50",
+            compared.losers.includes(index) && "bg-red-50"
+          )}
+        >
+          <div className="flex items-center gap-2">
+            <ScorePill score={score} size={size} />
+            {index > 0 && compared.deltas[index] !== null && (
+              <span
+                className={cn(
+                  "text-xs font-medium",
+                  compared.deltas[index]! > 0 && "text-green-700",
+                  compared.deltas[index]! < 0 && "text-red-700",
+                  compared.deltas[index] === 0 && "text-muted-foreground"
+                )}
+              >
+                {formatDelta(compared.deltas[index])}
+              </span>
+            )}
+          </div>
+        </TableCell>
+      ))}
+    </>
+  );
+}
+
+export default function ComparisonView() {
+  const [_, setLocation] = useLocation();
+  const search = useSearch();
+  const [expandedCategory, setExpandedCategory] = useState<number | null>(null);
+
+  // The selection lives in the URL so a comparison can be shared
+  const selectedIds = (new URLSearchParams(search).get("reviewIds") ?? "")
+    .split(",")
+    .map(Number)
+    .filter((id) => Number.isInteger(id) && id > 0);
+
+  const { data: reviews, isLoading: isLoadingReviews } = useQuery<ReviewWithDetails[]>({
+    queryKey: ["/api/reviews"],
+  });
+
+  const { data: comparison, isLoading: isLoadingComparison, error } = useQuery<ReviewComparison>({
+    queryKey: [`/api/comparisons?reviewIds=${selectedIds.join(",")}`],
+    enabled: selectedIds.length >= 2,
+  });
+
+  const toggleReview = (reviewId: number) => {
+    const next = selectedIds.includes(reviewId)
+      ? selectedIds.filter((id) => id !== reviewId)
+      : [...selectedIds, reviewId];
+    setLocation(next.length > 0 ? `/comparisons?reviewIds=${next.join(",")}` : "/comparisons");
+  };
+
+  const chartConfig: ChartConfig = Object.fromEntries(
+    (comparison?.reviews ?? []).map((review, index) => [
+      `review${index}`,
+      { label: carName(review.car), color: `hsl(var(--chart-${index + 1}))` },
+    ])
+  );
+
+  const chartData = (comparison?.categories ?? []).map((category) => ({
+    category: category.categoryName,
+    ...Object.fromEntries(category.scores.map((score, index) => [`review${index}`, score ?? 0])),
+  }));
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-20 sm:pb-6">
+      <div className="flex items-center mb-6">
+        <Button variant="ghost" className="mr-2" onClick={() => setLocation("/")}>
+          <ArrowLeft className="h-5 w-5" />
+        </Button>
+        <h2 className="text-2xl font-medium text-foreground">Compare Cars</h2>
+      </div>
+
+      <Card className="overflow-hidden mb-6">
+        <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
+          <h3 className="font-medium text-lg text-primary">Reviews</h3>
+          <p className="text-sm text-muted-foreground">
+            Select up to {MAX_COMPARED_REVIEWS} reviews of the same CUJ catalog version. The first one selected is the baseline.
+          </p>
+        </div>
+        <CardContent className="p-4">
+          {isLoadingReviews ? (
+            <div className="h-24 bg-gray-200 rounded animate-pulse"></div>
+          ) : !reviews || reviews.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">There are no reviews to compare.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {reviews.map((review) => {
+                const position = selectedIds.indexOf(review.id);
+                return (
+                  <label
+                    key={review.id}
+                    className="flex items-center gap-3 rounded-lg border border-gray-200 p-3 cursor-pointer hover:bg-gray-50"
+                  >
+                    <Checkbox
+                      checked={position !== -1}
+                      disabled={position === -1 && selectedIds.length >= MAX_COMPARED_REVIEWS}
+                      onCheckedChange={() => toggleReview(review.id)}
+                    />
+                    <div className="flex-1">
+                      <div className="text-sm font-medium">{carName(review.car)}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {review.car.androidVersion} · {review.status}
+                      </div>
+                    </div>
+                    {position === 0 && <Badge variant="secondary">Baseline</Badge>}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedIds.length < 2 ? (
+        <p className="text-center py-8 text-muted-foreground">Select at least two reviews to compare them.</p>
+      ) : isLoadingComparison ? (
+        <div className="space-y-6">
+          <div className="h-96 bg-gray-200 rounded animate-pulse"></div>
+          <div className="h-64 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+      ) : !comparison ? (
+        <Card>
+          <CardContent className="p-6 text-center">
+            <h3 className="text-lg font-medium text-destructive">Error loading comparison</h3>
+            <p className="text-muted-foreground mt-2">
+              {error instanceof Error ? error.message : "The selected reviews could not be compared."}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card className="overflow-hidden mb-6">
+            <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
+              <h3 className="font-medium text-lg text-primary">Category Scores</h3>
+            </div>
+            <CardContent className="p-4">
+              <ChartContainer config={chartConfig} className="mx-auto aspect-square max-h-[420px]">
+                <RadarChart data={chartData}>
+                  <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+                  <PolarGrid />
+                  <PolarAngleAxis dataKey="category" />
+                  <PolarRadiusAxis domain={[0, 100]} tick={false} axisLine={false} />
+                  {comparison.reviews.map((_review, index) => (
+                    <Radar
+                      key={index}
+                      dataKey={`review${index}`}
+                      stroke={`var(--color-review${index})`}
+                      fill={`var(--color-review${index})`}
+                      fillOpacity={0.15}
+                    />
+                  ))}
+                  <ChartLegend content={<ChartLegendContent />} />
+                </RadarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+
+          <Card className="overflow-hidden">
+            <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
+              <h3 className="font-medium text-lg text-primary">Score Comparison</h3>
+              <p className="text-sm text-muted-foreground">
+                Differences are against the baseline. Green marks the best score of a row, red the worst.
+              </p>
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category / CUJ / Task</TableHead>
+                  {comparison.reviews.map((review) => (
+                    <TableHead key={review.reviewId}>{carName(review.car)}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                <TableRow>
+                  <TableCell className="font-medium">Overall</TableCell>
+                  <ComparedScoreCells compared={comparison.overall} size="md" />
+                </TableRow>
+                {comparison.categories.map((category) => (
+                  <React.Fragment key={category.categoryId}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpandedCategory((current) =>
+                        current === category.categoryId ? null : category.categoryId)}
+                    >
+                      <TableCell className="font-medium">
+                        <div className="flex items-center">
+                          {expandedCategory === category.categoryId
+                            ? <ChevronDown className="h-4 w-4 mr-1" />
+                            : <ChevronRight className="h-4 w-4 mr-1" />}
+                          {category.categoryName}
+                        </div>
+                      </TableCell>
+                      <ComparedScoreCells compared={category} />
+                    </TableRow>
+                    {expandedCategory === category.categoryId && category.cujs.map((cuj) => (
+                      <React.Fragment key={cuj.cujId}>
+                        <TableRow>
+                          <TableCell className="pl-8 text-sm">{cuj.cujName}</TableCell>
+                          <ComparedScoreCells compared={cuj} />
+                        </TableRow>
+                        {cuj.tasks.map((task) => (
+                          <TableRow key={task.taskId}>
+                            <TableCell className="pl-14 text-xs text-muted-foreground">{task.taskName}</TableCell>
+                            <ComparedScoreCells compared={task} />
+                          </TableRow>
+                        ))}
+                      </React.Fragment>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
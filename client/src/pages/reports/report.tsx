@@ -14,7 +14,10 @@ import {
   CujCategory,
   TaskEvaluationWithTask,
   CategoryEvaluationWithCategory,
-  Issue
+  Issue,
+  ScoreBreakdown,
+  EvaluationDimension,
+  builtInDimensionKeys
 } from "@shared/schema";
 
 // No helper function needed anymore, we'll use direct conditional rendering
@@ -22,9 +25,18 @@ import {
   formatDateTime, 
   exportReviewToCSV, 
   generateGoogleDocsExport, 
-  exportReviewToGoogleSheets 
+  exportReviewToGoogleSheets,
+  getBuiltInDimension
 } from "@/lib/utils";
 import { Progress } from "@/components/ui/progress";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 
 export default function ReportView() {
@@ -55,17 +67,29 @@ export default function ReportView() {
     enabled: !!report?.review.id
   });
   
+  const { data: scoreBreakdown } = useQuery<ScoreBreakdown>({
+    queryKey: [`/api/reviews/${report?.review.id}/score-breakdown`],
+    enabled: !!report?.review.id
+  });
+  
+  // Scales of the built-in ratings, for the category bars and exports
+  const { data: dimensions = [] } = useQuery<EvaluationDimension[]>({
+    queryKey: ["/api/evaluation-dimensions"],
+  });
+  const [, , responsiveness, writing, emotional] = builtInDimensionKeys.map(key => getBuiltInDimension(dimensions, key));
+  
   const { toast } = useToast();
   
   // Export report as CSV
   const handleExportCSV = () => {
-    if (!report) return;
+    if (!report || !scoreBreakdown) return;
     try {
-      exportReviewToCSV(report.review, taskEvaluations, categoryEvaluations);
+      exportReviewToCSV(report.review, taskEvaluations, categoryEvaluations, scoreBreakdown, dimensions);
       // Refresh the queries to ensure data is up-to-date
       queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/task-evaluations`] });
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/category-evaluations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/score-breakdown`] });
       
       toast({
         title: "Export Complete",
@@ -83,14 +107,15 @@ export default function ReportView() {
   
   // Export to Google Docs 
   const handleExportGoogleDocs = () => {
-    if (!report) return;
+    if (!report || !scoreBreakdown) return;
     try {
-      const url = generateGoogleDocsExport(report, taskEvaluations, categoryEvaluations);
+      const url = generateGoogleDocsExport(report, taskEvaluations, categoryEvaluations, scoreBreakdown, dimensions);
       window.open(url, '_blank');
       // Refresh the queries to ensure data is up-to-date
       queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/task-evaluations`] });
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/category-evaluations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/score-breakdown`] });
       
       toast({
         title: "Export Initiated",
@@ -108,14 +133,15 @@ export default function ReportView() {
   
   // Export to Google Sheets
   const handleExportGoogleSheets = () => {
-    if (!report) return;
+    if (!report || !scoreBreakdown) return;
     try {
-      const url = exportReviewToGoogleSheets(report.review, taskEvaluations, categoryEvaluations);
+      const url = exportReviewToGoogleSheets(report.review, taskEvaluations, categoryEvaluations, scoreBreakdown, dimensions);
       window.open(url, '_blank');
       // Refresh the queries to ensure data is up-to-date
       queryClient.invalidateQueries({ queryKey: [`/api/reports/${reportId}`] });
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/task-evaluations`] });
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/category-evaluations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${report?.review.id}/score-breakdown`] });
       
       toast({
         title: "CSV Export Complete",
@@ -275,6 +301,10 @@ export default function ReportView() {
                   <span className="text-sm font-medium w-32">Build Fingerprint:</span>
                   <span className="text-sm">{report.review.car.buildFingerprint}</span>
                 </div>
+                <div className="flex">
+                  <span className="text-sm font-medium w-32">Reviewed By:</span>
+                  <span className="text-sm">{report.review.participants.map(participant => participant.name).join(", ")}</span>
+                </div>
                 <div className="flex">
                   <span className="text-sm font-medium w-32">Reviewed Date:</span>
                   <span className="text-sm">{
@@ -285,6 +315,35 @@ export default function ReportView() {
             </div>
           </div>
 
+          {/* Published reports keep the scores they were published with */}
+          {report.scoreSnapshot && report.publishedAt && (
+            <div className="mt-6">
+              <h4 className="font-medium mb-2">Score History</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+                  <div>
+                    <p className="text-sm font-medium">Score at publish time</p>
+                    <p className="text-xs text-muted-foreground">
+                      Published {formatDateTime(report.publishedAt)} with scoring config v{report.scoreSnapshot.scoringConfig.version}
+                    </p>
+                  </div>
+                  <ScorePill score={report.scoreSnapshot.overallScore} size="md" />
+                </div>
+                <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
+                  <div>
+                    <p className="text-sm font-medium">Score under current config</p>
+                    <p className="text-xs text-muted-foreground">
+                      {report.currentOverallScore === report.scoreSnapshot.overallScore
+                        ? "Unchanged since publishing"
+                        : "Scoring weights changed since publishing"}
+                    </p>
+                  </div>
+                  <ScorePill score={report.currentOverallScore} size="md" />
+                </div>
+              </div>
+            </div>
+          )}
+
           {/* Key Takeaways - Only visible to internal users */}
           {canViewInternalContent && (
             <div className="mt-6">
@@ -296,8 +355,9 @@ export default function ReportView() {
                      typeof report.overallScore === 'number' && report.overallScore >= 3.0 ? "good" :
                      typeof report.overallScore === 'number' && report.overallScore >= 2.0 ? "ok" : "bad"}
                   </span>, 
-                  I would rank it <span className="font-medium">#{report.benchmarkRank ? report.benchmarkRank : "N/A"}</span> in our GAS fleet 
-                  and it is <span className="font-medium">{report.benchmarkComparison ? report.benchmarkComparison : "comparable"}</span> than our previous benchmark.
+                  I would rank it <span className="font-medium">#{report.benchmarkRank ? report.benchmarkRank : "N/A"}</span> in its benchmark cohort 
+                  and it is <span className="font-medium">{report.benchmarkComparison ? report.benchmarkComparison : "comparable"}</span>
+                  {report.benchmarkComparison === "better" || report.benchmarkComparison === "worse" ? " than" : " to"} the rest of that cohort.
                 </p>
                 
                 <div className="mt-4">
@@ -336,6 +396,26 @@ export default function ReportView() {
               </div>
             </div>
           )}
+
+          {/* Tasks that don't exist on the car, left out of the scores */}
+          {report.notApplicableTasks?.length > 0 && (
+            <div className="mt-6">
+              <h4 className="font-medium mb-2">Not Applicable Tasks</h4>
+              <p className="text-sm text-muted-foreground mb-2">
+                These tasks don't apply to this car and are left out of its scores.
+              </p>
+              <div className="space-y-2">
+                {report.notApplicableTasks.map(task => (
+                  <div key={task.taskId} className="bg-muted/30 rounded-lg p-3">
+                    <div className="flex items-baseline">
+                      <span className="font-medium mr-2">{task.categoryName} › {task.taskName}:</span>
+                      <span className="text-sm text-muted-foreground">{task.reason}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
       
@@ -347,86 +427,141 @@ export default function ReportView() {
         
         <CardContent className="p-4">
           <div className="space-y-6">
-            {report.categoryScores.map(categoryScore => (
-              <div key={categoryScore.category.id} className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <div className="flex items-center">
-                    <span className="material-icons text-primary mr-2">{categoryScore.category.icon}</span>
-                    <h4 className="font-medium">{categoryScore.category.name}</h4>
+            {report.categoryScores.map(categoryScore => {
+              const publishedScore = report.scoreSnapshot?.categoryScores.find(
+                snapshot => snapshot.categoryId === categoryScore.category.id
+              );
+              const cujScores = publishedScore?.cujScores ?? categoryScore.cujScores;
+              
+              return (
+                <div key={categoryScore.category.id} className="space-y-2">
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center">
+                      <span className="material-icons text-primary mr-2">{categoryScore.category.icon}</span>
+                      <h4 className="font-medium">{categoryScore.category.name}</h4>
+                      {categoryScore.owner && (
+                        <span className="text-xs text-muted-foreground ml-2">by {categoryScore.owner.name}</span>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {publishedScore && publishedScore.score !== categoryScore.score && (
+                        <span className="text-xs text-muted-foreground">
+                          Now {categoryScore.score.toFixed(1)} under current config
+                        </span>
+                      )}
+                      <ScorePill score={publishedScore ? publishedScore.score : categoryScore.score} />
+                    </div>
                   </div>
-                  <ScorePill score={categoryScore.score} />
-                </div>
                 
-                {/* Task Completion */}
-                <div className="space-y-1 mt-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Task Completion</span>
-                    <span>{categoryScore.taskScore.toFixed(1)}/4.0</span>
+                  {/* Task Completion */}
+                  <div className="space-y-1 mt-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Task Completion</span>
+                      <span>{categoryScore.taskScore.toFixed(1)}/100</span>
+                    </div>
+                    <Progress 
+                      value={categoryScore.taskScore} 
+                      className="h-2"
+                    />
                   </div>
-                  <Progress 
-                    value={(categoryScore.taskScore / 4) * 100} 
-                    className="h-2"
-                  />
-                </div>
                 
-                {/* System Feedback */}
-                <div className="space-y-1 mt-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>System Feedback</span>
-                    <span>{categoryScore.responsivenessScore.toFixed(1)}/4.0</span>
+                  {/* System Feedback */}
+                  <div className="space-y-1 mt-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>System Feedback</span>
+                      <span>{categoryScore.responsivenessScore.toFixed(1)}/{responsiveness.scaleMax}</span>
+                    </div>
+                    <Progress 
+                      value={(categoryScore.responsivenessScore / responsiveness.scaleMax) * 100} 
+                      className="h-2"
+                    />
                   </div>
-                  <Progress 
-                    value={(categoryScore.responsivenessScore / 4) * 100} 
-                    className="h-2"
-                  />
-                </div>
                 
-                {/* Writing */}
-                <div className="space-y-1 mt-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Writing</span>
-                    <span>{categoryScore.writingScore.toFixed(1)}/4.0</span>
+                  {/* Writing */}
+                  <div className="space-y-1 mt-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Writing</span>
+                      <span>{categoryScore.writingScore.toFixed(1)}/{writing.scaleMax}</span>
+                    </div>
+                    <Progress 
+                      value={(categoryScore.writingScore / writing.scaleMax) * 100} 
+                      className="h-2"
+                    />
                   </div>
-                  <Progress 
-                    value={(categoryScore.writingScore / 4) * 100} 
-                    className="h-2"
-                  />
-                </div>
                 
-                {/* Emotional (Bonus) */}
-                <div className="space-y-1 mt-2">
-                  <div className="flex items-center justify-between text-sm">
-                    <span>Emotional (Bonus)</span>
-                    <span>{categoryScore.emotionalScore.toFixed(1)}/4.0</span>
+                  {/* Emotional (Bonus) */}
+                  <div className="space-y-1 mt-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Emotional (Bonus)</span>
+                      <span>{categoryScore.emotionalScore.toFixed(1)}/{emotional.scaleMax}</span>
+                    </div>
+                    <Progress 
+                      value={(categoryScore.emotionalScore / emotional.scaleMax) * 100} 
+                      className="h-2"
+                    />
                   </div>
-                  <Progress 
-                    value={(categoryScore.emotionalScore / 4) * 100} 
-                    className="h-2"
-                  />
-                </div>
 
-                <Button 
-                  variant="ghost" 
-                  size="sm" 
-                  className="text-primary text-sm flex items-center mt-2"
-                  onClick={() => handleViewCategoryDetails(categoryScore.category.id)}
-                >
-                  <span>View detailed tasks</span>
-                  <svg className="h-4 w-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                  </svg>
-                </Button>
+                  {/* CUJ Scores */}
+                  {cujScores.length > 0 && (
+                    <Table className="mt-2">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>CUJ</TableHead>
+                          <TableHead className="text-right">Score</TableHead>
+                          <TableHead className="text-right">Doable</TableHead>
+                          <TableHead className="text-right">Failing Tasks</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cujScores.map(cujScore => (
+                          <TableRow key={cujScore.cujId}>
+                            <TableCell className="text-sm">{cujScore.cujName}</TableCell>
+                            <TableCell className="text-right">
+                              <ScorePill score={cujScore.score} size="sm" />
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                              {cujScore.doableRate === null ? "N/A" : `${Math.round(cujScore.doableRate * 100)}%`}
+                            </TableCell>
+                            <TableCell className="text-right text-sm">
+                              {cujScore.failingTaskCount} of {cujScore.evaluatedTaskCount}
+                              {cujScore.evaluatedTaskCount + (cujScore.notApplicableTaskCount ?? 0) < cujScore.taskCount && (
+                                <span className="text-muted-foreground">
+                                  {" "}({cujScore.taskCount - cujScore.evaluatedTaskCount - (cujScore.notApplicableTaskCount ?? 0)} not evaluated)
+                                </span>
+                              )}
+                              {!!cujScore.notApplicableTaskCount && (
+                                <span className="text-muted-foreground"> ({cujScore.notApplicableTaskCount} not applicable)</span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  )}
+
+                  <Button 
+                    variant="ghost" 
+                    size="sm" 
+                    className="text-primary text-sm flex items-center mt-2"
+                    onClick={() => handleViewCategoryDetails(categoryScore.category.id)}
+                  >
+                    <span>View detailed tasks</span>
+                    <svg className="h-4 w-4 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                    </svg>
+                  </Button>
                 
-                {/* Expanded tasks would be shown here */}
-                {expandedCategory === categoryScore.category.id && (
-                  <div className="mt-2 pl-4 border-l-2 border-gray-200">
-                    <p className="text-sm text-gray-500">
-                      Detailed task evaluations would be displayed here.
-                    </p>
-                  </div>
-                )}
-              </div>
-            ))}
+                  {/* Expanded tasks would be shown here */}
+                  {expandedCategory === categoryScore.category.id && (
+                    <div className="mt-2 pl-4 border-l-2 border-gray-200">
+                      <p className="text-sm text-gray-500">
+                        Detailed task evaluations would be displayed here.
+                      </p>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
           </div>
         </CardContent>
 
@@ -6,23 +6,29 @@ import { Button } from "@/components/ui/button";
 import { ArrowLeft } from "lucide-react";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage, FormDescription } from "@/components/ui/form";
 import { Textarea } from "@/components/ui/textarea";
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
-import { CujCategory, CategoryEvaluation, scoringScaleDescriptions } from "@shared/schema";
+import { asksForFeedback, getBuiltInDimension, getDimensionRatingsError } from "@/lib/utils";
+import { CujCategory, CategoryEvaluation, EvaluationDimension } from "@shared/schema";
 import { MediaCapture } from "@/components/ui/media-capture";
+import { DimensionRatingFields, DimensionScale } from "@/components/ui/dimension-rating-fields";
 import { useToast } from "@/hooks/use-toast";
 
-// Form validation schema
+// Form validation schema. Ratings are picked from the points of their dimension's scale
 const categoryEvaluationSchema = z.object({
-  responsivenessScore: z.number().min(1).max(4),
+  responsivenessScore: z.number(),
   responsivenessFeedback: z.string().optional(),
-  writingScore: z.number().min(1).max(4),
+  writingScore: z.number(),
   writingFeedback: z.string().optional(),
-  emotionalScore: z.number().min(1).max(4),
+  emotionalScore: z.number(),
   emotionalFeedback: z.string().optional(),
+  ratings: z.array(z.object({
+    dimensionId: z.number(),
+    score: z.number(),
+    feedback: z.string().nullish(),
+  })),
   media: z.any().optional(),
 });
 
@@ -48,6 +54,15 @@ export default function CategoryEvaluationPage() {
     queryKey: [`/api/reviews/${reviewId}/categories/${categoryId}/evaluation`],
   });
   
+  // Scales of the built-in dimensions, and the admin-defined dimensions rated next to them
+  const { data: dimensions = [] } = useQuery<EvaluationDimension[]>({
+    queryKey: ["/api/evaluation-dimensions"],
+  });
+  const responsiveness = getBuiltInDimension(dimensions, "responsiveness");
+  const writing = getBuiltInDimension(dimensions, "writing");
+  const emotional = getBuiltInDimension(dimensions, "emotional");
+  const categoryDimensions = dimensions.filter((dimension) => dimension.level === "category" && !dimension.key);
+  
   const isLoading = isLoadingCategory || isLoadingEvaluation;
   
   // Setup form with existing data if available
@@ -60,6 +75,7 @@ export default function CategoryEvaluationPage() {
       writingFeedback: evaluation?.writingFeedback || '',
       emotionalScore: evaluation?.emotionalScore || undefined,
       emotionalFeedback: evaluation?.emotionalFeedback || '',
+      ratings: evaluation?.ratings || [],
       media: evaluation?.media || [],
     },
   });
@@ -85,6 +101,8 @@ export default function CategoryEvaluationPage() {
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/categories/${categoryId}/evaluation`] });
       // Invalidate all category evaluations for this review
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/category-evaluations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/score-breakdown`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/build-history`] });
       // Invalidate review data
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}`] });
       
@@ -121,6 +139,8 @@ export default function CategoryEvaluationPage() {
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/categories/${categoryId}/evaluation`] });
       // Invalidate all category evaluations for this review
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/category-evaluations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/score-breakdown`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/build-history`] });
       
       toast({
         title: "Draft Saved",
@@ -138,6 +158,12 @@ export default function CategoryEvaluationPage() {
   
   // Handle form submission
   const onSubmit = async (data: CategoryEvaluationFormValues) => {
+    const ratingsError = getDimensionRatingsError(categoryDimensions, data.ratings);
+    if (ratingsError) {
+      form.setError("ratings", { message: ratingsError });
+      return;
+    }
+    
     setSubmitting(true);
     try {
       await submitEvaluation.mutateAsync(data);
@@ -221,10 +247,8 @@ export default function CategoryEvaluationPage() {
           {/* System Feedback Question */}
           <Card>
             <CardContent className="p-4">
-              <h4 className="font-medium">System Feedback & Responsiveness</h4>
-              <p className="text-sm text-muted-foreground mb-4">
-                Rate the system's performance and responsiveness for the entire category.
-              </p>
+              <h4 className="font-medium">{responsiveness.name}</h4>
+              <p className="text-sm text-muted-foreground mb-4">{responsiveness.description}</p>
               
               <FormField
                 control={form.control}
@@ -232,41 +256,20 @@ export default function CategoryEvaluationPage() {
                 render={({ field }) => (
                   <FormItem>
                     <FormControl>
-                      <div className="flex flex-col space-y-8">
-                        <RadioGroup 
-                          onValueChange={(value) => field.onChange(Number(value))} 
-                          defaultValue={field.value ? field.value.toString() : undefined}
-                          className="grid grid-cols-4 gap-2 w-full"
-                        >
-                          {Object.entries(scoringScaleDescriptions.responsiveness).map(([value, { label, description }]) => (
-                            <div key={value} className="flex flex-col items-center">
-                              <div className="text-center mb-2">
-                                <span className="font-medium text-sm block">{label}</span>
-                                <span className="text-xs block">{value}</span>
-                              </div>
-                              <RadioGroupItem value={value} id={`responsiveness-${value}`} 
-                                className={`w-12 h-12 rounded-full border-2 ${
-                                  Number(value) === 1 ? 'border-score-poor bg-score-poor/20' : 
-                                  Number(value) === 2 ? 'border-score-fair bg-score-fair/20' : 
-                                  Number(value) === 3 ? 'border-score-good bg-score-good/20' : 
-                                  'border-score-excellent bg-score-excellent/20'
-                                }`} 
-                              />
-                              <div className="mt-2 text-center">
-                                <p className="text-xs text-muted-foreground">{description}</p>
-                              </div>
-                            </div>
-                          ))}
-                        </RadioGroup>
-                      </div>
+                      <DimensionScale
+                        dimension={responsiveness}
+                        id="responsiveness"
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               
-              {/* Render feedback field if score is 1 or 2 */}
-              {(watchResponsivenessScore === 1 || watchResponsivenessScore === 2) && (
+              {/* Ask what went wrong for ratings at or below the feedback threshold */}
+              {asksForFeedback(responsiveness, watchResponsivenessScore) && (
                 <FormField
                   control={form.control}
                   name="responsivenessFeedback"
@@ -290,10 +293,8 @@ export default function CategoryEvaluationPage() {
           {/* Writing Question */}
           <Card>
             <CardContent className="p-4">
-              <h4 className="font-medium">Readability & Writing</h4>
-              <p className="text-sm text-muted-foreground mb-4">
-                Rate the quality of text and language used in this category.
-              </p>
+              <h4 className="font-medium">{writing.name}</h4>
+              <p className="text-sm text-muted-foreground mb-4">{writing.description}</p>
               
               <FormField
                 control={form.control}
@@ -301,41 +302,20 @@ export default function CategoryEvaluationPage() {
                 render={({ field }) => (
                   <FormItem>
                     <FormControl>
-                      <div className="flex flex-col space-y-8">
-                        <RadioGroup 
-                          onValueChange={(value) => field.onChange(Number(value))} 
-                          defaultValue={field.value ? field.value.toString() : undefined}
-                          className="grid grid-cols-4 gap-2 w-full"
-                        >
-                          {Object.entries(scoringScaleDescriptions.writing).map(([value, { label, description }]) => (
-                            <div key={value} className="flex flex-col items-center">
-                              <div className="text-center mb-2">
-                                <span className="font-medium text-sm block">{label}</span>
-                                <span className="text-xs block">{value}</span>
-                              </div>
-                              <RadioGroupItem value={value} id={`writing-${value}`} 
-                                className={`w-12 h-12 rounded-full border-2 ${
-                                  Number(value) === 1 ? 'border-score-poor bg-score-poor/20' : 
-                                  Number(value) === 2 ? 'border-score-fair bg-score-fair/20' : 
-                                  Number(value) === 3 ? 'border-score-good bg-score-good/20' : 
-                                  'border-score-excellent bg-score-excellent/20'
-                                }`} 
-                              />
-                              <div className="mt-2 text-center">
-                                <p className="text-xs text-muted-foreground">{description}</p>
-                              </div>
-                            </div>
-                          ))}
-                        </RadioGroup>
-                      </div>
+                      <DimensionScale
+                        dimension={writing}
+                        id="writing"
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               
-              {/* Render feedback field if score is 1 or 2 */}
-              {(watchWritingScore === 1 || watchWritingScore === 2) && (
+              {/* Ask what went wrong for ratings at or below the feedback threshold */}
+              {asksForFeedback(writing, watchWritingScore) && (
                 <FormField
                   control={form.control}
                   name="writingFeedback"
@@ -359,10 +339,8 @@ export default function CategoryEvaluationPage() {
           {/* Emotional Question */}
           <Card>
             <CardContent className="p-4">
-              <h4 className="font-medium">Emotional Engagement (Bonus)</h4>
-              <p className="text-sm text-muted-foreground mb-4">
-                Rate the emotional connection and satisfaction with this category.
-              </p>
+              <h4 className="font-medium">{emotional.name}</h4>
+              <p className="text-sm text-muted-foreground mb-4">{emotional.description}</p>
               
               <FormField
                 control={form.control}
@@ -370,41 +348,20 @@ export default function CategoryEvaluationPage() {
                 render={({ field }) => (
                   <FormItem>
                     <FormControl>
-                      <div className="flex flex-col space-y-8">
-                        <RadioGroup 
-                          onValueChange={(value) => field.onChange(Number(value))} 
-                          defaultValue={field.value ? field.value.toString() : undefined}
-                          className="grid grid-cols-4 gap-2 w-full"
-                        >
-                          {Object.entries(scoringScaleDescriptions.emotional).map(([value, { label, description }]) => (
-                            <div key={value} className="flex flex-col items-center">
-                              <div className="text-center mb-2">
-                                <span className="font-medium text-sm block">{label}</span>
-                                <span className="text-xs block">{value}</span>
-                              </div>
-                              <RadioGroupItem value={value} id={`emotional-${value}`} 
-                                className={`w-12 h-12 rounded-full border-2 ${
-                                  Number(value) === 1 ? 'border-score-poor bg-score-poor/20' : 
-                                  Number(value) === 2 ? 'border-score-fair bg-score-fair/20' : 
-                                  Number(value) === 3 ? 'border-score-good bg-score-good/20' : 
-                                  'border-score-excellent bg-score-excellent/20'
-                                }`} 
-                              />
-                              <div className="mt-2 text-center">
-                                <p className="text-xs text-muted-foreground">{description}</p>
-                              </div>
-                            </div>
-                          ))}
-                        </RadioGroup>
-                      </div>
+                      <DimensionScale
+                        dimension={emotional}
+                        id="emotional"
+                        value={field.value}
+                        onChange={field.onChange}
+                      />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               
-              {/* Render feedback field if score is 1 or 2 */}
-              {(watchEmotionalScore === 1 || watchEmotionalScore === 2) && (
+              {/* Ask what went wrong for ratings at or below the feedback threshold */}
+              {asksForFeedback(emotional, watchEmotionalScore) && (
                 <FormField
                   control={form.control}
                   name="emotionalFeedback"
@@ -425,6 +382,27 @@ export default function CategoryEvaluationPage() {
             </CardContent>
           </Card>
           
+          {/* Admin-defined dimensions */}
+          {categoryDimensions.length > 0 && (
+            <FormField
+              control={form.control}
+              name="ratings"
+              render={({ field }) => (
+                <FormItem className="space-y-6">
+                  <DimensionRatingFields
+                    dimensions={categoryDimensions}
+                    value={field.value}
+                    onChange={(ratings) => {
+                      field.onChange(ratings);
+                      form.clearErrors("ratings");
+                    }}
+                  />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+          
           {/* Media Capture */}
           <FormField
             control={form.control}
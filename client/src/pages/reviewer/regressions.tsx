@@ -0,0 +1,169 @@
+import { useParams, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Download } from "lucide-react";
+import { BuildRegressions, EvaluationDimension, RegressionAspect, TaskBuildResult } from "@shared/schema";
+import { exportRegressionsToCSV, formatScore } from "@/lib/utils";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScorePill } from "@/components/ui/score-pill";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const aspectLabels: Record<RegressionAspect, string> = {
+  doable: "No longer doable",
+  usability: "Usability dropped",
+  visuals: "Visuals dropped",
+};
+
+// How a task did in one build, e.g. "Doable · U 3.50 · V 4.00"
+const formatResult = (result: TaskBuildResult) => [
+  result.doable === null ? "Not evaluated" : result.doable ? "Doable" : "Not doable",
+  `U ${formatScore(result.usabilityScore, 2)}`,
+  `V ${formatScore(result.visualsScore, 2)}`,
+].join(" · ");
+
+export default function RegressionsView() {
+  const params = useParams();
+  const reviewId = Number(params.id);
+  const [_, setLocation] = useLocation();
+
+  const { data: report, isLoading, error } = useQuery<BuildRegressions>({
+    queryKey: [`/api/reviews/${reviewId}/regressions`],
+  });
+
+  // Scales of the usability and visuals ratings, for the export
+  const { data: dimensions = [] } = useQuery<EvaluationDimension[]>({
+    queryKey: ["/api/evaluation-dimensions"],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-20 sm:pb-6">
+        <div className="space-y-6">
+          <div className="h-32 bg-gray-200 rounded animate-pulse"></div>
+          <div className="h-64 bg-gray-200 rounded animate-pulse"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report) {
+    return (
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-20 sm:pb-6">
+        <div className="flex items-center mb-6">
+          <Button variant="ghost" className="mr-2" onClick={() => setLocation(`/reviews/${reviewId}`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h2 className="text-2xl font-medium text-foreground">Build Regressions</h2>
+        </div>
+        <Card>
+          <CardContent className="p-6 text-center">
+            <h3 className="text-lg font-medium text-destructive">Error loading regressions</h3>
+            <p className="text-muted-foreground mt-2">
+              {error instanceof Error ? error.message : "The regressions of this review could not be loaded."}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { car } = report.review;
+  const previousCar = report.previousReview.car;
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-20 sm:pb-6">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Button variant="ghost" className="mr-2" onClick={() => setLocation(`/reviews/${reviewId}`)}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <h2 className="text-2xl font-medium text-foreground">
+            {car.make} {car.model} ({car.year}) Regressions
+          </h2>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => exportRegressionsToCSV(report, dimensions)}
+          disabled={report.regressions.length === 0}
+        >
+          <Download className="mr-1 h-4 w-4" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-6">
+        {[
+          { label: "Previous build", entry: report.previousReview },
+          { label: "Current build", entry: report.review },
+        ].map(({ label, entry }) => (
+          <Card key={label}>
+            <CardContent className="p-4 flex items-center justify-between">
+              <div>
+                <p className="text-sm text-muted-foreground">{label}</p>
+                <p className="font-medium">Android {entry.car.androidVersion}</p>
+                <p className="font-mono text-xs">{entry.car.buildFingerprint}</p>
+              </div>
+              <ScorePill score={entry.overallScore} size="md" />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="overflow-hidden">
+        <div className="p-4 bg-primary bg-opacity-5 border-b border-gray-200">
+          <h3 className="font-medium text-lg text-primary">Tasks That Got Worse</h3>
+          <p className="text-sm text-muted-foreground">
+            Since Android {previousCar.androidVersion}: tasks that are no longer doable, or whose usability or visuals rating dropped.
+          </p>
+        </div>
+        {report.regressions.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No task regressed between these builds.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Task</TableHead>
+                <TableHead>Regression</TableHead>
+                <TableHead>Previous Build</TableHead>
+                <TableHead>Current Build</TableHead>
+                <TableHead>Feedback</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.regressions.map((regression) => (
+                <TableRow key={`${regression.categoryName}/${regression.cujName}/${regression.taskName}`}>
+                  <TableCell>
+                    <div className="font-medium">{regression.taskName}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {regression.categoryName} › {regression.cujName}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {regression.aspects.map((aspect) => (
+                        <Badge key={aspect} variant={aspect === "doable" ? "destructive" : "secondary"}>
+                          {aspectLabels[aspect]}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">{formatResult(regression.previous)}</TableCell>
+                  <TableCell className="text-sm">{formatResult(regression.current)}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{regression.feedback || "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+    </div>
+  );
+}
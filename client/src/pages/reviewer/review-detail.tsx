@@ -3,12 +3,15 @@ import { useLocation, useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, ChevronDown, ChevronRight, Navigation, Headphones, Phone, Settings, Check, X, Download, FileSpreadsheet, FileText, Camera as CameraIcon } from "lucide-react";
+import { ArrowLeft, ChevronDown, ChevronRight, Navigation, Headphones, Phone, Settings, Check, X, Download, FileSpreadsheet, FileText, Camera as CameraIcon, ClipboardCheck, BarChart, RefreshCw, TrendingDown } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-import { CujCategory, Task, Review, ReviewWithDetails, TaskEvaluation, CategoryEvaluation, Cuj } from "@shared/schema";
+import { CujCategory, Task, Review, ReviewWithDetails, TaskEvaluation, CategoryEvaluation, Cuj, Report, ScoreBreakdown, BuildHistoryEntry, EvaluationDimension, builtInDimensionKeys } from "@shared/schema";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { exportReviewToCSV, generateGoogleDocsExport, exportReviewToGoogleSheets } from "@/lib/utils";
+import { exportReviewToCSV, generateGoogleDocsExport, exportReviewToGoogleSheets, getBuiltInDimension } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { ReviewParticipants } from "@/components/admin/review-participants";
+import { ReReviewDialog } from "@/components/dialogs/rereview-dialog";
 import FileSaver from "file-saver";
 
 // Extend Task type to include cuj relationship
@@ -22,7 +25,7 @@ type TaskWithCuj = Task & {
 };
 import { apiRequest } from "@/lib/queryClient";
 import { Skeleton } from "@/components/ui/skeleton";
-import { getScoreColorClass, getScoreTextColorClass, calculateTaskScore, calculateCategoryScore as utilsCalculateCategoryScore } from "@/lib/utils";
+import { getScoreColorClass, getScoreTextColorClass } from "@/lib/utils";
 
 type CategoryProgress = {
   id: number;
@@ -56,6 +59,8 @@ export default function ReviewDetail() {
   });
   
   const { toast } = useToast();
+  const { user } = useAuth();
+  const [isReReviewDialogOpen, setIsReReviewDialogOpen] = useState(false);
   
   // Also look for category parameter which is passed from task evaluation page
   useEffect(() => {
@@ -76,20 +81,43 @@ export default function ReviewDetail() {
     queryKey: [`/api/reviews/${reviewId}`],
   });
   
-  // Fetch CUJ categories
+  // Completed reviews have a report generated for them
+  const { data: report } = useQuery<Report>({
+    queryKey: [`/api/reviews/${reviewId}/report`],
+    enabled: review?.status === 'completed',
+  });
+  
+  // Scores of the review with the configured weights, used for display and exports
+  const { data: scoreBreakdown } = useQuery<ScoreBreakdown>({
+    queryKey: [`/api/reviews/${reviewId}/score-breakdown`],
+  });
+  
+  // Scales of the built-in ratings, for the summaries and exports
+  const { data: dimensions = [] } = useQuery<EvaluationDimension[]>({
+    queryKey: ["/api/evaluation-dimensions"],
+  });
+  const [usability, visuals, responsiveness, writing, emotional] = builtInDimensionKeys.map(key => getBuiltInDimension(dimensions, key));
+  
+  // Reviews of earlier and later builds of the same vehicle
+  const { data: buildHistory } = useQuery<BuildHistoryEntry[]>({
+    queryKey: [`/api/reviews/${reviewId}/build-history`],
+  });
+  
+  // Fetch the CUJ categories of the catalog version this review was started with
   const { data: categories, isLoading: isLoadingCategories } = useQuery<CujCategory[]>({
-    queryKey: ['/api/cuj-categories'],
+    queryKey: [`/api/reviews/${reviewId}/categories`],
   });
   
   // Fetch tasks with their completion status
-  const { data: tasks, isLoading: isLoadingTasks } = useQuery<{ tasks: TaskWithCuj[], completedTaskIds: number[] }>({
+  const { data: tasks, isLoading: isLoadingTasks } = useQuery<{ tasks: TaskWithCuj[], completedTaskIds: number[], notApplicableTaskIds: number[] }>({
     queryKey: [`/api/reviews/${reviewId}/tasks`],
   });
   
   // Fetch task evaluations for this review
   const { data: taskEvaluationsData, isLoading: isLoadingTaskEvals } = useQuery<TaskEvaluation[]>({
     queryKey: [`/api/reviews/${reviewId}/task-evaluations`],
-    enabled: !!reviewId && !!tasks && Array.isArray(tasks.completedTaskIds) && tasks.completedTaskIds.length > 0,
+    enabled: !!reviewId && !!tasks && Array.isArray(tasks.completedTaskIds) &&
+      (tasks.completedTaskIds.length > 0 || tasks.notApplicableTaskIds.length > 0),
   });
   
   // Fetch category evaluations for this review
@@ -143,7 +171,15 @@ export default function ReviewDetail() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/report`] });
       queryClient.invalidateQueries({ queryKey: ['/api/reviews'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error Updating Review",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
     }
   });
   
@@ -151,7 +187,9 @@ export default function ReviewDetail() {
   const calculateProgress = () => {
     if (!tasks || !categories) return { totalCompleted: 0, totalTasks: 0, progressPercentage: 0, categoriesProgress: [] };
     
-    const { tasks: allTasks, completedTaskIds } = tasks;
+    // Tasks that don't exist on the car are left out of the progress
+    const { completedTaskIds, notApplicableTaskIds } = tasks;
+    const allTasks = tasks.tasks.filter(task => !notApplicableTaskIds.includes(task.id));
     const totalCompleted = completedTaskIds.length;
     const totalTasks = allTasks.length;
     const progressPercentage = totalTasks === 0 ? 0 : (totalCompleted / totalTasks) * 100;
@@ -207,6 +245,19 @@ export default function ReviewDetail() {
     }
   };
   
+  // Complete the review, which generates its report
+  const handleCompleteReview = () => {
+    if (totalCompleted < totalTasks) {
+      const confirmed = window.confirm(
+        `This review is incomplete (${totalCompleted} of ${totalTasks} tasks completed). Complete it and generate the report anyway?`
+      );
+      
+      if (!confirmed) return;
+    }
+    
+    updateReviewStatus.mutate('completed');
+  };
+  
   // Go to task evaluation
   const handleEvaluateTask = (taskId: number) => {
     setLocation(`/reviews/${reviewId}/tasks/${taskId}`);
@@ -252,7 +303,7 @@ export default function ReviewDetail() {
   
   // Export to CSV
   const handleExportCSV = () => {
-    if (!review) return;
+    if (!review || !scoreBreakdown) return;
     
     try {
       const taskEvaluationsForExport = getTaskEvaluationsForExport();
@@ -270,7 +321,7 @@ export default function ReviewDetail() {
         if (!confirmed) return;
       }
       
-      exportReviewToCSV(review, taskEvaluationsForExport, categoryEvals);
+      exportReviewToCSV(review, taskEvaluationsForExport, categoryEvals, scoreBreakdown, dimensions);
       
       toast({
         title: "Export Successful",
@@ -288,7 +339,7 @@ export default function ReviewDetail() {
   
   // Export to Google Docs
   const handleExportGoogleDocs = () => {
-    if (!review) return;
+    if (!review || !scoreBreakdown) return;
     
     try {
       // Check if all tasks are completed
@@ -325,7 +376,7 @@ export default function ReviewDetail() {
       const taskEvaluationsForExport = getTaskEvaluationsForExport();
       const categoryEvals = getCategoryEvaluationsForExport();
       
-      const url = generateGoogleDocsExport(mockReport, taskEvaluationsForExport, categoryEvals);
+      const url = generateGoogleDocsExport(mockReport, taskEvaluationsForExport, categoryEvals, scoreBreakdown, dimensions);
       window.open(url, '_blank');
       
       toast({
@@ -344,7 +395,7 @@ export default function ReviewDetail() {
   
   // Export to Google Sheets
   const handleExportGoogleSheets = () => {
-    if (!review) return;
+    if (!review || !scoreBreakdown) return;
     
     try {
       // Check if all tasks are completed
@@ -362,7 +413,7 @@ export default function ReviewDetail() {
       const taskEvaluationsForExport = getTaskEvaluationsForExport();
       const categoryEvals = getCategoryEvaluationsForExport();
       
-      const url = exportReviewToGoogleSheets(review, taskEvaluationsForExport, categoryEvals);
+      const url = exportReviewToGoogleSheets(review, taskEvaluationsForExport, categoryEvals, scoreBreakdown, dimensions);
       window.open(url, '_blank');
       
       toast({
@@ -400,63 +451,19 @@ export default function ReviewDetail() {
     return tasks?.completedTaskIds.includes(taskId) || false;
   };
   
-  // Calculate category score based on task evaluations and category evaluations
+  // Check if a task was marked as not applicable to the car
+  const isTaskNotApplicable = (taskId: number) => {
+    return tasks?.notApplicableTaskIds.includes(taskId) || false;
+  };
+  
+  // Category score as scored on the server, with the configured weights
   const calculateCategoryScore = (categoryId: number) => {
-    if (!tasks || !tasks.tasks) {
-      return null;
-    }
-    
-    const categoryTasks = tasks.tasks.filter(task => getCategoryByCujId(task.cujId)?.id === categoryId);
-    const completedTasks = categoryTasks.filter(task => isTaskCompleted(task.id));
-    const categoryEvaluation = categoryEvaluations[categoryId];
-    
-    // If no tasks are completed and no category evaluation exists, return null
-    if (completedTasks.length === 0 && !categoryEvaluation) {
-      return null;
-    }
-    
-    // Calculate average task scores using our utility function
-    let taskScoresSum = 0;
-    let taskScoresCount = 0;
-    
-    completedTasks.forEach(task => {
-      const evaluation = taskEvaluations[task.id];
-      if (evaluation) {
-        const taskScore = calculateTaskScore(evaluation);
-        if (taskScore !== null) {
-          taskScoresSum += taskScore;
-          taskScoresCount++;
-        }
-      }
-    });
-    
-    // Get average task score if any valid scores exist
-    const avgTaskScore = taskScoresCount > 0 ? taskScoresSum / taskScoresCount : null;
-    
-    // Use our utility function to calculate the category score
-    return utilsCalculateCategoryScore(avgTaskScore, categoryEvaluation);
+    return scoreBreakdown?.categories.find(category => category.categoryId === categoryId)?.score ?? null;
   };
   
   // Calculate overall vehicle score across all categories
   const calculateOverallScore = () => {
-    if (!categories || categories.length === 0) {
-      return 'N/A';
-    }
-    
-    let totalScore = 0;
-    let totalCategories = 0;
-    
-    categories.forEach(category => {
-      const score = calculateCategoryScore(category.id);
-      if (score !== null) {
-        totalScore += score;
-        totalCategories++;
-      }
-    });
-    
-    return totalCategories > 0 
-      ? parseFloat((totalScore / totalCategories).toFixed(1)) 
-      : 'N/A';
+    return scoreBreakdown?.overallScore ?? 'N/A';
   };
   
   // Get category by CUJ ID
@@ -573,28 +580,44 @@ export default function ReviewDetail() {
           </h2>
         </div>
         
-        <DropdownMenu>
-          <DropdownMenuTrigger asChild>
-            <Button variant="outline">
-              <Download className="mr-1 h-4 w-4" />
-              Export <ChevronDown className="ml-1 h-4 w-4" />
+        <div className="flex items-center gap-2">
+          {review.status === 'in_progress' && (
+            <Button onClick={handleCompleteReview} disabled={updateReviewStatus.isPending}>
+              <ClipboardCheck className="mr-1 h-4 w-4" />
+              Complete Review
+            </Button>
+          )}
+        
+          {report && (
+            <Button variant="outline" onClick={() => setLocation(`/reports/${report.id}`)}>
+              <BarChart className="mr-1 h-4 w-4" />
+              View Report
             </Button>
-          </DropdownMenuTrigger>
-          <DropdownMenuContent align="end">
-            <DropdownMenuItem onClick={handleExportCSV}>
-              <Download className="mr-2 h-4 w-4" />
-              CSV
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={handleExportGoogleSheets}>
-              <FileSpreadsheet className="mr-2 h-4 w-4" />
-              Google Sheets
-            </DropdownMenuItem>
-            <DropdownMenuItem onClick={handleExportGoogleDocs}>
-              <FileText className="mr-2 h-4 w-4" />
-              Google Docs
-            </DropdownMenuItem>
-          </DropdownMenuContent>
-        </DropdownMenu>
+          )}
+        
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline">
+                <Download className="mr-1 h-4 w-4" />
+                Export <ChevronDown className="ml-1 h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={handleExportCSV}>
+                <Download className="mr-2 h-4 w-4" />
+                CSV
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleExportGoogleSheets}>
+                <FileSpreadsheet className="mr-2 h-4 w-4" />
+                Google Sheets
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleExportGoogleDocs}>
+                <FileText className="mr-2 h-4 w-4" />
+                Google Docs
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
       </div>
       
       {/* Car Details Card */}
@@ -638,6 +661,68 @@ export default function ReviewDetail() {
         </CardContent>
       </Card>
       
+      {/* Build History */}
+      <Card className="mb-6">
+        <CardContent className="p-4">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-medium">Build History</h3>
+            <div className="flex items-center gap-2">
+              {review.previousReviewId && (
+                <Button variant="outline" size="sm" onClick={() => setLocation(`/reviews/${reviewId}/regressions`)}>
+                  <TrendingDown className="mr-1 h-4 w-4" />
+                  Regressions
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => setIsReReviewDialogOpen(true)}>
+                <RefreshCw className="mr-1 h-4 w-4" />
+                Re-review New Build
+              </Button>
+            </div>
+          </div>
+          {!buildHistory || buildHistory.length <= 1 ? (
+            <p className="text-sm text-muted-foreground">This is the only reviewed build of this car.</p>
+          ) : (
+            <div className="space-y-2">
+              {buildHistory.map(build => (
+                <div
+                  key={build.reviewId}
+                  className={`flex items-center justify-between rounded-md border p-3 text-sm ${build.reviewId === reviewId ? 'border-primary bg-primary/5' : 'border-gray-200 cursor-pointer hover:bg-gray-50'}`}
+                  onClick={() => build.reviewId !== reviewId && setLocation(`/reviews/${build.reviewId}`)}
+                >
+                  <div>
+                    <div className="font-medium">Android {build.car.androidVersion}</div>
+                    <div className="font-mono text-xs text-muted-foreground">{build.car.buildFingerprint}</div>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-muted-foreground capitalize">{build.status.replace('_', ' ')}</span>
+                    <span className={`font-medium ${getScoreTextColorClass(build.overallScore)}`}>
+                      {build.overallScore !== null ? build.overallScore.toFixed(1) : 'N/A'}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+      
+      <ReReviewDialog
+        review={review}
+        open={isReReviewDialogOpen}
+        onOpenChange={setIsReReviewDialogOpen}
+        onReReviewCreated={(newReview) => setLocation(`/reviews/${newReview.id}`)}
+      />
+      
+      {/* Participants and category ownership - admins only */}
+      {user?.role === 'admin' && (
+        <Card className="mb-6">
+          <CardContent className="p-4">
+            <h3 className="font-medium mb-4">Reviewers</h3>
+            <ReviewParticipants review={review} />
+          </CardContent>
+        </Card>
+      )}
+      
       {/* Review Progress */}
       <Card className="mb-6">
         <CardContent className="p-4">
@@ -720,6 +805,7 @@ export default function ReviewDetail() {
         {categories.map(category => {
           const categoryTasks = tasks?.tasks?.filter(task => getCategoryByCujId(task.cujId)?.id === category.id) || [];
           const completedCount = categoryTasks.filter(task => isTaskCompleted(task.id)).length;
+          const applicableCount = categoryTasks.filter(task => !isTaskNotApplicable(task.id)).length;
           const isExpanded = expandedCategories.includes(category.id);
           
           return (
@@ -756,7 +842,7 @@ export default function ReviewDetail() {
                 </div>
                 <div className="flex items-center">
                   <span className="text-sm text-muted-foreground mr-2">
-                    {completedCount}/{categoryTasks.length} completed
+                    {completedCount}/{applicableCount} completed
                   </span>
                   {isExpanded ? <ChevronDown className="h-5 w-5" /> : <ChevronRight className="h-5 w-5" />}
                 </div>
@@ -794,10 +880,10 @@ export default function ReviewDetail() {
                               if (!evalData) return <span className="text-xs font-medium">N/A</span>;
                               
                               const score = evalData.responsivenessScore;
-                              const scorePercentage = score ? (score / 4) * 100 : null;
+                              const scorePercentage = score ? (score / responsiveness.scaleMax) * 100 : null;
                               return (
                                 <span className={`text-xs font-medium ${getScoreColorClass(scorePercentage)}`}>
-                                  {score ? `${score}/4` : "N/A"}
+                                  {score ? `${score}/${responsiveness.scaleMax}` : "N/A"}
                                 </span>
                               );
                             })()}
@@ -809,10 +895,10 @@ export default function ReviewDetail() {
                               if (!evalData) return <span className="text-xs font-medium">N/A</span>;
                               
                               const score = evalData.writingScore;
-                              const scorePercentage = score ? (score / 4) * 100 : null;
+                              const scorePercentage = score ? (score / writing.scaleMax) * 100 : null;
                               return (
                                 <span className={`text-xs font-medium ${getScoreColorClass(scorePercentage)}`}>
-                                  {score ? `${score}/4` : "N/A"}
+                                  {score ? `${score}/${writing.scaleMax}` : "N/A"}
                                 </span>
                               );
                             })()}
@@ -824,10 +910,10 @@ export default function ReviewDetail() {
                               if (!evalData) return <span className="text-xs font-medium">N/A</span>;
                               
                               const score = evalData.emotionalScore;
-                              const scorePercentage = score ? (score / 4) * 100 : null;
+                              const scorePercentage = score ? (score / emotional.scaleMax) * 100 : null;
                               return (
                                 <span className={`text-xs font-medium ${getScoreColorClass(scorePercentage)}`}>
-                                  {score ? `${score}/4` : "N/A"}
+                                  {score ? `${score}/${emotional.scaleMax}` : "N/A"}
                                 </span>
                               );
                             })()}
@@ -926,7 +1012,7 @@ export default function ReviewDetail() {
                         <div className="flex items-center space-x-1">
                           <span className="text-sm font-medium">Tasks:</span>
                           <span className="text-sm">
-                            {completedCount}/{categoryTasks.length} completed
+                            {completedCount}/{applicableCount} completed
                           </span>
                         </div>
                       </div>
@@ -959,6 +1045,18 @@ export default function ReviewDetail() {
                                 </div>
                                 <span className="text-xs text-muted-foreground">Completed</span>
                               </div>
+                            ) : isTaskNotApplicable(task.id) ? (
+                              <Button 
+                                variant="ghost" 
+                                size="sm"
+                                className="text-muted-foreground"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleEvaluateTask(task.id);
+                                }}
+                              >
+                                Not Applicable
+                              </Button>
                             ) : (
                               <Button 
                                 variant="outline" 
@@ -978,6 +1076,11 @@ export default function ReviewDetail() {
                           <p className="text-sm font-medium">Expected Outcome:</p>
                           <p className="text-sm text-muted-foreground">{task.expectedOutcome}</p>
                         </div>
+                        {isTaskNotApplicable(task.id) && taskEvaluations[task.id]?.notApplicableReason && (
+                          <p className="mt-2 text-sm text-muted-foreground">
+                            <span className="font-medium">Not applicable:</span> {taskEvaluations[task.id]?.notApplicableReason}
+                          </p>
+                        )}
                         {isTaskCompleted(task.id) && (
                           <div className="mt-3 flex justify-between items-center">
                             <div className="flex space-x-4">
@@ -995,10 +1098,10 @@ export default function ReviewDetail() {
                                 <span className="text-xs text-muted-foreground">Usability:</span>
                                 {(() => {
                                   const score = taskEvaluations[task.id]?.usabilityScore;
-                                  const scorePercentage = score ? (score / 4) * 100 : null;
+                                  const scorePercentage = score ? (score / usability.scaleMax) * 100 : null;
                                   return (
                                     <span className={`text-xs font-medium ${getScoreColorClass(scorePercentage)}`}>
-                                      {score ? `${score}/4` : "N/A"}
+                                      {score ? `${score}/${usability.scaleMax}` : "N/A"}
                                     </span>
                                   );
                                 })()}
@@ -1007,10 +1110,10 @@ export default function ReviewDetail() {
                                 <span className="text-xs text-muted-foreground">Visuals:</span>
                                 {(() => {
                                   const score = taskEvaluations[task.id]?.visualsScore;
-                                  const scorePercentage = score ? (score / 4) * 100 : null;
+                                  const scorePercentage = score ? (score / visuals.scaleMax) * 100 : null;
                                   return (
                                     <span className={`text-xs font-medium ${getScoreColorClass(scorePercentage)}`}>
-                                      {score ? `${score}/4` : "N/A"}
+                                      {score ? `${score}/${visuals.scaleMax}` : "N/A"}
                                     </span>
                                   );
                                 })()}
@@ -11,8 +11,10 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
-import { Task as BaseTask, TaskEvaluation as BaseTaskEvaluation, scoringScaleDescriptions } from "@shared/schema";
+import { asksForFeedback, getBuiltInDimension, getDimensionRatingsError } from "@/lib/utils";
+import { Task as BaseTask, TaskEvaluation as BaseTaskEvaluation, EvaluationDimension } from "@shared/schema";
 import { MediaCapture } from "@/components/ui/media-capture-new";
+import { DimensionRatingFields, DimensionScale } from "@/components/ui/dimension-rating-fields";
 import { useToast } from "@/hooks/use-toast";
 import { CSSTransition, TransitionGroup } from "react-transition-group";
 
@@ -35,15 +37,36 @@ type TaskEvaluation = BaseTaskEvaluation & {
   visualsFeedback?: string;
 };
 
-// Form validation schema
+// Form validation schema. Tasks that don't exist on the car need a reason instead of ratings.
+// Ratings are picked from the points of their dimension's scale
 const taskEvaluationSchema = z.object({
+  notApplicable: z.boolean(),
+  notApplicableReason: z.string().optional(),
   doable: z.boolean(),
   undoableReason: z.string().optional(),
-  usabilityScore: z.number().min(1).max(4),
+  usabilityScore: z.number().optional(),
   usabilityFeedback: z.string().optional(),
-  visualsScore: z.number().min(1).max(4),
+  visualsScore: z.number().optional(),
   visualsFeedback: z.string().optional(),
+  ratings: z.array(z.object({
+    dimensionId: z.number(),
+    score: z.number(),
+    feedback: z.string().nullish(),
+  })),
   media: z.any().optional(),
+}).superRefine((values, ctx) => {
+  if (values.notApplicable) {
+    if (!values.notApplicableReason?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["notApplicableReason"], message: "Please explain why this task doesn't apply to the car" });
+    }
+    return;
+  }
+  if (values.usabilityScore === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["usabilityScore"], message: "Required" });
+  }
+  if (values.visualsScore === undefined) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["visualsScore"], message: "Required" });
+  }
 });
 
 type TaskEvaluationFormValues = z.infer<typeof taskEvaluationSchema>;
@@ -83,28 +106,41 @@ export default function TaskEvaluationPage() {
         } 
       } 
     }>, 
-    completedTaskIds: number[] 
+    completedTaskIds: number[],
+    notApplicableTaskIds: number[]
   }>({
     queryKey: [`/api/reviews/${reviewId}/tasks`],
   });
   
+  // Scales of the built-in dimensions, and the admin-defined dimensions rated next to them
+  const { data: dimensions = [] } = useQuery<EvaluationDimension[]>({
+    queryKey: ["/api/evaluation-dimensions"],
+  });
+  const usability = getBuiltInDimension(dimensions, "usability");
+  const visuals = getBuiltInDimension(dimensions, "visuals");
+  const taskDimensions = dimensions.filter((dimension) => dimension.level === "task" && !dimension.key);
+  
   const isLoading = isLoadingTask || isLoadingEvaluation || isLoadingTasks;
   
   // Setup form with existing data if available
   const form = useForm<TaskEvaluationFormValues>({
     resolver: zodResolver(taskEvaluationSchema),
     defaultValues: {
+      notApplicable: evaluation?.notApplicable ?? false,
+      notApplicableReason: evaluation?.notApplicableReason ?? '',
       doable: evaluation?.doable ?? true,
       undoableReason: evaluation?.undoableReason ?? '',
       usabilityScore: evaluation?.usabilityScore ?? undefined,
       usabilityFeedback: evaluation?.usabilityFeedback ?? '',
       visualsScore: evaluation?.visualsScore ?? undefined,
       visualsFeedback: evaluation?.visualsFeedback ?? '',
+      ratings: evaluation?.ratings ?? [],
       media: evaluation?.media ?? [],
     },
   });
   
   // Watch form values to show/hide conditional fields
+  const watchNotApplicable = form.watch("notApplicable");
   const watchDoable = form.watch("doable");
   const watchUsabilityScore = form.watch("usabilityScore");
   const watchVisualsScore = form.watch("visualsScore");
@@ -154,6 +190,8 @@ export default function TaskEvaluationPage() {
       
       // Invalidate all task evaluations for this review (crucial for review detail page)
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/task-evaluations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/score-breakdown`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/build-history`] });
       
       // Invalidate tasks and review
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/tasks`] });
@@ -215,6 +253,8 @@ export default function TaskEvaluationPage() {
       
       // Invalidate all task evaluations for this review (crucial for review detail page)
       queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/task-evaluations`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/score-breakdown`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/reviews/${reviewId}/build-history`] });
       
       toast({
         title: "Draft Saved",
@@ -232,6 +272,12 @@ export default function TaskEvaluationPage() {
   
   // Handle form submission
   const onSubmit = async (data: TaskEvaluationFormValues) => {
+    const ratingsError = data.notApplicable ? null : getDimensionRatingsError(taskDimensions, data.ratings);
+    if (ratingsError) {
+      form.setError("ratings", { message: ratingsError });
+      return;
+    }
+    
     setSubmitting(true);
     try {
       await submitEvaluation.mutateAsync(data);
@@ -346,8 +392,9 @@ export default function TaskEvaluationPage() {
                     </div>
                     
                     {(() => {
+                      // Tasks that don't exist on the car are left out of the progress
                       const categoryTasks = tasksData.tasks.filter(t => 
-                        t.cuj?.categoryId === task.cuj?.categoryId
+                        t.cuj?.categoryId === task.cuj?.categoryId && !tasksData.notApplicableTaskIds.includes(t.id)
                       );
                       const completedCount = categoryTasks.filter(t => 
                         tasksData.completedTaskIds.includes(t.id)
@@ -369,7 +416,7 @@ export default function TaskEvaluationPage() {
                   <CardContent className="p-4">
                     <h4 className="font-medium">Task Doable</h4>
                     <p className="text-sm text-muted-foreground mb-4">
-                      Was the task able to be completed as expected?
+                      Was the task able to be completed as expected? Choose "Not applicable" if the car doesn't have the feature.
                     </p>
                     
                     <FormField
@@ -379,8 +426,11 @@ export default function TaskEvaluationPage() {
                         <FormItem>
                           <FormControl>
                             <RadioGroup 
-                              onValueChange={(value) => field.onChange(value === 'true')} 
-                              defaultValue={field.value ? 'true' : 'false'}
+                              onValueChange={(value) => {
+                                form.setValue("notApplicable", value === 'na');
+                                field.onChange(value === 'true');
+                              }} 
+                              defaultValue={watchNotApplicable ? 'na' : field.value ? 'true' : 'false'}
                               className="flex space-x-4"
                             >
                               <div className="flex items-center space-x-2">
@@ -391,6 +441,10 @@ export default function TaskEvaluationPage() {
                                 <RadioGroupItem value="false" id="doable-no" />
                                 <label htmlFor="doable-no">No</label>
                               </div>
+                              <div className="flex items-center space-x-2">
+                                <RadioGroupItem value="na" id="doable-na" />
+                                <label htmlFor="doable-na">Not applicable</label>
+                              </div>
                             </RadioGroup>
                           </FormControl>
                           <FormMessage />
@@ -398,24 +452,24 @@ export default function TaskEvaluationPage() {
                       )}
                     />
                     
-                    {/* Conditional feedback field for non-doable tasks */}
-                    {!watchDoable && (
+                    {/* Required reason for tasks that don't exist on the car */}
+                    {watchNotApplicable && (
                       <div className="mt-4 border-t pt-4 border-gray-100">
                         <FormField
                           control={form.control}
-                          name="undoableReason"
+                          name="notApplicableReason"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>
-                                <div className="text-sm font-medium text-destructive">How come this task wasn't doable?</div>
+                                <div className="text-sm font-medium">Why doesn't this task apply to the car?</div>
                                 <div className="text-xs text-muted-foreground mt-1">
-                                  Please explain why the task couldn't be completed and provide evidence below
+                                  The task won't be scored or count towards completion
                                 </div>
                               </FormLabel>
                               <FormControl>
                                 <textarea 
                                   className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                                  placeholder="Explain what went wrong..."
+                                  placeholder="e.g. The car doesn't support wireless Android Auto"
                                   {...field}
                                 />
                               </FormControl>
@@ -425,80 +479,25 @@ export default function TaskEvaluationPage() {
                         />
                       </div>
                     )}
-                  </CardContent>
-                </Card>
-                
-                {/* Usability Question */}
-                <Card>
-                  <CardContent className="p-4">
-                    <h4 className="font-medium">Usability & Interaction</h4>
-                    <p className="text-sm text-muted-foreground mb-4">
-                      Rate how easy and intuitive it was to complete this task.
-                    </p>
                     
-                    <FormField
-                      control={form.control}
-                      name="usabilityScore"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormControl>
-                            <div className="flex flex-col space-y-8">
-                              <div className="grid grid-cols-4 w-full">
-                                {Object.entries(scoringScaleDescriptions.usability).map(([value, { label }]) => (
-                                  <div key={value} className="flex flex-col items-center justify-center">
-                                    <span className="font-medium text-sm">{label}</span>
-                                    <span className="text-xs">{value}</span>
-                                  </div>
-                                ))}
-                              </div>
-                              <RadioGroup 
-                                onValueChange={(value) => field.onChange(Number(value))} 
-                                defaultValue={field.value?.toString()}
-                                className="grid grid-cols-4 w-full gap-4"
-                              >
-                                {Object.entries(scoringScaleDescriptions.usability).map(([value, { label, description }]) => (
-                                  <div key={value} className="flex flex-col items-center justify-center">
-                                    <div className="flex justify-center">
-                                      <RadioGroupItem value={value} id={`usability-${value}`} 
-                                        className={`w-10 h-10 rounded-full border-2 ${
-                                          Number(value) === 1 ? 'border-score-poor bg-score-poor/20' : 
-                                          Number(value) === 2 ? 'border-score-fair bg-score-fair/20' : 
-                                          Number(value) === 3 ? 'border-score-good bg-score-good/20' : 
-                                          'border-score-excellent bg-score-excellent/20'
-                                        }`} 
-                                      />
-                                    </div>
-                                    <div className="mt-2 text-center px-2">
-                                      <p className="text-xs text-muted-foreground">{description}</p>
-                                    </div>
-                                  </div>
-                                ))}
-                              </RadioGroup>
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    {/* Conditional feedback field for low usability scores */}
-                    {watchDoable && watchUsabilityScore !== undefined && watchUsabilityScore <= 2 && (
+                    {/* Conditional feedback field for non-doable tasks */}
+                    {!watchNotApplicable && !watchDoable && (
                       <div className="mt-4 border-t pt-4 border-gray-100">
                         <FormField
                           control={form.control}
-                          name="usabilityFeedback"
+                          name="undoableReason"
                           render={({ field }) => (
                             <FormItem>
                               <FormLabel>
-                                <div className="text-sm font-medium text-amber-700">What made this difficult to use?</div>
+                                <div className="text-sm font-medium text-destructive">How come this task wasn't doable?</div>
                                 <div className="text-xs text-muted-foreground mt-1">
-                                  Please explain the issues with usability and provide evidence below
+                                  Please explain why the task couldn't be completed and provide evidence below
                                 </div>
                               </FormLabel>
                               <FormControl>
                                 <textarea 
                                   className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                                  placeholder="Describe the usability issues..."
+                                  placeholder="Explain what went wrong..."
                                   {...field}
                                 />
                               </FormControl>
@@ -511,88 +510,138 @@ export default function TaskEvaluationPage() {
                   </CardContent>
                 </Card>
                 
-                {/* Visuals Question */}
-                <Card>
-                  <CardContent className="p-4">
-                    <h4 className="font-medium">Visual Design</h4>
-                    <p className="text-sm text-muted-foreground mb-4">
-                      Rate the visual design and aesthetics of this feature.
-                    </p>
+                {!watchNotApplicable && (
+                  <>
+                    {/* Usability Question */}
+                    <Card>
+                      <CardContent className="p-4">
+                        <h4 className="font-medium">{usability.name}</h4>
+                        <p className="text-sm text-muted-foreground mb-4">{usability.description}</p>
                     
-                    <FormField
-                      control={form.control}
-                      name="visualsScore"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormControl>
-                            <div className="flex flex-col space-y-8">
-                              <div className="grid grid-cols-4 w-full">
-                                {Object.entries(scoringScaleDescriptions.visuals).map(([value, { label }]) => (
-                                  <div key={value} className="flex flex-col items-center justify-center">
-                                    <span className="font-medium text-sm">{label}</span>
-                                    <span className="text-xs">{value}</span>
-                                  </div>
-                                ))}
-                              </div>
-                              <RadioGroup 
-                                onValueChange={(value) => field.onChange(Number(value))} 
-                                defaultValue={field.value?.toString()}
-                                className="grid grid-cols-4 w-full gap-4"
-                              >
-                                {Object.entries(scoringScaleDescriptions.visuals).map(([value, { label, description }]) => (
-                                  <div key={value} className="flex flex-col items-center justify-center">
-                                    <div className="flex justify-center">
-                                      <RadioGroupItem value={value} id={`visuals-${value}`} 
-                                        className={`w-10 h-10 rounded-full border-2 ${
-                                          Number(value) === 1 ? 'border-score-poor bg-score-poor/20' : 
-                                          Number(value) === 2 ? 'border-score-fair bg-score-fair/20' : 
-                                          Number(value) === 3 ? 'border-score-good bg-score-good/20' : 
-                                          'border-score-excellent bg-score-excellent/20'
-                                        }`} 
-                                      />
-                                    </div>
-                                    <div className="mt-2 text-center px-2">
-                                      <p className="text-xs text-muted-foreground">{description}</p>
+                        <FormField
+                          control={form.control}
+                          name="usabilityScore"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormControl>
+                                <DimensionScale
+                                  dimension={usability}
+                                  id="usability"
+                                  value={field.value}
+                                  onChange={field.onChange}
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                    
+                        {/* Conditional feedback field for low usability scores */}
+                        {watchDoable && asksForFeedback(usability, watchUsabilityScore) && (
+                          <div className="mt-4 border-t pt-4 border-gray-100">
+                            <FormField
+                              control={form.control}
+                              name="usabilityFeedback"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>
+                                    <div className="text-sm font-medium text-amber-700">What made this difficult to use?</div>
+                                    <div className="text-xs text-muted-foreground mt-1">
+                                      Please explain the issues with usability and provide evidence below
                                     </div>
-                                  </div>
-                                ))}
-                              </RadioGroup>
-                            </div>
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
+                                  </FormLabel>
+                                  <FormControl>
+                                    <textarea 
+                                      className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                      placeholder="Describe the usability issues..."
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                
+                    {/* Visuals Question */}
+                    <Card>
+                      <CardContent className="p-4">
+                        <h4 className="font-medium">{visuals.name}</h4>
+                        <p className="text-sm text-muted-foreground mb-4">{visuals.description}</p>
                     
-                    {/* Conditional feedback field for low visuals scores */}
-                    {watchDoable && watchVisualsScore !== undefined && watchVisualsScore <= 2 && (
-                      <div className="mt-4 border-t pt-4 border-gray-100">
                         <FormField
                           control={form.control}
-                          name="visualsFeedback"
+                          name="visualsScore"
                           render={({ field }) => (
                             <FormItem>
-                              <FormLabel>
-                                <div className="text-sm font-medium text-amber-700">What visual issues did you notice?</div>
-                                <div className="text-xs text-muted-foreground mt-1">
-                                  Please explain the problems with the visual design and provide evidence below
-                                </div>
-                              </FormLabel>
                               <FormControl>
-                                <textarea 
-                                  className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                                  placeholder="Describe the visual issues..."
-                                  {...field}
+                                <DimensionScale
+                                  dimension={visuals}
+                                  id="visuals"
+                                  value={field.value}
+                                  onChange={field.onChange}
                                 />
                               </FormControl>
                               <FormMessage />
                             </FormItem>
                           )}
                         />
-                      </div>
+                    
+                        {/* Conditional feedback field for low visuals scores */}
+                        {watchDoable && asksForFeedback(visuals, watchVisualsScore) && (
+                          <div className="mt-4 border-t pt-4 border-gray-100">
+                            <FormField
+                              control={form.control}
+                              name="visualsFeedback"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>
+                                    <div className="text-sm font-medium text-amber-700">What visual issues did you notice?</div>
+                                    <div className="text-xs text-muted-foreground mt-1">
+                                      Please explain the problems with the visual design and provide evidence below
+                                    </div>
+                                  </FormLabel>
+                                  <FormControl>
+                                    <textarea 
+                                      className="flex min-h-[80px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                                      placeholder="Describe the visual issues..."
+                                      {...field}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                    
+                    {/* Admin-defined dimensions */}
+                    {taskDimensions.length > 0 && (
+                      <FormField
+                        control={form.control}
+                        name="ratings"
+                        render={({ field }) => (
+                          <FormItem className="space-y-6">
+                            <DimensionRatingFields
+                              dimensions={taskDimensions}
+                              value={field.value}
+                              onChange={(ratings) => {
+                                field.onChange(ratings);
+                                form.clearErrors("ratings");
+                              }}
+                            />
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
                     )}
-                  </CardContent>
-                </Card>
+                  </>
+                )}
                 
                 {/* Media Capture */}
                 <FormField
@@ -1,28 +1,9 @@
 import fetch from 'node-fetch';
-import fs from 'fs';
 
-async function loginAsTony() {
-  const loginResponse = await fetch('http://localhost:5000/api/auth/login', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      username: 'tony',
-      password: 'password123' // Include the actual password for Tony from the database
-    }),
-  });
-
-  if (!loginResponse.ok) {
-    console.error('Login failed:', await loginResponse.text());
-    return null;
-  }
-
-  const cookies = loginResponse.headers.get('set-cookie');
-  return cookies;
-}
+// A personal API token of Tony's with the evaluate scope, created under API Tokens in the account menu
+const API_TOKEN = process.env.API_TOKEN;
 
-async function createReview(cookies) {
+async function createReview() {
   const reviewData = {
     carId: 3,
     reviewerId: 3,
@@ -36,7 +17,7 @@ async function createReview(cookies) {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      'Cookie': cookies
+      'Authorization': `Bearer ${API_TOKEN}`
     },
     body: JSON.stringify(reviewData),
   });
@@ -53,19 +34,13 @@ async function createReview(cookies) {
 
 async function main() {
   try {
-    console.log('Logging in as Tony...');
-    const cookies = await loginAsTony();
-    
-    if (!cookies) {
-      console.error('Failed to get authentication cookies');
+    if (!API_TOKEN) {
+      console.error('Set API_TOKEN to one of Tony\'s API tokens');
       return;
     }
     
-    console.log('Saving cookies to file...');
-    fs.writeFileSync('cookies_tony.txt', cookies);
-    
     console.log('Creating review for Tony...');
-    const review = await createReview(cookies);
+    const review = await createReview();
     
     if (review) {
       console.log('Review created with ID:', review.id);
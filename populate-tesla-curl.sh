@@ -3,14 +3,12 @@
 # Set the API base URL
 API_BASE="http://localhost:5000/api"
 
-# Login first to get session cookie
-echo "Logging in as admin..."
-COOKIE_JAR="cookies.txt"
-curl -s -c "$COOKIE_JAR" -X POST "$API_BASE/auth/login" \
-  -H "Content-Type: application/json" \
-  -d '{
-    "username": "admin"
-  }'
+# Authenticate with a personal API token (evaluate scope, admin for admin-only data),
+# created under API Tokens in the account menu
+if [ -z "$API_TOKEN" ]; then
+  echo "Set API_TOKEN to one of your API tokens"
+  exit 1
+fi
 
 # Function to make authenticated API calls
 api_call() {
@@ -19,11 +17,13 @@ api_call() {
   local data="$3"
   
   if [ -n "$data" ]; then
-    curl -s -b "$COOKIE_JAR" -X "$method" "$API_BASE$endpoint" \
+    curl -s -X "$method" "$API_BASE$endpoint" \
+      -H "Authorization: Bearer $API_TOKEN" \
       -H "Content-Type: application/json" \
       -d "$data"
   else
-    curl -s -b "$COOKIE_JAR" -X "$method" "$API_BASE$endpoint" \
+    curl -s -X "$method" "$API_BASE$endpoint" \
+      -H "Authorization: Bearer $API_TOKEN" \
       -H "Content-Type: application/json"
   fi
 }
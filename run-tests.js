@@ -27,7 +27,26 @@ const testSuites = [
   { pattern: '__tests__/api/reviews.test.ts', description: 'Reviews API Tests' },
   { pattern: '__tests__/api/media.test.ts', description: 'Media API Tests' },
   { pattern: '__tests__/api/cuj-sync.test.ts', description: 'CUJ Sync API Tests' },
+  { pattern: '__tests__/api/cuj-catalog.test.ts', description: 'CUJ Catalog API Tests' },
+  { pattern: '__tests__/api/review-access.test.ts', description: 'Review Access API Tests' },
+  { pattern: '__tests__/api/scoring-config.test.ts', description: 'Scoring Config API Tests' },
+  { pattern: '__tests__/api/api-tokens.test.ts', description: 'API Token API Tests' },
   { pattern: '__tests__/unit/scoring.test.ts', description: 'Scoring Unit Tests' },
+  { pattern: '__tests__/unit/cuj-import.test.ts', description: 'CUJ Import Unit Tests' },
+  { pattern: '__tests__/unit/cuj-diff.test.ts', description: 'CUJ Catalog Diff Unit Tests' },
+  { pattern: '__tests__/unit/review-scope.test.ts', description: 'Review Scope Unit Tests' },
+  { pattern: '__tests__/unit/agreement.test.ts', description: 'Inter-rater Agreement Unit Tests' },
+  { pattern: '__tests__/unit/report-generation.test.ts', description: 'Report Generation Unit Tests' },
+  { pattern: '__tests__/unit/scoring-config-history.test.ts', description: 'Scoring Config History Unit Tests' },
+  { pattern: '__tests__/unit/score-breakdown.test.ts', description: 'Score Breakdown Unit Tests' },
+  { pattern: '__tests__/unit/comparison.test.ts', description: 'Review Comparison Unit Tests' },
+  { pattern: '__tests__/unit/build-history.test.ts', description: 'Build History Unit Tests' },
+  { pattern: '__tests__/unit/scoring-simulation.test.ts', description: 'Scoring Simulation Unit Tests' },
+  { pattern: '__tests__/unit/auth.test.ts', description: 'Authentication Unit Tests' },
+  { pattern: '__tests__/unit/oidc.test.ts', description: 'OIDC Unit Tests' },
+  { pattern: '__tests__/unit/api-tokens.test.ts', description: 'API Token Unit Tests' },
+  { pattern: '__tests__/unit/session-store.test.ts', description: 'Session Store Unit Tests' },
+  { pattern: '__tests__/unit/user-management.test.ts', description: 'User Management Unit Tests' },
   { pattern: '__tests__/e2e/login.test.ts', description: 'Login E2E Tests' },
   { pattern: '__tests__/e2e/review-workflow.test.ts', description: 'Review Workflow E2E Tests' },
   { pattern: '__tests__/e2e/media-capture.test.ts', description: 'Media Capture E2E Tests' }
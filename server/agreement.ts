@@ -0,0 +1,302 @@
+import {
+  AgreementDimension,
+  BuiltInDimensionKey,
+  CarAgreement,
+  CategoryAgreement,
+  DimensionAgreement,
+  EvaluationDimension,
+  RaterPairKappa,
+  RatingSpread,
+  TaskAgreement,
+  User
+} from '../shared/schema';
+import type { IStorage } from './storage';
+
+// How far apart two ratings on a dimension can be, from its scale. Dimensions without a definition
+// are on the original 1-4 scale
+const DEFAULT_SCORE_RANGE = 3;
+
+function scoreRange(dimensions: EvaluationDimension[], key: BuiltInDimensionKey): number {
+  const dimension = dimensions.find(entry => entry.key === key);
+  return dimension ? dimension.scaleMax - dimension.scaleMin : DEFAULT_SCORE_RANGE;
+}
+
+// One rater's rating of one item (a task or a category) on one dimension
+export type Rating = {
+  itemKey: string;
+  raterId: number;
+  value: number | boolean;
+};
+
+export function ratingSpread(values: number[]): RatingSpread {
+  if (values.length === 0) {
+    return { count: 0, mean: null, min: null, max: null, range: null, stdDev: null };
+  }
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return { count: values.length, mean, min, max, range: max - min, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * Share of rater pairs giving the same rating, or null with fewer than two ratings.
+ */
+export function pairwiseAgreement(values: Array<number | boolean>): number | null {
+  if (values.length < 2) return null;
+
+  let pairs = 0;
+  let agreeing = 0;
+  for (let i = 0; i < values.length; i++) {
+    for (let j = i + 1; j < values.length; j++) {
+      pairs++;
+      if (values[i] === values[j]) agreeing++;
+    }
+  }
+  return agreeing / pairs;
+}
+
+// (observed - expected) / (1 - expected); raters that never vary agree perfectly
+function kappa(observed: number, expected: number): number {
+  return expected === 1 ? 1 : (observed - expected) / (1 - expected);
+}
+
+function groupByItem(ratings: Rating[]): Map<string, Rating[]> {
+  const items = new Map<string, Rating[]>();
+  for (const rating of ratings) {
+    const itemRatings = items.get(rating.itemKey) || [];
+    itemRatings.push(rating);
+    items.set(rating.itemKey, itemRatings);
+  }
+  return items;
+}
+
+/**
+ * Fleiss' kappa over all items rated by at least two raters. Items may have different
+ * numbers of raters; null when no item was rated twice.
+ */
+export function fleissKappa(ratings: Rating[]): number | null {
+  const items = Array.from(groupByItem(ratings).values()).filter(itemRatings => itemRatings.length >= 2);
+  if (items.length === 0) return null;
+
+  const categoryTotals = new Map<string, number>();
+  let totalRatings = 0;
+  let observedSum = 0;
+  for (const itemRatings of items) {
+    const counts = new Map<string, number>();
+    for (const rating of itemRatings) {
+      const category = String(rating.value);
+      counts.set(category, (counts.get(category) || 0) + 1);
+      categoryTotals.set(category, (categoryTotals.get(category) || 0) + 1);
+    }
+
+    const n = itemRatings.length;
+    let agreeingPairs = 0;
+    counts.forEach(count => { agreeingPairs += count * (count - 1); });
+    observedSum += agreeingPairs / (n * (n - 1));
+    totalRatings += n;
+  }
+
+  let expected = 0;
+  categoryTotals.forEach(count => { expected += (count / totalRatings) ** 2; });
+  return kappa(observedSum / items.length, expected);
+}
+
+/**
+ * Cohen's kappa between two raters over the items both of them rated.
+ */
+export function cohensKappa(ratings: Rating[], raterA: number, raterB: number): RaterPairKappa {
+  const valuesA = new Map<string, string>();
+  const valuesB = new Map<string, string>();
+  for (const rating of ratings) {
+    if (rating.raterId === raterA) valuesA.set(rating.itemKey, String(rating.value));
+    if (rating.raterId === raterB) valuesB.set(rating.itemKey, String(rating.value));
+  }
+
+  const shared = Array.from(valuesA.keys()).filter(itemKey => valuesB.has(itemKey));
+  if (shared.length === 0) {
+    return { raterIds: [raterA, raterB], items: 0, kappa: null };
+  }
+
+  const countsA = new Map<string, number>();
+  const countsB = new Map<string, number>();
+  let agreeing = 0;
+  for (const itemKey of shared) {
+    const a = valuesA.get(itemKey)!;
+    const b = valuesB.get(itemKey)!;
+    if (a === b) agreeing++;
+    countsA.set(a, (countsA.get(a) || 0) + 1);
+    countsB.set(b, (countsB.get(b) || 0) + 1);
+  }
+
+  let expected = 0;
+  countsA.forEach((count, category) => {
+    expected += (count / shared.length) * ((countsB.get(category) || 0) / shared.length);
+  });
+  return { raterIds: [raterA, raterB], items: shared.length, kappa: kappa(agreeing / shared.length, expected) };
+}
+
+export function dimensionAgreement(dimension: AgreementDimension, ratings: Rating[]): DimensionAgreement {
+  const raterIds = Array.from(new Set(ratings.map(rating => rating.raterId))).sort((a, b) => a - b);
+  const cohens: RaterPairKappa[] = [];
+  for (let i = 0; i < raterIds.length; i++) {
+    for (let j = i + 1; j < raterIds.length; j++) {
+      const pair = cohensKappa(ratings, raterIds[i], raterIds[j]);
+      if (pair.items > 0) cohens.push(pair);
+    }
+  }
+
+  const items = Array.from(groupByItem(ratings).values()).filter(itemRatings => itemRatings.length >= 2).length;
+  return { dimension, items, fleissKappa: fleissKappa(ratings), cohensKappa: cohens };
+}
+
+// Mean of the normalised disagreement of each dimension that has ratings to compare. Spreads are
+// compared with the widest range of their dimension's scale
+function disagreementScore(agreements: Array<number | null>, spreads: Array<{ spread: RatingSpread; maxRange: number }>): number {
+  const parts = [
+    ...agreements.filter((agreement): agreement is number => agreement !== null).map(agreement => 1 - agreement),
+    ...spreads.filter(({ spread }) => spread.count >= 2).map(({ spread, maxRange }) => spread.range! / maxRange)
+  ];
+  return parts.length > 0 ? parts.reduce((sum, part) => sum + part, 0) / parts.length : 0;
+}
+
+const itemName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Compares the evaluations of every reviewer who evaluated the car, across all of its reviews.
+ * Tasks and categories are matched by name so reviews pinned to different catalog versions
+ * can be compared; a rater's latest evaluation of an item wins.
+ */
+export async function getCarAgreement(storage: IStorage, carId: number): Promise<CarAgreement | undefined> {
+  const car = await storage.getCar(carId);
+  if (!car) return undefined;
+
+  const reviews = (await storage.getAllReviews())
+    .filter(review => review.carId === carId)
+    .sort((a, b) => a.id - b.id);
+  const dimensions = await storage.getEvaluationDimensions();
+
+  type TaskRatings = { task: TaskAgreement['task']; byRater: Map<number, { doable: boolean | null; usability: number | null; visuals: number | null }> };
+  type CategoryRatings = { category: CategoryAgreement['category']; byRater: Map<number, { responsiveness: number | null; writing: number | null; emotional: number | null }> };
+  const taskRatings = new Map<string, TaskRatings>();
+  const categoryRatings = new Map<string, CategoryRatings>();
+  const raters = new Map<number, User>();
+
+  for (const review of reviews) {
+    review.participants.forEach(participant => raters.set(participant.id, participant));
+
+    const tasks = new Map((await storage.getTasksForReview(review.id)).map(task => [task.id, task]));
+    for (const evaluation of await storage.getTaskEvaluationsForReview(review.id)) {
+      const task = tasks.get(evaluation.taskId);
+      if (!task) continue;
+
+      const key = [task.cuj.category.name, task.cuj.name, task.name].map(itemName).join('/');
+      const entry = taskRatings.get(key) || {
+        task: { id: task.id, name: task.name, cujName: task.cuj.name, categoryName: task.cuj.category.name },
+        byRater: new Map()
+      };
+      entry.byRater.set(evaluation.evaluatedBy ?? review.reviewerId, {
+        doable: evaluation.doable,
+        usability: evaluation.usabilityScore,
+        visuals: evaluation.visualsScore
+      });
+      taskRatings.set(key, entry);
+    }
+
+    for (const evaluation of await storage.getCategoryEvaluationsForReview(review.id)) {
+      const key = itemName(evaluation.category.name);
+      const entry = categoryRatings.get(key) || {
+        category: { id: evaluation.category.id, name: evaluation.category.name },
+        byRater: new Map()
+      };
+      entry.byRater.set(evaluation.evaluatedBy ?? review.reviewerId, {
+        responsiveness: evaluation.responsivenessScore,
+        writing: evaluation.writingScore,
+        emotional: evaluation.emotionalScore
+      });
+      categoryRatings.set(key, entry);
+    }
+  }
+
+  const ratingsByDimension: Record<AgreementDimension, Rating[]> = {
+    doable: [], usability: [], visuals: [], responsiveness: [], writing: [], emotional: []
+  };
+  const addRating = (dimension: AgreementDimension, itemKey: string, raterId: number, value: number | boolean | null) => {
+    if (value !== null && value !== undefined) {
+      ratingsByDimension[dimension].push({ itemKey, raterId, value });
+    }
+  };
+
+  const taskAgreements: TaskAgreement[] = [];
+  taskRatings.forEach(({ task, byRater }, key) => {
+    byRater.forEach((values, raterId) => {
+      addRating('doable', key, raterId, values.doable);
+      addRating('usability', key, raterId, values.usability);
+      addRating('visuals', key, raterId, values.visuals);
+    });
+    if (byRater.size < 2) return;
+
+    const values = Array.from(byRater.values());
+    const doableAgreement = pairwiseAgreement(values.map(value => value.doable).filter((doable): doable is boolean => doable !== null));
+    const usability = ratingSpread(values.map(value => value.usability).filter((score): score is number => score !== null));
+    const visuals = ratingSpread(values.map(value => value.visuals).filter((score): score is number => score !== null));
+    taskAgreements.push({
+      task,
+      raterIds: Array.from(byRater.keys()),
+      doableAgreement,
+      usability,
+      visuals,
+      disagreement: disagreementScore([doableAgreement], [
+        { spread: usability, maxRange: scoreRange(dimensions, 'usability') },
+        { spread: visuals, maxRange: scoreRange(dimensions, 'visuals') }
+      ])
+    });
+  });
+
+  const categoryAgreements: CategoryAgreement[] = [];
+  categoryRatings.forEach(({ category, byRater }, key) => {
+    byRater.forEach((values, raterId) => {
+      addRating('responsiveness', key, raterId, values.responsiveness);
+      addRating('writing', key, raterId, values.writing);
+      addRating('emotional', key, raterId, values.emotional);
+    });
+    if (byRater.size < 2) return;
+
+    const values = Array.from(byRater.values());
+    const responsiveness = ratingSpread(values.map(value => value.responsiveness).filter((score): score is number => score !== null));
+    const writing = ratingSpread(values.map(value => value.writing).filter((score): score is number => score !== null));
+    const emotional = ratingSpread(values.map(value => value.emotional).filter((score): score is number => score !== null));
+    categoryAgreements.push({
+      category,
+      raterIds: Array.from(byRater.keys()),
+      responsiveness,
+      writing,
+      emotional,
+      disagreement: disagreementScore([], [
+        { spread: responsiveness, maxRange: scoreRange(dimensions, 'responsiveness') },
+        { spread: writing, maxRange: scoreRange(dimensions, 'writing') },
+        { spread: emotional, maxRange: scoreRange(dimensions, 'emotional') }
+      ])
+    });
+  });
+
+  const ratedBy = new Set(Object.values(ratingsByDimension).flat().map(rating => rating.raterId));
+  for (const raterId of Array.from(ratedBy)) {
+    if (!raters.has(raterId)) {
+      const user = await storage.getUser(raterId);
+      if (user) raters.set(raterId, user);
+    }
+  }
+
+  return {
+    car,
+    raters: Array.from(raters.values())
+      .filter(rater => ratedBy.has(rater.id))
+      .map(({ id, name, username }) => ({ id, name, username })),
+    dimensions: (Object.keys(ratingsByDimension) as AgreementDimension[])
+      .map(dimension => dimensionAgreement(dimension, ratingsByDimension[dimension])),
+    tasks: taskAgreements.sort((a, b) => b.disagreement - a.disagreement),
+    categories: categoryAgreements.sort((a, b) => b.disagreement - a.disagreement)
+  };
+}
@@ -0,0 +1,78 @@
+import { createHash, randomBytes } from 'crypto';
+import { ApiToken, ApiTokenScope, CreatedApiToken, User, apiTokenScopes } from '../shared/schema';
+import type { IStorage } from './storage';
+import { isUserActive } from './auth';
+
+// Marks our tokens so secret scanners can spot leaked ones, and tells them apart from other Bearer tokens
+const TOKEN_PREFIX = 'smc_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ApiTokenInput = {
+  name: string;
+  scopes: ApiTokenScope[];
+  expiresInDays?: number | null;
+};
+
+// Tokens are random enough that a plain hash is as good as a slow one, and keeps lookups by hash possible
+export function hashApiToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Creates a token for the user. Only the hash is stored, so the token is returned this one time.
+ */
+export async function createApiToken(
+  storage: IStorage,
+  userId: number,
+  input: ApiTokenInput,
+  now: Date = new Date()
+): Promise<CreatedApiToken> {
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+  const created = await storage.createApiToken({
+    userId,
+    name: input.name,
+    tokenHash: hashApiToken(token),
+    tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    scopes: apiTokenScopes.filter(scope => input.scopes.includes(scope)),
+    expiresAt: input.expiresInDays ? new Date(now.getTime() + input.expiresInDays * DAY_MS) : null
+  });
+  return { ...created, token };
+}
+
+export const isApiTokenActive = (token: ApiToken, now: Date = new Date()) =>
+  token.revokedAt === null && (token.expiresAt === null || token.expiresAt > now);
+
+/**
+ * Finds the user a Bearer token belongs to and records that it was used. Null for unknown, revoked
+ * and expired tokens, and for tokens of deactivated users.
+ */
+export async function authenticateApiToken(
+  storage: IStorage,
+  token: string,
+  now: Date = new Date()
+): Promise<{ user: User; token: ApiToken } | null> {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const apiToken = await storage.getApiTokenByHash(hashApiToken(token));
+  if (!apiToken || !isApiTokenActive(apiToken, now)) return null;
+
+  const user = await storage.getUser(apiToken.userId);
+  if (!user || !isUserActive(user)) return null;
+
+  return { user, token: await storage.updateApiToken(apiToken.id, { lastUsedAt: now }) };
+}
+
+/**
+ * The scope a request needs: admin for routes only admins may use, otherwise read to look and
+ * evaluate to change anything.
+ */
+export function requiredScope(method: string, roles?: string[]): ApiTokenScope {
+  if (roles && roles.every(role => role === 'admin')) return 'admin';
+  return ['GET', 'HEAD', 'OPTIONS'].includes(method.toUpperCase()) ? 'read' : 'evaluate';
+}
+
+// Each scope includes the ones before it, e.g. evaluate tokens can read too
+export function hasScope(token: ApiToken, scope: ApiTokenScope): boolean {
+  const needed = apiTokenScopes.indexOf(scope);
+  return token.scopes.some(granted => apiTokenScopes.indexOf(granted) >= needed);
+}
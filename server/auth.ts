@@ -0,0 +1,254 @@
+import bcrypt from 'bcrypt';
+import ldap from 'ldapjs';
+import { Strategy as LocalStrategy } from 'passport-local';
+import { User, userRoles } from '../shared/schema';
+import type { IStorage } from './storage';
+
+export type UserRole = typeof userRoles[number];
+
+const PASSWORD_HASH_ROUNDS = 10;
+const LDAP_TIMEOUT_MS = 5000;
+const INVALID_CREDENTIALS = 'Invalid username or password';
+export const DEACTIVATED_ACCOUNT = 'Your account has been deactivated, ask an admin to reactivate it';
+
+export type LdapConfig = {
+  url: string;
+  bindDn: string | null;         // service account used to look users up, anonymous when null
+  bindPassword: string | null;
+  searchBase: string;
+  searchFilter: string;          // {{username}} is replaced by the escaped username
+  nameAttribute: string;
+  groupAttribute: string;
+  roleGroups: Array<{ role: UserRole; group: string }>; // checked in order, the first group the user is in wins
+  defaultRole: UserRole | null;  // role of users in none of the groups, who are turned away when null
+};
+
+export type AuthConfig =
+  | { provider: 'local' }
+  | { provider: 'ldap'; ldap: LdapConfig };
+
+// Outcome of a login attempt: the user to sign in, or why they were turned away
+export type LoginResult =
+  | { user: User }
+  | { user: null; message: string };
+
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORD_HASH_ROUNDS);
+}
+
+async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  // Users provisioned from LDAP have no local password
+  if (!password || !hash) return false;
+  return bcrypt.compare(password, hash);
+}
+
+// Deactivated users can't sign in by any means, and their sessions and API tokens stop working
+export const isUserActive = (user: Pick<User, 'deactivatedAt'>) => user.deactivatedAt === null;
+
+export const isUserRole = (role: string): role is UserRole => (userRoles as readonly string[]).includes(role);
+
+/**
+ * Parses a role to group mapping such as LDAP_ROLE_GROUPS, e.g.
+ * "admin=cn=admins,ou=groups,dc=example,dc=com;reviewer=cn=reviewers,...".
+ * Entries are separated by semicolons since group DNs contain commas.
+ */
+export function parseRoleGroups(value: string, variable = 'LDAP_ROLE_GROUPS'): LdapConfig['roleGroups'] {
+  return value.split(';')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+    .map(entry => {
+      const separator = entry.indexOf('=');
+      const role = entry.slice(0, separator).trim();
+      const group = entry.slice(separator + 1).trim();
+      if (separator < 1 || !group || !isUserRole(role)) {
+        throw new Error(`Invalid ${variable} entry: ${entry}`);
+      }
+      return { role, group };
+    });
+}
+
+/**
+ * Reads the authentication provider from the environment. AUTH_PROVIDER=ldap signs users in
+ * against the directory at LDAP_URL; anything else keeps the local, password-hashed users.
+ */
+export function getAuthConfig(env: NodeJS.ProcessEnv = process.env): AuthConfig {
+  if (env.AUTH_PROVIDER !== 'ldap') {
+    return { provider: 'local' };
+  }
+
+  if (!env.LDAP_URL || !env.LDAP_SEARCH_BASE) {
+    throw new Error('LDAP_URL and LDAP_SEARCH_BASE are required when AUTH_PROVIDER is ldap');
+  }
+  const defaultRole = env.LDAP_DEFAULT_ROLE?.trim() || null;
+  if (defaultRole !== null && !isUserRole(defaultRole)) {
+    throw new Error(`Invalid LDAP_DEFAULT_ROLE: ${defaultRole}`);
+  }
+
+  return {
+    provider: 'ldap',
+    ldap: {
+      url: env.LDAP_URL,
+      bindDn: env.LDAP_BIND_DN || null,
+      bindPassword: env.LDAP_BIND_PASSWORD || null,
+      searchBase: env.LDAP_SEARCH_BASE,
+      searchFilter: env.LDAP_SEARCH_FILTER || '(uid={{username}})',
+      nameAttribute: env.LDAP_NAME_ATTRIBUTE || 'cn',
+      groupAttribute: env.LDAP_GROUP_ATTRIBUTE || 'memberOf',
+      roleGroups: parseRoleGroups(env.LDAP_ROLE_GROUPS || ''),
+      defaultRole
+    }
+  };
+}
+
+/**
+ * Signs in a local user whose password matches the stored hash.
+ */
+export async function authenticateLocal(storage: IStorage, username: string, password: string): Promise<LoginResult> {
+  const user = await storage.getUserByUsername(username);
+  if (!user || !(await verifyPassword(password, user.password))) {
+    return { user: null, message: INVALID_CREDENTIALS };
+  }
+  if (!isUserActive(user)) {
+    return { user: null, message: DEACTIVATED_ACCOUNT };
+  }
+  return { user };
+}
+
+// Escapes a value for use in an LDAP search filter (RFC 4515)
+export function escapeFilterValue(value: string): string {
+  return value.replace(/[\\*()\0]/g, character => `\\${character.charCodeAt(0).toString(16).padStart(2, '0')}`);
+}
+
+type DirectoryEntry = {
+  dn: string;
+  attributes: Record<string, string[]>;
+};
+
+function bind(client: ldap.Client, dn: string, password: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    client.bind(dn, password, error => error ? reject(error) : resolve());
+  });
+}
+
+function searchOne(client: ldap.Client, base: string, options: ldap.SearchOptions): Promise<DirectoryEntry | null> {
+  return new Promise((resolve, reject) => {
+    client.search(base, options, (error, response) => {
+      if (error) return reject(error);
+
+      const entries: DirectoryEntry[] = [];
+      response.on('searchEntry', entry => {
+        const attributes: Record<string, string[]> = {};
+        for (const attribute of entry.pojo.attributes) {
+          attributes[attribute.type.toLowerCase()] = attribute.values;
+        }
+        entries.push({ dn: entry.pojo.objectName, attributes });
+      });
+      response.on('error', reject);
+      // A username matching several entries is ambiguous and can't be signed in
+      response.on('end', () => resolve(entries.length === 1 ? entries[0] : null));
+    });
+  });
+}
+
+const sameDn = (a: string, b: string) => a.replace(/\s+/g, '').toLowerCase() === b.replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Maps the groups of a directory user to a role: the first configured group they are in, or the
+ * default role. Null when the user has no access.
+ */
+export function roleForGroups(config: LdapConfig, groups: string[]): UserRole | null {
+  const match = config.roleGroups.find(({ group }) => groups.some(memberOf => sameDn(memberOf, group)));
+  return match?.role ?? config.defaultRole;
+}
+
+/**
+ * Signs a user in by binding to the directory with their password. The user is looked up with the
+ * service account, then bound as; their role follows their groups. Users are created on their first
+ * login and their name and role are refreshed on every later one.
+ */
+export async function authenticateLdap(
+  storage: IStorage,
+  config: LdapConfig,
+  username: string,
+  password: string
+): Promise<LoginResult> {
+  // An empty password would be an anonymous bind, which most directories accept
+  if (!username || !password) {
+    return { user: null, message: INVALID_CREDENTIALS };
+  }
+
+  const client = ldap.createClient({ url: config.url, timeout: LDAP_TIMEOUT_MS, connectTimeout: LDAP_TIMEOUT_MS });
+  const connectionError = new Promise<never>((_, reject) => {
+    client.on('connectError', reject);
+    client.on('error', reject);
+  });
+  // Errors after the login settled are of no interest
+  connectionError.catch(() => undefined);
+
+  const directoryLogin = async (): Promise<DirectoryEntry | null> => {
+    if (config.bindDn) {
+      await bind(client, config.bindDn, config.bindPassword ?? '');
+    }
+    const entry = await searchOne(client, config.searchBase, {
+      scope: 'sub',
+      filter: config.searchFilter.replace(/\{\{username\}\}/g, escapeFilterValue(username)),
+      attributes: [config.nameAttribute, config.groupAttribute]
+    });
+    if (!entry) return null;
+
+    try {
+      await bind(client, entry.dn, password);
+    } catch (error) {
+      if (error instanceof ldap.InvalidCredentialsError) return null;
+      throw error;
+    }
+    return entry;
+  };
+
+  let entry: DirectoryEntry | null;
+  try {
+    entry = await Promise.race([directoryLogin(), connectionError]);
+  } finally {
+    client.destroy();
+  }
+  if (!entry) {
+    return { user: null, message: INVALID_CREDENTIALS };
+  }
+
+  const { attributes } = entry;
+  const role = roleForGroups(config, attributes[config.groupAttribute.toLowerCase()] ?? []);
+  if (!role) {
+    return { user: null, message: 'Your directory account has not been given access to this application' };
+  }
+  const name = attributes[config.nameAttribute.toLowerCase()]?.[0] || username;
+
+  const existing = await storage.getUserByUsername(username);
+  if (!existing) {
+    return { user: await storage.createUser({ username, password: '', name, role }) };
+  }
+  if (!isUserActive(existing)) {
+    return { user: null, message: DEACTIVATED_ACCOUNT };
+  }
+  if (existing.name !== name || existing.role !== role) {
+    return { user: await storage.updateUser(existing.id, { name, role }) };
+  }
+  return { user: existing };
+}
+
+/**
+ * The passport strategy for the configured provider. Both read the username and password posted
+ * to the login route.
+ */
+export function createAuthStrategy(storage: IStorage, config: AuthConfig = getAuthConfig()): LocalStrategy {
+  return new LocalStrategy(async (username, password, done) => {
+    try {
+      const result = config.provider === 'ldap'
+        ? await authenticateLdap(storage, config.ldap, username, password)
+        : await authenticateLocal(storage, username, password);
+      return result.user ? done(null, result.user) : done(null, false, { message: result.message });
+    } catch (err) {
+      console.error('Authentication error:', err);
+      return done(err);
+    }
+  });
+}
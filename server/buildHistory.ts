@@ -0,0 +1,183 @@
+import {
+  BuildHistoryEntry,
+  BuildRegressions,
+  Car,
+  RegressionAspect,
+  ReviewWithDetails,
+  TaskBuildResult,
+  TaskEvaluation,
+  TaskRegression,
+  TaskWithCategory
+} from '../shared/schema';
+import { getReviewScoreBreakdown } from './reportGeneration';
+import type { IStorage } from './storage';
+
+// Tasks of a build with everything its evaluators recorded for them
+export type BuildTasks = {
+  tasks: TaskWithCategory[];
+  evaluations: TaskEvaluation[];
+};
+
+/**
+ * Whether two cars are builds of the same vehicle, and so can be linked as re-reviews.
+ */
+export function isSameVehicle(car: Car, other: Car): boolean {
+  return car.make.trim().toLowerCase() === other.make.trim().toLowerCase()
+    && car.model.trim().toLowerCase() === other.model.trim().toLowerCase();
+}
+
+// Catalog versions copy their tasks, so tasks are matched between builds by name
+function taskKey(task: TaskWithCategory): string {
+  return [task.cuj.category.name, task.cuj.name, task.name]
+    .map(name => name.trim().toLowerCase())
+    .join('/');
+}
+
+function averageRating(ratings: Array<number | null>): number | null {
+  const rated = ratings.filter((rating): rating is number => rating !== null);
+  if (rated.length === 0) return null;
+  return parseFloat((rated.reduce((sum, rating) => sum + rating, 0) / rated.length).toFixed(2));
+}
+
+/**
+ * Combines the evaluations of a task in one build. A task counts as not doable as soon as one
+ * evaluator couldn't do it; ratings are averaged.
+ */
+export function summarizeTaskEvaluations(evaluations: TaskEvaluation[]): TaskBuildResult {
+  return {
+    doable: evaluations.some(evaluation => evaluation.doable === false)
+      ? false
+      : evaluations.some(evaluation => evaluation.doable === true) ? true : null,
+    usabilityScore: averageRating(evaluations.map(evaluation => evaluation.usabilityScore)),
+    visualsScore: averageRating(evaluations.map(evaluation => evaluation.visualsScore))
+  };
+}
+
+function taskFeedback(evaluations: TaskEvaluation[]): string | null {
+  const feedback = evaluations
+    .flatMap(evaluation => [evaluation.undoableReason, evaluation.usabilityFeedback, evaluation.visualsFeedback])
+    .map(text => text?.trim())
+    .filter((text): text is string => !!text);
+  return feedback.length > 0 ? feedback.join('; ') : null;
+}
+
+/**
+ * Lists the tasks that went from doable to not doable, or whose usability or visuals rating
+ * dropped, between two builds. Tasks only one of the builds has, or that either build left
+ * unrated on an aspect, are skipped for that aspect.
+ */
+export function findTaskRegressions(previous: BuildTasks, current: BuildTasks): TaskRegression[] {
+  const evaluationsOf = (build: BuildTasks, taskId: number) =>
+    build.evaluations.filter(evaluation => evaluation.taskId === taskId);
+
+  const previousResults = new Map<string, TaskBuildResult>();
+  for (const task of previous.tasks) {
+    previousResults.set(taskKey(task), summarizeTaskEvaluations(evaluationsOf(previous, task.id)));
+  }
+
+  const regressions: TaskRegression[] = [];
+  for (const task of current.tasks) {
+    const before = previousResults.get(taskKey(task));
+    if (!before) continue;
+
+    const evaluations = evaluationsOf(current, task.id);
+    const after = summarizeTaskEvaluations(evaluations);
+    const aspects: RegressionAspect[] = [];
+    if (before.doable === true && after.doable === false) aspects.push('doable');
+    if (before.usabilityScore !== null && after.usabilityScore !== null && after.usabilityScore < before.usabilityScore) {
+      aspects.push('usability');
+    }
+    if (before.visualsScore !== null && after.visualsScore !== null && after.visualsScore < before.visualsScore) {
+      aspects.push('visuals');
+    }
+    if (aspects.length === 0) continue;
+
+    regressions.push({
+      categoryName: task.cuj.category.name,
+      cujName: task.cuj.name,
+      taskName: task.name,
+      previous: before,
+      current: after,
+      aspects,
+      feedback: taskFeedback(evaluations)
+    });
+  }
+  return regressions;
+}
+
+async function toHistoryEntry(storage: IStorage, review: ReviewWithDetails): Promise<BuildHistoryEntry> {
+  const { overallScore } = await getReviewScoreBreakdown(storage, review.id);
+  return {
+    reviewId: review.id,
+    car: review.car,
+    status: review.status,
+    isPublished: review.isPublished,
+    overallScore,
+    startDate: review.startDate
+  };
+}
+
+/**
+ * Every build of the review's vehicle, oldest first: the reviews it re-reviews, the review itself
+ * and the re-reviews of later builds. Where a build was re-reviewed more than once, the latest
+ * re-review is followed. Builds `canView` rejects are left out of the history, but still link
+ * the builds around them.
+ */
+export async function getBuildHistory(
+  storage: IStorage,
+  reviewId: number,
+  canView: (review: ReviewWithDetails) => boolean = () => true
+): Promise<BuildHistoryEntry[] | undefined> {
+  const review = await storage.getReview(reviewId);
+  if (!review) return undefined;
+
+  const builds: ReviewWithDetails[] = [review];
+  const seen = new Set([review.id]);
+  let earliest = review;
+  while (earliest.previousReviewId != null && !seen.has(earliest.previousReviewId)) {
+    const previous = await storage.getReview(earliest.previousReviewId);
+    if (!previous) break;
+    builds.unshift(previous);
+    seen.add(previous.id);
+    earliest = previous;
+  }
+
+  const allReviews = await storage.getAllReviews();
+  let latest = review;
+  for (;;) {
+    const reReviews = allReviews.filter(other => other.previousReviewId === latest.id && !seen.has(other.id));
+    if (reReviews.length === 0) break;
+    latest = reReviews.reduce((newest, other) => other.id > newest.id ? other : newest);
+    builds.push(latest);
+    seen.add(latest.id);
+  }
+
+  const history: BuildHistoryEntry[] = [];
+  for (const build of builds.filter(canView)) {
+    history.push(await toHistoryEntry(storage, build));
+  }
+  return history;
+}
+
+/**
+ * Regressions of a review against the review of the previous build it re-reviews. Undefined when
+ * the review doesn't exist or isn't linked to an earlier build.
+ */
+export async function getBuildRegressions(storage: IStorage, reviewId: number): Promise<BuildRegressions | undefined> {
+  const review = await storage.getReview(reviewId);
+  if (!review || review.previousReviewId == null) return undefined;
+
+  const previousReview = await storage.getReview(review.previousReviewId);
+  if (!previousReview) return undefined;
+
+  const buildTasks = async (id: number): Promise<BuildTasks> => ({
+    tasks: await storage.getTasksForReview(id),
+    evaluations: await storage.getTaskEvaluationsForReview(id)
+  });
+
+  return {
+    review: await toHistoryEntry(storage, review),
+    previousReview: await toHistoryEntry(storage, previousReview),
+    regressions: findTaskRegressions(await buildTasks(previousReview.id), await buildTasks(review.id))
+  };
+}
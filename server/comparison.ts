@@ -0,0 +1,99 @@
+import {
+  ComparedScores,
+  ReviewComparison,
+  ReviewWithDetails,
+  ScoreBreakdown
+} from '../shared/schema';
+import { getReviewScoreBreakdown } from './reportGeneration';
+import type { IStorage } from './storage';
+
+/**
+ * Catalog version the review is scored against. Reviews without a pinned version follow the active one.
+ */
+export async function getReviewCatalogVersionId(storage: IStorage, review: ReviewWithDetails): Promise<number | null> {
+  if (review.cujDatabaseVersionId != null) return review.cujDatabaseVersionId;
+
+  const activeVersion = await storage.getActiveCujDatabaseVersion();
+  return activeVersion ? activeVersion.id : null;
+}
+
+/**
+ * Lines up one score of every review: deltas are taken against the first review, and the
+ * highest and lowest scores win and lose as long as at least two reviews differ.
+ */
+export function compareScores(scores: Array<number | null>): ComparedScores {
+  const baseline = scores[0] ?? null;
+  const deltas = scores.map(score =>
+    score === null || baseline === null ? null : parseFloat((score - baseline).toFixed(1)));
+
+  const scored = scores.filter((score): score is number => score !== null);
+  if (scored.length < 2 || Math.max(...scored) === Math.min(...scored)) {
+    return { scores, deltas, winners: [], losers: [] };
+  }
+
+  const indexesOf = (target: number) => scores.flatMap((score, index) => score === target ? [index] : []);
+  return { scores, deltas, winners: indexesOf(Math.max(...scored)), losers: indexesOf(Math.min(...scored)) };
+}
+
+// Scores of a review by category, CUJ and task ID; a task evaluated by several participants gets their average
+function indexScores(breakdown: ScoreBreakdown) {
+  const categories = new Map<number, number | null>();
+  const cujs = new Map<number, number | null>();
+  const taskScores = new Map<number, number[]>();
+  for (const category of breakdown.categories) {
+    categories.set(category.categoryId, category.score);
+    for (const cuj of category.cujs) {
+      cujs.set(cuj.cujId, cuj.score);
+      for (const task of cuj.tasks) {
+        const scores = taskScores.get(task.taskId) || [];
+        if (task.score !== null) scores.push(task.score);
+        taskScores.set(task.taskId, scores);
+      }
+    }
+  }
+
+  const tasks = new Map<number, number | null>();
+  for (const [taskId, scores] of Array.from(taskScores.entries())) {
+    tasks.set(taskId, scores.length === 0
+      ? null
+      : parseFloat((scores.reduce((sum, score) => sum + score, 0) / scores.length).toFixed(1)));
+  }
+  return { overall: breakdown.overallScore, categories, cujs, tasks };
+}
+
+/**
+ * Scores reviews side by side under the current scoring config. The reviews must share a catalog
+ * version, so their categories, CUJs and tasks line up; the first review is the baseline.
+ */
+export async function compareReviews(storage: IStorage, reviews: ReviewWithDetails[]): Promise<ReviewComparison> {
+  const config = await storage.getScoringConfig();
+  const breakdowns: ScoreBreakdown[] = [];
+  for (const review of reviews) {
+    breakdowns.push(await getReviewScoreBreakdown(storage, review.id, config));
+  }
+
+  const indexed = breakdowns.map(indexScores);
+  const scoresOf = (level: 'categories' | 'cujs' | 'tasks', id: number) =>
+    compareScores(indexed.map(scores => scores[level].get(id) ?? null));
+
+  return {
+    scoringConfigId: config.id,
+    cujDatabaseVersionId: await getReviewCatalogVersionId(storage, reviews[0]),
+    reviews: reviews.map(review => ({ reviewId: review.id, car: review.car, isPublished: review.isPublished })),
+    overall: compareScores(indexed.map(scores => scores.overall)),
+    categories: breakdowns[0].categories.map(category => ({
+      categoryId: category.categoryId,
+      categoryName: category.categoryName,
+      ...scoresOf('categories', category.categoryId),
+      cujs: category.cujs.map(cuj => ({
+        cujId: cuj.cujId,
+        cujName: cuj.cujName,
+        ...scoresOf('cujs', cuj.cujId),
+        // A task appears once per evaluation in the breakdown, and once when nobody evaluated it
+        tasks: cuj.tasks
+          .filter((task, index) => cuj.tasks.findIndex(other => other.taskId === task.taskId) === index)
+          .map(task => ({ taskId: task.taskId, taskName: task.taskName, ...scoresOf('tasks', task.taskId) }))
+      }))
+    }))
+  };
+}
@@ -0,0 +1,197 @@
+import {
+  CujCategory,
+  Cuj,
+  Task,
+  CujCatalogFieldChange,
+  CujCatalogDiffEntry,
+  CujCatalogDiffSection,
+  CujCatalogDiff
+} from '../shared/schema';
+
+export type CujCatalogSnapshot = {
+  categories: CujCategory[];
+  cujs: Cuj[];
+  tasks: Task[];
+};
+
+type MatchResult<T> = {
+  pairs: Array<[T, T]>;
+  removed: T[];
+  added: T[];
+};
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+/**
+ * Pairs entities of the two versions by key. Entities left over are paired a second
+ * time by their rename key, so that e.g. a task whose name changed but whose expected
+ * outcome stayed the same shows up as modified rather than removed + added.
+ * A null key means the entity can't be matched (its parent doesn't exist on the other side).
+ */
+function matchEntities<T>(
+  from: T[],
+  to: T[],
+  fromKey: (entity: T) => string | null,
+  toKey: (entity: T) => string,
+  fromRenameKey: (entity: T) => string | null,
+  toRenameKey: (entity: T) => string | null
+): MatchResult<T> {
+  const pairs: Array<[T, T]> = [];
+  const unmatchedTo = new Map<string, T>();
+  for (const entity of to) {
+    unmatchedTo.set(toKey(entity), entity);
+  }
+
+  const unmatchedFrom: T[] = [];
+  for (const entity of from) {
+    const key = fromKey(entity);
+    const match = key === null ? undefined : unmatchedTo.get(key);
+    if (key !== null && match) {
+      pairs.push([entity, match]);
+      unmatchedTo.delete(key);
+    } else {
+      unmatchedFrom.push(entity);
+    }
+  }
+
+  const removed: T[] = [];
+  for (const entity of unmatchedFrom) {
+    const renameKey = fromRenameKey(entity);
+    const match = renameKey === null
+      ? undefined
+      : Array.from(unmatchedTo.entries()).find(([, candidate]) => toRenameKey(candidate) === renameKey);
+    if (match) {
+      pairs.push([entity, match[1]]);
+      unmatchedTo.delete(match[0]);
+    } else {
+      removed.push(entity);
+    }
+  }
+
+  return { pairs, removed, added: Array.from(unmatchedTo.values()) };
+}
+
+function fieldChanges<T>(from: T, to: T, fields: Array<keyof T & string>): CujCatalogFieldChange[] {
+  const changes: CujCatalogFieldChange[] = [];
+  for (const field of fields) {
+    const fromValue = (from[field] as unknown as string | null) ?? null;
+    const toValue = (to[field] as unknown as string | null) ?? null;
+    if (fromValue !== toValue) {
+      changes.push({ field, from: fromValue, to: toValue });
+    }
+  }
+  return changes;
+}
+
+function buildSection<T extends { id: number }>(
+  match: MatchResult<T>,
+  fromPath: (entity: T) => string[],
+  toPath: (entity: T) => string[],
+  fields: Array<keyof T & string>
+): CujCatalogDiffSection {
+  const modified: CujCatalogDiffEntry[] = [];
+  for (const [fromEntity, toEntity] of match.pairs) {
+    const changes = fieldChanges(fromEntity, toEntity, fields);
+    if (changes.length > 0) {
+      modified.push({ path: toPath(toEntity), fromId: fromEntity.id, toId: toEntity.id, changes });
+    }
+  }
+
+  return {
+    added: match.added.map(entity => ({ path: toPath(entity), fromId: null, toId: entity.id, changes: [] })),
+    removed: match.removed.map(entity => ({ path: fromPath(entity), fromId: entity.id, toId: null, changes: [] })),
+    modified
+  };
+}
+
+/**
+ * Compares two catalog snapshots category by category, CUJ by CUJ and task by task.
+ */
+export function diffCujCatalogs(
+  from: CujCatalogSnapshot,
+  to: CujCatalogSnapshot
+): Pick<CujCatalogDiff, 'categories' | 'cujs' | 'tasks'> {
+  const fromCategories = new Map(from.categories.map(category => [category.id, category]));
+  const toCategories = new Map(to.categories.map(category => [category.id, category]));
+  const fromCujs = new Map(from.cujs.map(cuj => [cuj.id, cuj]));
+  const toCujs = new Map(to.cujs.map(cuj => [cuj.id, cuj]));
+
+  // Categories are matched by name, or by description when renamed
+  const categoryMatch = matchEntities(
+    from.categories,
+    to.categories,
+    category => normalizeName(category.name),
+    category => normalizeName(category.name),
+    category => category.description || null,
+    category => category.description || null
+  );
+  const categoryIdMap = new Map(categoryMatch.pairs.map(([fromCategory, toCategory]) => [fromCategory.id, toCategory.id]));
+
+  // CUJs are matched by name within their (matched) category
+  const cujMatch = matchEntities(
+    from.cujs,
+    to.cujs,
+    cuj => {
+      const categoryId = categoryIdMap.get(cuj.categoryId);
+      return categoryId === undefined ? null : `${categoryId}|${normalizeName(cuj.name)}`;
+    },
+    cuj => `${cuj.categoryId}|${normalizeName(cuj.name)}`,
+    cuj => {
+      const categoryId = categoryIdMap.get(cuj.categoryId);
+      return categoryId === undefined || !cuj.description ? null : `${categoryId}|${cuj.description}`;
+    },
+    cuj => (cuj.description ? `${cuj.categoryId}|${cuj.description}` : null)
+  );
+  const cujIdMap = new Map(cujMatch.pairs.map(([fromCuj, toCuj]) => [fromCuj.id, toCuj.id]));
+
+  // Tasks are matched by name within their (matched) CUJ, or by expected outcome when renamed
+  const taskMatch = matchEntities(
+    from.tasks,
+    to.tasks,
+    task => {
+      const cujId = cujIdMap.get(task.cujId);
+      return cujId === undefined ? null : `${cujId}|${normalizeName(task.name)}`;
+    },
+    task => `${task.cujId}|${normalizeName(task.name)}`,
+    task => {
+      const cujId = cujIdMap.get(task.cujId);
+      return cujId === undefined ? null : `${cujId}|${task.expectedOutcome}`;
+    },
+    task => `${task.cujId}|${task.expectedOutcome}`
+  );
+
+  const categoryPath = (categories: Map<number, CujCategory>) => (category: CujCategory) => [category.name];
+  const cujPath = (categories: Map<number, CujCategory>) => (cuj: Cuj) =>
+    [categories.get(cuj.categoryId)?.name ?? 'Unknown', cuj.name];
+  const taskPath = (categories: Map<number, CujCategory>, cujs: Map<number, Cuj>) => (task: Task) => {
+    const cuj = cujs.get(task.cujId);
+    return [
+      cuj ? categories.get(cuj.categoryId)?.name ?? 'Unknown' : 'Unknown',
+      cuj?.name ?? 'Unknown',
+      task.name
+    ];
+  };
+
+  return {
+    categories: buildSection(
+      categoryMatch,
+      categoryPath(fromCategories),
+      categoryPath(toCategories),
+      ['name', 'description', 'icon']
+    ),
+    cujs: buildSection(
+      cujMatch,
+      cujPath(fromCategories),
+      cujPath(toCategories),
+      ['name', 'description']
+    ),
+    tasks: buildSection(
+      taskMatch,
+      taskPath(fromCategories, fromCujs),
+      taskPath(toCategories, toCujs),
+      ['name', 'prerequisites', 'expectedOutcome']
+    )
+  };
+}
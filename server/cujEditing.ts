@@ -0,0 +1,102 @@
+import { CujDatabaseVersion } from '../shared/schema';
+import type { IStorage } from './storage';
+import { nextCujVersionNumber } from './cujImport';
+
+/**
+ * Where an edit of a catalog version goes: the version itself, or a copy of it when reviews
+ * use the version. Catalog IDs of the edited version map to their counterparts in the copy.
+ */
+export type EditableCujCatalog = {
+  versionId: number | null;
+  copiedFrom: CujDatabaseVersion | null;
+  categoryId: (id: number) => number;
+  cujId: (id: number) => number;
+  taskId: (id: number) => number;
+};
+
+const inPlace = (versionId: number | null): EditableCujCatalog => ({
+  versionId,
+  copiedFrom: null,
+  categoryId: id => id,
+  cujId: id => id,
+  taskId: id => id,
+});
+
+/**
+ * Reviews keep the catalog version they were started with, so a version that any review uses
+ * is not edited in place. Its categories, CUJs and tasks are copied into a new version instead,
+ * which takes over as the active version if the original was active, and the edit is made there.
+ */
+export async function getEditableCujCatalog(
+  storage: IStorage,
+  versionId: number | null,
+  createdBy: number
+): Promise<EditableCujCatalog> {
+  const version = versionId === null ? undefined : await storage.getCujDatabaseVersion(versionId);
+  if (!version) {
+    return inPlace(versionId);
+  }
+
+  const reviews = await storage.getAllReviews();
+  if (!reviews.some(review => review.cujDatabaseVersionId === version.id)) {
+    return inPlace(version.id);
+  }
+
+  const copy = await storage.createCujDatabaseVersion({
+    versionNumber: nextCujVersionNumber(await storage.getAllCujDatabaseVersions()),
+    sourceType: 'manual',
+    sourceFileName: null,
+    createdBy,
+    isActive: false
+  });
+
+  const categoryIds = new Map<number, number>();
+  const cujIds = new Map<number, number>();
+  const taskIds = new Map<number, number>();
+
+  for (const category of await storage.getCujCategoriesForVersion(version.id)) {
+    const copiedCategory = await storage.createCujCategory({
+      name: category.name,
+      description: category.description,
+      icon: category.icon,
+      cujDatabaseVersionId: copy.id,
+      sortOrder: category.sortOrder
+    });
+    categoryIds.set(category.id, copiedCategory.id);
+
+    for (const cuj of await storage.getCujsForCategory(category.id)) {
+      const copiedCuj = await storage.createCuj({
+        categoryId: copiedCategory.id,
+        name: cuj.name,
+        description: cuj.description,
+        cujDatabaseVersionId: copy.id,
+        sortOrder: cuj.sortOrder
+      });
+      cujIds.set(cuj.id, copiedCuj.id);
+
+      for (const task of await storage.getTasksForCuj(cuj.id)) {
+        const copiedTask = await storage.createTask({
+          cujId: copiedCuj.id,
+          name: task.name,
+          prerequisites: task.prerequisites,
+          expectedOutcome: task.expectedOutcome,
+          cujDatabaseVersionId: copy.id,
+          sortOrder: task.sortOrder
+        });
+        taskIds.set(task.id, copiedTask.id);
+      }
+    }
+  }
+
+  if (version.isActive) {
+    await storage.setActiveCujDatabaseVersion(copy.id);
+  }
+
+  return {
+    versionId: copy.id,
+    copiedFrom: version,
+    categoryId: id => categoryIds.get(id) ?? id,
+    cujId: id => cujIds.get(id) ?? id,
+    taskId: id => taskIds.get(id) ?? id,
+  };
+}
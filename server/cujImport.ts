@@ -0,0 +1,256 @@
+import * as XLSX from 'xlsx';
+import { z } from 'zod';
+import {
+  insertCujCategorySchema,
+  insertCujSchema,
+  insertTaskSchema,
+  CujImportRow,
+  CujImportError,
+  CujDatabaseVersion
+} from '../shared/schema';
+import type { IStorage } from './storage';
+
+type ImportColumn =
+  | 'category'
+  | 'categoryDescription'
+  | 'categoryIcon'
+  | 'cuj'
+  | 'cujDescription'
+  | 'task'
+  | 'prerequisites'
+  | 'expectedOutcome';
+
+// Column labels as shown to admins, plus the header spellings we accept for each.
+// Headers are compared case-insensitively with spaces and punctuation removed.
+const importColumns: Record<ImportColumn, { label: string; aliases: string[]; required: boolean }> = {
+  category: { label: 'Category', aliases: ['category', 'categoryname', 'cujcategory'], required: true },
+  categoryDescription: { label: 'Category Description', aliases: ['categorydescription'], required: false },
+  categoryIcon: { label: 'Category Icon', aliases: ['categoryicon', 'icon'], required: false },
+  cuj: { label: 'CUJ', aliases: ['cuj', 'cujname', 'criticaluserjourney'], required: true },
+  cujDescription: { label: 'CUJ Description', aliases: ['cujdescription'], required: false },
+  task: { label: 'Task', aliases: ['task', 'taskname'], required: true },
+  prerequisites: { label: 'Prerequisites', aliases: ['prerequisites', 'prerequisite', 'preconditions'], required: false },
+  expectedOutcome: { label: 'Expected Outcome', aliases: ['expectedoutcome', 'expectedresult', 'outcome'], required: true },
+};
+
+const requiredText = (label: string) => z.string().trim().min(1, `${label} is required`);
+
+// Each spreadsheet row carries one task together with the CUJ and category it belongs to
+const importRowSchema = z.object({
+  category: insertCujCategorySchema.omit({ cujDatabaseVersionId: true, sortOrder: true }).extend({
+    name: requiredText('Category'),
+  }),
+  cuj: insertCujSchema.omit({ categoryId: true, cujDatabaseVersionId: true, sortOrder: true }).extend({
+    name: requiredText('CUJ'),
+  }),
+  task: insertTaskSchema.omit({ cujId: true, cujDatabaseVersionId: true, sortOrder: true }).extend({
+    name: requiredText('Task'),
+    expectedOutcome: requiredText('Expected outcome'),
+  }),
+});
+
+// Maps a zod issue path such as ['task', 'expectedOutcome'] back to the spreadsheet column
+const issueColumns: Record<string, ImportColumn> = {
+  'category.name': 'category',
+  'category.description': 'categoryDescription',
+  'category.icon': 'categoryIcon',
+  'cuj.name': 'cuj',
+  'cuj.description': 'cujDescription',
+  'task.name': 'task',
+  'task.prerequisites': 'prerequisites',
+  'task.expectedOutcome': 'expectedOutcome',
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * Parses an uploaded XLSX/CSV workbook into CUJ catalog rows.
+ * Only the first sheet is read. Every row is validated against the insert schemas,
+ * and all problems are collected so the admin can fix the spreadsheet in one pass.
+ */
+export function parseCujSpreadsheet(buffer: Buffer): { rows: CujImportRow[]; errors: CujImportError[] } {
+  let sheetRows: unknown[][];
+  try {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      return { rows: [], errors: [{ row: 0, column: null, message: 'The workbook does not contain any sheets' }] };
+    }
+    sheetRows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: true });
+  } catch (error) {
+    return { rows: [], errors: [{ row: 0, column: null, message: `Could not read spreadsheet: ${String(error)}` }] };
+  }
+
+  const errors: CujImportError[] = [];
+  const headerRow = (sheetRows[0] || []).map(cellText);
+
+  // Locate each known column in the header row
+  const columnIndexes: Partial<Record<ImportColumn, number>> = {};
+  headerRow.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    for (const [column, definition] of Object.entries(importColumns) as [ImportColumn, typeof importColumns[ImportColumn]][]) {
+      if (columnIndexes[column] === undefined && definition.aliases.includes(normalized)) {
+        columnIndexes[column] = index;
+        break;
+      }
+    }
+  });
+
+  for (const [column, definition] of Object.entries(importColumns) as [ImportColumn, typeof importColumns[ImportColumn]][]) {
+    if (definition.required && columnIndexes[column] === undefined) {
+      errors.push({ row: 1, column: definition.label, message: `Missing required column "${definition.label}"` });
+    }
+  }
+  if (errors.length > 0) {
+    return { rows: [], errors };
+  }
+
+  const rows: CujImportRow[] = [];
+  const seenTasks = new Map<string, number>();
+
+  sheetRows.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const value = (column: ImportColumn) => {
+      const columnIndex = columnIndexes[column];
+      return columnIndex === undefined ? '' : cellText(cells[columnIndex]);
+    };
+    const optional = (column: ImportColumn) => value(column) || null;
+
+    // Skip blank spacer rows
+    if ((Object.keys(importColumns) as ImportColumn[]).every(column => value(column) === '')) {
+      return;
+    }
+
+    const parsed = importRowSchema.safeParse({
+      category: {
+        name: value('category'),
+        description: optional('categoryDescription'),
+        icon: value('categoryIcon') || 'category',
+      },
+      cuj: {
+        name: value('cuj'),
+        description: optional('cujDescription'),
+      },
+      task: {
+        name: value('task'),
+        prerequisites: optional('prerequisites'),
+        expectedOutcome: value('expectedOutcome'),
+      },
+    });
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const column = issueColumns[issue.path.join('.')];
+        errors.push({
+          row: rowNumber,
+          column: column ? importColumns[column].label : null,
+          message: issue.message,
+        });
+      }
+      return;
+    }
+
+    const taskKey = [parsed.data.category.name, parsed.data.cuj.name, parsed.data.task.name]
+      .map(part => part.toLowerCase())
+      .join('\u0000');
+    const firstRow = seenTasks.get(taskKey);
+    if (firstRow !== undefined) {
+      errors.push({
+        row: rowNumber,
+        column: importColumns.task.label,
+        message: `Duplicate task "${parsed.data.task.name}" in CUJ "${parsed.data.cuj.name}" (first seen on row ${firstRow})`,
+      });
+      return;
+    }
+    seenTasks.set(taskKey, rowNumber);
+
+    rows.push({ row: rowNumber, ...parsed.data });
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, column: null, message: 'The spreadsheet does not contain any task rows' });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Version number for the next imported catalog, one above the highest "vN" number in use.
+ * Versions admins created with other names are skipped rather than counted.
+ */
+export function nextCujVersionNumber(versions: Pick<CujDatabaseVersion, 'versionNumber'>[]): string {
+  const highest = versions.reduce((max, version) => {
+    const match = /^v(\d+)(?:\.\d+)*$/i.exec(version.versionNumber.trim());
+    return match ? Math.max(max, parseInt(match[1])) : max;
+  }, 0);
+  return `v${highest + 1}.0`;
+}
+
+/** The categories of an import, each with its CUJs and each CUJ with its tasks, in spreadsheet order. */
+export type CujImportCatalog = {
+  category: CujImportRow['category'];
+  cujs: { cuj: CujImportRow['cuj']; tasks: CujImportRow['task'][] }[];
+}[];
+
+/**
+ * Groups the rows of an import into the catalog they describe.
+ * Rows sharing a category name (or category + CUJ name) are merged into one entity.
+ */
+export function groupCujImportRows(rows: CujImportRow[]): CujImportCatalog {
+  const catalog: CujImportCatalog = [];
+  const categories = new Map<string, CujImportCatalog[number]>();
+  const cujs = new Map<string, CujImportCatalog[number]['cujs'][number]>();
+
+  for (const row of rows) {
+    const categoryKey = row.category.name.toLowerCase();
+    let category = categories.get(categoryKey);
+    if (!category) {
+      category = { category: row.category, cujs: [] };
+      categories.set(categoryKey, category);
+      catalog.push(category);
+    }
+
+    const cujKey = `${categoryKey}\u0000${row.cuj.name.toLowerCase()}`;
+    let cuj = cujs.get(cujKey);
+    if (!cuj) {
+      cuj = { cuj: row.cuj, tasks: [] };
+      cujs.set(cujKey, cuj);
+      category.cujs.push(cuj);
+    }
+
+    cuj.tasks.push(row.task);
+  }
+
+  return catalog;
+}
+
+/** Creates the categories, CUJs and tasks of an import under the given catalog version. */
+export async function materializeCujCatalog(
+  storage: Pick<IStorage, 'createCujCategory' | 'createCuj' | 'createTask'>,
+  versionId: number,
+  rows: CujImportRow[]
+): Promise<{ categories: number; cujs: number; tasks: number }> {
+  const catalog = groupCujImportRows(rows);
+  let cujCount = 0;
+
+  for (const { category, cujs } of catalog) {
+    const createdCategory = await storage.createCujCategory({ ...category, cujDatabaseVersionId: versionId });
+
+    for (const { cuj, tasks } of cujs) {
+      const createdCuj = await storage.createCuj({ ...cuj, categoryId: createdCategory.id, cujDatabaseVersionId: versionId });
+      cujCount++;
+
+      for (const task of tasks) {
+        await storage.createTask({ ...task, cujId: createdCuj.id, cujDatabaseVersionId: versionId });
+      }
+    }
+  }
+
+  return { categories: catalog.length, cujs: cujCount, tasks: rows.length };
+}
@@ -1,10 +1,10 @@
-import { eq, and, desc, sql } from "drizzle-orm";
+import { eq, and, or, asc, desc, inArray, isNull, lte, sql } from "drizzle-orm";
 import { db } from "../shared/db";
 import * as schema from "../shared/schema";
 import { 
   users, cujCategories, cujs, tasks, cars, reviews,
-  taskEvaluations, categoryEvaluations, reports, scoringConfig, 
-  reviewerAssignments, cujDatabaseVersions 
+  taskEvaluations, categoryEvaluations, evaluationDimensions, reports, scoringConfig, 
+  reviewerAssignments, cujDatabaseVersions, reviewParticipants, reviewCategoryOwners
 } from "../shared/schema";
 import {
   User,
@@ -23,6 +23,15 @@ import {
   InsertTaskEvaluation,
   CategoryEvaluation,
   InsertCategoryEvaluation,
+  EvaluationDimension,
+  InsertEvaluationDimension,
+  builtInDimensionDefinitions,
+  SignInDomain,
+  InsertSignInDomain,
+  ApiToken,
+  InsertApiToken,
+  StoredSession,
+  InsertStoredSession,
   ScoringConfig,
   InsertScoringConfig,
   Report,
@@ -32,14 +41,29 @@ import {
   ReportWithReview,
   CategoryEvaluationWithCategory,
   TaskEvaluationWithTask,
-  MediaItem
+  MediaItem,
+  CujImportData,
+  CujSyncResult,
+  ReviewParticipant,
+  InsertReviewParticipant,
+  ReviewCategoryOwner,
+  InsertReviewCategoryOwner
 } from "@shared/schema";
 import { IStorage } from "./storage";
-import { calculateTaskScore, calculateCategoryScore } from "../client/src/lib/utils";
+import { groupCujImportRows, nextCujVersionNumber } from "./cujImport";
+import { calculateScoreBreakdown, listNotApplicableTasks } from "../shared/scoring";
 import { v4 as uuidv4 } from 'uuid';
 import path from 'path';
 import fs from 'fs';
 
+// Relations loaded for every ReviewWithDetails
+const reviewDetailsRelations = {
+  car: true,
+  reviewer: true,
+  participants: { with: { user: true } },
+  categoryOwners: true
+} as const;
+
 export class DbStorage implements IStorage {
   private mediaDir: string;
 
@@ -67,10 +91,163 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async createUsers(users: InsertUser[]): Promise<User[]> {
+    if (users.length === 0) {
+      return [];
+    }
+    // One insert statement, so either every user is created or none is
+    return await db.insert(schema.users).values(users).returning();
+  }
+
   async getAllUsers(): Promise<User[]> {
     return await db.select().from(schema.users);
   }
 
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User> {
+    const result = await db
+      .update(schema.users)
+      .set(user)
+      .where(eq(schema.users.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error('User not found');
+    }
+    return result[0];
+  }
+
+  async setUserDeactivated(id: number, deactivatedAt: Date | null): Promise<User> {
+    const result = await db
+      .update(schema.users)
+      .set({ deactivatedAt })
+      .where(eq(schema.users.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error('User not found');
+    }
+    return result[0];
+  }
+
+  async getUserByOidcSubject(subject: string): Promise<User | undefined> {
+    const result = await db.select().from(schema.users).where(eq(schema.users.oidcSubject, subject));
+    return result[0];
+  }
+
+  // Sign-in Domain operations
+  async getSignInDomains(): Promise<SignInDomain[]> {
+    return await db.select().from(schema.signInDomains).orderBy(asc(schema.signInDomains.domain));
+  }
+
+  async createSignInDomain(domain: InsertSignInDomain): Promise<SignInDomain> {
+    const result = await db.insert(schema.signInDomains).values(domain).returning();
+    return result[0];
+  }
+
+  async deleteSignInDomain(id: number): Promise<boolean> {
+    const result = await db
+      .delete(schema.signInDomains)
+      .where(eq(schema.signInDomains.id, id))
+      .returning({ id: schema.signInDomains.id });
+    return result.length > 0;
+  }
+
+  // API Token operations
+  async getApiTokensForUser(userId: number): Promise<ApiToken[]> {
+    const result = await db
+      .select()
+      .from(schema.apiTokens)
+      .where(eq(schema.apiTokens.userId, userId))
+      .orderBy(desc(schema.apiTokens.createdAt), desc(schema.apiTokens.id));
+    return result as ApiToken[];
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const result = await db.select().from(schema.apiTokens).where(eq(schema.apiTokens.tokenHash, tokenHash));
+    return result[0] as ApiToken | undefined;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const result = await db.insert(schema.apiTokens).values(token).returning();
+    return result[0] as ApiToken;
+  }
+
+  async updateApiToken(id: number, token: Partial<Pick<ApiToken, 'lastUsedAt' | 'revokedAt'>>): Promise<ApiToken> {
+    const result = await db
+      .update(schema.apiTokens)
+      .set(token)
+      .where(eq(schema.apiTokens.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error('API token not found');
+    }
+    return result[0] as ApiToken;
+  }
+
+  // Session operations
+  async getSession(sid: string): Promise<StoredSession | undefined> {
+    const result = await db.select().from(schema.sessions).where(eq(schema.sessions.sid, sid));
+    return result[0] as StoredSession | undefined;
+  }
+
+  async getAllSessions(): Promise<StoredSession[]> {
+    const result = await db.select().from(schema.sessions);
+    return result as StoredSession[];
+  }
+
+  async getSessionsForUser(userId: number): Promise<StoredSession[]> {
+    const result = await db
+      .select()
+      .from(schema.sessions)
+      .where(eq(schema.sessions.userId, userId))
+      .orderBy(desc(schema.sessions.lastSeenAt));
+    return result as StoredSession[];
+  }
+
+  async saveSession(session: InsertStoredSession): Promise<StoredSession> {
+    const result = await db
+      .insert(schema.sessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: schema.sessions.sid,
+        set: { ...session, lastSeenAt: new Date() }
+      })
+      .returning();
+    return result[0] as StoredSession;
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<void> {
+    await db
+      .update(schema.sessions)
+      .set({ expiresAt, lastSeenAt: new Date() })
+      .where(eq(schema.sessions.sid, sid));
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const result = await db
+      .delete(schema.sessions)
+      .where(eq(schema.sessions.sid, sid))
+      .returning({ id: schema.sessions.id });
+    return result.length > 0;
+  }
+
+  async deleteSessionsForUser(userId: number): Promise<number> {
+    const result = await db
+      .delete(schema.sessions)
+      .where(eq(schema.sessions.userId, userId))
+      .returning({ id: schema.sessions.id });
+    return result.length;
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<number> {
+    const result = await db
+      .delete(schema.sessions)
+      .where(lte(schema.sessions.expiresAt, now))
+      .returning({ id: schema.sessions.id });
+    return result.length;
+  }
+
   // CUJ Category operations
   async getCujCategory(id: number): Promise<CujCategory | undefined> {
     const result = await db.select().from(schema.cujCategories).where(eq(schema.cujCategories.id, id));
@@ -78,14 +255,77 @@ export class DbStorage implements IStorage {
   }
 
   async getAllCujCategories(): Promise<CujCategory[]> {
-    return await db.select().from(schema.cujCategories);
+    return await db
+      .select()
+      .from(schema.cujCategories)
+      .orderBy(asc(schema.cujCategories.sortOrder), asc(schema.cujCategories.id));
+  }
+
+  async getCujCategoriesForVersion(versionId: number): Promise<CujCategory[]> {
+    return await db
+      .select()
+      .from(schema.cujCategories)
+      .where(eq(schema.cujCategories.cujDatabaseVersionId, versionId))
+      .orderBy(asc(schema.cujCategories.sortOrder), asc(schema.cujCategories.id));
+  }
+
+  async getCategoriesForReview(reviewId: number): Promise<CujCategory[]> {
+    const versionId = await this.getCatalogVersionIdForReview(reviewId);
+    return versionId === null ? [] : this.getCujCategoriesForVersion(versionId);
   }
 
   async createCujCategory(category: InsertCujCategory): Promise<CujCategory> {
-    const result = await db.insert(schema.cujCategories).values(category).returning();
+    let sortOrder = category.sortOrder;
+    if (sortOrder === undefined) {
+      const [{ value }] = await db
+        .select({ value: sql<number>`coalesce(max(${cujCategories.sortOrder}) + 1, 0)` })
+        .from(cujCategories)
+        .where(category.cujDatabaseVersionId != null
+          ? eq(cujCategories.cujDatabaseVersionId, category.cujDatabaseVersionId)
+          : isNull(cujCategories.cujDatabaseVersionId));
+      sortOrder = Number(value);
+    }
+    
+    const result = await db.insert(schema.cujCategories).values({ ...category, sortOrder }).returning();
     return result[0];
   }
 
+  async updateCujCategory(id: number, category: Partial<InsertCujCategory>): Promise<CujCategory> {
+    const result = await db
+      .update(cujCategories)
+      .set(category)
+      .where(eq(cujCategories.id, id))
+      .returning();
+    
+    if (!result.length) {
+      throw new Error('CUJ category not found');
+    }
+    return result[0];
+  }
+
+  async deleteCujCategory(id: number): Promise<boolean> {
+    const categoryCujs = await db.select({ id: cujs.id }).from(cujs).where(eq(cujs.categoryId, id));
+    const cujIds = categoryCujs.map((cuj: { id: number }) => cuj.id);
+    if (cujIds.length) {
+      await db.delete(tasks).where(inArray(tasks.cujId, cujIds));
+      await db.delete(cujs).where(inArray(cujs.id, cujIds));
+    }
+    await db.delete(reviewerAssignments).where(eq(reviewerAssignments.categoryId, id));
+    await db.delete(reviewCategoryOwners).where(eq(reviewCategoryOwners.categoryId, id));
+    
+    const result = await db
+      .delete(cujCategories)
+      .where(eq(cujCategories.id, id))
+      .returning({ id: cujCategories.id });
+    return result.length > 0;
+  }
+
+  async reorderCujCategories(orderedIds: number[]): Promise<void> {
+    for (const [index, id] of orderedIds.entries()) {
+      await db.update(cujCategories).set({ sortOrder: index }).where(eq(cujCategories.id, id));
+    }
+  }
+
   // CUJ operations
   async getCuj(id: number): Promise<Cuj | undefined> {
     const result = await db.select().from(schema.cujs).where(eq(schema.cujs.id, id));
@@ -93,14 +333,63 @@ export class DbStorage implements IStorage {
   }
 
   async getCujsForCategory(categoryId: number): Promise<Cuj[]> {
-    return await db.select().from(schema.cujs).where(eq(schema.cujs.categoryId, categoryId));
+    return await db
+      .select()
+      .from(schema.cujs)
+      .where(eq(schema.cujs.categoryId, categoryId))
+      .orderBy(asc(schema.cujs.sortOrder), asc(schema.cujs.id));
+  }
+
+  async getCujsForVersion(versionId: number): Promise<Cuj[]> {
+    return await db
+      .select()
+      .from(schema.cujs)
+      .where(eq(schema.cujs.cujDatabaseVersionId, versionId))
+      .orderBy(asc(schema.cujs.sortOrder), asc(schema.cujs.id));
   }
 
   async createCuj(cuj: InsertCuj): Promise<Cuj> {
-    const result = await db.insert(schema.cujs).values(cuj).returning();
+    let sortOrder = cuj.sortOrder;
+    if (sortOrder === undefined) {
+      const [{ value }] = await db
+        .select({ value: sql<number>`coalesce(max(${cujs.sortOrder}) + 1, 0)` })
+        .from(cujs)
+        .where(eq(cujs.categoryId, cuj.categoryId));
+      sortOrder = Number(value);
+    }
+    
+    const result = await db.insert(schema.cujs).values({ ...cuj, sortOrder }).returning();
+    return result[0];
+  }
+
+  async updateCuj(id: number, cuj: Partial<InsertCuj>): Promise<Cuj> {
+    const result = await db
+      .update(cujs)
+      .set(cuj)
+      .where(eq(cujs.id, id))
+      .returning();
+    
+    if (!result.length) {
+      throw new Error('CUJ not found');
+    }
     return result[0];
   }
 
+  async deleteCuj(id: number): Promise<boolean> {
+    await db.delete(tasks).where(eq(tasks.cujId, id));
+    const result = await db
+      .delete(cujs)
+      .where(eq(cujs.id, id))
+      .returning({ id: cujs.id });
+    return result.length > 0;
+  }
+
+  async reorderCujs(orderedIds: number[]): Promise<void> {
+    for (const [index, id] of orderedIds.entries()) {
+      await db.update(cujs).set({ sortOrder: index }).where(eq(cujs.id, id));
+    }
+  }
+
   // Task operations
   async getTask(id: number): Promise<Task | undefined> {
     const result = await db.select().from(schema.tasks).where(eq(schema.tasks.id, id));
@@ -108,29 +397,93 @@ export class DbStorage implements IStorage {
   }
 
   async getTasksForCuj(cujId: number): Promise<Task[]> {
-    return await db.select().from(schema.tasks).where(eq(schema.tasks.cujId, cujId));
+    return await db
+      .select()
+      .from(schema.tasks)
+      .where(eq(schema.tasks.cujId, cujId))
+      .orderBy(asc(schema.tasks.sortOrder), asc(schema.tasks.id));
   }
 
-  async getTasksForReview(reviewId: number): Promise<TaskWithCategory[]> {
-    // This is a more complex join query
-    const result = await db.query.tasks.findMany({
-      with: {
-        cuj: {
-          with: {
-            category: true
-          }
-        }
-      }
-    });
+  async getTasksForVersion(versionId: number): Promise<TaskWithCategory[]> {
+    const result = await db
+      .select({ task: tasks, cuj: cujs, category: cujCategories })
+      .from(tasks)
+      .innerJoin(cujs, eq(tasks.cujId, cujs.id))
+      .innerJoin(cujCategories, eq(cujs.categoryId, cujCategories.id))
+      .where(eq(tasks.cujDatabaseVersionId, versionId))
+      .orderBy(
+        asc(cujCategories.sortOrder), asc(cujCategories.id),
+        asc(cujs.sortOrder), asc(cujs.id),
+        asc(tasks.sortOrder), asc(tasks.id)
+      );
+    
+    return result.map((row: { task: Task; cuj: Cuj; category: CujCategory }) => ({
+      ...row.task,
+      cuj: { ...row.cuj, category: row.category }
+    }));
+  }
+
+  // Reviews without a pinned catalog version follow the active one
+  private async getCatalogVersionIdForReview(reviewId: number): Promise<number | null> {
+    const result = await db
+      .select({ cujDatabaseVersionId: reviews.cujDatabaseVersionId })
+      .from(reviews)
+      .where(eq(reviews.id, reviewId));
+    
+    if (!result.length) return null;
+    if (result[0].cujDatabaseVersionId !== null) return result[0].cujDatabaseVersionId;
     
-    return result as TaskWithCategory[];
+    const activeVersion = await this.getActiveCujDatabaseVersion();
+    return activeVersion ? activeVersion.id : null;
+  }
+
+  async getTasksForReview(reviewId: number): Promise<TaskWithCategory[]> {
+    const versionId = await this.getCatalogVersionIdForReview(reviewId);
+    return versionId === null ? [] : this.getTasksForVersion(versionId);
   }
 
   async createTask(task: InsertTask): Promise<Task> {
-    const result = await db.insert(tasks).values(task).returning();
+    let sortOrder = task.sortOrder;
+    if (sortOrder === undefined) {
+      const [{ value }] = await db
+        .select({ value: sql<number>`coalesce(max(${tasks.sortOrder}) + 1, 0)` })
+        .from(tasks)
+        .where(eq(tasks.cujId, task.cujId));
+      sortOrder = Number(value);
+    }
+    
+    const result = await db.insert(tasks).values({ ...task, sortOrder }).returning();
+    return result[0];
+  }
+
+  async updateTask(id: number, task: Partial<InsertTask>): Promise<Task> {
+    const result = await db
+      .update(tasks)
+      .set(task)
+      .where(eq(tasks.id, id))
+      .returning();
+    
+    if (!result.length) {
+      throw new Error('Task not found');
+    }
     return result[0];
   }
 
+  async deleteTask(id: number): Promise<boolean> {
+    const result = await db
+      .delete(tasks)
+      .where(eq(tasks.id, id))
+      .returning({ id: tasks.id });
+    
+    return result.length > 0;
+  }
+
+  async reorderTasks(orderedIds: number[]): Promise<void> {
+    for (const [index, id] of orderedIds.entries()) {
+      await db.update(tasks).set({ sortOrder: index }).where(eq(tasks.id, id));
+    }
+  }
+
   // Car operations
   async getCar(id: number): Promise<Car | undefined> {
     const result = await db.select().from(cars).where(eq(cars.id, id));
@@ -147,41 +500,54 @@ export class DbStorage implements IStorage {
   }
 
   // Review operations
+  // The lead reviewer comes first in the participant list, followed by everyone added to the review
+  private toReviewWithDetails(review: any): ReviewWithDetails {
+    const { participants, ...rest } = review;
+    return {
+      ...rest,
+      participants: [
+        review.reviewer,
+        ...participants
+          .map((participant: { user: User }) => participant.user)
+          .filter((user: User) => user.id !== review.reviewer.id)
+      ]
+    } as ReviewWithDetails;
+  }
+
   async getReview(id: number): Promise<ReviewWithDetails | undefined> {
     const review = await db.query.reviews.findFirst({
       where: eq(reviews.id, id),
-      with: {
-        car: true,
-        reviewer: true
-      }
+      with: reviewDetailsRelations
     });
     
     if (!review) return undefined;
     
-    return review as ReviewWithDetails;
+    return this.toReviewWithDetails(review);
   }
 
   async getAllReviews(): Promise<ReviewWithDetails[]> {
     const reviewResults = await db.query.reviews.findMany({
-      with: {
-        car: true,
-        reviewer: true
-      }
+      with: reviewDetailsRelations
     });
     
-    return reviewResults as ReviewWithDetails[];
+    return reviewResults.map((review: any) => this.toReviewWithDetails(review));
   }
 
   async getReviewsByReviewer(reviewerId: number): Promise<ReviewWithDetails[]> {
+    const participations = await db
+      .select({ reviewId: reviewParticipants.reviewId })
+      .from(reviewParticipants)
+      .where(eq(reviewParticipants.userId, reviewerId));
+    const participatingReviewIds = participations.map((row: { reviewId: number }) => row.reviewId);
+    
     const reviewResults = await db.query.reviews.findMany({
-      where: eq(reviews.reviewerId, reviewerId),
-      with: {
-        car: true,
-        reviewer: true
-      }
+      where: participatingReviewIds.length
+        ? or(eq(reviews.reviewerId, reviewerId), inArray(reviews.id, participatingReviewIds))
+        : eq(reviews.reviewerId, reviewerId),
+      with: reviewDetailsRelations
     });
     
-    return reviewResults as ReviewWithDetails[];
+    return reviewResults.map((review: any) => this.toReviewWithDetails(review));
   }
 
   async createReview(review: InsertReview): Promise<Review> {
@@ -199,7 +565,7 @@ export class DbStorage implements IStorage {
     return result[0];
   }
   
-  async updateReview(id: number, lastModifiedById: number, data: { status?: string, isPublished?: boolean }): Promise<Review> {
+  async updateReview(id: number, lastModifiedById: number, data: { status?: string, isPublished?: boolean, scoringConfigId?: number }): Promise<Review> {
     // First check if review exists and if it's published
     const reviewCheck = await db
       .select()
@@ -232,6 +598,85 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async setReviewReviewer(id: number, reviewerId: number, lastModifiedById: number): Promise<Review> {
+    const result = await db
+      .update(reviews)
+      .set({ reviewerId, lastModifiedBy: lastModifiedById, lastModifiedAt: new Date() })
+      .where(eq(reviews.id, id))
+      .returning();
+    
+    if (result.length === 0) {
+      throw new Error('Review not found');
+    }
+    return result[0];
+  }
+
+  // Review Participant operations
+  async addReviewParticipant(participant: InsertReviewParticipant): Promise<ReviewParticipant> {
+    const existing = await db
+      .select()
+      .from(reviewParticipants)
+      .where(
+        and(
+          eq(reviewParticipants.reviewId, participant.reviewId),
+          eq(reviewParticipants.userId, participant.userId)
+        )
+      );
+    if (existing.length > 0) {
+      return existing[0];
+    }
+    
+    const result = await db.insert(reviewParticipants).values(participant).returning();
+    return result[0];
+  }
+
+  async removeReviewParticipant(reviewId: number, userId: number): Promise<boolean> {
+    // A former participant no longer owns any categories of the review
+    await db
+      .delete(reviewCategoryOwners)
+      .where(and(eq(reviewCategoryOwners.reviewId, reviewId), eq(reviewCategoryOwners.userId, userId)));
+    
+    const result = await db
+      .delete(reviewParticipants)
+      .where(and(eq(reviewParticipants.reviewId, reviewId), eq(reviewParticipants.userId, userId)))
+      .returning({ id: reviewParticipants.id });
+    return result.length > 0;
+  }
+
+  async getReviewCategoryOwners(reviewId: number): Promise<ReviewCategoryOwner[]> {
+    return await db
+      .select()
+      .from(reviewCategoryOwners)
+      .where(eq(reviewCategoryOwners.reviewId, reviewId));
+  }
+
+  async setReviewCategoryOwner(owner: InsertReviewCategoryOwner): Promise<ReviewCategoryOwner> {
+    const result = await db
+      .update(reviewCategoryOwners)
+      .set({ userId: owner.userId })
+      .where(
+        and(
+          eq(reviewCategoryOwners.reviewId, owner.reviewId),
+          eq(reviewCategoryOwners.categoryId, owner.categoryId)
+        )
+      )
+      .returning();
+    if (result.length > 0) {
+      return result[0];
+    }
+    
+    const inserted = await db.insert(reviewCategoryOwners).values(owner).returning();
+    return inserted[0];
+  }
+
+  async removeReviewCategoryOwner(reviewId: number, categoryId: number): Promise<boolean> {
+    const result = await db
+      .delete(reviewCategoryOwners)
+      .where(and(eq(reviewCategoryOwners.reviewId, reviewId), eq(reviewCategoryOwners.categoryId, categoryId)))
+      .returning({ id: reviewCategoryOwners.id });
+    return result.length > 0;
+  }
+
   // Task Evaluation operations
   async getTaskEvaluation(reviewId: number, taskId: number): Promise<TaskEvaluation | undefined> {
     const result = await db
@@ -280,10 +725,13 @@ export class DbStorage implements IStorage {
       taskId: evaluation.taskId,
       doable: evaluation.doable,
       undoableReason: evaluation.undoableReason,
+      notApplicable: evaluation.notApplicable,
+      notApplicableReason: evaluation.notApplicableReason,
       usabilityScore: evaluation.usabilityScore,
       usabilityFeedback: evaluation.usabilityFeedback,
       visualsScore: evaluation.visualsScore,
       visualsFeedback: evaluation.visualsFeedback,
+      ratings: evaluation.ratings,
       media: evaluation.media,
     };
 
@@ -302,14 +750,43 @@ export class DbStorage implements IStorage {
   }
 
   async getCompletedTaskIds(reviewId: number): Promise<number[]> {
+    return this.getEvaluatedTaskIds(reviewId, false);
+  }
+
+  async getNotApplicableTaskIds(reviewId: number): Promise<number[]> {
+    return this.getEvaluatedTaskIds(reviewId, true);
+  }
+
+  private async getEvaluatedTaskIds(reviewId: number, notApplicable: boolean): Promise<number[]> {
+    const versionId = await this.getCatalogVersionIdForReview(reviewId);
+    if (versionId === null) return [];
+    
+    // Only evaluations of tasks in the review's catalog version count towards completion
     const result = await db
       .select({ taskId: taskEvaluations.taskId })
       .from(taskEvaluations)
-      .where(eq(taskEvaluations.reviewId, reviewId));
+      .innerJoin(tasks, eq(taskEvaluations.taskId, tasks.id))
+      .where(
+        and(
+          eq(taskEvaluations.reviewId, reviewId),
+          eq(tasks.cujDatabaseVersionId, versionId),
+          eq(taskEvaluations.notApplicable, notApplicable)
+        )
+      );
     
     return result.map(r => r.taskId);
   }
 
+  async countTaskEvaluationsForTasks(taskIds: number[]): Promise<number> {
+    if (!taskIds.length) return 0;
+    
+    const [{ value }] = await db
+      .select({ value: sql<number>`count(*)` })
+      .from(taskEvaluations)
+      .where(inArray(taskEvaluations.taskId, taskIds));
+    return Number(value);
+  }
+
   // Category Evaluation operations
   async getCategoryEvaluation(reviewId: number, categoryId: number): Promise<CategoryEvaluation | undefined> {
     const result = await db
@@ -354,6 +831,7 @@ export class DbStorage implements IStorage {
       writingFeedback: evaluation.writingFeedback,
       emotionalScore: evaluation.emotionalScore,
       emotionalFeedback: evaluation.emotionalFeedback,
+      ratings: evaluation.ratings,
       media: evaluation.media,
     };
 
@@ -371,9 +849,17 @@ export class DbStorage implements IStorage {
     return result[0];
   }
 
+  async countCategoryEvaluationsForCategory(categoryId: number): Promise<number> {
+    const [{ value }] = await db
+      .select({ value: sql<number>`count(*)` })
+      .from(categoryEvaluations)
+      .where(eq(categoryEvaluations.categoryId, categoryId));
+    return Number(value);
+  }
+
   // Scoring Config operations
   async getScoringConfig(): Promise<ScoringConfig> {
-    const configs = await db.select().from(scoringConfig);
+    const configs = await db.select().from(scoringConfig).orderBy(desc(scoringConfig.version)).limit(1);
     if (configs.length === 0) {
       // Create default config if none exists
       const defaultConfig: InsertScoringConfig = {
@@ -386,60 +872,117 @@ export class DbStorage implements IStorage {
         categoryEmotionalWeight: 5
       };
       
-      const newConfig = await db.insert(scoringConfig).values(defaultConfig).returning();
+      const newConfig = await db.insert(scoringConfig).values({ ...defaultConfig, version: 1 }).returning();
       return newConfig[0];
     }
     
     return configs[0];
   }
 
-  async updateTaskScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
+  async getScoringConfigVersion(id: number): Promise<ScoringConfig | undefined> {
+    const result = await db.select().from(scoringConfig).where(eq(scoringConfig.id, id));
+    return result[0];
+  }
+
+  async getScoringConfigHistory(): Promise<ScoringConfig[]> {
+    return await db.select().from(scoringConfig).orderBy(desc(scoringConfig.version));
+  }
+
+  async createScoringConfigVersion(config: InsertScoringConfig): Promise<ScoringConfig> {
     const currentConfig = await this.getScoringConfig();
     
-    // Check the schema for the field name
-    const scoringConfigFields = {
-      taskDoableWeight: config.taskDoableWeight ?? currentConfig.taskDoableWeight,
-      taskUsabilityWeight: config.taskUsabilityWeight ?? currentConfig.taskUsabilityWeight,
-      taskVisualsWeight: config.taskVisualsWeight ?? currentConfig.taskVisualsWeight
-    };
-    
-    // If updatedBy and updatedAt are valid fields in the schema, add them
-    if (config.updatedBy) {
-      Object.assign(scoringConfigFields, { updatedBy: config.updatedBy });
-    }
-    
-    const updatedConfig = await db
-      .update(scoringConfig)
-      .set(scoringConfigFields)
-      .where(eq(scoringConfig.id, currentConfig.id))
+    // Weights left out of the new version are carried over from the current one
+    const newConfig = await db
+      .insert(scoringConfig)
+      .values({
+        taskDoableWeight: config.taskDoableWeight ?? currentConfig.taskDoableWeight,
+        taskUsabilityWeight: config.taskUsabilityWeight ?? currentConfig.taskUsabilityWeight,
+        taskVisualsWeight: config.taskVisualsWeight ?? currentConfig.taskVisualsWeight,
+        categoryTasksWeight: config.categoryTasksWeight ?? currentConfig.categoryTasksWeight,
+        categoryResponsivenessWeight: config.categoryResponsivenessWeight ?? currentConfig.categoryResponsivenessWeight,
+        categoryWritingWeight: config.categoryWritingWeight ?? currentConfig.categoryWritingWeight,
+        categoryEmotionalWeight: config.categoryEmotionalWeight ?? currentConfig.categoryEmotionalWeight,
+        categoryOverrides: config.categoryOverrides ?? currentConfig.categoryOverrides,
+        benchmarkCohort: config.benchmarkCohort ?? currentConfig.benchmarkCohort,
+        version: currentConfig.version + 1,
+        changeNote: config.changeNote ?? null,
+        updatedBy: config.updatedBy ?? null
+      })
       .returning();
     
-    return updatedConfig[0];
+    return newConfig[0];
+  }
+
+  async updateTaskScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
+    return this.createScoringConfigVersion({
+      taskDoableWeight: config.taskDoableWeight,
+      taskUsabilityWeight: config.taskUsabilityWeight,
+      taskVisualsWeight: config.taskVisualsWeight,
+      changeNote: config.changeNote,
+      updatedBy: config.updatedBy
+    });
   }
 
   async updateCategoryScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
-    const currentConfig = await this.getScoringConfig();
-    
-    // Check the schema for the field name
-    const scoringConfigFields = {
-      categoryTasksWeight: config.categoryTasksWeight ?? currentConfig.categoryTasksWeight,
-      categoryResponsivenessWeight: config.categoryResponsivenessWeight ?? currentConfig.categoryResponsivenessWeight,
-      categoryWritingWeight: config.categoryWritingWeight ?? currentConfig.categoryWritingWeight,
-      categoryEmotionalWeight: config.categoryEmotionalWeight ?? currentConfig.categoryEmotionalWeight
-    };
-    
-    // If updatedBy is a valid field in the schema, add it
-    if (config.updatedBy) {
-      Object.assign(scoringConfigFields, { updatedBy: config.updatedBy });
+    return this.createScoringConfigVersion({
+      categoryTasksWeight: config.categoryTasksWeight,
+      categoryResponsivenessWeight: config.categoryResponsivenessWeight,
+      categoryWritingWeight: config.categoryWritingWeight,
+      categoryEmotionalWeight: config.categoryEmotionalWeight,
+      changeNote: config.changeNote,
+      updatedBy: config.updatedBy
+    });
+  }
+
+  // Evaluation Dimension operations
+  async getEvaluationDimensions(): Promise<EvaluationDimension[]> {
+    const result: EvaluationDimension[] = await db.select().from(evaluationDimensions).orderBy(asc(evaluationDimensions.id));
+    const missing = builtInDimensionDefinitions.filter(
+      definition => !result.some(dimension => dimension.key === definition.key)
+    );
+    if (missing.length === 0) {
+      return result;
     }
-    
-    const updatedConfig = await db
-      .update(scoringConfig)
-      .set(scoringConfigFields)
-      .where(eq(scoringConfig.id, currentConfig.id))
+
+    // Create the built-in dimensions the first time they're needed, like the default scoring config
+    await db.insert(evaluationDimensions).values(missing).onConflictDoNothing();
+    const seeded = await db.select().from(evaluationDimensions).orderBy(asc(evaluationDimensions.id));
+    return seeded as EvaluationDimension[];
+  }
+
+  async getEvaluationDimension(id: number): Promise<EvaluationDimension | undefined> {
+    const result = await db.select().from(evaluationDimensions).where(eq(evaluationDimensions.id, id));
+    return result[0] as EvaluationDimension | undefined;
+  }
+
+  async createEvaluationDimension(dimension: InsertEvaluationDimension): Promise<EvaluationDimension> {
+    const result = await db.insert(evaluationDimensions).values(dimension).returning();
+    return result[0] as EvaluationDimension;
+  }
+
+  async updateEvaluationDimension(id: number, dimension: Partial<InsertEvaluationDimension>): Promise<EvaluationDimension> {
+    const result = await db
+      .update(evaluationDimensions)
+      .set({ ...dimension, updatedAt: new Date() })
+      .where(eq(evaluationDimensions.id, id))
       .returning();
-    
-    return updatedConfig[0];
+
+    if (result.length === 0) {
+      throw new Error('Evaluation dimension not found');
+    }
+    return result[0] as EvaluationDimension;
+  }
+
+  async countRatingsForDimension(dimension: EvaluationDimension): Promise<number> {
+    const table = dimension.level === 'task' ? taskEvaluations : categoryEvaluations;
+    const rated = dimension.key
+      ? sql`${sql.identifier(`${dimension.key}_score`)} is not null`
+      : sql`exists (select 1 from json_array_elements(${table.ratings}) as rating where (rating->>'dimensionId')::int = ${dimension.id})`;
+    const [{ value }] = await db
+      .select({ value: sql<number>`count(*)` })
+      .from(table)
+      .where(rated);
+    return Number(value);
   }
 
   // Report operations
@@ -448,63 +991,50 @@ export class DbStorage implements IStorage {
       where: eq(reports.id, id),
       with: {
         review: {
-          with: {
-            car: true,
-            reviewer: true
-          }
+          with: reviewDetailsRelations
         }
       }
     });
     
     if (!report) return undefined;
     
-    // Get category evaluations
+    const review = this.toReviewWithDetails(report.review);
+    
+    // Score against the catalog the review was pinned to, merging the evaluations of all participants
+    const categories = await this.getCategoriesForReview(report.reviewId);
     const categoryEvals = await this.getCategoryEvaluationsForReview(report.reviewId);
-    const taskEvals = await this.getTaskEvaluationsForReview(report.reviewId);
-    const config = await this.getScoringConfig();
-    
-    // Calculate category scores
-    const categoryScores = categoryEvals.map(catEval => {
-      // Find task evaluations for this category
-      const categoryTasks = taskEvals.filter(
-        taskEval => taskEval.task.cuj.categoryId === catEval.categoryId
-      );
-      
-      // Calculate task score for this category
-      const taskScores = categoryTasks.map(taskEval => 
-        calculateTaskScore(
-          taskEval.doable ? 100 : 0,
-          (taskEval.usabilityScore || 0) * 25,
-          (taskEval.visualsScore || 0) * 25,
-          config
-        )
-      );
-      
-      // Average of task scores
-      const avgTaskScore = taskScores.length 
-        ? taskScores.reduce((sum, score) => sum + score, 0) / taskScores.length
-        : 0;
+    const breakdown = calculateScoreBreakdown(
+      await this.getScoringConfig(),
+      categories,
+      await this.getTasksForReview(report.reviewId),
+      await this.getTaskEvaluationsForReview(report.reviewId),
+      categoryEvals,
+      await this.getEvaluationDimensions()
+    );
+    
+    const categoryScores = categories.map((category, index) => {
+      const categoryBreakdown = breakdown.categories[index];
+      const catEval = categoryEvals.find(evaluation => evaluation.categoryId === category.id);
+      const categoryOwner = review.categoryOwners.find(owner => owner.categoryId === category.id);
       
-      // Calculate overall category score
       return {
-        category: catEval.category,
-        taskScore: avgTaskScore,
-        responsivenessScore: (catEval.responsivenessScore || 0) * 25,
-        writingScore: (catEval.writingScore || 0) * 25,
-        emotionalScore: (catEval.emotionalScore || 0) * 25,
-        score: calculateCategoryScore(
-          avgTaskScore,
-          (catEval.responsivenessScore || 0) * 25,
-          (catEval.writingScore || 0) * 25,
-          (catEval.emotionalScore || 0) * 25,
-          config
-        )
+        category,
+        owner: review.participants.find(participant => participant.id === categoryOwner?.userId) || null,
+        taskScore: categoryBreakdown.taskScore || 0,
+        responsivenessScore: catEval?.responsivenessScore || 0,
+        writingScore: catEval?.writingScore || 0,
+        emotionalScore: catEval?.emotionalScore || 0,
+        cujScores: categoryBreakdown.cujs.map(({ tasks, ...cujScore }) => cujScore),
+        score: categoryBreakdown.score || 0
       };
     });
     
     return {
       ...report,
-      categoryScores
+      review,
+      categoryScores,
+      currentOverallScore: breakdown.overallScore,
+      notApplicableTasks: listNotApplicableTasks(breakdown)
     } as ReportWithReview;
   }
 
@@ -534,6 +1064,9 @@ export class DbStorage implements IStorage {
     if ('benchmarkRank' in reportUpdate) validFields.benchmarkRank = reportUpdate.benchmarkRank;
     if ('benchmarkComparison' in reportUpdate) validFields.benchmarkComparison = reportUpdate.benchmarkComparison;
     if ('topIssues' in reportUpdate) validFields.topIssues = reportUpdate.topIssues;
+    if ('scoringConfigId' in reportUpdate) validFields.scoringConfigId = reportUpdate.scoringConfigId;
+    if ('scoreSnapshot' in reportUpdate) validFields.scoreSnapshot = reportUpdate.scoreSnapshot;
+    if ('publishedAt' in reportUpdate) validFields.publishedAt = reportUpdate.publishedAt;
     
     // Add the updated timestamp using the correct field name
     validFields.updatedAt = new Date();
@@ -705,15 +1238,50 @@ export class DbStorage implements IStorage {
     return this.cujSyncData;
   }
 
-  async syncCujData(spreadsheetData?: any): Promise<{ success: boolean, message: string, versionId?: number }> {
+  async syncCujData(data: CujImportData): Promise<CujSyncResult> {
     try {
-      // Create a new CUJ database version for this sync
-      const version = await this.createCujDatabaseVersion({
-        name: `Sync ${new Date().toISOString()}`,
-        description: 'Automatically created during CUJ data sync',
-        isActive: true,
-        createdAt: new Date().toISOString()
+      // better-sqlite3 transactions run synchronously, so the version and its catalog are
+      // written with prepared statements and a failed import leaves nothing behind
+      const importCatalog = db.transaction((data: CujImportData) => {
+        const existingVersions = db
+          .prepare('SELECT version_number AS versionNumber FROM cuj_database_versions')
+          .all() as Pick<CujDatabaseVersion, 'versionNumber'>[];
+
+        // Imported catalogs start inactive so they can be reviewed before set-active
+        const version = db
+          .prepare(`INSERT INTO cuj_database_versions (version_number, source_type, source_file_name, created_by, is_active)
+                    VALUES (?, 'spreadsheet', ?, ?, 0) RETURNING id, version_number AS versionNumber`)
+          .get(nextCujVersionNumber(existingVersions), data.sourceFileName, data.createdBy) as Pick<CujDatabaseVersion, 'id' | 'versionNumber'>;
+
+        const insertCategory = db.prepare(`INSERT INTO cuj_categories (name, description, icon, cuj_database_version_id, sort_order)
+                                           VALUES (?, ?, ?, ?, ?) RETURNING id`);
+        const insertCuj = db.prepare(`INSERT INTO cujs (category_id, name, description, cuj_database_version_id, sort_order)
+                                      VALUES (?, ?, ?, ?, ?) RETURNING id`);
+        const insertTask = db.prepare(`INSERT INTO tasks (cuj_id, name, prerequisites, expected_outcome, cuj_database_version_id, sort_order)
+                                       VALUES (?, ?, ?, ?, ?, ?)`);
+
+        const catalog = groupCujImportRows(data.rows);
+        const counts = { categories: catalog.length, cujs: 0, tasks: data.rows.length };
+
+        catalog.forEach(({ category, cujs }, categoryOrder) => {
+          const { id: categoryId } = insertCategory
+            .get(category.name, category.description ?? null, category.icon ?? 'category', version.id, categoryOrder) as { id: number };
+
+          cujs.forEach(({ cuj, tasks }, cujOrder) => {
+            const { id: cujId } = insertCuj
+              .get(categoryId, cuj.name, cuj.description ?? null, version.id, cujOrder) as { id: number };
+            counts.cujs++;
+
+            tasks.forEach((task, taskOrder) => {
+              insertTask.run(cujId, task.name, task.prerequisites ?? null, task.expectedOutcome, version.id, taskOrder);
+            });
+          });
+        });
+
+        return { version, counts };
       });
+
+      const { version, counts } = importCatalog(data);
       
       this.cujSyncData = {
         lastSync: new Date().toISOString(),
@@ -722,7 +1290,7 @@ export class DbStorage implements IStorage {
       
       return { 
         success: true, 
-        message: 'Sync completed successfully',
+        message: `Imported ${counts.categories} categories, ${counts.cujs} CUJs and ${counts.tasks} tasks into version ${version.versionNumber}`,
         versionId: version.id
       };
     } catch (error) {
@@ -739,6 +1307,7 @@ export class DbStorage implements IStorage {
       };
     }
   }
+
   
   // Reviewer Assignment methods
   async getReviewerAssignment(id: number): Promise<ReviewerAssignmentWithDetails | undefined> {
@@ -910,6 +1479,19 @@ export class DbStorage implements IStorage {
     }
   }
   
+  async setReviewerAssignmentReviewer(id: number, reviewerId: number): Promise<ReviewerAssignment> {
+    const result = await db
+      .update(schema.reviewerAssignments)
+      .set({ reviewerId, updatedAt: new Date() })
+      .where(eq(schema.reviewerAssignments.id, id))
+      .returning();
+
+    if (result.length === 0) {
+      throw new Error('Reviewer assignment not found');
+    }
+    return result[0];
+  }
+  
   async deleteReviewerAssignment(id: number): Promise<boolean> {
     try {
       const result = await db
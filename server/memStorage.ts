@@ -2,15 +2,20 @@ import {
   User, InsertUser, CujCategory, InsertCujCategory, Cuj, InsertCuj, 
   Task, InsertTask, Car, InsertCar, Review, InsertReview, ReviewWithDetails,
   TaskEvaluation, InsertTaskEvaluation, CategoryEvaluation, InsertCategoryEvaluation,
-  TaskEvaluationWithTask, CategoryEvaluationWithCategory, ScoringConfig,
+  TaskEvaluationWithTask, CategoryEvaluationWithCategory, ScoringConfig, InsertScoringConfig,
+  EvaluationDimension, InsertEvaluationDimension, builtInDimensionDefinitions, SignInDomain, InsertSignInDomain,
+  ApiToken, InsertApiToken, StoredSession, InsertStoredSession,
   Report, InsertReport, ReportWithReview, MediaItem, CujDatabaseVersion,
   InsertCujDatabaseVersion, ReviewerAssignment, InsertReviewerAssignment,
-  ReviewerAssignmentWithDetails, TaskWithCategory
+  ReviewerAssignmentWithDetails, TaskWithCategory, CujImportData, CujSyncResult,
+  ReviewParticipant, InsertReviewParticipant, ReviewCategoryOwner, InsertReviewCategoryOwner
 } from '../shared/schema';
 import fs from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { IStorage } from './storage';
+import { calculateScoreBreakdown, hasDimensionRating, listNotApplicableTasks } from '../shared/scoring';
+import { materializeCujCatalog, nextCujVersionNumber } from './cujImport';
 
 /**
  * In-memory implementation of the storage interface.
@@ -25,11 +30,17 @@ export class MemStorage implements IStorage {
   reviews: Map<number, Review>;
   taskEvaluations: Map<string, TaskEvaluation>;
   categoryEvaluations: Map<string, CategoryEvaluation>;
-  scoringConfig: ScoringConfig;
+  scoringConfigs: Map<number, ScoringConfig>;
+  evaluationDimensions: Map<number, EvaluationDimension>;
+  signInDomains: Map<number, SignInDomain>;
+  apiTokens: Map<number, ApiToken>;
+  sessions: Map<string, StoredSession>;
   reports: Map<number, Report>;
   cujSyncData: { lastSync: string, status: string };
   cujDatabaseVersions: Map<number, CujDatabaseVersion>;
   reviewerAssignments: Map<number, ReviewerAssignment>;
+  reviewParticipants: Map<number, ReviewParticipant>;
+  reviewCategoryOwners: Map<number, ReviewCategoryOwner>;
   mediaItems: Map<string, MediaItem>;
 
   userIdCounter: number = 1;
@@ -43,6 +54,13 @@ export class MemStorage implements IStorage {
   reportIdCounter: number = 1;
   cujDatabaseVersionIdCounter: number = 1;
   reviewerAssignmentIdCounter: number = 1;
+  reviewParticipantIdCounter: number = 1;
+  reviewCategoryOwnerIdCounter: number = 1;
+  scoringConfigIdCounter: number = 1;
+  evaluationDimensionIdCounter: number = 1;
+  signInDomainIdCounter: number = 1;
+  apiTokenIdCounter: number = 1;
+  sessionIdCounter: number = 1;
 
   constructor() {
     this.users = new Map();
@@ -56,22 +74,38 @@ export class MemStorage implements IStorage {
     this.reports = new Map();
     this.cujDatabaseVersions = new Map();
     this.reviewerAssignments = new Map();
+    this.reviewParticipants = new Map();
+    this.reviewCategoryOwners = new Map();
     this.mediaItems = new Map();
+    this.evaluationDimensions = new Map();
+    this.signInDomains = new Map();
+    this.apiTokens = new Map();
+    this.sessions = new Map();
     
     // Default scoring config
-    this.scoringConfig = {
-      id: 1,
-      taskWeights: {
-        doable: 43.75,
-        usabilityAndInteraction: 37.5,
-        visuals: 18.75
-      },
-      categoryWeights: {
-        doable: 43.75,
-        usabilityAndInteraction: 37.5,
-        visuals: 18.75
-      }
-    };
+    const defaultConfigId = this.scoringConfigIdCounter++;
+    this.scoringConfigs = new Map();
+    this.scoringConfigs.set(defaultConfigId, {
+      id: defaultConfigId,
+      version: 1,
+      changeNote: null,
+      taskDoableWeight: 43.75,
+      taskUsabilityWeight: 37.5,
+      taskVisualsWeight: 18.75,
+      categoryTasksWeight: 80,
+      categoryResponsivenessWeight: 15,
+      categoryWritingWeight: 5,
+      categoryEmotionalWeight: 5,
+      categoryOverrides: [],
+      benchmarkCohort: 'year',
+      updatedAt: new Date(),
+      updatedBy: null
+    });
+    
+    // Built-in evaluation dimensions
+    for (const definition of builtInDimensionDefinitions) {
+      this.createEvaluationDimension(definition);
+    }
     
     this.cujSyncData = {
       lastSync: new Date().toISOString(),
@@ -95,72 +129,347 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, oidcSubject: insertUser.oidcSubject ?? null, deactivatedAt: null, id };
     this.users.set(id, user);
     return user;
   }
 
+  async createUsers(insertUsers: InsertUser[]): Promise<User[]> {
+    // Usernames are checked before anything is created, so a conflict leaves no user behind
+    const usernames = new Set(Array.from(this.users.values()).map(user => user.username));
+    for (const user of insertUsers) {
+      if (usernames.has(user.username)) {
+        throw new Error(`User "${user.username}" already exists`);
+      }
+      usernames.add(user.username);
+    }
+
+    const created: User[] = [];
+    for (const user of insertUsers) {
+      created.push(await this.createUser(user));
+    }
+    return created;
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
 
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error('User not found');
+    }
+
+    const updatedUser: User = { ...existing, ...user, id };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async setUserDeactivated(id: number, deactivatedAt: Date | null): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error('User not found');
+    }
+
+    const updatedUser: User = { ...existing, deactivatedAt };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async getUserByOidcSubject(subject: string): Promise<User | undefined> {
+    for (const user of this.users.values()) {
+      if (user.oidcSubject === subject) {
+        return user;
+      }
+    }
+    return undefined;
+  }
+
+  // Sign-in Domain operations
+  async getSignInDomains(): Promise<SignInDomain[]> {
+    return Array.from(this.signInDomains.values()).sort((a, b) => a.domain.localeCompare(b.domain));
+  }
+
+  async createSignInDomain(domain: InsertSignInDomain): Promise<SignInDomain> {
+    const id = this.signInDomainIdCounter++;
+    const newDomain: SignInDomain = {
+      id,
+      domain: domain.domain,
+      createdBy: domain.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.signInDomains.set(id, newDomain);
+    return newDomain;
+  }
+
+  async deleteSignInDomain(id: number): Promise<boolean> {
+    return this.signInDomains.delete(id);
+  }
+
+  // API Token operations
+  async getApiTokensForUser(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    for (const token of this.apiTokens.values()) {
+      if (token.tokenHash === tokenHash) {
+        return token;
+      }
+    }
+    return undefined;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const newToken: ApiToken = {
+      ...token,
+      id,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.apiTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async updateApiToken(id: number, token: Partial<Pick<ApiToken, 'lastUsedAt' | 'revokedAt'>>): Promise<ApiToken> {
+    const existing = this.apiTokens.get(id);
+    if (!existing) {
+      throw new Error('API token not found');
+    }
+
+    const updatedToken: ApiToken = { ...existing, ...token, id };
+    this.apiTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  // Session operations
+  async getSession(sid: string): Promise<StoredSession | undefined> {
+    return this.sessions.get(sid);
+  }
+
+  async getAllSessions(): Promise<StoredSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async getSessionsForUser(userId: number): Promise<StoredSession[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async saveSession(session: InsertStoredSession): Promise<StoredSession> {
+    const existing = this.sessions.get(session.sid);
+    const now = new Date();
+    const savedSession: StoredSession = {
+      ...session,
+      id: existing?.id ?? this.sessionIdCounter++,
+      createdAt: existing?.createdAt ?? now,
+      lastSeenAt: now
+    };
+    this.sessions.set(session.sid, savedSession);
+    return savedSession;
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<void> {
+    const existing = this.sessions.get(sid);
+    if (existing) {
+      this.sessions.set(sid, { ...existing, expiresAt, lastSeenAt: new Date() });
+    }
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    return this.sessions.delete(sid);
+  }
+
+  async deleteSessionsForUser(userId: number): Promise<number> {
+    const sids = Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .map(session => session.sid);
+    sids.forEach(sid => this.sessions.delete(sid));
+    return sids.length;
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<number> {
+    const sids = Array.from(this.sessions.values())
+      .filter(session => session.expiresAt <= now)
+      .map(session => session.sid);
+    sids.forEach(sid => this.sessions.delete(sid));
+    return sids.length;
+  }
+
   // CUJ Category operations
   async getCujCategory(id: number): Promise<CujCategory | undefined> {
     return this.cujCategories.get(id);
   }
 
   async getAllCujCategories(): Promise<CujCategory[]> {
-    return Array.from(this.cujCategories.values());
+    return this.sortCatalogItems(Array.from(this.cujCategories.values()));
+  }
+
+  async getCujCategoriesForVersion(versionId: number): Promise<CujCategory[]> {
+    return this.sortCatalogItems(Array.from(this.cujCategories.values())
+      .filter(category => category.cujDatabaseVersionId === versionId));
+  }
+
+  async getCategoriesForReview(reviewId: number): Promise<CujCategory[]> {
+    const versionId = await this.getCatalogVersionIdForReview(reviewId);
+    return versionId === null ? [] : this.getCujCategoriesForVersion(versionId);
   }
 
   async createCujCategory(category: InsertCujCategory): Promise<CujCategory> {
     const id = this.categoryIdCounter++;
-    const newCategory: CujCategory = { ...category, id };
+    const cujDatabaseVersionId = category.cujDatabaseVersionId ?? null;
+    const siblings = Array.from(this.cujCategories.values())
+      .filter(existing => existing.cujDatabaseVersionId === cujDatabaseVersionId);
+    const newCategory: CujCategory = {
+      id,
+      name: category.name,
+      description: category.description ?? null,
+      icon: category.icon ?? 'category',
+      cujDatabaseVersionId,
+      sortOrder: category.sortOrder ?? this.nextSortOrder(siblings)
+    };
     this.cujCategories.set(id, newCategory);
     return newCategory;
   }
 
+  async updateCujCategory(id: number, category: Partial<InsertCujCategory>): Promise<CujCategory> {
+    const existing = this.cujCategories.get(id);
+    if (!existing) throw new Error(`CUJ category with id ${id} not found`);
+    
+    const updatedCategory: CujCategory = {
+      ...existing,
+      name: category.name ?? existing.name,
+      description: category.description !== undefined ? category.description : existing.description,
+      icon: category.icon !== undefined ? category.icon : existing.icon,
+      sortOrder: category.sortOrder ?? existing.sortOrder
+    };
+    this.cujCategories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteCujCategory(id: number): Promise<boolean> {
+    if (!this.cujCategories.has(id)) {
+      return false;
+    }
+    
+    for (const cuj of Array.from(this.cujs.values())) {
+      if (cuj.categoryId === id) {
+        await this.deleteCuj(cuj.id);
+      }
+    }
+    for (const [assignmentId, assignment] of Array.from(this.reviewerAssignments.entries())) {
+      if (assignment.categoryId === id) {
+        this.reviewerAssignments.delete(assignmentId);
+      }
+    }
+    for (const [ownerId, owner] of Array.from(this.reviewCategoryOwners.entries())) {
+      if (owner.categoryId === id) {
+        this.reviewCategoryOwners.delete(ownerId);
+      }
+    }
+    this.cujCategories.delete(id);
+    return true;
+  }
+
+  async reorderCujCategories(orderedIds: number[]): Promise<void> {
+    orderedIds.forEach((id, index) => {
+      const category = this.cujCategories.get(id);
+      if (category) this.cujCategories.set(id, { ...category, sortOrder: index });
+    });
+  }
+
   // CUJ operations
   async getCuj(id: number): Promise<Cuj | undefined> {
     return this.cujs.get(id);
   }
 
   async getCujsForCategory(categoryId: number): Promise<Cuj[]> {
-    return Array.from(this.cujs.values()).filter(cuj => cuj.categoryId === categoryId);
+    return this.sortCatalogItems(Array.from(this.cujs.values()).filter(cuj => cuj.categoryId === categoryId));
+  }
+
+  async getCujsForVersion(versionId: number): Promise<Cuj[]> {
+    return this.sortCatalogItems(Array.from(this.cujs.values()).filter(cuj => cuj.cujDatabaseVersionId === versionId));
   }
 
   async createCuj(cuj: InsertCuj): Promise<Cuj> {
     const id = this.cujIdCounter++;
-    const newCuj: Cuj = { ...cuj, id };
+    const siblings = Array.from(this.cujs.values()).filter(existing => existing.categoryId === cuj.categoryId);
+    const newCuj: Cuj = {
+      id,
+      categoryId: cuj.categoryId,
+      name: cuj.name,
+      description: cuj.description ?? null,
+      cujDatabaseVersionId: cuj.cujDatabaseVersionId ?? null,
+      sortOrder: cuj.sortOrder ?? this.nextSortOrder(siblings)
+    };
     this.cujs.set(id, newCuj);
     return newCuj;
   }
 
+  async updateCuj(id: number, cuj: Partial<InsertCuj>): Promise<Cuj> {
+    const existing = this.cujs.get(id);
+    if (!existing) throw new Error(`CUJ with id ${id} not found`);
+    
+    const updatedCuj: Cuj = {
+      ...existing,
+      categoryId: cuj.categoryId ?? existing.categoryId,
+      name: cuj.name ?? existing.name,
+      description: cuj.description !== undefined ? cuj.description : existing.description,
+      sortOrder: cuj.sortOrder ?? existing.sortOrder
+    };
+    this.cujs.set(id, updatedCuj);
+    return updatedCuj;
+  }
+
+  async deleteCuj(id: number): Promise<boolean> {
+    if (!this.cujs.has(id)) {
+      return false;
+    }
+    
+    for (const task of Array.from(this.tasks.values())) {
+      if (task.cujId === id) {
+        this.tasks.delete(task.id);
+      }
+    }
+    this.cujs.delete(id);
+    return true;
+  }
+
+  async reorderCujs(orderedIds: number[]): Promise<void> {
+    orderedIds.forEach((id, index) => {
+      const cuj = this.cujs.get(id);
+      if (cuj) this.cujs.set(id, { ...cuj, sortOrder: index });
+    });
+  }
+
   // Task operations
   async getTask(id: number): Promise<Task | undefined> {
     return this.tasks.get(id);
   }
 
   async getTasksForCuj(cujId: number): Promise<Task[]> {
-    return Array.from(this.tasks.values()).filter(task => task.cujId === cujId);
+    return this.sortCatalogItems(Array.from(this.tasks.values()).filter(task => task.cujId === cujId));
   }
 
-  async getTasksForReview(reviewId: number): Promise<TaskWithCategory[]> {
-    const allTasks = Array.from(this.tasks.values());
-    const allCujs = Array.from(this.cujs.values());
-    const allCategories = Array.from(this.cujCategories.values());
-    
+  async getTasksForVersion(versionId: number): Promise<TaskWithCategory[]> {
     const tasksWithCategory: TaskWithCategory[] = [];
     
-    for (const task of allTasks) {
-      const cuj = allCujs.find(c => c.id === task.cujId);
-      if (cuj) {
-        const category = allCategories.find(cat => cat.id === cuj.categoryId);
-        if (category) {
+    // Walk the tree so tasks come out in catalog order
+    for (const category of await this.getCujCategoriesForVersion(versionId)) {
+      for (const cuj of await this.getCujsForCategory(category.id)) {
+        for (const task of await this.getTasksForCuj(cuj.id)) {
           tasksWithCategory.push({
             ...task,
-            cuj,
-            category
+            cuj: {
+              ...cuj,
+              category
+            }
           });
         }
       }
@@ -169,13 +478,63 @@ export class MemStorage implements IStorage {
     return tasksWithCategory;
   }
 
+  async getTasksForReview(reviewId: number): Promise<TaskWithCategory[]> {
+    const versionId = await this.getCatalogVersionIdForReview(reviewId);
+    return versionId === null ? [] : this.getTasksForVersion(versionId);
+  }
+
   async createTask(task: InsertTask): Promise<Task> {
     const id = this.taskIdCounter++;
-    const newTask: Task = { ...task, id };
+    const siblings = Array.from(this.tasks.values()).filter(existing => existing.cujId === task.cujId);
+    const newTask: Task = {
+      id,
+      cujId: task.cujId,
+      name: task.name,
+      prerequisites: task.prerequisites ?? null,
+      expectedOutcome: task.expectedOutcome,
+      cujDatabaseVersionId: task.cujDatabaseVersionId ?? null,
+      sortOrder: task.sortOrder ?? this.nextSortOrder(siblings)
+    };
     this.tasks.set(id, newTask);
     return newTask;
   }
 
+  async updateTask(id: number, task: Partial<InsertTask>): Promise<Task> {
+    const existing = this.tasks.get(id);
+    if (!existing) throw new Error(`Task with id ${id} not found`);
+    
+    const updatedTask: Task = {
+      ...existing,
+      cujId: task.cujId ?? existing.cujId,
+      name: task.name ?? existing.name,
+      prerequisites: task.prerequisites !== undefined ? task.prerequisites : existing.prerequisites,
+      expectedOutcome: task.expectedOutcome ?? existing.expectedOutcome,
+      sortOrder: task.sortOrder ?? existing.sortOrder
+    };
+    this.tasks.set(id, updatedTask);
+    return updatedTask;
+  }
+
+  async deleteTask(id: number): Promise<boolean> {
+    return this.tasks.delete(id);
+  }
+
+  async reorderTasks(orderedIds: number[]): Promise<void> {
+    orderedIds.forEach((id, index) => {
+      const task = this.tasks.get(id);
+      if (task) this.tasks.set(id, { ...task, sortOrder: index });
+    });
+  }
+
+  // Catalog items are listed by sortOrder; items that were never reordered keep creation order
+  private sortCatalogItems<T extends { id: number; sortOrder: number }>(items: T[]): T[] {
+    return items.sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+
+  private nextSortOrder(siblings: Array<{ sortOrder: number }>): number {
+    return siblings.reduce((max, sibling) => Math.max(max, sibling.sortOrder + 1), 0);
+  }
+
   // Car operations
   async getCar(id: number): Promise<Car | undefined> {
     return this.cars.get(id);
@@ -192,6 +551,17 @@ export class MemStorage implements IStorage {
     return newCar;
   }
 
+  // Catalog version a review resolves its tasks through. Reviews created before the
+  // catalog was versioned have no pinned version and follow the active one.
+  private async getCatalogVersionIdForReview(reviewId: number): Promise<number | null> {
+    const review = this.reviews.get(reviewId);
+    if (!review) return null;
+    if (review.cujDatabaseVersionId !== null) return review.cujDatabaseVersionId;
+    
+    const activeVersion = await this.getActiveCujDatabaseVersion();
+    return activeVersion ? activeVersion.id : null;
+  }
+
   // Review operations
   async getReview(id: number): Promise<ReviewWithDetails | undefined> {
     const review = this.reviews.get(id);
@@ -212,10 +582,21 @@ export class MemStorage implements IStorage {
       cujDatabaseVersion = await this.getCujDatabaseVersion(review.cujDatabaseVersionId);
     }
     
+    const participants = [reviewer];
+    for (const participant of this.reviewParticipants.values()) {
+      if (participant.reviewId !== id || participant.userId === reviewer.id) continue;
+      const user = await this.getUser(participant.userId);
+      if (user) {
+        participants.push(user);
+      }
+    }
+    
     return {
       ...review,
       car,
       reviewer,
+      participants,
+      categoryOwners: await this.getReviewCategoryOwners(id),
       lastModifiedBy: lastModifiedByUser,
       cujDatabaseVersion
     };
@@ -237,8 +618,14 @@ export class MemStorage implements IStorage {
   async getReviewsByReviewer(reviewerId: number): Promise<ReviewWithDetails[]> {
     const reviews: ReviewWithDetails[] = [];
     
+    const participatingReviewIds = new Set(
+      Array.from(this.reviewParticipants.values())
+        .filter(participant => participant.userId === reviewerId)
+        .map(participant => participant.reviewId)
+    );
+    
     for (const review of this.reviews.values()) {
-      if (review.reviewerId === reviewerId) {
+      if (review.reviewerId === reviewerId || participatingReviewIds.has(review.id)) {
         const fullReview = await this.getReview(review.id);
         if (fullReview) {
           reviews.push(fullReview);
@@ -256,6 +643,8 @@ export class MemStorage implements IStorage {
     const newReview: Review = {
       ...review,
       id,
+      scoringConfigId: null,
+      previousReviewId: review.previousReviewId ?? null,
       createdAt: now,
       lastModifiedAt: now
     };
@@ -278,7 +667,7 @@ export class MemStorage implements IStorage {
     return updatedReview;
   }
 
-  async updateReview(id: number, lastModifiedBy: number, data: { status?: string, isPublished?: boolean }): Promise<Review> {
+  async updateReview(id: number, lastModifiedBy: number, data: { status?: string, isPublished?: boolean, scoringConfigId?: number }): Promise<Review> {
     const review = this.reviews.get(id);
     if (!review) throw new Error(`Review with id ${id} not found`);
     
@@ -293,6 +682,92 @@ export class MemStorage implements IStorage {
     return updatedReview;
   }
 
+  async setReviewReviewer(id: number, reviewerId: number, lastModifiedBy: number): Promise<Review> {
+    const review = this.reviews.get(id);
+    if (!review) throw new Error(`Review with id ${id} not found`);
+    
+    const updatedReview: Review = {
+      ...review,
+      reviewerId,
+      lastModifiedBy,
+      lastModifiedAt: new Date()
+    };
+    
+    this.reviews.set(id, updatedReview);
+    return updatedReview;
+  }
+
+  // Review Participant operations
+  async addReviewParticipant(participant: InsertReviewParticipant): Promise<ReviewParticipant> {
+    for (const existing of this.reviewParticipants.values()) {
+      if (existing.reviewId === participant.reviewId && existing.userId === participant.userId) {
+        return existing;
+      }
+    }
+    
+    const newParticipant: ReviewParticipant = {
+      ...participant,
+      id: this.reviewParticipantIdCounter++,
+      createdAt: new Date()
+    };
+    
+    this.reviewParticipants.set(newParticipant.id, newParticipant);
+    return newParticipant;
+  }
+
+  async removeReviewParticipant(reviewId: number, userId: number): Promise<boolean> {
+    let removed = false;
+    for (const [participantId, participant] of Array.from(this.reviewParticipants.entries())) {
+      if (participant.reviewId === reviewId && participant.userId === userId) {
+        this.reviewParticipants.delete(participantId);
+        removed = true;
+      }
+    }
+    
+    // A former participant no longer owns any categories of the review
+    for (const [ownerId, owner] of Array.from(this.reviewCategoryOwners.entries())) {
+      if (owner.reviewId === reviewId && owner.userId === userId) {
+        this.reviewCategoryOwners.delete(ownerId);
+      }
+    }
+    
+    return removed;
+  }
+
+  async getReviewCategoryOwners(reviewId: number): Promise<ReviewCategoryOwner[]> {
+    return Array.from(this.reviewCategoryOwners.values()).filter(owner => owner.reviewId === reviewId);
+  }
+
+  async setReviewCategoryOwner(owner: InsertReviewCategoryOwner): Promise<ReviewCategoryOwner> {
+    for (const existing of this.reviewCategoryOwners.values()) {
+      if (existing.reviewId === owner.reviewId && existing.categoryId === owner.categoryId) {
+        const updatedOwner: ReviewCategoryOwner = { ...existing, userId: owner.userId };
+        this.reviewCategoryOwners.set(existing.id, updatedOwner);
+        return updatedOwner;
+      }
+    }
+    
+    const newOwner: ReviewCategoryOwner = {
+      ...owner,
+      id: this.reviewCategoryOwnerIdCounter++,
+      createdAt: new Date()
+    };
+    
+    this.reviewCategoryOwners.set(newOwner.id, newOwner);
+    return newOwner;
+  }
+
+  async removeReviewCategoryOwner(reviewId: number, categoryId: number): Promise<boolean> {
+    for (const [ownerId, owner] of Array.from(this.reviewCategoryOwners.entries())) {
+      if (owner.reviewId === reviewId && owner.categoryId === categoryId) {
+        this.reviewCategoryOwners.delete(ownerId);
+        return true;
+      }
+    }
+    
+    return false;
+  }
+
   // Task Evaluation operations
   private getTaskEvaluationKey(reviewId: number, taskId: number): string {
     return `${reviewId}-${taskId}`;
@@ -331,6 +806,9 @@ export class MemStorage implements IStorage {
     
     const newEvaluation: TaskEvaluation = {
       ...evaluation,
+      notApplicable: evaluation.notApplicable ?? false,
+      notApplicableReason: evaluation.notApplicableReason ?? null,
+      ratings: evaluation.ratings ?? [],
       id: existing ? existing.id : this.taskEvalIdCounter++,
       createdAt: existing ? existing.createdAt : now,
       lastModifiedAt: now
@@ -359,12 +837,13 @@ export class MemStorage implements IStorage {
   }
 
   async getCompletedTaskIds(reviewId: number): Promise<number[]> {
+    // Only evaluations of tasks in the review's catalog version count towards completion,
+    // and tasks that don't apply to the car are left out of it altogether
+    const reviewTaskIds = new Set((await this.getTasksForReview(reviewId)).map(task => task.id));
     const completedIds: number[] = [];
     
-    for (const [key, evaluation] of this.taskEvaluations.entries()) {
-      const [evalReviewId] = key.split('-').map(Number);
-      
-      if (evalReviewId === reviewId && evaluation.isCompleted) {
+    for (const evaluation of this.taskEvaluations.values()) {
+      if (evaluation.reviewId === reviewId && reviewTaskIds.has(evaluation.taskId) && !evaluation.notApplicable) {
         completedIds.push(evaluation.taskId);
       }
     }
@@ -372,6 +851,24 @@ export class MemStorage implements IStorage {
     return completedIds;
   }
 
+  async getNotApplicableTaskIds(reviewId: number): Promise<number[]> {
+    const reviewTaskIds = new Set((await this.getTasksForReview(reviewId)).map(task => task.id));
+    const notApplicableIds: number[] = [];
+    
+    for (const evaluation of this.taskEvaluations.values()) {
+      if (evaluation.reviewId === reviewId && reviewTaskIds.has(evaluation.taskId) && evaluation.notApplicable) {
+        notApplicableIds.push(evaluation.taskId);
+      }
+    }
+    
+    return notApplicableIds;
+  }
+
+  async countTaskEvaluationsForTasks(taskIds: number[]): Promise<number> {
+    const ids = new Set(taskIds);
+    return Array.from(this.taskEvaluations.values()).filter(evaluation => ids.has(evaluation.taskId)).length;
+  }
+
   // Category Evaluation operations
   private getCategoryEvaluationKey(reviewId: number, categoryId: number): string {
     return `${reviewId}-${categoryId}`;
@@ -410,6 +907,7 @@ export class MemStorage implements IStorage {
     
     const newEvaluation: CategoryEvaluation = {
       ...evaluation,
+      ratings: evaluation.ratings ?? [],
       id: existing ? existing.id : this.categoryEvalIdCounter++,
       createdAt: existing ? existing.createdAt : now,
       lastModifiedAt: now
@@ -437,31 +935,122 @@ export class MemStorage implements IStorage {
     return updatedEval;
   }
 
+  async countCategoryEvaluationsForCategory(categoryId: number): Promise<number> {
+    return Array.from(this.categoryEvaluations.values())
+      .filter(evaluation => evaluation.categoryId === categoryId).length;
+  }
+
   // Scoring Config operations
   async getScoringConfig(): Promise<ScoringConfig> {
-    return this.scoringConfig;
+    return (await this.getScoringConfigHistory())[0];
   }
 
-  async updateTaskScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
-    if (config.taskWeights) {
-      this.scoringConfig.taskWeights = {
-        ...this.scoringConfig.taskWeights,
-        ...config.taskWeights
-      };
-    }
+  async getScoringConfigVersion(id: number): Promise<ScoringConfig | undefined> {
+    return this.scoringConfigs.get(id);
+  }
+
+  async getScoringConfigHistory(): Promise<ScoringConfig[]> {
+    return Array.from(this.scoringConfigs.values()).sort((a, b) => b.version - a.version);
+  }
+
+  async createScoringConfigVersion(config: InsertScoringConfig): Promise<ScoringConfig> {
+    const current = await this.getScoringConfig();
+    const id = this.scoringConfigIdCounter++;
     
-    return this.scoringConfig;
+    // Weights left out of the new version are carried over from the current one
+    const newConfig: ScoringConfig = {
+      id,
+      version: current.version + 1,
+      changeNote: config.changeNote ?? null,
+      taskDoableWeight: config.taskDoableWeight ?? current.taskDoableWeight,
+      taskUsabilityWeight: config.taskUsabilityWeight ?? current.taskUsabilityWeight,
+      taskVisualsWeight: config.taskVisualsWeight ?? current.taskVisualsWeight,
+      categoryTasksWeight: config.categoryTasksWeight ?? current.categoryTasksWeight,
+      categoryResponsivenessWeight: config.categoryResponsivenessWeight ?? current.categoryResponsivenessWeight,
+      categoryWritingWeight: config.categoryWritingWeight ?? current.categoryWritingWeight,
+      categoryEmotionalWeight: config.categoryEmotionalWeight ?? current.categoryEmotionalWeight,
+      categoryOverrides: config.categoryOverrides ?? current.categoryOverrides,
+      benchmarkCohort: config.benchmarkCohort ?? current.benchmarkCohort,
+      updatedAt: new Date(),
+      updatedBy: config.updatedBy ?? null
+    };
+    
+    this.scoringConfigs.set(id, newConfig);
+    return newConfig;
+  }
+
+  async updateTaskScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
+    return this.createScoringConfigVersion({
+      taskDoableWeight: config.taskDoableWeight,
+      taskUsabilityWeight: config.taskUsabilityWeight,
+      taskVisualsWeight: config.taskVisualsWeight,
+      changeNote: config.changeNote,
+      updatedBy: config.updatedBy
+    });
   }
 
   async updateCategoryScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
-    if (config.categoryWeights) {
-      this.scoringConfig.categoryWeights = {
-        ...this.scoringConfig.categoryWeights,
-        ...config.categoryWeights
-      };
+    return this.createScoringConfigVersion({
+      categoryTasksWeight: config.categoryTasksWeight,
+      categoryResponsivenessWeight: config.categoryResponsivenessWeight,
+      categoryWritingWeight: config.categoryWritingWeight,
+      categoryEmotionalWeight: config.categoryEmotionalWeight,
+      changeNote: config.changeNote,
+      updatedBy: config.updatedBy
+    });
+  }
+
+
+  // Evaluation Dimension operations
+  async getEvaluationDimensions(): Promise<EvaluationDimension[]> {
+    return Array.from(this.evaluationDimensions.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getEvaluationDimension(id: number): Promise<EvaluationDimension | undefined> {
+    return this.evaluationDimensions.get(id);
+  }
+
+  async createEvaluationDimension(dimension: InsertEvaluationDimension): Promise<EvaluationDimension> {
+    const id = this.evaluationDimensionIdCounter++;
+    const now = new Date();
+
+    const newDimension: EvaluationDimension = {
+      ...dimension,
+      id,
+      key: dimension.key ?? null,
+      description: dimension.description ?? null,
+      feedbackThreshold: dimension.feedbackThreshold ?? null,
+      createdBy: dimension.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.evaluationDimensions.set(id, newDimension);
+    return newDimension;
+  }
+
+  async updateEvaluationDimension(id: number, dimension: Partial<InsertEvaluationDimension>): Promise<EvaluationDimension> {
+    const existing = this.evaluationDimensions.get(id);
+    if (!existing) {
+      throw new Error('Evaluation dimension not found');
     }
-    
-    return this.scoringConfig;
+
+    const updatedDimension: EvaluationDimension = {
+      ...existing,
+      ...dimension,
+      id,
+      updatedAt: new Date()
+    };
+
+    this.evaluationDimensions.set(id, updatedDimension);
+    return updatedDimension;
+  }
+
+  async countRatingsForDimension(dimension: EvaluationDimension): Promise<number> {
+    const evaluations: Array<TaskEvaluation | CategoryEvaluation> = dimension.level === 'task'
+      ? Array.from(this.taskEvaluations.values())
+      : Array.from(this.categoryEvaluations.values());
+    return evaluations.filter(evaluation => hasDimensionRating(evaluation, dimension)).length;
   }
 
   // Report operations
@@ -472,9 +1061,43 @@ export class MemStorage implements IStorage {
     const review = await this.getReview(report.reviewId);
     if (!review) return undefined;
     
+    // Score against the catalog the review was pinned to, ignoring evaluations of
+    // tasks or categories from other catalog versions. Evaluations of all participants
+    // are merged, each category being scored from whoever evaluated it
+    const categories = await this.getCategoriesForReview(report.reviewId);
+    const categoryEvaluations = await this.getCategoryEvaluationsForReview(report.reviewId);
+    const breakdown = calculateScoreBreakdown(
+      await this.getScoringConfig(),
+      categories,
+      await this.getTasksForReview(report.reviewId),
+      await this.getTaskEvaluationsForReview(report.reviewId),
+      categoryEvaluations,
+      await this.getEvaluationDimensions()
+    );
+    
+    const categoryScores = categories.map((category, index) => {
+      const categoryBreakdown = breakdown.categories[index];
+      const categoryEval = categoryEvaluations.find(evaluation => evaluation.categoryId === category.id);
+      const categoryOwner = review.categoryOwners.find(owner => owner.categoryId === category.id);
+      
+      return {
+        category,
+        owner: review.participants.find(participant => participant.id === categoryOwner?.userId) || null,
+        score: categoryBreakdown.score || 0,
+        taskScore: categoryBreakdown.taskScore || 0,
+        responsivenessScore: categoryEval?.responsivenessScore || 0,
+        writingScore: categoryEval?.writingScore || 0,
+        emotionalScore: categoryEval?.emotionalScore || 0,
+        cujScores: categoryBreakdown.cujs.map(({ tasks, ...cujScore }) => cujScore)
+      };
+    });
+    
     return {
       ...report,
-      review
+      review,
+      categoryScores,
+      currentOverallScore: breakdown.overallScore,
+      notApplicableTasks: listNotApplicableTasks(breakdown)
     };
   }
 
@@ -638,28 +1261,27 @@ export class MemStorage implements IStorage {
     return this.cujSyncData;
   }
 
-  async syncCujData(spreadsheetData?: any): Promise<{ success: boolean, message: string, versionId?: number }> {
-    const now = new Date();
+  async syncCujData(data: CujImportData): Promise<CujSyncResult> {
+    // Imported catalogs start inactive so they can be reviewed before set-active
+    const versionNumber = nextCujVersionNumber(Array.from(this.cujDatabaseVersions.values()));
+    const version = await this.createCujDatabaseVersion({
+      versionNumber,
+      sourceType: 'spreadsheet',
+      sourceFileName: data.sourceFileName,
+      createdBy: data.createdBy,
+      isActive: false
+    });
+
+    const counts = await materializeCujCatalog(this, version.id, data.rows);
+
     this.cujSyncData = {
-      lastSync: now.toISOString(),
+      lastSync: new Date().toISOString(),
       status: 'success'
     };
-    
-    // In the real implementation, we would process the spreadsheet data here
-    
-    // For the mock implementation, we'll create a new version
-    const version = await this.createCujDatabaseVersion({
-      name: `Sync ${now.toISOString()}`,
-      description: 'Automatically synchronized CUJ database',
-      isActive: true
-    });
-    
-    // Set it as active
-    await this.setActiveCujDatabaseVersion(version.id);
-    
+
     return {
       success: true,
-      message: 'CUJ data synchronized successfully',
+      message: `Imported ${counts.categories} categories, ${counts.cujs} CUJs and ${counts.tasks} tasks into version ${versionNumber}`,
       versionId: version.id
     };
   }
@@ -760,6 +1382,20 @@ export class MemStorage implements IStorage {
     return newAssignment;
   }
 
+  async setReviewerAssignmentReviewer(id: number, reviewerId: number): Promise<ReviewerAssignment> {
+    const existing = this.reviewerAssignments.get(id);
+    if (!existing) throw new Error(`Reviewer assignment with id ${id} not found`);
+    
+    const updatedAssignment: ReviewerAssignment = {
+      ...existing,
+      reviewerId,
+      updatedAt: new Date()
+    };
+    
+    this.reviewerAssignments.set(id, updatedAssignment);
+    return updatedAssignment;
+  }
+
   async deleteReviewerAssignment(id: number): Promise<boolean> {
     if (!this.reviewerAssignments.has(id)) {
       return false;
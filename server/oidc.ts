@@ -0,0 +1,188 @@
+import { Client, IdTokenClaims, Issuer, errors, generators } from 'openid-client';
+import type { IStorage } from './storage';
+import { DEACTIVATED_ACCOUNT, LoginResult, UserRole, isUserActive, isUserRole, parseRoleGroups } from './auth';
+
+export type OidcConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;   // public client relying on PKCE alone when null
+  redirectUri: string;           // the callback route, as registered with the provider
+  scopes: string;
+  roleClaim: string;
+  roleMapping: Array<{ role: UserRole; group: string }>; // checked in order, the first claim value the user has wins
+  defaultRole: UserRole | null;  // role of users matching none of the mapping, who are turned away when null
+};
+
+// What the callback needs to check the response belongs to the login this session started
+export type OidcChecks = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+declare module 'express-session' {
+  interface SessionData {
+    oidc?: OidcChecks;
+  }
+}
+
+/**
+ * Reads the single sign-on settings from the environment, null when OIDC_ISSUER isn't set and
+ * single sign-on is off.
+ */
+export function getOidcConfig(env: NodeJS.ProcessEnv = process.env): OidcConfig | null {
+  if (!env.OIDC_ISSUER) {
+    return null;
+  }
+
+  if (!env.OIDC_CLIENT_ID || !env.OIDC_REDIRECT_URI) {
+    throw new Error('OIDC_CLIENT_ID and OIDC_REDIRECT_URI are required when OIDC_ISSUER is set');
+  }
+  const defaultRole = env.OIDC_DEFAULT_ROLE?.trim() || null;
+  if (defaultRole !== null && !isUserRole(defaultRole)) {
+    throw new Error(`Invalid OIDC_DEFAULT_ROLE: ${defaultRole}`);
+  }
+
+  return {
+    issuer: env.OIDC_ISSUER,
+    clientId: env.OIDC_CLIENT_ID,
+    clientSecret: env.OIDC_CLIENT_SECRET || null,
+    redirectUri: env.OIDC_REDIRECT_URI,
+    scopes: env.OIDC_SCOPES || 'openid email profile',
+    roleClaim: env.OIDC_ROLE_CLAIM || 'groups',
+    roleMapping: parseRoleGroups(env.OIDC_ROLE_MAPPING || '', 'OIDC_ROLE_MAPPING'),
+    defaultRole
+  };
+}
+
+// Discovered clients by issuer and client, dropped when discovery fails so the next login retries
+const clients = new Map<string, Promise<Client>>();
+
+function getClient(config: OidcConfig): Promise<Client> {
+  const key = `${config.issuer}|${config.clientId}`;
+  let client = clients.get(key);
+  if (!client) {
+    client = Issuer.discover(config.issuer).then(issuer => new issuer.Client({
+      client_id: config.clientId,
+      client_secret: config.clientSecret ?? undefined,
+      redirect_uris: [config.redirectUri],
+      response_types: ['code'],
+      token_endpoint_auth_method: config.clientSecret ? 'client_secret_basic' : 'none'
+    }));
+    client.catch(() => clients.delete(key));
+    clients.set(key, client);
+  }
+  return client;
+}
+
+/**
+ * Starts an authorization code login with PKCE. The checks are kept in the session until the
+ * provider redirects back to the callback.
+ */
+export async function startOidcLogin(config: OidcConfig): Promise<{ url: string; checks: OidcChecks }> {
+  const client = await getClient(config);
+  const checks: OidcChecks = {
+    state: generators.state(),
+    nonce: generators.nonce(),
+    codeVerifier: generators.codeVerifier()
+  };
+
+  const url = client.authorizationUrl({
+    scope: config.scopes,
+    state: checks.state,
+    nonce: checks.nonce,
+    code_challenge: generators.codeChallenge(checks.codeVerifier),
+    code_challenge_method: 'S256'
+  });
+  return { url, checks };
+}
+
+/**
+ * Exchanges the code the provider redirected back with for the user's ID token, then signs in the
+ * user it names.
+ */
+export async function completeOidcLogin(
+  storage: IStorage,
+  config: OidcConfig,
+  callbackUrl: string,
+  checks: OidcChecks
+): Promise<LoginResult> {
+  const client = await getClient(config);
+
+  let claims: IdTokenClaims;
+  try {
+    const tokenSet = await client.callback(config.redirectUri, client.callbackParams(callbackUrl), {
+      state: checks.state,
+      nonce: checks.nonce,
+      code_verifier: checks.codeVerifier
+    });
+    claims = tokenSet.claims();
+  } catch (error) {
+    if (error instanceof errors.OPError) {
+      // e.g. the user declined to sign in at the provider
+      return { user: null, message: error.error_description || 'Single sign-on was cancelled' };
+    }
+    if (error instanceof errors.RPError) {
+      console.error('Rejected single sign-on response:', error.message);
+      return { user: null, message: 'Single sign-on could not be completed, please try again' };
+    }
+    throw error;
+  }
+
+  return resolveOidcUser(storage, config, claims);
+}
+
+const claimValues = (claim: unknown): string[] =>
+  Array.isArray(claim) ? claim.map(String) : typeof claim === 'string' ? [claim] : [];
+
+/**
+ * Finds the user an ID token belongs to. Accounts are linked by issuer and subject; the first login
+ * links the local user whose username is the verified email, or creates one. When admins listed
+ * sign-in domains, only verified emails of those domains may sign in.
+ */
+export async function resolveOidcUser(storage: IStorage, config: OidcConfig, claims: IdTokenClaims): Promise<LoginResult> {
+  // Only emails the provider says it verified can vouch for a domain or an existing account; some
+  // providers leave the claim out or let users set any email
+  const email = claims.email_verified === true ? claims.email?.trim().toLowerCase() || null : null;
+
+  const domains = await storage.getSignInDomains();
+  if (domains.length > 0) {
+    const domain = email?.split('@')[1];
+    if (!domain || !domains.some(allowed => allowed.domain === domain)) {
+      return { user: null, message: 'Your email domain is not allowed to sign in' };
+    }
+  }
+
+  const subject = `${claims.iss}|${claims.sub}`;
+  const username = email ?? claims.preferred_username ?? claims.sub;
+  let existing = await storage.getUserByOidcSubject(subject);
+  if (!existing) {
+    existing = await storage.getUserByUsername(username);
+    if (existing && (!email || existing.oidcSubject)) {
+      return { user: null, message: 'An account with your username already exists, ask an admin to link it' };
+    }
+  }
+  if (existing && !isUserActive(existing)) {
+    return { user: null, message: DEACTIVATED_ACCOUNT };
+  }
+
+  const values = claimValues(claims[config.roleClaim]);
+  const mapped = config.roleMapping.find(({ group }) => values.includes(group))?.role;
+  // Once a mapping is set the provider's groups decide the role, so users removed from a group lose
+  // its role; without one, roles stay as admins set them here
+  const role = config.roleMapping.length > 0
+    ? mapped ?? config.defaultRole
+    : existing?.role ?? config.defaultRole;
+  if (!role) {
+    return { user: null, message: 'Your account has not been given access to this application' };
+  }
+  const name = claims.name || existing?.name || username;
+
+  if (!existing) {
+    return { user: await storage.createUser({ username, password: '', name, role, oidcSubject: subject }) };
+  }
+  if (existing.oidcSubject !== subject || existing.name !== name || existing.role !== role) {
+    return { user: await storage.updateUser(existing.id, { name, role, oidcSubject: subject }) };
+  }
+  return { user: existing };
+}
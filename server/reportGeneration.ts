@@ -0,0 +1,245 @@
+import {
+  BenchmarkCohort,
+  BuiltInDimensionKey,
+  Car,
+  CategoryEvaluation,
+  CujCategory,
+  EvaluationDimension,
+  Issue,
+  Report,
+  ReportScoreSnapshot,
+  ScoreBreakdown,
+  ScoringConfig,
+  TaskEvaluation,
+  TaskWithCategory
+} from '../shared/schema';
+import { calculateScoreBreakdown } from '../shared/scoring';
+import type { IStorage } from './storage';
+
+const MAX_TOP_ISSUES = 10;
+
+// Reviews scoring within this many points of the average of their cohort are comparable to it
+const BENCHMARK_MARGIN = 2.5;
+
+// Issues are ranked by severity: undoable tasks first, then by how low the score was
+type RankedIssue = Issue & { severity: number };
+const UNDOABLE_SEVERITY = 2;
+
+// Scale of a built-in dimension as its definition says, the original 1-4 scale without one
+function builtInScale(dimensions: EvaluationDimension[], key: BuiltInDimensionKey): { scaleMin: number; scaleMax: number } {
+  return dimensions.find(dimension => dimension.key === key) ?? { scaleMin: 1, scaleMax: 4 };
+}
+
+/**
+ * Scores a review against its pinned catalog, by default with the current scoring config.
+ */
+export async function getReviewScoreBreakdown(
+  storage: IStorage,
+  reviewId: number,
+  config?: ScoringConfig
+): Promise<ScoreBreakdown> {
+  return calculateScoreBreakdown(
+    config || await storage.getScoringConfig(),
+    await storage.getCategoriesForReview(reviewId),
+    await storage.getTasksForReview(reviewId),
+    await storage.getTaskEvaluationsForReview(reviewId),
+    await storage.getCategoryEvaluationsForReview(reviewId),
+    await storage.getEvaluationDimensions()
+  );
+}
+
+// Ratings below the middle of their scale are issues, e.g. 2 or lower on a 1-4 or 1-5 scale. Their
+// severity is between 1 and 2, higher the further down the scale they are
+function lowScoreIssue(
+  category: string,
+  subject: string,
+  aspect: BuiltInDimensionKey,
+  score: number | null,
+  feedback: string | null,
+  dimensions: EvaluationDimension[]
+): RankedIssue | null {
+  const { scaleMin, scaleMax } = builtInScale(dimensions, aspect);
+  const threshold = Math.ceil((scaleMin + scaleMax) / 2) - 1;
+  if (score === null || score > threshold) return null;
+
+  const description = feedback?.trim()
+    ? `${subject}: ${aspect} rated ${score}/${scaleMax} – ${feedback.trim()}`
+    : `${subject}: ${aspect} rated ${score}/${scaleMax}`;
+  return { category, description, severity: 1 + (threshold + 1 - score) / (threshold + 2 - scaleMin) };
+}
+
+/**
+ * Collects the issues of a review: tasks that could not be done, followed by task and
+ * category ratings in the lower half of their scale, lowest first. Capped at the ten most severe.
+ */
+export function deriveTopIssues(
+  categories: CujCategory[],
+  tasks: TaskWithCategory[],
+  taskEvaluations: TaskEvaluation[],
+  categoryEvaluations: CategoryEvaluation[],
+  dimensions: EvaluationDimension[] = []
+): Issue[] {
+  const tasksById = new Map(tasks.map(task => [task.id, task]));
+  const issues: RankedIssue[] = [];
+
+  for (const evaluation of taskEvaluations) {
+    const task = tasksById.get(evaluation.taskId);
+    if (!task) continue;
+
+    const categoryName = task.cuj.category.name;
+    if (evaluation.doable === false) {
+      issues.push({
+        category: categoryName,
+        description: evaluation.undoableReason?.trim()
+          ? `${task.name}: not doable – ${evaluation.undoableReason.trim()}`
+          : `${task.name}: not doable`,
+        severity: UNDOABLE_SEVERITY
+      });
+    }
+    issues.push(...[
+      lowScoreIssue(categoryName, task.name, 'usability', evaluation.usabilityScore, evaluation.usabilityFeedback, dimensions),
+      lowScoreIssue(categoryName, task.name, 'visuals', evaluation.visualsScore, evaluation.visualsFeedback, dimensions)
+    ].filter((issue): issue is RankedIssue => issue !== null));
+  }
+
+  for (const category of categories) {
+    const evaluation = categoryEvaluations.find(categoryEvaluation => categoryEvaluation.categoryId === category.id);
+    if (!evaluation) continue;
+
+    issues.push(...[
+      lowScoreIssue(category.name, category.name, 'responsiveness', evaluation.responsivenessScore, evaluation.responsivenessFeedback, dimensions),
+      lowScoreIssue(category.name, category.name, 'writing', evaluation.writingScore, evaluation.writingFeedback, dimensions),
+      lowScoreIssue(category.name, category.name, 'emotional', evaluation.emotionalScore, evaluation.emotionalFeedback, dimensions)
+    ].filter((issue): issue is RankedIssue => issue !== null));
+  }
+
+  // Array.prototype.sort is stable, so issues of equal severity keep the catalog order
+  return issues
+    .sort((a, b) => b.severity - a.severity)
+    .slice(0, MAX_TOP_ISSUES)
+    .map(({ category, description }) => ({ category, description }));
+}
+
+/**
+ * Creates the report of a review, or refreshes the computed fields of its existing report.
+ * Fields written by hand (likes, hates, benchmark) are left untouched on refresh, and so is
+ * the overall score of a report frozen at publish time.
+ */
+export async function generateReportForReview(storage: IStorage, reviewId: number): Promise<Report> {
+  const config = await storage.getScoringConfig();
+  const categories = await storage.getCategoriesForReview(reviewId);
+  const tasks = await storage.getTasksForReview(reviewId);
+  const taskEvaluations = await storage.getTaskEvaluationsForReview(reviewId);
+  const categoryEvaluations = await storage.getCategoryEvaluationsForReview(reviewId);
+
+  const dimensions = await storage.getEvaluationDimensions();
+
+  const { overallScore } = calculateScoreBreakdown(config, categories, tasks, taskEvaluations, categoryEvaluations, dimensions);
+  const topIssues = deriveTopIssues(categories, tasks, taskEvaluations, categoryEvaluations, dimensions);
+
+  const existing = await storage.getReportForReview(reviewId);
+  if (existing) {
+    return storage.updateReport(
+      existing.id,
+      existing.scoreSnapshot ? { topIssues } : { overallScore, topIssues, scoringConfigId: config.id }
+    );
+  }
+  return storage.createReport({ reviewId, overallScore, topIssues, scoringConfigId: config.id });
+}
+
+/**
+ * Freezes the scores of a review being published, together with the scoring config they were
+ * calculated with, so later config changes don't rewrite what was published.
+ */
+export async function freezeReportScores(storage: IStorage, reviewId: number): Promise<Report> {
+  const report = (await storage.getReportForReview(reviewId)) || await generateReportForReview(storage, reviewId);
+  const { categoryScores, currentOverallScore } = (await storage.getReport(report.id))!;
+
+  const scoringConfig = await storage.getScoringConfig();
+  const scoreSnapshot: ReportScoreSnapshot = {
+    overallScore: currentOverallScore,
+    categoryScores: categoryScores.map(({ category, owner, ...scores }) => ({
+      categoryId: category.id,
+      categoryName: category.name,
+      ...scores
+    })),
+    scoringConfig
+  };
+  return storage.updateReport(report.id, {
+    overallScore: currentOverallScore,
+    scoringConfigId: scoringConfig.id,
+    scoreSnapshot,
+    publishedAt: new Date()
+  });
+}
+
+/**
+ * Drops the frozen scores of a review being unpublished, so its report follows the current
+ * scoring config again until it is republished.
+ */
+export async function thawReportScores(storage: IStorage, reviewId: number): Promise<Report | undefined> {
+  const report = await storage.getReportForReview(reviewId);
+  if (!report) return undefined;
+
+  await storage.updateReport(report.id, { scoreSnapshot: null, publishedAt: null });
+  return generateReportForReview(storage, reviewId);
+}
+
+function benchmarkCohortKey(cohort: BenchmarkCohort, car: Car): string {
+  switch (cohort) {
+    case 'year':
+      return String(car.year);
+    case 'androidVersion':
+      return car.androidVersion.trim().toLowerCase();
+    default:
+      return 'all';
+  }
+}
+
+/**
+ * Ranks every published review within its benchmark cohort by the overall score its report shows:
+ * the score frozen at publish time, or the score under the current scoring config for reports
+ * published before scores were frozen. Reviews with equal scores share a rank; unpublished reviews
+ * are taken out of the ranking.
+ */
+export async function updateBenchmarkRanks(storage: IStorage): Promise<void> {
+  const config = await storage.getScoringConfig();
+  const cohorts = new Map<string, Array<{ report: Report; score: number | null }>>();
+
+  for (const review of await storage.getAllReviews()) {
+    const report = await storage.getReportForReview(review.id);
+    if (!report) continue;
+
+    if (!review.isPublished) {
+      if (report.benchmarkRank !== null || report.benchmarkComparison !== null) {
+        await storage.updateReport(report.id, { benchmarkRank: null, benchmarkComparison: null });
+      }
+      continue;
+    }
+
+    const overallScore = report.scoreSnapshot
+      ? report.scoreSnapshot.overallScore
+      : (await getReviewScoreBreakdown(storage, review.id, config)).overallScore;
+    const key = benchmarkCohortKey(config.benchmarkCohort, review.car);
+    cohorts.set(key, [...(cohorts.get(key) || []), { report, score: overallScore }]);
+  }
+
+  for (const entries of Array.from(cohorts.values())) {
+    for (const { report, score } of entries) {
+      const others = entries
+        .filter(other => other.report.id !== report.id && other.score !== null)
+        .map(other => other.score!);
+
+      let benchmarkRank: number | null = null;
+      let benchmarkComparison: string | null = null;
+      if (score !== null) {
+        benchmarkRank = 1 + others.filter(other => other > score).length;
+        if (others.length > 0) {
+          const difference = score - others.reduce((sum, other) => sum + other, 0) / others.length;
+          benchmarkComparison = difference > BENCHMARK_MARGIN ? 'better' : difference < -BENCHMARK_MARGIN ? 'worse' : 'comparable';
+        }
+      }
+      await storage.updateReport(report.id, { benchmarkRank, benchmarkComparison });
+    }
+  }
+}
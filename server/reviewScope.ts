@@ -0,0 +1,123 @@
+import { CujCategory, ReviewCategoryOwner, ReviewWithDetails, TaskWithCategory } from '../shared/schema';
+import type { IStorage } from './storage';
+
+export type ReviewScope = {
+  // null when the whole catalog is in scope
+  assignedCategoryIds: number[] | null;
+  categories: CujCategory[];
+  tasks: TaskWithCategory[];
+  completedTaskIds: number[];
+  notApplicableTaskIds: number[]; // tasks that don't exist on the car, out of completion altogether
+};
+
+type ScopedReview = Pick<ReviewWithDetails, 'id' | 'carId' | 'participants' | 'categoryOwners'>;
+
+/**
+ * Whether an assignment made for `assignedCategory` covers `category`.
+ * Assignments point at a category row of one catalog version, so they also cover
+ * the category of the same name in later catalog versions.
+ */
+export function assignmentCoversCategory(assignedCategory: CujCategory, category: CujCategory): boolean {
+  return assignedCategory.id === category.id ||
+    assignedCategory.name.trim().toLowerCase() === category.name.trim().toLowerCase();
+}
+
+/**
+ * Whether the user takes part in the review, either as its lead reviewer or as an added participant.
+ */
+export function isReviewParticipant(review: Pick<ReviewWithDetails, 'participants'>, userId: number): boolean {
+  return review.participants.some(participant => participant.id === userId);
+}
+
+/**
+ * Whether the user may see the review's scores: admins see every review, everyone else the
+ * reviews they take part in and published ones.
+ */
+export function canViewReview(
+  review: Pick<ReviewWithDetails, 'participants' | 'isPublished'>,
+  user: { id: number; role: string }
+): boolean {
+  return user.role === 'admin' || review.isPublished || isReviewParticipant(review, user.id);
+}
+
+/**
+ * Whether the user may record evaluations for a category of the review: categories with an owner
+ * can only be evaluated by that owner, the others by any participant.
+ */
+export function canEvaluateCategory(
+  review: Pick<ReviewWithDetails, 'participants' | 'categoryOwners'>,
+  userId: number,
+  categoryId: number
+): boolean {
+  const owner = review.categoryOwners.find(categoryOwner => categoryOwner.categoryId === categoryId);
+  return owner ? owner.userId === userId : isReviewParticipant(review, userId);
+}
+
+// Categories one participant is responsible for, or null if they are responsible for everything
+// nobody else owns
+async function getParticipantCategoryIds(
+  storage: IStorage,
+  review: ScopedReview,
+  userId: number,
+  categories: CujCategory[],
+  owners: ReviewCategoryOwner[]
+): Promise<Set<number> | null> {
+  const ownedCategoryIds = owners.filter(owner => owner.userId === userId).map(owner => owner.categoryId);
+  if (ownedCategoryIds.length > 0) {
+    return new Set(ownedCategoryIds);
+  }
+
+  const ownedByOthers = new Set(owners.map(owner => owner.categoryId));
+  const carAssignments = (await storage.getReviewerAssignmentsForReviewer(userId))
+    .filter(assignment => assignment.carId === review.carId);
+  if (carAssignments.length === 0) {
+    return ownedByOthers.size > 0
+      ? new Set(categories.filter(category => !ownedByOthers.has(category.id)).map(category => category.id))
+      : null;
+  }
+
+  return new Set(categories
+    .filter(category => !ownedByOthers.has(category.id))
+    .filter(category => carAssignments.some(assignment => assignmentCoversCategory(assignment.category, category)))
+    .map(category => category.id));
+}
+
+/**
+ * Resolves the part of a review a participant is responsible for: the categories they own within
+ * the review or, failing that, the categories they are assigned to for the review's car, together
+ * with the tasks, completed tasks and not applicable tasks within those categories. Without a
+ * user, the scope is what all participants together are responsible for.
+ */
+export async function getReviewScope(
+  storage: IStorage,
+  review: ScopedReview,
+  userId?: number
+): Promise<ReviewScope> {
+  const [categories, tasks, completedTaskIds, notApplicableTaskIds] = await Promise.all([
+    storage.getCategoriesForReview(review.id),
+    storage.getTasksForReview(review.id),
+    storage.getCompletedTaskIds(review.id),
+    storage.getNotApplicableTaskIds(review.id)
+  ]);
+
+  const userIds = userId !== undefined ? [userId] : review.participants.map(participant => participant.id);
+  const participantScopes = await Promise.all(userIds.map(id =>
+    getParticipantCategoryIds(storage, review, id, categories, review.categoryOwners)
+  ));
+  if (participantScopes.some(scope => scope === null)) {
+    return { assignedCategoryIds: null, categories, tasks, completedTaskIds, notApplicableTaskIds };
+  }
+
+  const categoryIds = new Set(participantScopes.flatMap(scope => Array.from(scope!)));
+  const scopedCategories = categories.filter(category => categoryIds.has(category.id));
+  const scopedTasks = tasks.filter(task => categoryIds.has(task.cuj.category.id));
+  const taskIds = new Set(scopedTasks.map(task => task.id));
+
+  return {
+    assignedCategoryIds: scopedCategories.map(category => category.id),
+    categories: scopedCategories,
+    tasks: scopedTasks,
+    completedTaskIds: completedTaskIds.filter(taskId => taskIds.has(taskId)),
+    notApplicableTaskIds: notApplicableTaskIds.filter(taskId => taskIds.has(taskId))
+  };
+}
@@ -2,23 +2,61 @@ import express, { type Express, type Request, type Response, type NextFunction }
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import passport from "passport";
-import { Strategy as LocalStrategy } from "passport-local";
 import session from "express-session";
-import memoryStore from "memorystore";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { z } from "zod";
+import { parseCujSpreadsheet } from "./cujImport";
+import { parseUserSpreadsheet, importUsers } from "./userImport";
+import { reassignUserWork } from "./userManagement";
+import { diffCujCatalogs, type CujCatalogSnapshot } from "./cujDiff";
+import { getReviewScope, assignmentCoversCategory, isReviewParticipant, canEvaluateCategory, canViewReview } from "./reviewScope";
+import { getCarAgreement } from "./agreement";
+import { compareReviews, getReviewCatalogVersionId } from "./comparison";
+import { getEditableCujCatalog } from "./cujEditing";
+import { getBuildHistory, getBuildRegressions, isSameVehicle } from "./buildHistory";
+import { simulateScoring } from "./scoringSimulation";
+import { generateReportForReview, freezeReportScores, thawReportScores, getReviewScoreBreakdown, updateBenchmarkRanks } from "./reportGeneration";
+import { builtInRatingsError, dimensionRatingError, type BuiltInRatings } from "../shared/scoring";
+import { createAuthStrategy, hashPassword, isUserActive } from "./auth";
+import { getOidcConfig, startOidcLogin, completeOidcLogin } from "./oidc";
+import { authenticateApiToken, createApiToken, hasScope, requiredScope } from "./apiTokens";
+import { StorageSessionStore, getSessionSecret, isSessionActive, recordSessionClient, toSessionSummary } from "./sessionStore";
 import { 
   insertUserSchema, 
-  insertTaskEvaluationSchema, 
+  taskEvaluationInputSchema, 
   insertCategoryEvaluationSchema,
   insertScoringConfigSchema,
   insertReportSchema,
   insertCarSchema,
   insertReviewSchema,
   insertReviewerAssignmentSchema,
+  insertReviewParticipantSchema,
+  insertReviewCategoryOwnerSchema,
+  insertCujCategorySchema,
+  insertCujSchema,
+  insertTaskSchema,
   userRoles,
+  benchmarkCohorts,
+  taskWeightsSchema,
+  categoryWeightsSchema,
+  evaluationDimensionSchema,
+  insertSignInDomainSchema,
+  createApiTokenSchema,
+  updateUserSchema,
+  reassignUserSchema,
+  type ApiToken,
+  type AssignmentCoverage,
+  type DimensionRating,
+  type EvaluationDimensionLevel,
+  type ReviewWithDetails,
+  type ReportWithReview,
+  type ScoringWeightErrors,
+  type ScoringWeightField,
+  type ScoringConfig,
+  type ScoreBreakdown,
+  type UserSessionsSummary,
   scoringConfig
 } from "@shared/schema";
 
@@ -27,10 +65,14 @@ declare global {
   namespace Express {
     interface User {
       id: number;
-      username: string; // LDAP identifier
+      username: string; // local or directory username
       name: string;
       role: string;
     }
+
+    interface Request {
+      apiToken?: ApiToken; // Set when the request was authenticated with a personal API token
+    }
   }
 }
 
@@ -38,79 +80,97 @@ declare global {
 interface AuthenticatedRequest extends Request {
   user: {
     id: number;
-    username: string; // LDAP identifier
+    username: string; // local or directory username
     name: string;
     role: string;
   };
 }
 
-// Setup memory store for sessions
-const MemoryStore = memoryStore(session);
+// Sessions last a week from the last request
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Beyond this many cars the comparison table and radar chart become unreadable
+const MAX_COMPARED_REVIEWS = 5;
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // No initialization needed - test data is loaded through storage.ts
   
-  // Add session middleware
+  // Add session middleware. Sessions live in storage, so reviewers stay signed in across restarts
   app.use(session({
-    secret: process.env.SESSION_SECRET || 'scoreMyCarSecret',
+    secret: getSessionSecret(),
     resave: false,
     saveUninitialized: false,
-    store: new MemoryStore({
-      checkPeriod: 86400000 // prune expired entries every 24h
-    })
+    rolling: true,
+    cookie: {
+      maxAge: SESSION_MAX_AGE_MS,
+      sameSite: 'lax'
+    },
+    store: new StorageSessionStore(storage)
   }));
   
   // Initialize passport
   app.use(passport.initialize());
   app.use(passport.session());
   
-  // Configure local strategy - uses LDAP identifier only (no password required)
-  passport.use(new LocalStrategy({
-    usernameField: 'username',
-    passwordField: 'password', // This field is optional
-    session: true,
-    // This setting is critical to allow empty passwords
-    passReqToCallback: false
-  }, async (username, password, done) => {
-    try {
-      if (!username) {
-        console.log('Missing username');
-        return done(null, false, { message: 'Username is required' });
-      }
-      
-      console.log(`Authenticating user with LDAP: ${username}`);
-      const user = await storage.getUserByUsername(username);
-      if (!user) {
-        console.log(`User not found: ${username}`);
-        return done(null, false, { message: 'User not found with this LDAP identifier.' });
-      }
-      
-      // No password check - we only validate based on LDAP identifier
-      console.log(`User authenticated: ${username} (${user.id})`);
-      return done(null, user);
-    } catch (err) {
-      console.error('Authentication error:', err);
-      return done(err);
-    }
-  }));
+  // Sign in against LDAP or the local users, depending on AUTH_PROVIDER
+  passport.use(createAuthStrategy(storage));
+  
+  // Single sign-on next to the username and password login, when OIDC_ISSUER is set
+  const oidcConfig = getOidcConfig();
+  
+  // Password and token hashes stay on the server, whichever response they end up in
+  app.set('json replacer', (key: string, value: unknown) =>
+    key === 'password' || key === 'tokenHash' ? undefined : value);
   
   // Serialize and deserialize user
   passport.serializeUser((user: any, done) => {
     done(null, user.id);
   });
   
+  // Sessions of users who were deactivated since they signed in end on their next request
   passport.deserializeUser(async (id: number, done) => {
     try {
       const user = await storage.getUser(id);
-      done(null, user);
+      done(null, user && isUserActive(user) ? user : false);
     } catch (err) {
       done(err);
     }
   });
   
+  // Scripts authenticate with "Authorization: Bearer <personal API token>" instead of a session
+  app.use('/api', async (req, res, next) => {
+    const authorization = req.headers.authorization;
+    if (!authorization?.startsWith('Bearer ')) {
+      return next();
+    }
+    
+    try {
+      const result = await authenticateApiToken(storage, authorization.slice('Bearer '.length).trim());
+      if (!result) {
+        return res.status(401).json({ error: 'Invalid, expired or revoked API token' });
+      }
+      req.user = result.user;
+      req.apiToken = result.token;
+      next();
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Requests made with an API token are limited to what its scopes allow
+  const lacksScope = (req: Request, res: Response, roles?: string[]) => {
+    const scope = requiredScope(req.method, roles);
+    if (req.apiToken && !hasScope(req.apiToken, scope)) {
+      res.status(403).send(`Forbidden: API token lacks the ${scope} scope`);
+      return true;
+    }
+    return false;
+  };
+  
   // Authentication middleware
   const isAuthenticated = (req: Request, res: Response, next: NextFunction) => {
     if (req.isAuthenticated()) {
+      if (lacksScope(req, res)) return;
       return next();
     }
     res.status(401).send('Unauthorized');
@@ -126,6 +186,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!roles.includes((req as AuthenticatedRequest).user.role)) {
         return res.status(403).send('Forbidden: Insufficient permissions');
       }
+      if (lacksScope(req, res, roles)) return;
       
       next();
     };
@@ -133,7 +194,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Authentication routes
   app.post('/api/auth/login', (req, res, next) => {
-    console.log('Login request received:', req.body);
+    console.log('Login request received for:', req.body?.username);
     passport.authenticate('local', (err, user, info) => {
       if (err) {
         console.error('Authentication error:', err);
@@ -151,6 +212,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(500).json({ message: 'Failed to establish session' });
         }
         
+        recordSessionClient(req);
         console.log('Login successful for user:', user.username);
         return res.json(user);
       });
@@ -171,6 +233,163 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(req.user);
   });
   
+  // Personal API token routes. Tokens can only be managed from a session, so a leaked token can't mint more
+  const isSessionAuthenticated = (req: Request, res: Response, next: NextFunction) => {
+    if (req.apiToken) {
+      return res.status(403).send('Forbidden: API tokens are managed from the app');
+    }
+    isAuthenticated(req, res, next);
+  };
+  
+  app.get('/api/auth/tokens', isSessionAuthenticated, async (req, res) => {
+    try {
+      res.json(await storage.getApiTokensForUser((req as AuthenticatedRequest).user.id));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/auth/tokens', isSessionAuthenticated, async (req, res) => {
+    const user = (req as AuthenticatedRequest).user;
+    const input = createApiTokenSchema.safeParse(req.body);
+    if (!input.success) {
+      return res.status(400).json({ error: 'Invalid API token', ...input.error.flatten() });
+    }
+    if (input.data.scopes.includes('admin') && user.role !== 'admin') {
+      return res.status(400).json({
+        error: 'Invalid API token',
+        formErrors: [],
+        fieldErrors: { scopes: ['Only admins can create tokens with the admin scope'] }
+      });
+    }
+    
+    try {
+      res.status(201).json(await createApiToken(storage, user.id, input.data));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Revoked tokens stay listed, with when they were last used
+  app.delete('/api/auth/tokens/:id', isSessionAuthenticated, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid API token ID' });
+    }
+    
+    try {
+      const tokens = await storage.getApiTokensForUser((req as AuthenticatedRequest).user.id);
+      const token = tokens.find(token => token.id === id);
+      if (!token) {
+        return res.status(404).json({ error: 'API token not found' });
+      }
+      
+      res.json(token.revokedAt ? token : await storage.updateApiToken(id, { revokedAt: new Date() }));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // The user's own sessions, to sign out devices they no longer use
+  app.get('/api/auth/sessions', isSessionAuthenticated, async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsForUser((req as AuthenticatedRequest).user.id);
+      res.json(sessions.filter(session => isSessionActive(session)).map(session => toSessionSummary(session, req.sessionID)));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.delete('/api/auth/sessions/:id', isSessionAuthenticated, async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid session ID' });
+    }
+    
+    try {
+      const sessions = await storage.getSessionsForUser((req as AuthenticatedRequest).user.id);
+      const session = sessions.find(session => session.id === id);
+      if (!session) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+      if (session.sid === req.sessionID) {
+        return res.status(400).json({ error: 'Sign out to end the current session' });
+      }
+      
+      await storage.deleteSession(session.sid);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Which ways to sign in the login page offers
+  app.get('/api/auth/providers', (req, res) => {
+    res.json({ oidc: oidcConfig !== null });
+  });
+  
+  // Failed single sign-ons end on the login page, which shows the reason
+  const ssoFailed = (res: Response, message: string) =>
+    res.redirect(`/login?error=${encodeURIComponent(message)}`);
+  
+  app.get('/api/auth/oidc/login', async (req, res) => {
+    if (!oidcConfig) {
+      return res.status(404).json({ error: 'Single sign-on is not configured' });
+    }
+    
+    try {
+      const { url, checks } = await startOidcLogin(oidcConfig);
+      req.session.oidc = checks;
+      res.redirect(url);
+    } catch (error) {
+      console.error('Single sign-on error:', error);
+      ssoFailed(res, 'The single sign-on provider is unavailable');
+    }
+  });
+  
+  app.get('/api/auth/oidc/callback', async (req, res) => {
+    if (!oidcConfig) {
+      return res.status(404).json({ error: 'Single sign-on is not configured' });
+    }
+    
+    // The checks are good for one callback only
+    const checks = req.session.oidc;
+    delete req.session.oidc;
+    if (!checks) {
+      return ssoFailed(res, 'Your sign-in expired, please try again');
+    }
+    
+    try {
+      const result = await completeOidcLogin(storage, oidcConfig, req.originalUrl, checks);
+      if (!result.user) {
+        console.log('Single sign-on failed:', result.message);
+        return ssoFailed(res, result.message);
+      }
+      
+      const user = result.user;
+      req.login(user, (loginErr) => {
+        if (loginErr) {
+          console.error('Session error:', loginErr);
+          return ssoFailed(res, 'Failed to establish session');
+        }
+        
+        recordSessionClient(req);
+        console.log('Single sign-on successful for user:', user.username);
+        res.redirect('/');
+      });
+    } catch (error) {
+      console.error('Single sign-on error:', error);
+      ssoFailed(res, 'The single sign-on provider is unavailable');
+    }
+  });
+  
+  // Uploaded spreadsheets are parsed in memory and never written to disk
+  const spreadsheetUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: 10 * 1024 * 1024 } // 10MB max file size
+  });
+  const allowedSpreadsheetExtensions = ['.xlsx', '.xls', '.csv'];
+  
   // User routes
   app.get('/api/users', isAuthenticated, hasRole(['admin']), async (req, res) => {
     const users = await storage.getAllUsers();
@@ -180,17 +399,273 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/users', isAuthenticated, hasRole(['admin']), async (req, res) => {
     try {
       const userData = insertUserSchema.parse(req.body);
-      const newUser = await storage.createUser(userData);
+      const newUser = await storage.createUser({ ...userData, password: await hashPassword(userData.password) });
       res.status(201).json(newUser);
     } catch (error) {
       res.status(400).json({ error: String(error) });
     }
   });
   
-  // CUJ Category routes
+  app.patch('/api/users/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    const update = updateUserSchema.safeParse(req.body);
+    if (!update.success) {
+      return res.status(400).json({ error: 'Invalid user', ...update.error.flatten() });
+    }
+    
+    try {
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      // Keeps admins from locking themselves out of the admin dashboard
+      if (id === (req as AuthenticatedRequest).user.id && update.data.role && update.data.role !== user.role) {
+        return res.status(400).json({ error: 'You cannot change your own role' });
+      }
+      
+      res.json(await storage.updateUser(id, update.data));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Users who leave are deactivated rather than deleted, so the reviews they wrote keep their author
+  app.post('/api/users/:id/deactivate', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    if (id === (req as AuthenticatedRequest).user.id) {
+      return res.status(400).json({ error: 'You cannot deactivate yourself' });
+    }
+    
+    try {
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!isUserActive(user)) {
+        return res.json(user);
+      }
+      
+      const deactivated = await storage.setUserDeactivated(id, new Date());
+      await storage.deleteSessionsForUser(id);
+      res.json(deactivated);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/users/:id/reactivate', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    try {
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      
+      res.json(isUserActive(user) ? user : await storage.setUserDeactivated(id, null));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Hands a departing reviewer's open reviews and reviewer assignments to another reviewer
+  app.post('/api/users/:id/reassign', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    const reassignment = reassignUserSchema.safeParse(req.body);
+    if (!reassignment.success) {
+      return res.status(400).json({ error: 'Invalid reassignment', ...reassignment.error.flatten() });
+    }
+    const { toUserId } = reassignment.data;
+    if (toUserId === id) {
+      return res.status(400).json({ error: 'Choose another user to take over the work' });
+    }
+    
+    try {
+      const [user, toUser] = await Promise.all([storage.getUser(id), storage.getUser(toUserId)]);
+      if (!user || !toUser) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!isUserActive(toUser)) {
+        return res.status(400).json({ error: `${toUser.name} is deactivated` });
+      }
+      if (toUser.role !== 'reviewer' && toUser.role !== 'admin') {
+        return res.status(400).json({ error: 'Only reviewers can take over reviews' });
+      }
+      
+      res.json(await reassignUserWork(storage, id, toUserId, (req as AuthenticatedRequest).user.id));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Bulk user import, with one user per row under Username, Name, Role and Password headers
+  app.post('/api/users/import', isAuthenticated, hasRole(['admin']), spreadsheetUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ success: false, message: 'No file uploaded' });
+      }
+      
+      const extension = path.extname(req.file.originalname).toLowerCase();
+      if (!allowedSpreadsheetExtensions.includes(extension)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unsupported file type. Allowed types: ${allowedSpreadsheetExtensions.join(', ')}`
+        });
+      }
+      
+      const parsed = parseUserSpreadsheet(req.file.buffer);
+      const { created, errors } = parsed.errors.length > 0 ? { created: [], errors: parsed.errors } : await importUsers(storage, parsed.rows);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `${req.file.originalname} has ${errors.length} problem(s). Fix them and upload again.`,
+          errors
+        });
+      }
+      
+      res.status(201).json({
+        success: true,
+        message: `Imported ${created.length} user(s) from ${req.file.originalname}`,
+        created
+      });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Who is signed in, so admins can sign out someone whose access should end right away
+  app.get('/api/admin/sessions', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const [sessions, users] = await Promise.all([storage.getAllSessions(), storage.getAllUsers()]);
+      const summaries = users.flatMap((user): UserSessionsSummary[] => {
+        const active = sessions.filter(session => session.userId === user.id && isSessionActive(session));
+        if (active.length === 0) return [];
+        const lastSeenAt = new Date(Math.max(...active.map(session => session.lastSeenAt.getTime())));
+        return [{ user, sessionCount: active.length, lastSeenAt }];
+      });
+      res.json(summaries.sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime()));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/admin/users/:id/logout', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid user ID' });
+    }
+    
+    try {
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      
+      res.json({ revokedSessions: await storage.deleteSessionsForUser(id) });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Sign-in domain routes, limiting single sign-on to emails of these domains when any are listed
+  app.get('/api/admin/sign-in-domains', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      res.json(await storage.getSignInDomains());
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/admin/sign-in-domains', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const domain = insertSignInDomainSchema.safeParse(req.body);
+    if (!domain.success) {
+      return res.status(400).json({ error: 'Invalid sign-in domain', ...domain.error.flatten() });
+    }
+    
+    try {
+      const existing = await storage.getSignInDomains();
+      if (existing.some(({ domain: listed }) => listed === domain.data.domain)) {
+        return res.status(409).json({ error: `${domain.data.domain} is already allowed` });
+      }
+      
+      const created = await storage.createSignInDomain({
+        domain: domain.data.domain,
+        createdBy: (req as AuthenticatedRequest).user.id
+      });
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.delete('/api/admin/sign-in-domains/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid sign-in domain ID' });
+    }
+    
+    try {
+      if (!(await storage.deleteSignInDomain(id))) {
+        return res.status(404).json({ error: 'Sign-in domain not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // CUJ catalog routes
+  // Catalog listings cover the active catalog version, or ?versionId= when given (NaN when malformed).
+  // Edits of a version that reviews use go into a copy of it, see getEditableCujCatalog
+  const resolveCatalogVersionId = async (req: Request): Promise<number | undefined> => {
+    if (req.query.versionId !== undefined) {
+      return parseInt(String(req.query.versionId));
+    }
+    return (await storage.getActiveCujDatabaseVersion())?.id;
+  };
+  
+  // Evaluations recorded against any task below the given catalog items
+  const countCatalogTaskEvaluations = async (cujIds: number[]) => {
+    const taskIds: number[] = [];
+    for (const cujId of cujIds) {
+      taskIds.push(...(await storage.getTasksForCuj(cujId)).map(task => task.id));
+    }
+    return storage.countTaskEvaluationsForTasks(taskIds);
+  };
+  
+  const reorderSchema = z.object({
+    ids: z.array(z.number().int()).min(1, 'At least one ID is required')
+  });
+  const catalogName = z.string().trim().min(1, 'Name is required');
+  
   app.get('/api/cuj-categories', isAuthenticated, async (req, res) => {
-    const categories = await storage.getAllCujCategories();
-    res.json(categories);
+    try {
+      const versionId = await resolveCatalogVersionId(req);
+      if (versionId !== undefined && isNaN(versionId)) {
+        return res.status(400).json({ error: 'Invalid version ID' });
+      }
+      
+      const categories = versionId !== undefined
+        ? await storage.getCujCategoriesForVersion(versionId)
+        : await storage.getAllCujCategories();
+      res.json(categories);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
   });
   
   app.get('/api/cuj-categories/:id', isAuthenticated, async (req, res) => {
@@ -203,8 +678,266 @@ export async function registerRoutes(app: Express): Promise<Server> {
     if (!category) {
       return res.status(404).json({ error: 'Category not found' });
     }
-    
-    res.json(category);
+    
+    res.json(category);
+  });
+  
+  app.get('/api/cuj-categories/:id/cujs', isAuthenticated, async (req, res) => {
+    const categoryId = parseInt(req.params.id);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ error: 'Invalid category ID' });
+    }
+    
+    try {
+      if (!(await storage.getCujCategory(categoryId))) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      
+      const cujs = await storage.getCujsForCategory(categoryId);
+      res.json(cujs);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/cuj-categories', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const categoryData = insertCujCategorySchema
+        .omit({ sortOrder: true })
+        .extend({ name: catalogName })
+        .parse(req.body);
+      
+      // New categories go into the active catalog unless a version is given
+      const cujDatabaseVersionId = categoryData.cujDatabaseVersionId ?? (await storage.getActiveCujDatabaseVersion())?.id;
+      if (cujDatabaseVersionId === undefined || !(await storage.getCujDatabaseVersion(cujDatabaseVersionId))) {
+        return res.status(400).json({ error: 'CUJ database version not found' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const category = await storage.createCujCategory({ ...categoryData, cujDatabaseVersionId: catalog.versionId });
+      res.status(201).json(category);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/cuj-categories/reorder', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const categories = await Promise.all(ids.map(id => storage.getCujCategory(id)));
+      if (categories.some(category => !category)) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      if (new Set(categories.map(category => category!.cujDatabaseVersionId)).size > 1) {
+        return res.status(400).json({ error: 'Categories must belong to the same CUJ database version' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, categories[0]!.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      await storage.reorderCujCategories(ids.map(catalog.categoryId));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.patch('/api/cuj-categories/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const categoryId = parseInt(req.params.id);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ error: 'Invalid category ID' });
+    }
+    
+    try {
+      const existing = await storage.getCujCategory(categoryId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      
+      const categoryData = insertCujCategorySchema
+        .pick({ name: true, description: true, icon: true })
+        .extend({ name: catalogName })
+        .partial()
+        .parse(req.body);
+      
+      const catalog = await getEditableCujCatalog(storage, existing.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const category = await storage.updateCujCategory(catalog.categoryId(categoryId), categoryData);
+      res.json(category);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.delete('/api/cuj-categories/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const categoryId = parseInt(req.params.id);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ error: 'Invalid category ID' });
+    }
+    
+    try {
+      const existing = await storage.getCujCategory(categoryId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+      
+      // Evaluated catalog items stay, otherwise reports would lose their data
+      const catalog = await getEditableCujCatalog(storage, existing.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const editedId = catalog.categoryId(categoryId);
+      const cujIds = (await storage.getCujsForCategory(editedId)).map(cuj => cuj.id);
+      const evaluationCount = await countCatalogTaskEvaluations(cujIds)
+        + await storage.countCategoryEvaluationsForCategory(editedId);
+      if (evaluationCount > 0) {
+        return res.status(409).json({
+          error: `Category cannot be deleted because it has ${evaluationCount} evaluation(s)`
+        });
+      }
+      
+      await storage.deleteCujCategory(editedId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // CUJ routes
+  app.get('/api/cujs', isAuthenticated, async (req, res) => {
+    try {
+      const versionId = await resolveCatalogVersionId(req);
+      if (versionId !== undefined && isNaN(versionId)) {
+        return res.status(400).json({ error: 'Invalid version ID' });
+      }
+      
+      const cujs = versionId !== undefined ? await storage.getCujsForVersion(versionId) : [];
+      res.json(cujs);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.get('/api/cujs/:id/tasks', isAuthenticated, async (req, res) => {
+    const cujId = parseInt(req.params.id);
+    if (isNaN(cujId)) {
+      return res.status(400).json({ error: 'Invalid CUJ ID' });
+    }
+    
+    try {
+      if (!(await storage.getCuj(cujId))) {
+        return res.status(404).json({ error: 'CUJ not found' });
+      }
+      
+      const tasks = await storage.getTasksForCuj(cujId);
+      res.json(tasks);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/cujs', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const cujData = insertCujSchema
+        .omit({ cujDatabaseVersionId: true, sortOrder: true })
+        .extend({ name: catalogName })
+        .parse(req.body);
+      
+      // A CUJ belongs to the catalog version of its category
+      const category = await storage.getCujCategory(cujData.categoryId);
+      if (!category) {
+        return res.status(400).json({ error: 'Category not found' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, category.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const cuj = await storage.createCuj({
+        ...cujData,
+        categoryId: catalog.categoryId(cujData.categoryId),
+        cujDatabaseVersionId: catalog.versionId
+      });
+      res.status(201).json(cuj);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/cujs/reorder', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const cujs = await Promise.all(ids.map(id => storage.getCuj(id)));
+      if (cujs.some(cuj => !cuj)) {
+        return res.status(404).json({ error: 'CUJ not found' });
+      }
+      if (new Set(cujs.map(cuj => cuj!.categoryId)).size > 1) {
+        return res.status(400).json({ error: 'CUJs must belong to the same category' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, cujs[0]!.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      await storage.reorderCujs(ids.map(catalog.cujId));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.patch('/api/cujs/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const cujId = parseInt(req.params.id);
+    if (isNaN(cujId)) {
+      return res.status(400).json({ error: 'Invalid CUJ ID' });
+    }
+    
+    try {
+      const existing = await storage.getCuj(cujId);
+      if (!existing) {
+        return res.status(404).json({ error: 'CUJ not found' });
+      }
+      
+      const cujData = insertCujSchema
+        .pick({ categoryId: true, name: true, description: true })
+        .extend({ name: catalogName })
+        .partial()
+        .parse(req.body);
+      
+      // CUJs can move between categories of the same catalog version only
+      if (cujData.categoryId !== undefined && cujData.categoryId !== existing.categoryId) {
+        const category = await storage.getCujCategory(cujData.categoryId);
+        if (!category || category.cujDatabaseVersionId !== existing.cujDatabaseVersionId) {
+          return res.status(400).json({ error: 'Category not found in the CUJ database version of this CUJ' });
+        }
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, existing.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const { categoryId, ...changes } = cujData;
+      const cuj = await storage.updateCuj(catalog.cujId(cujId), {
+        ...changes,
+        ...(categoryId !== undefined && { categoryId: catalog.categoryId(categoryId) })
+      });
+      res.json(cuj);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.delete('/api/cujs/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const cujId = parseInt(req.params.id);
+    if (isNaN(cujId)) {
+      return res.status(400).json({ error: 'Invalid CUJ ID' });
+    }
+    
+    try {
+      const existing = await storage.getCuj(cujId);
+      if (!existing) {
+        return res.status(404).json({ error: 'CUJ not found' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, existing.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const editedId = catalog.cujId(cujId);
+      const evaluationCount = await countCatalogTaskEvaluations([editedId]);
+      if (evaluationCount > 0) {
+        return res.status(409).json({
+          error: `CUJ cannot be deleted because its tasks have ${evaluationCount} evaluation(s)`
+        });
+      }
+      
+      await storage.deleteCuj(editedId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
   });
   
   // Car routes
@@ -234,6 +967,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Inter-rater agreement between everyone who evaluated the car
+  app.get('/api/cars/:id/agreement', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const carId = parseInt(req.params.id);
+    if (isNaN(carId)) {
+      return res.status(400).json({ error: 'Invalid car ID' });
+    }
+    
+    try {
+      const agreement = await getCarAgreement(storage, carId);
+      if (!agreement) {
+        return res.status(404).json({ error: 'Car not found' });
+      }
+      res.json(agreement);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
   app.post('/api/cars', isAuthenticated, hasRole(['admin', 'reviewer']), async (req, res) => {
     try {
       const carData = insertCarSchema.parse(req.body);
@@ -245,6 +996,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Tasks routes
+  app.get('/api/tasks', isAuthenticated, async (req, res) => {
+    try {
+      const versionId = await resolveCatalogVersionId(req);
+      if (versionId !== undefined && isNaN(versionId)) {
+        return res.status(400).json({ error: 'Invalid version ID' });
+      }
+      
+      const tasks = versionId !== undefined ? await storage.getTasksForVersion(versionId) : [];
+      res.json(tasks);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
   app.get('/api/tasks/:id', isAuthenticated, async (req, res) => {
     const taskId = parseInt(req.params.id);
     if (isNaN(taskId)) {
@@ -259,7 +1024,147 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(task);
   });
   
+  app.post('/api/tasks', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const taskData = insertTaskSchema
+        .omit({ cujDatabaseVersionId: true, sortOrder: true })
+        .extend({ name: catalogName, expectedOutcome: z.string().trim().min(1, 'Expected outcome is required') })
+        .parse(req.body);
+      
+      // A task belongs to the catalog version of its CUJ
+      const cuj = await storage.getCuj(taskData.cujId);
+      if (!cuj) {
+        return res.status(400).json({ error: 'CUJ not found' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, cuj.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const task = await storage.createTask({
+        ...taskData,
+        cujId: catalog.cujId(taskData.cujId),
+        cujDatabaseVersionId: catalog.versionId
+      });
+      res.status(201).json(task);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/tasks/reorder', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const { ids } = reorderSchema.parse(req.body);
+      const tasks = await Promise.all(ids.map(id => storage.getTask(id)));
+      if (tasks.some(task => !task)) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      if (new Set(tasks.map(task => task!.cujId)).size > 1) {
+        return res.status(400).json({ error: 'Tasks must belong to the same CUJ' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, tasks[0]!.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      await storage.reorderTasks(ids.map(catalog.taskId));
+      res.json({ success: true });
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.patch('/api/tasks/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+    
+    try {
+      const existing = await storage.getTask(taskId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      
+      const taskData = insertTaskSchema
+        .pick({ cujId: true, name: true, prerequisites: true, expectedOutcome: true })
+        .extend({ name: catalogName, expectedOutcome: z.string().trim().min(1, 'Expected outcome is required') })
+        .partial()
+        .parse(req.body);
+      
+      // Tasks can move between CUJs of the same catalog version only
+      if (taskData.cujId !== undefined && taskData.cujId !== existing.cujId) {
+        const cuj = await storage.getCuj(taskData.cujId);
+        if (!cuj || cuj.cujDatabaseVersionId !== existing.cujDatabaseVersionId) {
+          return res.status(400).json({ error: 'CUJ not found in the CUJ database version of this task' });
+        }
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, existing.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const { cujId, ...changes } = taskData;
+      const task = await storage.updateTask(catalog.taskId(taskId), {
+        ...changes,
+        ...(cujId !== undefined && { cujId: catalog.cujId(cujId) })
+      });
+      res.json(task);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.delete('/api/tasks/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const taskId = parseInt(req.params.id);
+    if (isNaN(taskId)) {
+      return res.status(400).json({ error: 'Invalid task ID' });
+    }
+    
+    try {
+      const existing = await storage.getTask(taskId);
+      if (!existing) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      
+      const catalog = await getEditableCujCatalog(storage, existing.cujDatabaseVersionId, (req as AuthenticatedRequest).user.id);
+      const editedId = catalog.taskId(taskId);
+      const evaluationCount = await storage.countTaskEvaluationsForTasks([editedId]);
+      if (evaluationCount > 0) {
+        return res.status(409).json({
+          error: `Task cannot be deleted because it has ${evaluationCount} evaluation(s)`
+        });
+      }
+      
+      await storage.deleteTask(editedId);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
   // Review routes
+  // Participants see the part of a review they are responsible for, everyone else the whole review
+  const getScopeUserId = (review: ReviewWithDetails, user: AuthenticatedRequest['user']) =>
+    isReviewParticipant(review, user.id) ? user.id : undefined;
+  
+  const getTaskCategoryId = async (taskId: number): Promise<number | undefined> => {
+    const task = await storage.getTask(taskId);
+    return task ? (await storage.getCuj(task.cujId))?.categoryId : undefined;
+  };
+  
+  // Built-in ratings have to fit the scale of their dimension, and ratings on admin-defined dimensions have
+  // to be for active dimensions of the evaluated level and fit their scale
+  const getDimensionRatingsError = async (
+    evaluation: BuiltInRatings & { ratings?: DimensionRating[] },
+    level: EvaluationDimensionLevel
+  ): Promise<string | null> => {
+    const dimensions = await storage.getEvaluationDimensions();
+    const builtInError = builtInRatingsError(evaluation, dimensions.filter(dimension => dimension.level === level));
+    if (builtInError) return builtInError;
+    
+    for (const rating of evaluation.ratings ?? []) {
+      const dimension = dimensions.find(dimension => dimension.id === rating.dimensionId);
+      if (!dimension || dimension.key || !dimension.isActive || dimension.level !== level) {
+        return `Dimension ${rating.dimensionId} can't be rated on a ${level}`;
+      }
+      const error = dimensionRatingError(dimension, rating);
+      if (error) return error;
+    }
+    return null;
+  };
+  
   app.get('/api/reviews', isAuthenticated, async (req: Request, res: Response) => {
     const authenticatedReq = req as AuthenticatedRequest;
     const reviewerId = authenticatedReq.user.id;
@@ -285,7 +1190,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to view this review' });
     }
     
@@ -308,16 +1213,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     if (isPublishOperation && req.user.role !== 'admin') {
       return res.status(403).json({ error: 'Only administrators can publish or unpublish reviews' });
-    } else if (!isPublishOperation && req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    } else if (isPublishOperation && lacksScope(req, res, ['admin'])) {
+      return;
+    } else if (!isPublishOperation && req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to update this review' });
     }
     
     try {
-      const updateData: { status?: string; isPublished?: boolean } = {};
+      const updateData: { status?: string; isPublished?: boolean; scoringConfigId?: number } = {};
       
-      // Handle status updates
+      // Handle status updates, recording the scoring config version a completed review is scored with
       if (req.body.status) {
         updateData.status = req.body.status;
+        if (req.body.status === 'completed') {
+          updateData.scoringConfigId = (await storage.getScoringConfig()).id;
+        }
       }
       
       // Handle publish/unpublish (admin only - already checked above)
@@ -332,6 +1242,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData
       );
       
+      // Completing a review creates its report, or refreshes it when the review is completed again
+      if (updateData.status === 'completed') {
+        await generateReportForReview(storage, reviewId);
+      }
+      
+      // Publishing freezes the report's scores so later scoring config changes don't rewrite them,
+      // and adds the review to the benchmark ranking (unpublishing takes it out again)
+      if (updateData.isPublished === true && !review.isPublished) {
+        await freezeReportScores(storage, reviewId);
+        await updateBenchmarkRanks(storage);
+      } else if (updateData.isPublished === false && review.isPublished) {
+        await thawReportScores(storage, reviewId);
+        await updateBenchmarkRanks(storage);
+      }
+      
       res.json(updatedReview);
     } catch (error) {
       res.status(400).json({ error: String(error) });
@@ -372,6 +1297,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
+      // Assigning a review to someone else is an admin action, so API tokens need the admin scope for it
+      if (validatedData.reviewerId !== (req as AuthenticatedRequest).user.id && lacksScope(req, res, ['admin'])) {
+        return;
+      }
+      
+      // A re-review must be of a build of the same vehicle
+      if (validatedData.previousReviewId != null) {
+        const previousReview = await storage.getReview(validatedData.previousReviewId);
+        const car = await storage.getCar(validatedData.carId);
+        if (!previousReview || !car) {
+          return res.status(400).json({ error: 'Previous review not found' });
+        }
+        if (!isSameVehicle(previousReview.car, car)) {
+          return res.status(400).json({ error: 'The previous review must be of the same make and model' });
+        }
+      }
+      
       const newReview = await storage.createReview(validatedData);
       console.log('New review created:', newReview);
       res.status(201).json(newReview);
@@ -385,6 +1327,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Build history: re-reviews of new builds of a vehicle are linked to the review of the previous build
+  const reReviewSchema = z.object({
+    androidVersion: z.string().trim().min(1, 'Android version is required'),
+    buildFingerprint: z.string().trim().default(''),
+  });
+
+  app.post('/api/reviews/:id/rereview', isAuthenticated, hasRole(['admin', 'reviewer']), async (req, res) => {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+
+    const user = (req as AuthenticatedRequest).user;
+    const previousReview = await storage.getReview(reviewId);
+    if (!previousReview) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+    if (user.role !== 'admin' && !isReviewParticipant(previousReview, user.id)) {
+      return res.status(403).json({ error: 'You do not have permission to re-review this car' });
+    }
+
+    try {
+      const build = reReviewSchema.parse(req.body);
+      if (build.androidVersion === previousReview.car.androidVersion && build.buildFingerprint === previousReview.car.buildFingerprint) {
+        return res.status(400).json({ error: 'The new build must differ from the previously reviewed one' });
+      }
+      const { id: _id, ...vehicle } = previousReview.car;
+      const car = await storage.createCar({ ...vehicle, ...build });
+
+      const startDate = new Date();
+      const endDate = new Date(startDate);
+      endDate.setDate(startDate.getDate() + 14);
+      const activeVersion = await storage.getActiveCujDatabaseVersion();
+
+      const review = await storage.createReview({
+        carId: car.id,
+        reviewerId: user.id,
+        status: 'pending',
+        startDate,
+        endDate,
+        cujDatabaseVersionId: activeVersion?.id || null,
+        previousReviewId: previousReview.id
+      });
+      res.status(201).json(review);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  // Earlier and later builds the user may not see are left out
+  app.get('/api/reviews/:id/build-history', isAuthenticated, async (req, res) => {
+    const user = (req as AuthenticatedRequest).user;
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+
+    try {
+      const review = await storage.getReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      if (!canViewReview(review, user)) {
+        return res.status(403).json({ error: 'You do not have permission to view this review' });
+      }
+
+      res.json(await getBuildHistory(storage, reviewId, build => canViewReview(build, user)));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  // Tasks that got worse since the previous build, which shows the previous build's ratings too
+  app.get('/api/reviews/:id/regressions', isAuthenticated, async (req, res) => {
+    const user = (req as AuthenticatedRequest).user;
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+
+    try {
+      const review = await storage.getReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      const previousReview = review.previousReviewId != null ? await storage.getReview(review.previousReviewId) : undefined;
+      if (!canViewReview(review, user) || (previousReview && !canViewReview(previousReview, user))) {
+        return res.status(403).json({ error: 'You do not have permission to view this review' });
+      }
+
+      const regressions = await getBuildRegressions(storage, reviewId);
+      if (!regressions) {
+        return res.status(400).json({ error: 'This review is not a re-review of an earlier build' });
+      }
+      res.json(regressions);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Review participants and category ownership
+  app.post('/api/reviews/:reviewId/participants', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const reviewId = parseInt(req.params.reviewId);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+    
+    const review = await storage.getReview(reviewId);
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+    
+    try {
+      const participantData = insertReviewParticipantSchema.parse({ ...req.body, reviewId });
+      
+      const user = await storage.getUser(participantData.userId);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (user.role !== 'reviewer' && user.role !== 'admin') {
+        return res.status(400).json({ error: 'Only reviewers can take part in a review' });
+      }
+      if (!isUserActive(user)) {
+        return res.status(400).json({ error: `${user.name} is deactivated` });
+      }
+      if (isReviewParticipant(review, user.id)) {
+        return res.status(409).json({ error: 'User already takes part in this review' });
+      }
+      
+      const participant = await storage.addReviewParticipant(participantData);
+      res.status(201).json(participant);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.delete('/api/reviews/:reviewId/participants/:userId', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const reviewId = parseInt(req.params.reviewId);
+    const userId = parseInt(req.params.userId);
+    if (isNaN(reviewId) || isNaN(userId)) {
+      return res.status(400).json({ error: 'Invalid ID parameters' });
+    }
+    
+    const review = await storage.getReview(reviewId);
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+    if (review.reviewerId === userId) {
+      return res.status(400).json({ error: 'The lead reviewer cannot be removed from the review' });
+    }
+    
+    try {
+      const removed = await storage.removeReviewParticipant(reviewId, userId);
+      if (!removed) {
+        return res.status(404).json({ error: 'Participant not found' });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.put('/api/reviews/:reviewId/category-owners/:categoryId', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const reviewId = parseInt(req.params.reviewId);
+    const categoryId = parseInt(req.params.categoryId);
+    if (isNaN(reviewId) || isNaN(categoryId)) {
+      return res.status(400).json({ error: 'Invalid ID parameters' });
+    }
+    
+    const review = await storage.getReview(reviewId);
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+    
+    try {
+      const ownerData = insertReviewCategoryOwnerSchema.parse({ ...req.body, reviewId, categoryId });
+      
+      const categories = await storage.getCategoriesForReview(reviewId);
+      if (!categories.some(category => category.id === categoryId)) {
+        return res.status(404).json({ error: 'Category not found in this review' });
+      }
+      if (!isReviewParticipant(review, ownerData.userId)) {
+        return res.status(400).json({ error: 'Category owners must take part in the review' });
+      }
+      
+      const owner = await storage.setReviewCategoryOwner(ownerData);
+      res.json(owner);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+  
+  app.delete('/api/reviews/:reviewId/category-owners/:categoryId', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const reviewId = parseInt(req.params.reviewId);
+    const categoryId = parseInt(req.params.categoryId);
+    if (isNaN(reviewId) || isNaN(categoryId)) {
+      return res.status(400).json({ error: 'Invalid ID parameters' });
+    }
+    
+    try {
+      const removed = await storage.removeReviewCategoryOwner(reviewId, categoryId);
+      if (!removed) {
+        return res.status(404).json({ error: 'Category owner not found' });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Categories of the catalog version the review is pinned to
+  app.get('/api/reviews/:reviewId/categories', isAuthenticated, async (req, res) => {
+    const reviewId = parseInt(req.params.reviewId);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+    
+    const review = await storage.getReview(reviewId);
+    if (!review) {
+      return res.status(404).json({ error: 'Review not found' });
+    }
+    
+    // Check if user has access to this review
+    const authenticatedReq = req as AuthenticatedRequest;
+    if (authenticatedReq.user.role !== 'admin' && !isReviewParticipant(review, authenticatedReq.user.id)) {
+      return res.status(403).json({ error: 'You do not have permission to view this review' });
+    }
+    
+    try {
+      // Limited to the categories the participant owns or is assigned to for this car
+      const { categories } = await getReviewScope(storage, review, getScopeUserId(review, authenticatedReq.user));
+      res.json(categories);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
   // Task evaluations within a review
   app.get('/api/reviews/:reviewId/tasks', isAuthenticated, async (req, res) => {
     const reviewId = parseInt(req.params.reviewId);
@@ -398,15 +1579,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user?.role !== 'admin' && review.reviewerId !== req.user?.id) {
+    const authenticatedReq = req as AuthenticatedRequest;
+    if (authenticatedReq.user.role !== 'admin' && !isReviewParticipant(review, authenticatedReq.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to view this review' });
     }
     
     try {
-      const tasksWithCategories = await storage.getTasksForReview(reviewId);
-      const completedTaskIds = await storage.getCompletedTaskIds(reviewId);
+      // Limited to the categories the participant owns or is assigned to for this car
+      const { tasks, completedTaskIds, notApplicableTaskIds, assignedCategoryIds } = await getReviewScope(storage, review, getScopeUserId(review, authenticatedReq.user));
       
-      res.json({ tasks: tasksWithCategories, completedTaskIds });
+      res.json({ tasks, completedTaskIds, notApplicableTaskIds, assignedCategoryIds });
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
@@ -426,7 +1608,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to view this evaluation' });
     }
     
@@ -456,18 +1638,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to add evaluations to this review' });
     }
     
+    const { user } = req as AuthenticatedRequest;
+    const categoryId = await getTaskCategoryId(taskId);
+    if (user.role !== 'admin' && categoryId !== undefined && !canEvaluateCategory(review, user.id, categoryId)) {
+      return res.status(403).json({ error: 'This category is owned by another participant of the review' });
+    }
+    
     try {
-      const evaluationData = insertTaskEvaluationSchema.parse({
+      const evaluationData = taskEvaluationInputSchema.parse({
         ...req.body,
         reviewId,
-        taskId
+        taskId,
+        evaluatedBy: user.id
       });
       
+      const ratingsError = await getDimensionRatingsError(evaluationData, 'task');
+      if (ratingsError) {
+        return res.status(400).json({ error: ratingsError });
+      }
+      
       const evaluation = await storage.createTaskEvaluation(evaluationData);
+      // Only published reviews are ranked, so only their evaluations can move the benchmark
+      if (review.isPublished) {
+        await updateBenchmarkRanks(storage);
+      }
       res.status(201).json(evaluation);
     } catch (error) {
       res.status(400).json({ error: String(error) });
@@ -488,18 +1686,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to update evaluations in this review' });
     }
     
+    const { user } = req as AuthenticatedRequest;
+    const categoryId = await getTaskCategoryId(taskId);
+    if (user.role !== 'admin' && categoryId !== undefined && !canEvaluateCategory(review, user.id, categoryId)) {
+      return res.status(403).json({ error: 'This category is owned by another participant of the review' });
+    }
+    
     try {
-      const evaluationData = insertTaskEvaluationSchema.parse({
+      const evaluationData = taskEvaluationInputSchema.parse({
         ...req.body,
         reviewId,
-        taskId
+        taskId,
+        evaluatedBy: user.id
       });
       
+      const ratingsError = await getDimensionRatingsError(evaluationData, 'task');
+      if (ratingsError) {
+        return res.status(400).json({ error: ratingsError });
+      }
+      
       const evaluation = await storage.updateTaskEvaluation(reviewId, taskId, evaluationData);
+      // Only published reviews are ranked, so only their evaluations can move the benchmark
+      if (review.isPublished) {
+        await updateBenchmarkRanks(storage);
+      }
       res.json(evaluation);
     } catch (error) {
       res.status(400).json({ error: String(error) });
@@ -521,7 +1735,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to view this evaluation' });
     }
     
@@ -551,18 +1765,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to add evaluations to this review' });
     }
     
+    const { user } = req as AuthenticatedRequest;
+    if (user.role !== 'admin' && !canEvaluateCategory(review, user.id, categoryId)) {
+      return res.status(403).json({ error: 'This category is owned by another participant of the review' });
+    }
+    
     try {
       const evaluationData = insertCategoryEvaluationSchema.parse({
         ...req.body,
         reviewId,
-        categoryId
+        categoryId,
+        evaluatedBy: user.id
       });
       
+      const ratingsError = await getDimensionRatingsError(evaluationData, 'category');
+      if (ratingsError) {
+        return res.status(400).json({ error: ratingsError });
+      }
+      
       const evaluation = await storage.createCategoryEvaluation(evaluationData);
+      // Only published reviews are ranked, so only their evaluations can move the benchmark
+      if (review.isPublished) {
+        await updateBenchmarkRanks(storage);
+      }
       res.status(201).json(evaluation);
     } catch (error) {
       res.status(400).json({ error: String(error) });
@@ -583,18 +1812,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to update evaluations in this review' });
     }
     
+    const { user } = req as AuthenticatedRequest;
+    if (user.role !== 'admin' && !canEvaluateCategory(review, user.id, categoryId)) {
+      return res.status(403).json({ error: 'This category is owned by another participant of the review' });
+    }
+    
     try {
       const evaluationData = insertCategoryEvaluationSchema.parse({
         ...req.body,
         reviewId,
-        categoryId
+        categoryId,
+        evaluatedBy: user.id
       });
       
+      const ratingsError = await getDimensionRatingsError(evaluationData, 'category');
+      if (ratingsError) {
+        return res.status(400).json({ error: ratingsError });
+      }
+      
       const evaluation = await storage.updateCategoryEvaluation(reviewId, categoryId, evaluationData);
+      // Only published reviews are ranked, so only their evaluations can move the benchmark
+      if (review.isPublished) {
+        await updateBenchmarkRanks(storage);
+      }
       res.json(evaluation);
     } catch (error) {
       res.status(400).json({ error: String(error) });
@@ -615,7 +1859,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to view this review' });
     }
     
@@ -641,7 +1885,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     // Check if user has access to this review
-    if (req.user.role !== 'admin' && review.reviewerId !== req.user.id) {
+    if (req.user.role !== 'admin' && !isReviewParticipant(review, req.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to view this review' });
     }
     
@@ -673,17 +1917,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     // Check if user has access to this review
     const authenticatedReq = req as AuthenticatedRequest;
-    if (authenticatedReq.user.role !== 'admin' && review.reviewerId !== authenticatedReq.user.id) {
+    if (authenticatedReq.user.role !== 'admin' && !isReviewParticipant(review, authenticatedReq.user.id)) {
       return res.status(403).json({ error: 'You do not have permission to view this review' });
     }
     
     try {
-      const completedTaskIds = await storage.getCompletedTaskIds(reviewId);
-      const tasks = await storage.getTasksForReview(reviewId);
+      const { completedTaskIds, notApplicableTaskIds, tasks } = await getReviewScope(storage, review, getScopeUserId(review, authenticatedReq.user));
       
+      // Tasks that don't exist on the car don't need to be completed
       const completionStatus = {
         completedTasks: completedTaskIds.length,
-        totalTasks: tasks.length
+        totalTasks: tasks.length - notApplicableTaskIds.length
       };
       
       res.json(completionStatus);
@@ -709,12 +1953,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Process each review to get its completion status
       for (const review of reviews) {
-        const completedTaskIds = await storage.getCompletedTaskIds(review.id);
-        const tasks = await storage.getTasksForReview(review.id);
+        const { completedTaskIds, notApplicableTaskIds, tasks } = await getReviewScope(storage, review, getScopeUserId(review, authenticatedReq.user));
         
         result[review.id] = {
           completedTasks: completedTaskIds.length,
-          totalTasks: tasks.length
+          totalTasks: tasks.length - notApplicableTaskIds.length
         };
       }
       
@@ -726,7 +1969,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Report routes
+  // External users only see the scores of a report
+  const filterReportForUser = (report: ReportWithReview, user: AuthenticatedRequest['user']) =>
+    user.role === 'external'
+      ? { ...report, topIssues: [], topHates: null, benchmarkRank: null, benchmarkComparison: null }
+      : report;
+  
+  // Likewise, external users see the scores of a breakdown but not what each dimension added to them
+  const filterScoreBreakdownForUser = (breakdown: ScoreBreakdown, user: AuthenticatedRequest['user']): ScoreBreakdown =>
+    user.role === 'external'
+      ? {
+          ...breakdown,
+          categories: breakdown.categories.map(category => ({
+            ...category,
+            contributions: [],
+            cujs: category.cujs.map(cuj => ({
+              ...cuj,
+              tasks: cuj.tasks.map(task => ({ ...task, contributions: [] }))
+            }))
+          }))
+        }
+      : breakdown;
+  
+  // Scores of a review under the current scoring config, from each task up to the overall score
+  app.get('/api/reviews/:id/score-breakdown', isAuthenticated, async (req, res) => {
+    const user = (req as AuthenticatedRequest).user;
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+
+    try {
+      const review = await storage.getReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      if (!canViewReview(review, user)) {
+        return res.status(403).json({ error: 'You do not have permission to view this review' });
+      }
+
+      res.json(filterScoreBreakdownForUser(await getReviewScoreBreakdown(storage, reviewId), user));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  // Side-by-side scores of reviews of the same catalog version, the first review is the baseline
+  app.get('/api/comparisons', isAuthenticated, async (req, res) => {
+    const user = (req as AuthenticatedRequest).user;
+    const reviewIds = String(req.query.reviewIds ?? '').split(',').filter(id => id.trim() !== '').map(Number);
+    if (reviewIds.length < 2 || reviewIds.some(id => !Number.isInteger(id)) || new Set(reviewIds).size !== reviewIds.length) {
+      return res.status(400).json({ error: 'Invalid review IDs' });
+    }
+    if (reviewIds.length > MAX_COMPARED_REVIEWS) {
+      return res.status(400).json({ error: `At most ${MAX_COMPARED_REVIEWS} reviews can be compared` });
+    }
+
+    try {
+      const reviews: ReviewWithDetails[] = [];
+      for (const reviewId of reviewIds) {
+        const review = await storage.getReview(reviewId);
+        if (!review) {
+          return res.status(404).json({ error: 'Review not found' });
+        }
+        // Besides their own reviews, non-admins can only compare published ones
+        if (!canViewReview(review, user)) {
+          return res.status(403).json({ error: 'You do not have permission to view this review' });
+        }
+        reviews.push(review);
+      }
+
+      const versionIds = new Set<number | null>();
+      for (const review of reviews) {
+        versionIds.add(await getReviewCatalogVersionId(storage, review));
+      }
+      if (versionIds.size > 1) {
+        return res.status(400).json({ error: 'Only reviews of the same CUJ catalog version can be compared' });
+      }
+
+      res.json(await compareReviews(storage, reviews));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  app.get('/api/reviews/:id/report', isAuthenticated, async (req, res) => {
+    const user = (req as AuthenticatedRequest).user;
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ error: 'Invalid review ID' });
+    }
+    
+    try {
+      const review = await storage.getReview(reviewId);
+      if (!review) {
+        return res.status(404).json({ error: 'Review not found' });
+      }
+      if (!canViewReview(review, user)) {
+        return res.status(403).json({ error: 'You do not have permission to view this review' });
+      }
+      
+      const reportForReview = await storage.getReportForReview(reviewId);
+      const report = reportForReview && await storage.getReport(reportForReview.id);
+      if (!report) {
+        return res.status(404).json({ error: 'Report not found' });
+      }
+      
+      res.json(filterReportForUser(report, user));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
   app.get('/api/reports/:id', isAuthenticated, async (req, res) => {
+    const user = (req as AuthenticatedRequest).user;
     const reportId = parseInt(req.params.id);
     if (isNaN(reportId)) {
       return res.status(400).json({ error: 'Invalid report ID' });
@@ -737,22 +2093,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!report) {
         return res.status(404).json({ error: 'Report not found' });
       }
-      
-      // If not admin or internal, return limited details
-      const authenticatedReq = req as AuthenticatedRequest;
-      if (authenticatedReq.user.role === 'external') {
-        // Filter sensitive information for external users
-        const limitedReport = {
-          ...report,
-          topIssues: [],
-          topHates: null,
-          benchmarkRank: null,
-          benchmarkComparison: null
-        };
-        return res.json(limitedReport);
+      if (!canViewReview(report.review, user)) {
+        return res.status(403).json({ error: 'You do not have permission to view this review' });
       }
       
-      res.json(report);
+      res.json(filterReportForUser(report, user));
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
@@ -768,18 +2113,118 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.get('/api/admin/scoring-config/history', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const history = await storage.getScoringConfigHistory();
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Rolling back creates a new version with the weights of an earlier one, so history stays intact
+  app.post('/api/admin/scoring-config/:id/rollback', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const configId = parseInt(req.params.id);
+    if (isNaN(configId)) {
+      return res.status(400).json({ error: 'Invalid scoring config ID' });
+    }
+    
+    try {
+      const target = await storage.getScoringConfigVersion(configId);
+      if (!target) {
+        return res.status(404).json({ error: 'Scoring config version not found' });
+      }
+      
+      const current = await storage.getScoringConfig();
+      if (current.id === target.id) {
+        return res.status(400).json({ error: 'This version is already the current scoring config' });
+      }
+      
+      const { id, version, changeNote, updatedAt, updatedBy, ...weights } = target;
+      const rolledBack = await storage.createScoringConfigVersion({
+        ...weights,
+        changeNote: req.body.changeNote || `Rolled back to version ${version}`,
+        updatedBy: (req as AuthenticatedRequest).user.id
+      });
+      await updateBenchmarkRanks(storage);
+      res.status(201).json(rolledBack);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  // Weight validation failures as field errors the admin form can show next to each input
+  const scoringWeightErrors = (error: z.ZodError): ScoringWeightErrors => ({
+    error: 'Invalid scoring weights',
+    ...error.flatten()
+  });
+
+  // The task and category weights of a config have to add up to 100, both on their own and with
+  // each category override merged over them
+  const scoringConfigWeightErrors = (config: Pick<ScoringConfig, ScoringWeightField | 'categoryOverrides'>): ScoringWeightErrors | null => {
+    const totals = (weights: Pick<ScoringConfig, ScoringWeightField>) => [
+      taskWeightsSchema.safeParse({
+        doableWeight: weights.taskDoableWeight,
+        usabilityWeight: weights.taskUsabilityWeight,
+        visualsWeight: weights.taskVisualsWeight
+      }),
+      categoryWeightsSchema.safeParse({
+        taskAvgWeight: weights.categoryTasksWeight,
+        responsivenessWeight: weights.categoryResponsivenessWeight,
+        writingWeight: weights.categoryWritingWeight,
+        emotionalWeight: weights.categoryEmotionalWeight
+      })
+    ];
+
+    for (const total of totals(config)) {
+      if (!total.success) {
+        return scoringWeightErrors(total.error);
+      }
+    }
+    for (const override of config.categoryOverrides) {
+      for (const total of totals({ ...config, ...override })) {
+        if (!total.success) {
+          const errors = scoringWeightErrors(total.error);
+          return {
+            ...errors,
+            error: `Invalid scoring weights for ${override.categoryName}`,
+            formErrors: errors.formErrors.map(message => `${override.categoryName}: ${message}`)
+          };
+        }
+      }
+    }
+    return null;
+  };
+
   app.patch('/api/admin/scoring-config/task', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const weights = taskWeightsSchema.safeParse(req.body);
+    if (!weights.success) {
+      return res.status(400).json(scoringWeightErrors(weights.error));
+    }
+
     try {
-      const { doableWeight, usabilityWeight, visualsWeight } = req.body;
+      const { doableWeight, usabilityWeight, visualsWeight, changeNote } = weights.data;
+
+      const overrideErrors = scoringConfigWeightErrors({
+        ...await storage.getScoringConfig(),
+        taskDoableWeight: doableWeight,
+        taskUsabilityWeight: usabilityWeight,
+        taskVisualsWeight: visualsWeight
+      });
+      if (overrideErrors) {
+        return res.status(400).json(overrideErrors);
+      }
       
       const configData = {
         taskDoableWeight: doableWeight,
         taskUsabilityWeight: usabilityWeight,
         taskVisualsWeight: visualsWeight,
+        changeNote: changeNote || null,
         updatedBy: req.user.id
       };
       
       const updatedConfig = await storage.updateTaskScoringConfig(configData);
+      await updateBenchmarkRanks(storage);
       res.json(updatedConfig);
     } catch (error) {
       res.status(400).json({ error: String(error) });
@@ -787,24 +2232,241 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   app.patch('/api/admin/scoring-config/category', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const weights = categoryWeightsSchema.safeParse(req.body);
+    if (!weights.success) {
+      return res.status(400).json(scoringWeightErrors(weights.error));
+    }
+
     try {
-      const { taskAvgWeight, responsivenessWeight, writingWeight, emotionalWeight } = req.body;
+      const { taskAvgWeight, responsivenessWeight, writingWeight, emotionalWeight, changeNote } = weights.data;
+
+      const overrideErrors = scoringConfigWeightErrors({
+        ...await storage.getScoringConfig(),
+        categoryTasksWeight: taskAvgWeight,
+        categoryResponsivenessWeight: responsivenessWeight,
+        categoryWritingWeight: writingWeight,
+        categoryEmotionalWeight: emotionalWeight
+      });
+      if (overrideErrors) {
+        return res.status(400).json(overrideErrors);
+      }
       
       const configData = {
         categoryTasksWeight: taskAvgWeight,
         categoryResponsivenessWeight: responsivenessWeight,
         categoryWritingWeight: writingWeight,
         categoryEmotionalWeight: emotionalWeight,
+        changeNote: changeNote || null,
         updatedBy: req.user.id
       };
       
       const updatedConfig = await storage.updateCategoryScoringConfig(configData);
+      await updateBenchmarkRanks(storage);
       res.json(updatedConfig);
     } catch (error) {
       res.status(400).json({ error: String(error) });
     }
   });
-  
+
+  const overrideWeight = z.number().min(0).max(100).optional();
+  const categoryOverridesSchema = z.object({
+    overrides: z.array(z.object({
+      categoryName: catalogName,
+      taskDoableWeight: overrideWeight,
+      taskUsabilityWeight: overrideWeight,
+      taskVisualsWeight: overrideWeight,
+      categoryTasksWeight: overrideWeight,
+      categoryResponsivenessWeight: overrideWeight,
+      categoryWritingWeight: overrideWeight,
+      categoryEmotionalWeight: overrideWeight,
+      importance: z.number().min(0).optional()
+    })).refine(
+      overrides => new Set(overrides.map(override => override.categoryName.toLowerCase())).size === overrides.length,
+      'Each category can only be overridden once'
+    ),
+    changeNote: z.string().optional()
+  });
+
+  // Replaces the per-category overrides as a whole; weights left out of an override fall back to the global ones
+  app.put('/api/admin/scoring-config/category-overrides', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const parsed = categoryOverridesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(scoringWeightErrors(parsed.error));
+    }
+
+    try {
+      const { overrides, changeNote } = parsed.data;
+
+      const weightErrors = scoringConfigWeightErrors({ ...await storage.getScoringConfig(), categoryOverrides: overrides });
+      if (weightErrors) {
+        return res.status(400).json(weightErrors);
+      }
+
+      const updatedConfig = await storage.createScoringConfigVersion({
+        categoryOverrides: overrides,
+        changeNote: changeNote || null,
+        updatedBy: (req as AuthenticatedRequest).user.id
+      });
+      await updateBenchmarkRanks(storage);
+      res.json(updatedConfig);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  const benchmarkCohortSchema = z.object({
+    benchmarkCohort: z.enum(benchmarkCohorts),
+    changeNote: z.string().optional()
+  });
+
+  app.patch('/api/admin/scoring-config/benchmark-cohort', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      const { benchmarkCohort, changeNote } = benchmarkCohortSchema.parse(req.body);
+
+      const updatedConfig = await storage.createScoringConfigVersion({
+        benchmarkCohort,
+        changeNote: changeNote || null,
+        updatedBy: (req as AuthenticatedRequest).user.id
+      });
+      await updateBenchmarkRanks(storage);
+      res.json(updatedConfig);
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  // What-if scoring: candidate weights are applied on top of the current config without saving anything
+  const scoringSimulationSchema = z.object({
+    weights: z.object({
+      taskDoableWeight: overrideWeight,
+      taskUsabilityWeight: overrideWeight,
+      taskVisualsWeight: overrideWeight,
+      categoryTasksWeight: overrideWeight,
+      categoryResponsivenessWeight: overrideWeight,
+      categoryWritingWeight: overrideWeight,
+      categoryEmotionalWeight: overrideWeight
+    }).default({}),
+    categoryOverrides: categoryOverridesSchema.shape.overrides.optional(),
+    reviewIds: z.array(z.number().int().positive()).optional() // all reviews when left out
+  });
+
+  app.post('/api/admin/scoring-config/simulate', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const parsed = scoringSimulationSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json(scoringWeightErrors(parsed.error));
+    }
+
+    try {
+      const { weights, categoryOverrides, reviewIds } = parsed.data;
+
+      const reviews: ReviewWithDetails[] = [];
+      if (reviewIds) {
+        for (const reviewId of reviewIds) {
+          const review = await storage.getReview(reviewId);
+          if (!review) {
+            return res.status(404).json({ error: 'Review not found' });
+          }
+          reviews.push(review);
+        }
+      } else {
+        reviews.push(...await storage.getAllReviews());
+      }
+
+      const current = await storage.getScoringConfig();
+      const candidate = {
+        ...current,
+        ...weights,
+        categoryOverrides: categoryOverrides ?? current.categoryOverrides
+      };
+
+      // The candidate has to be a config that could be saved
+      const weightErrors = scoringConfigWeightErrors(candidate);
+      if (weightErrors) {
+        return res.status(400).json(weightErrors);
+      }
+
+      res.json(await simulateScoring(storage, candidate, reviews));
+    } catch (error) {
+      res.status(400).json({ error: String(error) });
+    }
+  });
+
+  // Evaluation dimensions: the evaluation forms render the active ones, admins manage all of them
+  app.get('/api/evaluation-dimensions', isAuthenticated, async (req, res) => {
+    try {
+      const includeInactive = req.query.includeInactive === 'true' && (req as AuthenticatedRequest).user.role === 'admin';
+      const dimensions = await storage.getEvaluationDimensions();
+      res.json(includeInactive ? dimensions : dimensions.filter(dimension => dimension.isActive));
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  const evaluationDimensionErrors = (error: z.ZodError) => ({
+    error: 'Invalid evaluation dimension',
+    ...error.flatten()
+  });
+
+  app.post('/api/admin/evaluation-dimensions', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const dimension = evaluationDimensionSchema.safeParse(req.body);
+    if (!dimension.success) {
+      return res.status(400).json(evaluationDimensionErrors(dimension.error));
+    }
+
+    try {
+      const created = await storage.createEvaluationDimension({
+        ...dimension.data,
+        createdBy: (req as AuthenticatedRequest).user.id
+      });
+      await updateBenchmarkRanks(storage);
+      res.status(201).json(created);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
+  // Partial updates are validated together with the rest of the dimension, e.g. a new scale against its labels
+  app.patch('/api/admin/evaluation-dimensions/:id', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    const id = parseInt(req.params.id);
+    if (isNaN(id)) {
+      return res.status(400).json({ error: 'Invalid dimension ID' });
+    }
+
+    try {
+      const existing = await storage.getEvaluationDimension(id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Evaluation dimension not found' });
+      }
+
+      const dimension = evaluationDimensionSchema.safeParse({ ...existing, ...req.body });
+      if (!dimension.success) {
+        return res.status(400).json(evaluationDimensionErrors(dimension.error));
+      }
+
+      // Built-in dimensions can be rescaled and relabelled, but their ratings have fixed places in the evaluations
+      // and their weights are part of the scoring config
+      if (existing.key && (dimension.data.level !== existing.level || dimension.data.weight !== existing.weight || !dimension.data.isActive)) {
+        return res.status(400).json({ error: 'The level, weight and active state of built-in dimensions can\'t be changed' });
+      }
+
+      // Ratings are stored without their scale, so rescaling would change what the existing ones are worth
+      const rescaled = dimension.data.scaleMin !== existing.scaleMin || dimension.data.scaleMax !== existing.scaleMax;
+      if (rescaled && await storage.countRatingsForDimension(existing) > 0) {
+        return res.status(400).json({ error: `The scale of ${existing.name} can't be changed once evaluations are rated on it` });
+      }
+
+      const updated = await storage.updateEvaluationDimension(id, {
+        ...dimension.data,
+        description: dimension.data.description ?? null,
+        feedbackThreshold: dimension.data.feedbackThreshold ?? null
+      });
+      await updateBenchmarkRanks(storage);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+
   app.get('/api/admin/cuj-sync-status', isAuthenticated, hasRole(['admin']), async (req, res) => {
     try {
       const status = await storage.getCujSyncStatus();
@@ -864,10 +2526,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.post('/api/admin/sync-cuj-data', isAuthenticated, hasRole(['admin']), async (req, res) => {
+  app.get('/api/cuj-database-versions/:fromId/diff/:toId', isAuthenticated, hasRole(['admin']), async (req, res) => {
     try {
-      const result = await storage.syncCujData();
-      res.json(result);
+      const fromId = parseInt(req.params.fromId);
+      const toId = parseInt(req.params.toId);
+      if (isNaN(fromId) || isNaN(toId)) {
+        return res.status(400).json({ error: "Invalid version ID" });
+      }
+      
+      const [fromVersion, toVersion] = await Promise.all([
+        storage.getCujDatabaseVersion(fromId),
+        storage.getCujDatabaseVersion(toId)
+      ]);
+      if (!fromVersion || !toVersion) {
+        return res.status(404).json({ error: "CUJ database version not found" });
+      }
+      
+      const loadSnapshot = async (versionId: number): Promise<CujCatalogSnapshot> => ({
+        categories: await storage.getCujCategoriesForVersion(versionId),
+        cujs: await storage.getCujsForVersion(versionId),
+        tasks: await storage.getTasksForVersion(versionId)
+      });
+      
+      const diff = diffCujCatalogs(await loadSnapshot(fromId), await loadSnapshot(toId));
+      res.json({ fromVersion, toVersion, ...diff });
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
+  app.post('/api/admin/sync-cuj-data', isAuthenticated, hasRole(['admin']), spreadsheetUpload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ success: false, message: 'No spreadsheet uploaded' });
+      }
+      
+      const extension = path.extname(req.file.originalname).toLowerCase();
+      if (!allowedSpreadsheetExtensions.includes(extension)) {
+        return res.status(400).json({
+          success: false,
+          message: `Unsupported file type. Allowed types: ${allowedSpreadsheetExtensions.join(', ')}`
+        });
+      }
+      
+      const { rows, errors } = parseCujSpreadsheet(req.file.buffer);
+      if (errors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: `${req.file.originalname} has ${errors.length} problem(s). Fix them and upload again.`,
+          errors
+        });
+      }
+      
+      const result = await storage.syncCujData({
+        sourceFileName: req.file.originalname,
+        createdBy: (req as AuthenticatedRequest).user.id,
+        rows
+      });
+      res.status(result.success ? 200 : 500).json(result);
     } catch (error) {
       res.status(500).json({ error: String(error) });
     }
@@ -1034,6 +2750,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Per-category coverage of the active catalog, for all cars or ?carId=
+  app.get('/api/reviewer-assignments/coverage', isAuthenticated, hasRole(['admin']), async (req, res) => {
+    try {
+      let cars = await storage.getAllCars();
+      if (req.query.carId !== undefined) {
+        const carId = parseInt(String(req.query.carId));
+        if (isNaN(carId)) {
+          return res.status(400).json({ error: 'Invalid car ID' });
+        }
+        cars = cars.filter(car => car.id === carId);
+      }
+      
+      const activeVersion = await storage.getActiveCujDatabaseVersion();
+      const categories = activeVersion ? await storage.getCujCategoriesForVersion(activeVersion.id) : [];
+      
+      const coverage: AssignmentCoverage[] = [];
+      for (const car of cars) {
+        const assignments = await storage.getReviewerAssignmentsForCar(car.id);
+        const categoryCoverage = categories.map(category => {
+          const reviewers = new Map<number, { id: number; name: string; username: string }>();
+          for (const assignment of assignments) {
+            if (assignmentCoversCategory(assignment.category, category)) {
+              const { id, name, username } = assignment.reviewer;
+              reviewers.set(id, { id, name, username });
+            }
+          }
+          return { category, reviewers: Array.from(reviewers.values()) };
+        });
+        
+        coverage.push({
+          car,
+          categories: categoryCoverage,
+          unassignedCategoryIds: categoryCoverage
+            .filter(entry => entry.reviewers.length === 0)
+            .map(entry => entry.category.id)
+        });
+      }
+      
+      res.json(coverage);
+    } catch (error) {
+      res.status(500).json({ error: String(error) });
+    }
+  });
+  
   app.get('/api/reviewer-assignments/:id', isAuthenticated, async (req, res) => {
     const id = parseInt(req.params.id);
     if (isNaN(id)) {
@@ -1118,32 +2878,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Reviews completion status endpoint
-  app.get('/api/reviews-completion-status', isAuthenticated, async (req, res) => {
-    try {
-      const reviews = (req as AuthenticatedRequest).user.role === 'admin' 
-        ? await storage.getAllReviews()
-        : await storage.getReviewsByReviewer((req as AuthenticatedRequest).user.id);
-      
-      const reviewCompletionStatus = {};
-      
-      for (const review of reviews) {
-        // Get all tasks for this review
-        const tasks = await storage.getTasksForReview(review.id);
-        const completedTaskIds = await storage.getCompletedTaskIds(review.id);
-        
-        reviewCompletionStatus[review.id] = {
-          completedTasks: completedTaskIds.length,
-          totalTasks: tasks.length
-        };
-      }
-      
-      res.json(reviewCompletionStatus);
-    } catch (error) {
-      res.status(500).json({ error: String(error) });
-    }
-  });
-  
   // Create HTTP server
   const httpServer = createServer(app);
   
@@ -0,0 +1,69 @@
+import {
+  ReviewWithDetails,
+  ScoringConfig,
+  ScoringSimulation,
+  SimulatedReviewScore
+} from '../shared/schema';
+import { getReviewScoreBreakdown } from './reportGeneration';
+import type { IStorage } from './storage';
+
+const difference = (simulated: number | null, current: number | null) =>
+  simulated === null || current === null ? null : parseFloat((simulated - current).toFixed(1));
+
+// 1 + the number of higher scores, so ties share a rank; unscored reviews aren't ranked
+function rank(score: number | null, scores: Array<number | null>): number | null {
+  if (score === null) return null;
+  return 1 + scores.filter(other => other !== null && other > score).length;
+}
+
+/**
+ * Scores the reviews under both the current config and a candidate one, without saving anything,
+ * so admins can see how a weight change moves scores and ranks. Reviews are ranked among
+ * themselves and listed by their simulated rank.
+ */
+export async function simulateScoring(
+  storage: IStorage,
+  candidate: ScoringConfig,
+  reviews: ReviewWithDetails[]
+): Promise<ScoringSimulation> {
+  const current = await storage.getScoringConfig();
+
+  const results: Array<Omit<SimulatedReviewScore, 'currentRank' | 'simulatedRank'>> = [];
+  for (const review of reviews) {
+    const before = await getReviewScoreBreakdown(storage, review.id, current);
+    const after = await getReviewScoreBreakdown(storage, review.id, candidate);
+
+    results.push({
+      reviewId: review.id,
+      car: review.car,
+      isPublished: review.isPublished,
+      currentScore: before.overallScore,
+      simulatedScore: after.overallScore,
+      delta: difference(after.overallScore, before.overallScore),
+      categories: before.categories.map((category, index) => {
+        const simulatedScore = after.categories[index]?.score ?? null;
+        return {
+          categoryId: category.categoryId,
+          categoryName: category.categoryName,
+          currentScore: category.score,
+          simulatedScore,
+          delta: difference(simulatedScore, category.score)
+        };
+      })
+    });
+  }
+
+  const currentScores = results.map(result => result.currentScore);
+  const simulatedScores = results.map(result => result.simulatedScore);
+  const ranked: SimulatedReviewScore[] = results.map(result => ({
+    ...result,
+    currentRank: rank(result.currentScore, currentScores),
+    simulatedRank: rank(result.simulatedScore, simulatedScores)
+  }));
+
+  return {
+    scoringConfigId: current.id,
+    reviews: ranked.sort((a, b) =>
+      (a.simulatedRank ?? Number.MAX_SAFE_INTEGER) - (b.simulatedRank ?? Number.MAX_SAFE_INTEGER))
+  };
+}
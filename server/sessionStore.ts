@@ -0,0 +1,117 @@
+import session from 'express-session';
+import type { Request } from 'express';
+import { SessionSummary, StoredSession } from '../shared/schema';
+import type { IStorage } from './storage';
+
+declare module 'express-session' {
+  interface SessionData {
+    // Where the user signed in from, shown on their list of sessions
+    client?: { userAgent: string | null; ipAddress: string | null };
+  }
+}
+
+const DEV_SESSION_SECRET = 'scoreMyCarSecret';
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * The secret session cookies are signed with. Production refuses to start without SESSION_SECRET,
+ * as anyone who knows the development secret could forge a session.
+ */
+export function getSessionSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.SESSION_SECRET) return env.SESSION_SECRET;
+  if (env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET must be set in production');
+  }
+  return DEV_SESSION_SECRET;
+}
+
+export function recordSessionClient(req: Request) {
+  req.session.client = {
+    userAgent: req.get('user-agent') ?? null,
+    ipAddress: req.ip ?? null
+  };
+}
+
+export const isSessionActive = (session: StoredSession, now: Date = new Date()) => session.expiresAt > now;
+
+// Leaves out the session ID, which would let anyone who sees it take over the session
+export const toSessionSummary = (session: StoredSession, currentSid?: string): SessionSummary => ({
+  id: session.id,
+  userAgent: session.userAgent,
+  ipAddress: session.ipAddress,
+  expiresAt: session.expiresAt,
+  createdAt: session.createdAt,
+  lastSeenAt: session.lastSeenAt,
+  current: session.sid === currentSid
+});
+
+type SessionCallback<T = void> = (err?: unknown, result?: T) => void;
+
+/**
+ * An express-session store that keeps sessions in IStorage. Logins only survive server restarts
+ * when that storage is DbStorage; the in-memory storage the server runs on loses them. Deleting a user's sessions from storage signs them out on their
+ * next request.
+ */
+export class StorageSessionStore extends session.Store {
+  private pruneTimer: NodeJS.Timeout | null = null;
+
+  constructor(private storage: IStorage, options: { pruneIntervalMs?: number | null } = {}) {
+    super();
+    const pruneIntervalMs = options.pruneIntervalMs === undefined ? PRUNE_INTERVAL_MS : options.pruneIntervalMs;
+    if (pruneIntervalMs) {
+      this.pruneTimer = setInterval(() => {
+        this.storage.deleteExpiredSessions(new Date()).catch(error => {
+          console.error('Error pruning expired sessions:', error);
+        });
+      }, pruneIntervalMs);
+      this.pruneTimer.unref();
+    }
+  }
+
+  get(sid: string, callback: SessionCallback<session.SessionData | null>) {
+    this.storage.getSession(sid)
+      .then(stored => {
+        if (!stored || !isSessionActive(stored)) return callback(null, null);
+        callback(null, stored.data as unknown as session.SessionData);
+      })
+      .catch(error => callback(error));
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: SessionCallback) {
+    const userId = (sess as { passport?: { user?: number } }).passport?.user ?? null;
+    this.storage.saveSession({
+      sid,
+      userId,
+      // Stores a plain copy, as express-session keeps changing the object it hands us
+      data: JSON.parse(JSON.stringify(sess)),
+      userAgent: sess.client?.userAgent ?? null,
+      ipAddress: sess.client?.ipAddress ?? null,
+      expiresAt: this.getExpiry(sess)
+    })
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: SessionCallback) {
+    this.storage.touchSession(sid, this.getExpiry(sess))
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: SessionCallback) {
+    this.storage.deleteSession(sid)
+      .then(() => callback?.())
+      .catch(error => callback?.(error));
+  }
+
+  close() {
+    if (this.pruneTimer) clearInterval(this.pruneTimer);
+    this.pruneTimer = null;
+  }
+
+  private getExpiry(sess: session.SessionData): Date {
+    const expires = sess.cookie?.expires;
+    return expires ? new Date(expires) : new Date(Date.now() + DEFAULT_TTL_MS);
+  }
+}
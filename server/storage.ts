@@ -26,6 +26,15 @@ import {
   categoryEvaluations,
   CategoryEvaluation,
   InsertCategoryEvaluation,
+  EvaluationDimension,
+  InsertEvaluationDimension,
+  builtInDimensionDefinitions,
+  SignInDomain,
+  InsertSignInDomain,
+  ApiToken,
+  InsertApiToken,
+  StoredSession,
+  InsertStoredSession,
   scoringConfig,
   ScoringConfig,
   InsertScoringConfig,
@@ -41,35 +50,84 @@ import {
   cujDatabaseVersions,
   CujDatabaseVersion,
   InsertCujDatabaseVersion,
+  CujImportData,
+  CujSyncResult,
   reviewerAssignments,
   ReviewerAssignment,
   InsertReviewerAssignment,
-  ReviewerAssignmentWithDetails
+  ReviewerAssignmentWithDetails,
+  ReviewParticipant,
+  InsertReviewParticipant,
+  ReviewCategoryOwner,
+  InsertReviewCategoryOwner
 } from "@shared/schema";
-import { calculateTaskScore, calculateCategoryScore } from "../client/src/lib/utils";
+import { calculateScoreBreakdown, hasDimensionRating, listNotApplicableTasks } from "../shared/scoring";
+import { materializeCujCatalog, nextCujVersionNumber } from "./cujImport";
+import { hashPassword } from "./auth";
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  createUsers(users: InsertUser[]): Promise<User[]>; // All of them or, on failure, none
   getAllUsers(): Promise<User[]>;
+  updateUser(id: number, user: Partial<InsertUser>): Promise<User>;
+  setUserDeactivated(id: number, deactivatedAt: Date | null): Promise<User>; // Null reactivates the user
+  getUserByOidcSubject(subject: string): Promise<User | undefined>;
+
+  // Sign-in Domain operations
+  getSignInDomains(): Promise<SignInDomain[]>;
+  createSignInDomain(domain: InsertSignInDomain): Promise<SignInDomain>;
+  deleteSignInDomain(id: number): Promise<boolean>;
+
+  // API Token operations
+  getApiTokensForUser(userId: number): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  updateApiToken(id: number, token: Partial<Pick<ApiToken, 'lastUsedAt' | 'revokedAt'>>): Promise<ApiToken>;
+
+  // Session operations
+  getSession(sid: string): Promise<StoredSession | undefined>;
+  getAllSessions(): Promise<StoredSession[]>;
+  getSessionsForUser(userId: number): Promise<StoredSession[]>;
+  saveSession(session: InsertStoredSession): Promise<StoredSession>; // Creates or replaces the session with this sid
+  touchSession(sid: string, expiresAt: Date): Promise<void>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteSessionsForUser(userId: number): Promise<number>;
+  deleteExpiredSessions(now: Date): Promise<number>;
 
   // CUJ Category operations
   getCujCategory(id: number): Promise<CujCategory | undefined>;
   getAllCujCategories(): Promise<CujCategory[]>;
+  getCujCategoriesForVersion(versionId: number): Promise<CujCategory[]>;
+  getCategoriesForReview(reviewId: number): Promise<CujCategory[]>;
   createCujCategory(category: InsertCujCategory): Promise<CujCategory>;
+  updateCujCategory(id: number, category: Partial<InsertCujCategory>): Promise<CujCategory>;
+  // Also deletes the category's CUJs, tasks and reviewer assignments
+  deleteCujCategory(id: number): Promise<boolean>;
+  reorderCujCategories(orderedIds: number[]): Promise<void>;
 
   // CUJ operations
   getCuj(id: number): Promise<Cuj | undefined>;
   getCujsForCategory(categoryId: number): Promise<Cuj[]>;
+  getCujsForVersion(versionId: number): Promise<Cuj[]>;
   createCuj(cuj: InsertCuj): Promise<Cuj>;
+  updateCuj(id: number, cuj: Partial<InsertCuj>): Promise<Cuj>;
+  // Also deletes the CUJ's tasks
+  deleteCuj(id: number): Promise<boolean>;
+  reorderCujs(orderedIds: number[]): Promise<void>;
 
   // Task operations
   getTask(id: number): Promise<Task | undefined>;
   getTasksForCuj(cujId: number): Promise<Task[]>;
-  getTasksForReview(reviewId: number): Promise<Task[]>;
+  getTasksForVersion(versionId: number): Promise<TaskWithCategory[]>;
+  // Tasks of the catalog version the review is pinned to
+  getTasksForReview(reviewId: number): Promise<TaskWithCategory[]>;
   createTask(task: InsertTask): Promise<Task>;
+  updateTask(id: number, task: Partial<InsertTask>): Promise<Task>;
+  deleteTask(id: number): Promise<boolean>;
+  reorderTasks(orderedIds: number[]): Promise<void>;
 
   // Car operations
   getCar(id: number): Promise<Car | undefined>;
@@ -82,7 +140,15 @@ export interface IStorage {
   getReviewsByReviewer(reviewerId: number): Promise<ReviewWithDetails[]>;
   createReview(review: InsertReview): Promise<Review>;
   updateReviewStatus(id: number, status: string): Promise<Review>;
-  updateReview(id: number, lastModifiedById: number, data: { status?: string, isPublished?: boolean }): Promise<Review>;
+  updateReview(id: number, lastModifiedById: number, data: { status?: string, isPublished?: boolean, scoringConfigId?: number }): Promise<Review>;
+  setReviewReviewer(id: number, reviewerId: number, lastModifiedById: number): Promise<Review>;
+
+  // Review Participant operations
+  addReviewParticipant(participant: InsertReviewParticipant): Promise<ReviewParticipant>;
+  removeReviewParticipant(reviewId: number, userId: number): Promise<boolean>;
+  getReviewCategoryOwners(reviewId: number): Promise<ReviewCategoryOwner[]>;
+  setReviewCategoryOwner(owner: InsertReviewCategoryOwner): Promise<ReviewCategoryOwner>;
+  removeReviewCategoryOwner(reviewId: number, categoryId: number): Promise<boolean>;
 
   // Task Evaluation operations
   getTaskEvaluation(reviewId: number, taskId: number): Promise<TaskEvaluation | undefined>;
@@ -90,18 +156,31 @@ export interface IStorage {
   createTaskEvaluation(evaluation: InsertTaskEvaluation): Promise<TaskEvaluation>;
   updateTaskEvaluation(reviewId: number, taskId: number, evaluation: InsertTaskEvaluation): Promise<TaskEvaluation>;
   getCompletedTaskIds(reviewId: number): Promise<number[]>;
+  getNotApplicableTaskIds(reviewId: number): Promise<number[]>;
+  countTaskEvaluationsForTasks(taskIds: number[]): Promise<number>;
 
   // Category Evaluation operations
   getCategoryEvaluation(reviewId: number, categoryId: number): Promise<CategoryEvaluation | undefined>;
   getCategoryEvaluationsForReview(reviewId: number): Promise<CategoryEvaluationWithCategory[]>;
   createCategoryEvaluation(evaluation: InsertCategoryEvaluation): Promise<CategoryEvaluation>;
   updateCategoryEvaluation(reviewId: number, categoryId: number, evaluation: InsertCategoryEvaluation): Promise<CategoryEvaluation>;
+  countCategoryEvaluationsForCategory(categoryId: number): Promise<number>;
 
-  // Scoring Config operations
+  // Scoring Config operations. Configs are immutable versions, updates create a new version
   getScoringConfig(): Promise<ScoringConfig>;
+  getScoringConfigVersion(id: number): Promise<ScoringConfig | undefined>;
+  getScoringConfigHistory(): Promise<ScoringConfig[]>;
+  createScoringConfigVersion(config: InsertScoringConfig): Promise<ScoringConfig>;
   updateTaskScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig>;
   updateCategoryScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig>;
 
+  // Evaluation Dimension operations. Dimensions are retired rather than deleted, evaluations keep their ratings
+  getEvaluationDimensions(): Promise<EvaluationDimension[]>;
+  getEvaluationDimension(id: number): Promise<EvaluationDimension | undefined>;
+  createEvaluationDimension(dimension: InsertEvaluationDimension): Promise<EvaluationDimension>;
+  updateEvaluationDimension(id: number, dimension: Partial<InsertEvaluationDimension>): Promise<EvaluationDimension>;
+  countRatingsForDimension(dimension: EvaluationDimension): Promise<number>; // Evaluations rated on the dimension
+
   // Report operations
   getReport(id: number): Promise<ReportWithReview | undefined>;
   getReportForReview(reviewId: number): Promise<Report | undefined>;
@@ -129,7 +208,7 @@ export interface IStorage {
 
   // CUJ Data Sync
   getCujSyncStatus(): Promise<{ lastSync: string, status: string }>;
-  syncCujData(spreadsheetData?: any): Promise<{ success: boolean, message: string, versionId?: number }>;
+  syncCujData(data: CujImportData): Promise<CujSyncResult>;
 
   // Reviewer Assignment operations
   getReviewerAssignment(id: number): Promise<ReviewerAssignmentWithDetails | undefined>;
@@ -142,6 +221,7 @@ export interface IStorage {
   getReviewerAssignmentsForCar(carId: number): Promise<ReviewerAssignmentWithDetails[]>;
   getReviewerAssignmentsForCategory(categoryId: number): Promise<ReviewerAssignmentWithDetails[]>;
   createReviewerAssignment(assignment: InsertReviewerAssignment): Promise<ReviewerAssignment>;
+  setReviewerAssignmentReviewer(id: number, reviewerId: number): Promise<ReviewerAssignment>;
   deleteReviewerAssignment(id: number): Promise<boolean>;
 }
 
@@ -154,11 +234,17 @@ export class MemStorage implements IStorage {
   private reviews: Map<number, Review>;
   private taskEvaluations: Map<string, TaskEvaluation>;
   private categoryEvaluations: Map<string, CategoryEvaluation>;
-  private scoringConfig: ScoringConfig;
+  private scoringConfigs: Map<number, ScoringConfig>;
+  private evaluationDimensions: Map<number, EvaluationDimension>;
+  private signInDomains: Map<number, SignInDomain>;
+  private apiTokens: Map<number, ApiToken>;
+  private sessions: Map<string, StoredSession>;
   private reports: Map<number, Report>;
   private cujSyncData: { lastSync: string, status: string };
   private cujDatabaseVersions: Map<number, CujDatabaseVersion>;
   private reviewerAssignments: Map<number, ReviewerAssignment>;
+  private reviewParticipants: Map<number, ReviewParticipant>;
+  private reviewCategoryOwners: Map<number, ReviewCategoryOwner>;
 
   private userIdCounter: number = 1;
   private categoryIdCounter: number = 1;
@@ -170,7 +256,14 @@ export class MemStorage implements IStorage {
   private categoryEvalIdCounter: number = 1;
   private reportIdCounter: number = 1;
   private cujDatabaseVersionIdCounter: number = 1;
+  private scoringConfigIdCounter: number = 1;
   private reviewerAssignmentIdCounter: number = 1;
+  private reviewParticipantIdCounter: number = 1;
+  private reviewCategoryOwnerIdCounter: number = 1;
+  private evaluationDimensionIdCounter: number = 1;
+  private signInDomainIdCounter: number = 1;
+  private apiTokenIdCounter: number = 1;
+  private sessionIdCounter: number = 1;
 
   constructor() {
     this.users = new Map();
@@ -184,10 +277,20 @@ export class MemStorage implements IStorage {
     this.reports = new Map();
     this.cujDatabaseVersions = new Map();
     this.reviewerAssignments = new Map();
+    this.reviewParticipants = new Map();
+    this.reviewCategoryOwners = new Map();
+    this.evaluationDimensions = new Map();
+    this.signInDomains = new Map();
+    this.apiTokens = new Map();
+    this.sessions = new Map();
 
     // Initialize with default scoring config
-    this.scoringConfig = {
-      id: 1,
+    const defaultConfigId = this.scoringConfigIdCounter++;
+    this.scoringConfigs = new Map();
+    this.scoringConfigs.set(defaultConfigId, {
+      id: defaultConfigId,
+      version: 1,
+      changeNote: null,
       taskDoableWeight: 43.75,
       taskUsabilityWeight: 37.5,
       taskVisualsWeight: 18.75,
@@ -195,10 +298,17 @@ export class MemStorage implements IStorage {
       categoryResponsivenessWeight: 15,
       categoryWritingWeight: 5,
       categoryEmotionalWeight: 5,
+      categoryOverrides: [],
+      benchmarkCohort: "year",
       updatedAt: new Date().toISOString(),
       updatedBy: null
-    };
+    });
 
+    // Built-in evaluation dimensions
+    for (const definition of builtInDimensionDefinitions) {
+      this.createEvaluationDimension(definition);
+    }
+    
     this.cujSyncData = {
       lastSync: new Date().toISOString(),
       status: "up_to_date"
@@ -210,7 +320,7 @@ export class MemStorage implements IStorage {
 
   private async initializeSampleData() {
     // Create initial CUJ database version
-    await this.createCujDatabaseVersion({
+    const initialVersion = await this.createCujDatabaseVersion({
       versionNumber: "v1.0",
       sourceType: "system",
       sourceFileName: null,
@@ -219,34 +329,38 @@ export class MemStorage implements IStorage {
     });
 
     // Create sample users
-    await this.createUser({ username: "admin", password: "admin123", name: "Admin User", role: "admin" });
-    await this.createUser({ username: "reviewer", password: "review123", name: "Test Reviewer", role: "reviewer" });
-    await this.createUser({ username: "internal", password: "internal123", name: "Internal Stakeholder", role: "internal" });
-    await this.createUser({ username: "external", password: "external123", name: "External Viewer", role: "external" });
+    await this.createUser({ username: "admin", password: await hashPassword("admin123"), name: "Admin User", role: "admin" });
+    await this.createUser({ username: "reviewer", password: await hashPassword("review123"), name: "Test Reviewer", role: "reviewer" });
+    await this.createUser({ username: "internal", password: await hashPassword("internal123"), name: "Internal Stakeholder", role: "internal" });
+    await this.createUser({ username: "external", password: await hashPassword("external123"), name: "External Viewer", role: "external" });
 
     // Create sample categories based on the provided table
     const navigationCategory = this.createCujCategory({
       name: "Navigation",
       description: "All navigation related functions",
-      icon: "navigation"
+      icon: "navigation",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const mediaCategory = this.createCujCategory({
       name: "Media",
       description: "Audio, video and entertainment functions",
-      icon: "headphones"
+      icon: "headphones",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const communicationCategory = this.createCujCategory({
       name: "Communications",
       description: "Phone, messaging and voice assistant features",
-      icon: "phone"
+      icon: "phone",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const generalCategory = this.createCujCategory({
       name: "General",
       description: "System-wide settings and features",
-      icon: "settings"
+      icon: "settings",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // Create sample CUJs
@@ -254,88 +368,102 @@ export class MemStorage implements IStorage {
     const navDestinationCuj = this.createCuj({
       categoryId: navigationCategory.id,
       name: "Destination Entry",
-      description: "Entering and navigating to destinations"
+      description: "Entering and navigating to destinations",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const navRouteCuj = this.createCuj({
       categoryId: navigationCategory.id,
       name: "Route Management",
-      description: "Managing navigation routes and waypoints"
+      description: "Managing navigation routes and waypoints",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const navPoiCuj = this.createCuj({
       categoryId: navigationCategory.id,
       name: "Points of Interest",
-      description: "Finding and navigating to points of interest"
+      description: "Finding and navigating to points of interest",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const navTrafficCuj = this.createCuj({
       categoryId: navigationCategory.id,
       name: "Traffic and Route Options",
-      description: "Managing traffic updates and route preferences"
+      description: "Managing traffic updates and route preferences",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const navMapsCuj = this.createCuj({
       categoryId: navigationCategory.id,
       name: "Maps Management",
-      description: "Managing offline maps and map display"
+      description: "Managing offline maps and map display",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // Media CUJs
     const mediaConnectionCuj = this.createCuj({
       categoryId: mediaCategory.id,
       name: "Device Connection",
-      description: "Connecting and managing media devices"
+      description: "Connecting and managing media devices",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const mediaPlaybackCuj = this.createCuj({
       categoryId: mediaCategory.id,
       name: "Media Playback",
-      description: "Playing and controlling media content"
+      description: "Playing and controlling media content",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const mediaRadioCuj = this.createCuj({
       categoryId: mediaCategory.id,
       name: "Radio",
-      description: "Listening to and managing radio stations"
+      description: "Listening to and managing radio stations",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const mediaStreamingCuj = this.createCuj({
       categoryId: mediaCategory.id,
       name: "Streaming Services",
-      description: "Accessing and controlling streaming media"
+      description: "Accessing and controlling streaming media",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const mediaRearSeatCuj = this.createCuj({
       categoryId: mediaCategory.id,
       name: "Rear-Seat Entertainment",
-      description: "Managing rear-seat media playback"
+      description: "Managing rear-seat media playback",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // Communications CUJs
     const commCallsCuj = this.createCuj({
       categoryId: communicationCategory.id,
       name: "Phone Calls",
-      description: "Making and managing phone calls"
+      description: "Making and managing phone calls",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const commMessagesCuj = this.createCuj({
       categoryId: communicationCategory.id,
       name: "Messaging",
-      description: "Sending and receiving text messages"
+      description: "Sending and receiving text messages",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     const commVoiceAssistantCuj = this.createCuj({
       categoryId: communicationCategory.id,
       name: "Voice Assistant",
-      description: "Using voice commands and assistant features"
+      description: "Using voice commands and assistant features",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // General CUJs
     const generalSettingsCuj = this.createCuj({
       categoryId: generalCategory.id,
       name: "System Settings",
-      description: "Adjusting system-wide settings"
+      description: "Adjusting system-wide settings",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // Create sample tasks based on the provided table
@@ -344,70 +472,80 @@ export class MemStorage implements IStorage {
       cujId: navDestinationCuj.id,
       name: "Enter a destination using voice commands",
       prerequisites: "Vehicle is on, Infotainment system is powered on, Microphone is enabled",
-      expectedOutcome: "Navigation route is calculated and displayed on the map."
+      expectedOutcome: "Navigation route is calculated and displayed on the map.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navRouteCuj.id,
       name: "Start turn-by-turn navigation",
       prerequisites: "Destination is entered, Route is calculated",
-      expectedOutcome: "Clear and timely voice prompts and visual cues guide the driver along the route."
+      expectedOutcome: "Clear and timely voice prompts and visual cues guide the driver along the route.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navRouteCuj.id,
       name: "View alternative routes",
       prerequisites: "Navigation is active, Multiple routes are available",
-      expectedOutcome: "A list of alternative routes is displayed on the map with estimated time of arrival."
+      expectedOutcome: "A list of alternative routes is displayed on the map with estimated time of arrival.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navRouteCuj.id,
       name: "Add a waypoint to the current route",
       prerequisites: "Navigation is active",
-      expectedOutcome: "Waypoint is added to the route, and the route is recalculated."
+      expectedOutcome: "Waypoint is added to the route, and the route is recalculated.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navRouteCuj.id,
       name: "Cancel current navigation",
       prerequisites: "Navigation is active",
-      expectedOutcome: "Navigation is stopped, and the map returns to a default view."
+      expectedOutcome: "Navigation is stopped, and the map returns to a default view.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navPoiCuj.id,
       name: "Search for nearby Points of Interest (POI)",
       prerequisites: "Vehicle is on, Infotainment system is powered on",
-      expectedOutcome: "A list of nearby POIs matching the search criteria is displayed on the map."
+      expectedOutcome: "A list of nearby POIs matching the search criteria is displayed on the map.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navPoiCuj.id,
       name: "Get directions to a selected POI",
       prerequisites: "A POI is selected from the search results",
-      expectedOutcome: "Navigation route to the selected POI is calculated and displayed."
+      expectedOutcome: "Navigation route to the selected POI is calculated and displayed.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navTrafficCuj.id,
       name: "Receive and view traffic updates",
       prerequisites: "Navigation is active, Traffic data is available",
-      expectedOutcome: "Real-time traffic information is displayed on the navigation map, potentially with route adjustments."
+      expectedOutcome: "Real-time traffic information is displayed on the navigation map, potentially with route adjustments.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navTrafficCuj.id,
       name: "Avoid toll roads on the navigation route",
       prerequisites: "Navigation route is being calculated or is active",
-      expectedOutcome: "The navigation route is recalculated to avoid toll roads."
+      expectedOutcome: "The navigation route is recalculated to avoid toll roads.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: navMapsCuj.id,
       name: "Download offline maps for a specific region",
       prerequisites: "Infotainment system has storage capacity, Internet connectivity is available",
-      expectedOutcome: "Offline map data for the selected region is downloaded and stored for use without internet."
+      expectedOutcome: "Offline map data for the selected region is downloaded and stored for use without internet.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // Media Tasks
@@ -415,70 +553,80 @@ export class MemStorage implements IStorage {
       cujId: mediaConnectionCuj.id,
       name: "Connect smartphone via Bluetooth",
       prerequisites: "Smartphone Bluetooth is enabled",
-      expectedOutcome: "Smartphone is successfully paired and audio can be streamed."
+      expectedOutcome: "Smartphone is successfully paired and audio can be streamed.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaPlaybackCuj.id,
       name: "Play music from connected smartphone",
       prerequisites: "Smartphone is connected via Bluetooth or USB, Music app is open on the phone",
-      expectedOutcome: "Audio playback from the smartphone begins through the car speakers."
+      expectedOutcome: "Audio playback from the smartphone begins through the car speakers.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaPlaybackCuj.id,
       name: "Control music playback (play, pause, skip) using steering wheel controls",
       prerequisites: "Music is playing from a connected device",
-      expectedOutcome: "Music playback is controlled according to the steering wheel button pressed."
+      expectedOutcome: "Music playback is controlled according to the steering wheel button pressed.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaPlaybackCuj.id,
       name: "Browse music library on connected USB drive",
       prerequisites: "USB drive with music files is connected",
-      expectedOutcome: "A list of folders and music files on the USB drive is displayed on the infotainment screen."
+      expectedOutcome: "A list of folders and music files on the USB drive is displayed on the infotainment screen.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaPlaybackCuj.id,
       name: "Adjust audio equalizer settings",
       prerequisites: "Audio is playing",
-      expectedOutcome: "The sound output is modified according to the adjusted equalizer settings."
+      expectedOutcome: "The sound output is modified according to the adjusted equalizer settings.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaRadioCuj.id,
       name: "Listen to FM/AM radio",
       prerequisites: "Vehicle is on, Infotainment system is powered on",
-      expectedOutcome: "Audio from the selected FM/AM radio station plays through the car speakers."
+      expectedOutcome: "Audio from the selected FM/AM radio station plays through the car speakers.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaRadioCuj.id,
       name: "Scan for available radio stations",
       prerequisites: "Radio is active",
-      expectedOutcome: "A list of available FM/AM radio stations is displayed."
+      expectedOutcome: "A list of available FM/AM radio stations is displayed.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaStreamingCuj.id,
       name: "Stream audio from a built-in music streaming service",
       prerequisites: "Vehicle has a subscription to a built-in streaming service, Internet connectivity is available",
-      expectedOutcome: "Audio playback from the selected streaming service begins."
+      expectedOutcome: "Audio playback from the selected streaming service begins.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaStreamingCuj.id,
       name: "Browse and search the catalog of the built-in streaming service",
       prerequisites: "Built-in streaming service is active",
-      expectedOutcome: "The user can explore the music library of the streaming service."
+      expectedOutcome: "The user can explore the music library of the streaming service.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: mediaRearSeatCuj.id,
       name: "Control playback of rear-seat entertainment (if available)",
       prerequisites: "Rear-seat entertainment system is active and linked to the main infotainment",
-      expectedOutcome: "Audio and/or video playback in the rear seats is controlled from the main infotainment unit."
+      expectedOutcome: "Audio and/or video playback in the rear seats is controlled from the main infotainment unit.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // Communications Tasks
@@ -486,63 +634,72 @@ export class MemStorage implements IStorage {
       cujId: commCallsCuj.id,
       name: "Make a phone call using Bluetooth contacts",
       prerequisites: "Smartphone is connected via Bluetooth, Contacts are synced",
-      expectedOutcome: "The selected contact is called, and the call connects through the car speakers and microphone."
+      expectedOutcome: "The selected contact is called, and the call connects through the car speakers and microphone.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commCallsCuj.id,
       name: "Answer an incoming phone call",
       prerequisites: "Smartphone is connected via Bluetooth, Incoming call notification is displayed",
-      expectedOutcome: "The incoming call is answered and connected through the car speakers and microphone."
+      expectedOutcome: "The incoming call is answered and connected through the car speakers and microphone.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commCallsCuj.id,
       name: "End an ongoing phone call",
       prerequisites: "A phone call is active",
-      expectedOutcome: "The active phone call is disconnected."
+      expectedOutcome: "The active phone call is disconnected.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commCallsCuj.id,
       name: "View recent call history",
       prerequisites: "Smartphone is connected via Bluetooth (if required by the system)",
-      expectedOutcome: "A list of recent incoming, outgoing, and missed calls is displayed."
+      expectedOutcome: "A list of recent incoming, outgoing, and missed calls is displayed.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commMessagesCuj.id,
       name: "Send a pre-defined text message",
       prerequisites: "Smartphone is connected via Bluetooth (if required by the system), Pre-defined messages are configured",
-      expectedOutcome: "The selected pre-defined text message is sent."
+      expectedOutcome: "The selected pre-defined text message is sent.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commMessagesCuj.id,
       name: "Receive and view SMS messages",
       prerequisites: "Smartphone is connected via Bluetooth (if required by the system), SMS access is granted",
-      expectedOutcome: "New SMS messages are displayed on the infotainment screen."
+      expectedOutcome: "New SMS messages are displayed on the infotainment screen.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commMessagesCuj.id,
       name: "Reply to an SMS message using voice commands",
       prerequisites: "An SMS message is open, Voice commands are enabled",
-      expectedOutcome: "A reply message dictated by voice is sent."
+      expectedOutcome: "A reply message dictated by voice is sent.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commVoiceAssistantCuj.id,
       name: "Initiate a voice assistant command (e.g., 'Hey [Car Brand]')",
       prerequisites: "Vehicle is on, Infotainment system is powered on, Voice assistant is enabled",
-      expectedOutcome: "The voice assistant is activated and ready to receive voice commands."
+      expectedOutcome: "The voice assistant is activated and ready to receive voice commands.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: commVoiceAssistantCuj.id,
       name: "Ask the voice assistant to make a call",
       prerequisites: "Voice assistant is active, Contact name is provided",
-      expectedOutcome: "The voice assistant attempts to initiate a call to the specified contact."
+      expectedOutcome: "The voice assistant attempts to initiate a call to the specified contact.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // General Tasks
@@ -550,21 +707,24 @@ export class MemStorage implements IStorage {
       cujId: generalSettingsCuj.id,
       name: "Adjust the infotainment system volume",
       prerequisites: "Infotainment system is powered on",
-      expectedOutcome: "The audio volume of the system is increased or decreased."
+      expectedOutcome: "The audio volume of the system is increased or decreased.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: generalSettingsCuj.id,
       name: "Adjust the display brightness",
       prerequisites: "Infotainment system display is active",
-      expectedOutcome: "The brightness of the infotainment screen is adjusted."
+      expectedOutcome: "The brightness of the infotainment screen is adjusted.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     this.createTask({
       cujId: generalSettingsCuj.id,
       name: "Navigate through the infotainment system menus",
       prerequisites: "Infotainment system is powered on",
-      expectedOutcome: "The user can access different features and settings of the system."
+      expectedOutcome: "The user can access different features and settings of the system.",
+      cujDatabaseVersionId: initialVersion.id
     });
 
     // Create sample cars
@@ -623,117 +783,423 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, oidcSubject: insertUser.oidcSubject ?? null, deactivatedAt: null, id };
     this.users.set(id, user);
     return user;
   }
 
+  async createUsers(insertUsers: InsertUser[]): Promise<User[]> {
+    // Usernames are checked before anything is created, so a conflict leaves no user behind
+    const usernames = new Set(Array.from(this.users.values()).map(user => user.username));
+    for (const user of insertUsers) {
+      if (usernames.has(user.username)) {
+        throw new Error(`User "${user.username}" already exists`);
+      }
+      usernames.add(user.username);
+    }
+
+    const created: User[] = [];
+    for (const user of insertUsers) {
+      created.push(await this.createUser(user));
+    }
+    return created;
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
 
+  async updateUser(id: number, user: Partial<InsertUser>): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error("User not found");
+    }
+
+    const updatedUser: User = { ...existing, ...user, id };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async setUserDeactivated(id: number, deactivatedAt: Date | null): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) {
+      throw new Error("User not found");
+    }
+
+    const updatedUser: User = { ...existing, deactivatedAt };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async getUserByOidcSubject(subject: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.oidcSubject === subject
+    );
+  }
+
+  // Sign-in Domain methods
+  async getSignInDomains(): Promise<SignInDomain[]> {
+    return Array.from(this.signInDomains.values()).sort((a, b) => a.domain.localeCompare(b.domain));
+  }
+
+  async createSignInDomain(domain: InsertSignInDomain): Promise<SignInDomain> {
+    const id = this.signInDomainIdCounter++;
+    const newDomain: SignInDomain = {
+      id,
+      domain: domain.domain,
+      createdBy: domain.createdBy ?? null,
+      createdAt: new Date()
+    };
+    this.signInDomains.set(id, newDomain);
+    return newDomain;
+  }
+
+  async deleteSignInDomain(id: number): Promise<boolean> {
+    return this.signInDomains.delete(id);
+  }
+
+  // API Token methods
+  async getApiTokensForUser(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(
+      (token) => token.tokenHash === tokenHash
+    );
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const id = this.apiTokenIdCounter++;
+    const newToken: ApiToken = {
+      ...token,
+      id,
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date()
+    };
+    this.apiTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async updateApiToken(id: number, token: Partial<Pick<ApiToken, 'lastUsedAt' | 'revokedAt'>>): Promise<ApiToken> {
+    const existing = this.apiTokens.get(id);
+    if (!existing) {
+      throw new Error("API token not found");
+    }
+
+    const updatedToken: ApiToken = { ...existing, ...token, id };
+    this.apiTokens.set(id, updatedToken);
+    return updatedToken;
+  }
+
+  // Session methods
+  async getSession(sid: string): Promise<StoredSession | undefined> {
+    return this.sessions.get(sid);
+  }
+
+  async getAllSessions(): Promise<StoredSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async getSessionsForUser(userId: number): Promise<StoredSession[]> {
+    return Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async saveSession(session: InsertStoredSession): Promise<StoredSession> {
+    const existing = this.sessions.get(session.sid);
+    const now = new Date();
+    const savedSession: StoredSession = {
+      ...session,
+      id: existing?.id ?? this.sessionIdCounter++,
+      createdAt: existing?.createdAt ?? now,
+      lastSeenAt: now
+    };
+    this.sessions.set(session.sid, savedSession);
+    return savedSession;
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<void> {
+    const existing = this.sessions.get(sid);
+    if (existing) {
+      this.sessions.set(sid, { ...existing, expiresAt, lastSeenAt: new Date() });
+    }
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    return this.sessions.delete(sid);
+  }
+
+  async deleteSessionsForUser(userId: number): Promise<number> {
+    const sids = Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId)
+      .map((session) => session.sid);
+    sids.forEach((sid) => this.sessions.delete(sid));
+    return sids.length;
+  }
+
+  async deleteExpiredSessions(now: Date): Promise<number> {
+    const sids = Array.from(this.sessions.values())
+      .filter((session) => session.expiresAt <= now)
+      .map((session) => session.sid);
+    sids.forEach((sid) => this.sessions.delete(sid));
+    return sids.length;
+  }
+
   // CUJ Category methods
   async getCujCategory(id: number): Promise<CujCategory | undefined> {
     return this.cujCategories.get(id);
   }
 
   async getAllCujCategories(): Promise<CujCategory[]> {
-    return Array.from(this.cujCategories.values());
+    return this.sortCatalogItems(Array.from(this.cujCategories.values()));
+  }
+
+  async getCujCategoriesForVersion(versionId: number): Promise<CujCategory[]> {
+    return this.sortCatalogItems(Array.from(this.cujCategories.values()).filter(
+      (category) => category.cujDatabaseVersionId === versionId
+    ));
+  }
+
+  async getCategoriesForReview(reviewId: number): Promise<CujCategory[]> {
+    const versionId = await this.getCatalogVersionIdForReview(reviewId);
+    return versionId === null ? [] : this.getCujCategoriesForVersion(versionId);
   }
 
   async createCujCategory(category: InsertCujCategory): Promise<CujCategory> {
     const id = this.categoryIdCounter++;
-    const newCategory: CujCategory = { ...category, id };
+    const cujDatabaseVersionId = category.cujDatabaseVersionId ?? null;
+    const siblings = Array.from(this.cujCategories.values()).filter(
+      (existing) => existing.cujDatabaseVersionId === cujDatabaseVersionId
+    );
+    const newCategory: CujCategory = {
+      id,
+      name: category.name,
+      description: category.description ?? null,
+      icon: category.icon ?? "category",
+      cujDatabaseVersionId,
+      sortOrder: category.sortOrder ?? this.nextSortOrder(siblings)
+    };
     this.cujCategories.set(id, newCategory);
     return newCategory;
   }
 
+  async updateCujCategory(id: number, category: Partial<InsertCujCategory>): Promise<CujCategory> {
+    const existing = this.cujCategories.get(id);
+    if (!existing) throw new Error(`CUJ category with id ${id} not found`);
+
+    const updatedCategory: CujCategory = {
+      ...existing,
+      name: category.name ?? existing.name,
+      description: category.description !== undefined ? category.description : existing.description,
+      icon: category.icon !== undefined ? category.icon : existing.icon,
+      sortOrder: category.sortOrder ?? existing.sortOrder
+    };
+    this.cujCategories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteCujCategory(id: number): Promise<boolean> {
+    if (!this.cujCategories.has(id)) {
+      return false;
+    }
+
+    for (const cuj of Array.from(this.cujs.values())) {
+      if (cuj.categoryId === id) {
+        await this.deleteCuj(cuj.id);
+      }
+    }
+    for (const [assignmentId, assignment] of Array.from(this.reviewerAssignments.entries())) {
+      if (assignment.categoryId === id) {
+        this.reviewerAssignments.delete(assignmentId);
+      }
+    }
+    for (const [ownerId, owner] of Array.from(this.reviewCategoryOwners.entries())) {
+      if (owner.categoryId === id) {
+        this.reviewCategoryOwners.delete(ownerId);
+      }
+    }
+    this.cujCategories.delete(id);
+    return true;
+  }
+
+  async reorderCujCategories(orderedIds: number[]): Promise<void> {
+    orderedIds.forEach((id, index) => {
+      const category = this.cujCategories.get(id);
+      if (category) this.cujCategories.set(id, { ...category, sortOrder: index });
+    });
+  }
+
   // CUJ methods
   async getCuj(id: number): Promise<Cuj | undefined> {
     return this.cujs.get(id);
   }
 
   async getCujsForCategory(categoryId: number): Promise<Cuj[]> {
-    return Array.from(this.cujs.values()).filter(
+    return this.sortCatalogItems(Array.from(this.cujs.values()).filter(
       (cuj) => cuj.categoryId === categoryId
-    );
+    ));
+  }
+
+  async getCujsForVersion(versionId: number): Promise<Cuj[]> {
+    return this.sortCatalogItems(Array.from(this.cujs.values()).filter(
+      (cuj) => cuj.cujDatabaseVersionId === versionId
+    ));
   }
 
   async createCuj(cuj: InsertCuj): Promise<Cuj> {
     const id = this.cujIdCounter++;
-    const newCuj: Cuj = { ...cuj, id };
+    const siblings = Array.from(this.cujs.values()).filter(
+      (existing) => existing.categoryId === cuj.categoryId
+    );
+    const newCuj: Cuj = {
+      id,
+      categoryId: cuj.categoryId,
+      name: cuj.name,
+      description: cuj.description ?? null,
+      cujDatabaseVersionId: cuj.cujDatabaseVersionId ?? null,
+      sortOrder: cuj.sortOrder ?? this.nextSortOrder(siblings)
+    };
     this.cujs.set(id, newCuj);
     return newCuj;
   }
 
-  // Task methods
-  async getTask(id: number): Promise<Task | undefined> {
-    return this.tasks.get(id);
-  }
+  async updateCuj(id: number, cuj: Partial<InsertCuj>): Promise<Cuj> {
+    const existing = this.cujs.get(id);
+    if (!existing) throw new Error(`CUJ with id ${id} not found`);
 
-  async getTasksForCuj(cujId: number): Promise<Task[]> {
-    return Array.from(this.tasks.values()).filter(
-      (task) => task.cujId === cujId
-    );
+    const updatedCuj: Cuj = {
+      ...existing,
+      categoryId: cuj.categoryId ?? existing.categoryId,
+      name: cuj.name ?? existing.name,
+      description: cuj.description !== undefined ? cuj.description : existing.description,
+      sortOrder: cuj.sortOrder ?? existing.sortOrder
+    };
+    this.cujs.set(id, updatedCuj);
+    return updatedCuj;
   }
 
-  async getTasksForReview(reviewId: number): Promise<TaskWithCategory[]> {
-    // Get all tasks
-    const allTasks = Array.from(this.tasks.values());
-    console.log(`Found ${allTasks.length} total tasks`);
+  async deleteCuj(id: number): Promise<boolean> {
+    if (!this.cujs.has(id)) {
+      return false;
+    }
 
-    // Enhance each task with its CUJ and category information
-    const tasksWithCategories: TaskWithCategory[] = [];
+    for (const task of Array.from(this.tasks.values())) {
+      if (task.cujId === id) {
+        this.tasks.delete(task.id);
+      }
+    }
+    this.cujs.delete(id);
+    return true;
+  }
 
-    for (const task of allTasks) {
-      // Get the CUJ directly from the map instead of using the async method
-      const cuj = this.cujs.get(task.cujId);
-      let category = null;
+  async reorderCujs(orderedIds: number[]): Promise<void> {
+    orderedIds.forEach((id, index) => {
+      const cuj = this.cujs.get(id);
+      if (cuj) this.cujs.set(id, { ...cuj, sortOrder: index });
+    });
+  }
 
-      if (cuj) {
-        // Get the category directly from the map
-        category = this.cujCategories.get(cuj.categoryId);
-        console.log(`Task ${task.id} (${task.name}) is linked to CUJ ${cuj.id} (${cuj.name}) and category ${category?.id} (${category?.name})`);
-      } else {
-        console.log(`Task ${task.id} (${task.name}) has CUJ ID ${task.cujId} but CUJ not found`);
-      }
+  // Task methods
+  async getTask(id: number): Promise<Task | undefined> {
+    return this.tasks.get(id);
+  }
 
-      tasksWithCategories.push({
-        ...task,
-        cuj: cuj ? {
-          ...cuj,
-          category: category || {
-            id: 0,
-            name: "Unknown",
-            description: null,
-            icon: null
-          }
-        } : {
-          id: 0,
-          name: "Unknown",
-          description: null,
-          categoryId: 0,
-          category: {
-            id: 0,
-            name: "Unknown",
-            description: null,
-            icon: null
-          }
+  async getTasksForVersion(versionId: number): Promise<TaskWithCategory[]> {
+    const tasksWithCategories: TaskWithCategory[] = [];
+
+    // Walk the tree so tasks come out in catalog order
+    for (const category of await this.getCujCategoriesForVersion(versionId)) {
+      for (const cuj of await this.getCujsForCategory(category.id)) {
+        for (const task of await this.getTasksForCuj(cuj.id)) {
+          tasksWithCategories.push({ ...task, cuj: { ...cuj, category } });
         }
-      } as TaskWithCategory);
+      }
     }
 
-    console.log(`Returning ${tasksWithCategories.length} tasks with categories`);
     return tasksWithCategories;
   }
 
+  async getTasksForCuj(cujId: number): Promise<Task[]> {
+    return this.sortCatalogItems(Array.from(this.tasks.values()).filter(
+      (task) => task.cujId === cujId
+    ));
+  }
+
+  // Reviews without a pinned catalog version follow the active one
+  private async getCatalogVersionIdForReview(reviewId: number): Promise<number | null> {
+    const review = this.reviews.get(reviewId);
+    if (!review) return null;
+    if (review.cujDatabaseVersionId !== null) return review.cujDatabaseVersionId;
+
+    const activeVersion = await this.getActiveCujDatabaseVersion();
+    return activeVersion ? activeVersion.id : null;
+  }
+
+  async getTasksForReview(reviewId: number): Promise<TaskWithCategory[]> {
+    // Get the tasks of the catalog version this review was started with
+    const versionId = await this.getCatalogVersionIdForReview(reviewId);
+    return versionId === null ? [] : this.getTasksForVersion(versionId);
+  }
+
   async createTask(task: InsertTask): Promise<Task> {
     const id = this.taskIdCounter++;
-    const newTask: Task = { ...task, id };
+    const siblings = Array.from(this.tasks.values()).filter(
+      (existing) => existing.cujId === task.cujId
+    );
+    const newTask: Task = {
+      id,
+      cujId: task.cujId,
+      name: task.name,
+      prerequisites: task.prerequisites ?? null,
+      expectedOutcome: task.expectedOutcome,
+      cujDatabaseVersionId: task.cujDatabaseVersionId ?? null,
+      sortOrder: task.sortOrder ?? this.nextSortOrder(siblings)
+    };
     this.tasks.set(id, newTask);
     return newTask;
   }
 
+  async updateTask(id: number, task: Partial<InsertTask>): Promise<Task> {
+    const existing = this.tasks.get(id);
+    if (!existing) throw new Error(`Task with id ${id} not found`);
+
+    const updatedTask: Task = {
+      ...existing,
+      cujId: task.cujId ?? existing.cujId,
+      name: task.name ?? existing.name,
+      prerequisites: task.prerequisites !== undefined ? task.prerequisites : existing.prerequisites,
+      expectedOutcome: task.expectedOutcome ?? existing.expectedOutcome,
+      sortOrder: task.sortOrder ?? existing.sortOrder
+    };
+    this.tasks.set(id, updatedTask);
+    return updatedTask;
+  }
+
+  async deleteTask(id: number): Promise<boolean> {
+    return this.tasks.delete(id);
+  }
+
+  async reorderTasks(orderedIds: number[]): Promise<void> {
+    orderedIds.forEach((id, index) => {
+      const task = this.tasks.get(id);
+      if (task) this.tasks.set(id, { ...task, sortOrder: index });
+    });
+  }
+
+  // Catalog items are listed by sortOrder; items that were never reordered keep creation order
+  private sortCatalogItems<T extends { id: number; sortOrder: number }>(items: T[]): T[] {
+    return items.sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+
+  private nextSortOrder(siblings: Array<{ sortOrder: number }>): number {
+    return siblings.reduce((max, sibling) => Math.max(max, sibling.sortOrder + 1), 0);
+  }
+
   // Car methods
   async getCar(id: number): Promise<Car | undefined> {
     return this.cars.get(id);
@@ -760,10 +1226,21 @@ export class MemStorage implements IStorage {
 
     if (!car || !reviewer) return undefined;
 
+    const participants = [reviewer];
+    for (const participant of Array.from(this.reviewParticipants.values())) {
+      if (participant.reviewId !== id || participant.userId === reviewer.id) continue;
+      const user = await this.getUser(participant.userId);
+      if (user) {
+        participants.push(user);
+      }
+    }
+
     return {
       ...review,
       car,
-      reviewer
+      reviewer,
+      participants,
+      categoryOwners: await this.getReviewCategoryOwners(id)
     };
   }
 
@@ -772,15 +1249,9 @@ export class MemStorage implements IStorage {
     const detailedReviews: ReviewWithDetails[] = [];
 
     for (const review of reviews) {
-      const car = await this.getCar(review.carId);
-      const reviewer = await this.getUser(review.reviewerId);
-
-      if (car && reviewer) {
-        detailedReviews.push({
-          ...review,
-          car,
-          reviewer
-        });
+      const detailedReview = await this.getReview(review.id);
+      if (detailedReview) {
+        detailedReviews.push(detailedReview);
       }
     }
 
@@ -788,22 +1259,21 @@ export class MemStorage implements IStorage {
   }
 
   async getReviewsByReviewer(reviewerId: number): Promise<ReviewWithDetails[]> {
+    const participatingReviewIds = new Set(
+      Array.from(this.reviewParticipants.values())
+        .filter((participant) => participant.userId === reviewerId)
+        .map((participant) => participant.reviewId)
+    );
     const reviews = Array.from(this.reviews.values()).filter(
-      (review) => review.reviewerId === reviewerId
+      (review) => review.reviewerId === reviewerId || participatingReviewIds.has(review.id)
     );
 
     const detailedReviews: ReviewWithDetails[] = [];
 
     for (const review of reviews) {
-      const car = await this.getCar(review.carId);
-      const reviewer = await this.getUser(review.reviewerId);
-
-      if (car && reviewer) {
-        detailedReviews.push({
-          ...review,
-          car,
-          reviewer
-        });
+      const detailedReview = await this.getReview(review.id);
+      if (detailedReview) {
+        detailedReviews.push(detailedReview);
       }
     }
 
@@ -823,7 +1293,8 @@ export class MemStorage implements IStorage {
       createdAt: now,
       updatedAt: now,
       // Set the cujDatabaseVersionId if an active version exists
-      cujDatabaseVersionId: activeVersion?.id || null
+      cujDatabaseVersionId: activeVersion?.id || null,
+      previousReviewId: review.previousReviewId ?? null
     };
 
     this.reviews.set(id, newReview);
@@ -846,7 +1317,7 @@ export class MemStorage implements IStorage {
     return updatedReview;
   }
 
-  async updateReview(id: number, lastModifiedById: number, data: { status?: string, isPublished?: boolean }): Promise<Review> {
+  async updateReview(id: number, lastModifiedById: number, data: { status?: string, isPublished?: boolean, scoringConfigId?: number }): Promise<Review> {
     const review = this.reviews.get(id);
     if (!review) {
       throw new Error('Review not found');
@@ -868,6 +1339,85 @@ export class MemStorage implements IStorage {
     return updatedReview;
   }
 
+  async setReviewReviewer(id: number, reviewerId: number, lastModifiedById: number): Promise<Review> {
+    const review = this.reviews.get(id);
+    if (!review) {
+      throw new Error('Review not found');
+    }
+
+    const updatedReview: Review = {
+      ...review,
+      reviewerId,
+      lastModifiedBy: lastModifiedById,
+      lastModifiedAt: new Date()
+    };
+
+    this.reviews.set(id, updatedReview);
+    return updatedReview;
+  }
+
+  // Review Participant methods
+  async addReviewParticipant(participant: InsertReviewParticipant): Promise<ReviewParticipant> {
+    const existing = Array.from(this.reviewParticipants.values()).find(
+      (p) => p.reviewId === participant.reviewId && p.userId === participant.userId
+    );
+    if (existing) return existing;
+
+    const id = this.reviewParticipantIdCounter++;
+    const newParticipant: ReviewParticipant = { ...participant, id, createdAt: new Date() };
+    this.reviewParticipants.set(id, newParticipant);
+    return newParticipant;
+  }
+
+  async removeReviewParticipant(reviewId: number, userId: number): Promise<boolean> {
+    let removed = false;
+    for (const [id, participant] of Array.from(this.reviewParticipants.entries())) {
+      if (participant.reviewId === reviewId && participant.userId === userId) {
+        this.reviewParticipants.delete(id);
+        removed = true;
+      }
+    }
+
+    // A former participant no longer owns any categories of the review
+    for (const [id, owner] of Array.from(this.reviewCategoryOwners.entries())) {
+      if (owner.reviewId === reviewId && owner.userId === userId) {
+        this.reviewCategoryOwners.delete(id);
+      }
+    }
+
+    return removed;
+  }
+
+  async getReviewCategoryOwners(reviewId: number): Promise<ReviewCategoryOwner[]> {
+    return Array.from(this.reviewCategoryOwners.values()).filter((owner) => owner.reviewId === reviewId);
+  }
+
+  async setReviewCategoryOwner(owner: InsertReviewCategoryOwner): Promise<ReviewCategoryOwner> {
+    const existing = Array.from(this.reviewCategoryOwners.values()).find(
+      (o) => o.reviewId === owner.reviewId && o.categoryId === owner.categoryId
+    );
+    if (existing) {
+      const updatedOwner: ReviewCategoryOwner = { ...existing, userId: owner.userId };
+      this.reviewCategoryOwners.set(existing.id, updatedOwner);
+      return updatedOwner;
+    }
+
+    const id = this.reviewCategoryOwnerIdCounter++;
+    const newOwner: ReviewCategoryOwner = { ...owner, id, createdAt: new Date() };
+    this.reviewCategoryOwners.set(id, newOwner);
+    return newOwner;
+  }
+
+  async removeReviewCategoryOwner(reviewId: number, categoryId: number): Promise<boolean> {
+    const existing = Array.from(this.reviewCategoryOwners.values()).find(
+      (owner) => owner.reviewId === reviewId && owner.categoryId === categoryId
+    );
+    if (!existing) return false;
+
+    this.reviewCategoryOwners.delete(existing.id);
+    return true;
+  }
+
   // Task Evaluation methods
   private getTaskEvaluationKey(reviewId: number, taskId: number): string {
     return `${reviewId}-${taskId}`;
@@ -916,6 +1466,9 @@ export class MemStorage implements IStorage {
 
     const newEvaluation: TaskEvaluation = {
       ...evaluation,
+      notApplicable: evaluation.notApplicable ?? false,
+      notApplicableReason: evaluation.notApplicableReason ?? null,
+      ratings: evaluation.ratings ?? [],
       id,
       createdAt: now,
       updatedAt: now
@@ -946,13 +1499,28 @@ export class MemStorage implements IStorage {
   }
 
   async getCompletedTaskIds(reviewId: number): Promise<number[]> {
-    // Get all task evaluations for this review
+    // Get the task evaluations for this review that belong to its catalog version
+    const reviewTaskIds = new Set((await this.getTasksForReview(reviewId)).map(task => task.id));
     const evaluations = Array.from(this.taskEvaluations.values())
-      .filter(evaluation => evaluation.reviewId === reviewId);
+      .filter(evaluation => evaluation.reviewId === reviewId && reviewTaskIds.has(evaluation.taskId));
 
-    // Only count tasks as completed if they have been properly submitted
-    // Map to just the task IDs
-    return evaluations.map(evaluation => evaluation.taskId);
+    // Only count tasks as completed if they have been properly submitted, and leave out
+    // tasks that don't apply to the car
+    return evaluations
+      .filter(evaluation => !evaluation.notApplicable)
+      .map(evaluation => evaluation.taskId);
+  }
+
+  async getNotApplicableTaskIds(reviewId: number): Promise<number[]> {
+    const reviewTaskIds = new Set((await this.getTasksForReview(reviewId)).map(task => task.id));
+    return Array.from(this.taskEvaluations.values())
+      .filter(evaluation => evaluation.reviewId === reviewId && reviewTaskIds.has(evaluation.taskId) && evaluation.notApplicable)
+      .map(evaluation => evaluation.taskId);
+  }
+
+  async countTaskEvaluationsForTasks(taskIds: number[]): Promise<number> {
+    const ids = new Set(taskIds);
+    return Array.from(this.taskEvaluations.values()).filter(evaluation => ids.has(evaluation.taskId)).length;
   }
 
   // Category Evaluation methods
@@ -991,6 +1559,7 @@ export class MemStorage implements IStorage {
 
     const newEvaluation: CategoryEvaluation = {
       ...evaluation,
+      ratings: evaluation.ratings ?? [],
       id,
       createdAt: now,
       updatedAt: now
@@ -1020,38 +1589,122 @@ export class MemStorage implements IStorage {
     return updatedEval;
   }
 
+  async countCategoryEvaluationsForCategory(categoryId: number): Promise<number> {
+    return Array.from(this.categoryEvaluations.values())
+      .filter(evaluation => evaluation.categoryId === categoryId).length;
+  }
+
   // Scoring Config methods
   async getScoringConfig(): Promise<ScoringConfig> {
-    return this.scoringConfig;
+    return (await this.getScoringConfigHistory())[0];
   }
 
-  async updateTaskScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
-    // Update only the task level weights
-    this.scoringConfig = {
-      ...this.scoringConfig,
-      ...(config.taskDoableWeight !== undefined && { taskDoableWeight: config.taskDoableWeight }),
-      ...(config.taskUsabilityWeight !== undefined && { taskUsabilityWeight: config.taskUsabilityWeight }),
-      ...(config.taskVisualsWeight !== undefined && { taskVisualsWeight: config.taskVisualsWeight }),
+  async getScoringConfigVersion(id: number): Promise<ScoringConfig | undefined> {
+    return this.scoringConfigs.get(id);
+  }
+
+  async getScoringConfigHistory(): Promise<ScoringConfig[]> {
+    return Array.from(this.scoringConfigs.values()).sort((a, b) => b.version - a.version);
+  }
+
+  async createScoringConfigVersion(config: InsertScoringConfig): Promise<ScoringConfig> {
+    const current = await this.getScoringConfig();
+    const id = this.scoringConfigIdCounter++;
+
+    // Weights left out of the new version are carried over from the current one
+    const newConfig: ScoringConfig = {
+      id,
+      version: current.version + 1,
+      changeNote: config.changeNote ?? null,
+      taskDoableWeight: config.taskDoableWeight ?? current.taskDoableWeight,
+      taskUsabilityWeight: config.taskUsabilityWeight ?? current.taskUsabilityWeight,
+      taskVisualsWeight: config.taskVisualsWeight ?? current.taskVisualsWeight,
+      categoryTasksWeight: config.categoryTasksWeight ?? current.categoryTasksWeight,
+      categoryResponsivenessWeight: config.categoryResponsivenessWeight ?? current.categoryResponsivenessWeight,
+      categoryWritingWeight: config.categoryWritingWeight ?? current.categoryWritingWeight,
+      categoryEmotionalWeight: config.categoryEmotionalWeight ?? current.categoryEmotionalWeight,
+      categoryOverrides: config.categoryOverrides ?? current.categoryOverrides,
+      benchmarkCohort: config.benchmarkCohort ?? current.benchmarkCohort,
       updatedAt: new Date().toISOString(),
-      updatedBy: config.updatedBy || this.scoringConfig.updatedBy
+      updatedBy: config.updatedBy ?? null
     };
 
-    return this.scoringConfig;
+    this.scoringConfigs.set(id, newConfig);
+    return newConfig;
+  }
+
+  async updateTaskScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
+    return this.createScoringConfigVersion({
+      taskDoableWeight: config.taskDoableWeight,
+      taskUsabilityWeight: config.taskUsabilityWeight,
+      taskVisualsWeight: config.taskVisualsWeight,
+      changeNote: config.changeNote,
+      updatedBy: config.updatedBy
+    });
   }
 
   async updateCategoryScoringConfig(config: Partial<ScoringConfig>): Promise<ScoringConfig> {
-    // Update only the category level weights
-    this.scoringConfig = {
-      ...this.scoringConfig,
-      ...(config.categoryTasksWeight !== undefined && { categoryTasksWeight: config.categoryTasksWeight }),
-      ...(config.categoryResponsivenessWeight !== undefined && { categoryResponsivenessWeight: config.categoryResponsivenessWeight }),
-      ...(config.categoryWritingWeight !== undefined && { categoryWritingWeight: config.categoryWritingWeight }),
-      ...(config.categoryEmotionalWeight !== undefined && { categoryEmotionalWeight: config.categoryEmotionalWeight }),
-      updatedAt: new Date().toISOString(),
-      updatedBy: config.updatedBy || this.scoringConfig.updatedBy
+    return this.createScoringConfigVersion({
+      categoryTasksWeight: config.categoryTasksWeight,
+      categoryResponsivenessWeight: config.categoryResponsivenessWeight,
+      categoryWritingWeight: config.categoryWritingWeight,
+      categoryEmotionalWeight: config.categoryEmotionalWeight,
+      changeNote: config.changeNote,
+      updatedBy: config.updatedBy
+    });
+  }
+
+
+  // Evaluation Dimension methods
+  async getEvaluationDimensions(): Promise<EvaluationDimension[]> {
+    return Array.from(this.evaluationDimensions.values()).sort((a, b) => a.id - b.id);
+  }
+
+  async getEvaluationDimension(id: number): Promise<EvaluationDimension | undefined> {
+    return this.evaluationDimensions.get(id);
+  }
+
+  async createEvaluationDimension(dimension: InsertEvaluationDimension): Promise<EvaluationDimension> {
+    const id = this.evaluationDimensionIdCounter++;
+    const now = new Date();
+
+    const newDimension: EvaluationDimension = {
+      ...dimension,
+      id,
+      key: dimension.key ?? null,
+      description: dimension.description ?? null,
+      feedbackThreshold: dimension.feedbackThreshold ?? null,
+      createdBy: dimension.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now
     };
 
-    return this.scoringConfig;
+    this.evaluationDimensions.set(id, newDimension);
+    return newDimension;
+  }
+
+  async updateEvaluationDimension(id: number, dimension: Partial<InsertEvaluationDimension>): Promise<EvaluationDimension> {
+    const existing = this.evaluationDimensions.get(id);
+    if (!existing) {
+      throw new Error("Evaluation dimension not found");
+    }
+
+    const updatedDimension: EvaluationDimension = {
+      ...existing,
+      ...dimension,
+      id,
+      updatedAt: new Date()
+    };
+
+    this.evaluationDimensions.set(id, updatedDimension);
+    return updatedDimension;
+  }
+
+  async countRatingsForDimension(dimension: EvaluationDimension): Promise<number> {
+    const evaluations: Array<TaskEvaluation | CategoryEvaluation> = dimension.level === "task"
+      ? Array.from(this.taskEvaluations.values())
+      : Array.from(this.categoryEvaluations.values());
+    return evaluations.filter(evaluation => hasDimensionRating(evaluation, dimension)).length;
   }
 
   // Report methods
@@ -1062,78 +1715,41 @@ export class MemStorage implements IStorage {
     const reviewDetail = await this.getReview(report.reviewId);
     if (!reviewDetail) return undefined;
 
-    // Calculate category scores
-    const config = await this.getScoringConfig();
+    // Calculate category scores for each category of the review's catalog version
+    const categories = await this.getCategoriesForReview(report.reviewId);
     const categoryEvaluations = await this.getCategoryEvaluationsForReview(report.reviewId);
-    const taskEvaluations = await this.getTaskEvaluationsForReview(report.reviewId);
-
-    // Group task evaluations by category
-    const tasksByCategoryId = new Map<number, TaskEvaluationWithTask[]>();
-
-    for (const taskEval of taskEvaluations) {
-      const categoryId = taskEval.task.cuj.category.id;
-      if (!tasksByCategoryId.has(categoryId)) {
-        tasksByCategoryId.set(categoryId, []);
-      }
-      tasksByCategoryId.get(categoryId)?.push(taskEval);
-    }
-
-    // Calculate scores for each category
-    const categoryScores = [];
-    const categories = await this.getAllCujCategories();
+    const breakdown = calculateScoreBreakdown(
+      await this.getScoringConfig(),
+      categories,
+      await this.getTasksForReview(report.reviewId),
+      await this.getTaskEvaluationsForReview(report.reviewId),
+      categoryEvaluations,
+      await this.getEvaluationDimensions()
+    );
 
-    for (const category of categories) {
+    const categoryScores = categories.map((category, index) => {
+      const categoryBreakdown = breakdown.categories[index];
       const categoryEval = categoryEvaluations.find(evaluation => evaluation.categoryId === category.id);
-      const taskEvals = tasksByCategoryId.get(category.id) || [];
-
-      // Calculate average task score for this category
-      let taskAvgScore = 0;
-      let taskCount = 0;
-
-      for (const taskEval of taskEvals) {
-        const taskScore = calculateTaskScore(
-          taskEval,
-          {
-            doable: config.taskDoableWeight,
-            usability: config.taskUsabilityWeight,
-            visuals: config.taskVisualsWeight
-          }
-        );
+      const categoryOwner = reviewDetail.categoryOwners.find((owner) => owner.categoryId === category.id);
 
-        if (taskScore !== null) {
-          taskAvgScore += taskScore;
-          taskCount++;
-        }
-      }
-
-      taskAvgScore = taskCount > 0 ? taskAvgScore / taskCount : 0;
-
-      // Calculate overall category score
-      const categoryScore = calculateCategoryScore(
-        taskCount > 0 ? taskAvgScore : null,
-        categoryEval || null,
-        {
-          tasks: config.categoryTasksWeight,
-          responsiveness: config.categoryResponsivenessWeight,
-          writing: config.categoryWritingWeight,
-          emotional: config.categoryEmotionalWeight
-        }
-      );
-
-      categoryScores.push({
+      return {
         category,
-        score: categoryScore || 0,
-        taskScore: taskAvgScore,
+        owner: reviewDetail.participants.find((participant) => participant.id === categoryOwner?.userId) || null,
+        score: categoryBreakdown.score || 0,
+        taskScore: categoryBreakdown.taskScore || 0,
         responsivenessScore: categoryEval?.responsivenessScore || 0,
         writingScore: categoryEval?.writingScore || 0,
-        emotionalScore: categoryEval?.emotionalScore || 0
-      });
-    }
+        emotionalScore: categoryEval?.emotionalScore || 0,
+        cujScores: categoryBreakdown.cujs.map(({ tasks, ...cujScore }) => cujScore)
+      };
+    });
 
     return {
       ...report,
       review: reviewDetail,
-      categoryScores
+      categoryScores,
+      currentOverallScore: breakdown.overallScore,
+      notApplicableTasks: listNotApplicableTasks(breakdown)
     };
   }
 
@@ -1251,20 +1867,19 @@ export class MemStorage implements IStorage {
     return this.cujSyncData;
   }
 
-  async syncCujData(spreadsheetData?: any): Promise<{ success: boolean, message: string, versionId?: number }> {
-    // In a real implementation, this would parse the spreadsheet data
-    // and create a new CUJ database version with the imported data
-
-    // For now, we'll create a new version to simulate the import
-    const versionName = `v${this.cujDatabaseVersionIdCounter}`;
+  async syncCujData(data: CujImportData): Promise<CujSyncResult> {
+    // Imported catalogs start inactive so they can be reviewed before set-active
+    const versionNumber = nextCujVersionNumber(Array.from(this.cujDatabaseVersions.values()));
     const newVersion = await this.createCujDatabaseVersion({
-      versionNumber: versionName,
+      versionNumber,
       sourceType: "spreadsheet",
-      sourceFileName: "sample-cuj-data.xlsx",
-      isActive: true,
-      createdBy: 1 // Admin user ID
+      sourceFileName: data.sourceFileName,
+      isActive: false,
+      createdBy: data.createdBy
     });
 
+    const counts = await materializeCujCatalog(this, newVersion.id, data.rows);
+
     this.cujSyncData = {
       lastSync: new Date().toISOString(),
       status: "up_to_date"
@@ -1272,7 +1887,7 @@ export class MemStorage implements IStorage {
 
     return {
       success: true,
-      message: `CUJ database synchronized successfully. Created version: ${versionName}`,
+      message: `Imported ${counts.categories} categories, ${counts.cujs} CUJs and ${counts.tasks} tasks into version ${versionNumber}`,
       versionId: newVersion.id
     };
   }
@@ -1434,6 +2049,22 @@ export class MemStorage implements IStorage {
     return newAssignment;
   }
 
+  async setReviewerAssignmentReviewer(id: number, reviewerId: number): Promise<ReviewerAssignment> {
+    const existing = this.reviewerAssignments.get(id);
+    if (!existing) {
+      throw new Error("Reviewer assignment not found");
+    }
+
+    const updatedAssignment: ReviewerAssignment = {
+      ...existing,
+      reviewerId,
+      updatedAt: new Date()
+    };
+
+    this.reviewerAssignments.set(id, updatedAssignment);
+    return updatedAssignment;
+  }
+
   async deleteReviewerAssignment(id: number): Promise<boolean> {
     const exists = this.reviewerAssignments.has(id);
     if (exists) {
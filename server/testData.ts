@@ -1,5 +1,6 @@
+import bcrypt from 'bcrypt';
 import { MemStorage } from './memStorage';
-import type { Cuj, CujCategory, Task, Car, User, Review, InsertTaskEvaluation, InsertCategoryEvaluation } from '../shared/schema';
+import type { Cuj, CujCategory, CujDatabaseVersion, Task, Car, User, Review, InsertTaskEvaluation, InsertCategoryEvaluation } from '../shared/schema';
 
 /**
  * Initializes a new MemStorage instance with test data based on the provided table
@@ -18,6 +19,7 @@ export function createTestStorage(): MemStorage {
   storage.taskEvaluations = new Map();
   storage.categoryEvaluations = new Map();
   storage.reports = new Map();
+  storage.cujDatabaseVersions = new Map();
   
   // Reset counters
   storage.userIdCounter = 1;
@@ -26,14 +28,17 @@ export function createTestStorage(): MemStorage {
   storage.taskIdCounter = 1;
   storage.carIdCounter = 1;
   storage.reviewIdCounter = 1;
-  
-  // Create users
-  const admin: User = { id: storage.userIdCounter++, username: "admin", password: "admin123", name: "Admin User", role: "admin" };
-  const reviewer: User = { id: storage.userIdCounter++, username: "reviewer", password: "review123", name: "Test Reviewer", role: "reviewer" };
-  const tony: User = { id: storage.userIdCounter++, username: "tony", password: "password123", name: "Tony", role: "reviewer" };
-  const victor: User = { id: storage.userIdCounter++, username: "victor", password: "password123", name: "Victor", role: "reviewer" };
-  const internal: User = { id: storage.userIdCounter++, username: "internal", password: "internal123", name: "Internal Stakeholder", role: "internal" };
-  const external: User = { id: storage.userIdCounter++, username: "external", password: "external123", name: "External Viewer", role: "external" };
+  storage.cujDatabaseVersionIdCounter = 1;
+  
+  // Create users. Their passwords are only for development and tests, so a low hashing cost keeps
+  // creating test storages fast
+  const hash = (password: string) => bcrypt.hashSync(password, 4);
+  const admin: User = { id: storage.userIdCounter++, username: "admin", password: hash("admin123"), name: "Admin User", role: "admin", oidcSubject: null, deactivatedAt: null };
+  const reviewer: User = { id: storage.userIdCounter++, username: "reviewer", password: hash("review123"), name: "Test Reviewer", role: "reviewer", oidcSubject: null, deactivatedAt: null };
+  const tony: User = { id: storage.userIdCounter++, username: "tony", password: hash("password123"), name: "Tony", role: "reviewer", oidcSubject: null, deactivatedAt: null };
+  const victor: User = { id: storage.userIdCounter++, username: "victor", password: hash("password123"), name: "Victor", role: "reviewer", oidcSubject: null, deactivatedAt: null };
+  const internal: User = { id: storage.userIdCounter++, username: "internal", password: hash("internal123"), name: "Internal Stakeholder", role: "internal", oidcSubject: null, deactivatedAt: null };
+  const external: User = { id: storage.userIdCounter++, username: "external", password: hash("external123"), name: "External Viewer", role: "external", oidcSubject: null, deactivatedAt: null };
   
   storage.users.set(admin.id, admin);
   storage.users.set(reviewer.id, reviewer);
@@ -42,33 +47,53 @@ export function createTestStorage(): MemStorage {
   storage.users.set(internal.id, internal);
   storage.users.set(external.id, external);
   
+  // Seed catalog version that the categories, CUJs and tasks below belong to
+  const catalogVersion: CujDatabaseVersion = {
+    id: storage.cujDatabaseVersionIdCounter++,
+    versionNumber: "v1.0",
+    sourceType: "system",
+    sourceFileName: null,
+    createdAt: new Date(),
+    createdBy: admin.id,
+    isActive: true
+  };
+  storage.cujDatabaseVersions.set(catalogVersion.id, catalogVersion);
+  
   // Create categories
   const navigationCategory: CujCategory = { 
     id: storage.categoryIdCounter++, 
     name: "Navigation", 
     description: "All navigation related functions", 
-    icon: "navigation" 
+    icon: "navigation",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const mediaCategory: CujCategory = { 
     id: storage.categoryIdCounter++, 
     name: "Media", 
     description: "Audio, video and entertainment functions", 
-    icon: "headphones" 
+    icon: "headphones",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const communicationCategory: CujCategory = { 
     id: storage.categoryIdCounter++, 
     name: "Communications", 
     description: "Phone, messaging and voice assistant features", 
-    icon: "phone" 
+    icon: "phone",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const generalCategory: CujCategory = { 
     id: storage.categoryIdCounter++, 
     name: "General", 
     description: "System-wide settings and features", 
-    icon: "settings" 
+    icon: "settings",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   storage.cujCategories.set(navigationCategory.id, navigationCategory);
@@ -82,35 +107,45 @@ export function createTestStorage(): MemStorage {
     id: storage.cujIdCounter++,
     categoryId: navigationCategory.id,
     name: "Destination Entry",
-    description: "Entering and navigating to destinations"
+    description: "Entering and navigating to destinations",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const navRouteCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: navigationCategory.id,
     name: "Route Management",
-    description: "Managing navigation routes and waypoints"
+    description: "Managing navigation routes and waypoints",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const navPoiCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: navigationCategory.id,
     name: "Points of Interest",
-    description: "Finding and navigating to points of interest"
+    description: "Finding and navigating to points of interest",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const navTrafficCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: navigationCategory.id,
     name: "Traffic and Route Options",
-    description: "Managing traffic updates and route preferences"
+    description: "Managing traffic updates and route preferences",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const navMapsCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: navigationCategory.id,
     name: "Maps Management",
-    description: "Managing offline maps and map display"
+    description: "Managing offline maps and map display",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   // Media CUJs
@@ -118,35 +153,45 @@ export function createTestStorage(): MemStorage {
     id: storage.cujIdCounter++,
     categoryId: mediaCategory.id,
     name: "Device Connection",
-    description: "Connecting and managing media devices"
+    description: "Connecting and managing media devices",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const mediaPlaybackCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: mediaCategory.id,
     name: "Media Playback",
-    description: "Playing and controlling media content"
+    description: "Playing and controlling media content",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const mediaRadioCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: mediaCategory.id,
     name: "Radio",
-    description: "Listening to and managing radio stations"
+    description: "Listening to and managing radio stations",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const mediaStreamingCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: mediaCategory.id,
     name: "Streaming Services",
-    description: "Accessing and controlling streaming media"
+    description: "Accessing and controlling streaming media",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const mediaRearSeatCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: mediaCategory.id,
     name: "Rear-Seat Entertainment",
-    description: "Managing rear-seat media playback"
+    description: "Managing rear-seat media playback",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   // Communications CUJs
@@ -154,21 +199,27 @@ export function createTestStorage(): MemStorage {
     id: storage.cujIdCounter++,
     categoryId: communicationCategory.id,
     name: "Phone Calls",
-    description: "Making and managing phone calls"
+    description: "Making and managing phone calls",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const commMessagesCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: communicationCategory.id,
     name: "Messaging",
-    description: "Sending and receiving text messages"
+    description: "Sending and receiving text messages",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   const commVoiceAssistantCuj: Cuj = {
     id: storage.cujIdCounter++,
     categoryId: communicationCategory.id,
     name: "Voice Assistant",
-    description: "Using voice commands and assistant features"
+    description: "Using voice commands and assistant features",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   // General CUJs
@@ -176,7 +227,9 @@ export function createTestStorage(): MemStorage {
     id: storage.cujIdCounter++,
     categoryId: generalCategory.id,
     name: "System Settings",
-    description: "Adjusting system-wide settings"
+    description: "Adjusting system-wide settings",
+    cujDatabaseVersionId: catalogVersion.id,
+    sortOrder: 0
   };
   
   // Add all CUJs to the map
@@ -197,70 +250,90 @@ export function createTestStorage(): MemStorage {
       cujId: navDestinationCuj.id,
       name: "Enter a destination using voice commands",
       prerequisites: "Vehicle is on, Infotainment system is powered on, Microphone is enabled",
-      expectedOutcome: "Navigation route is calculated and displayed on the map."
+      expectedOutcome: "Navigation route is calculated and displayed on the map.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navRouteCuj.id,
       name: "Start turn-by-turn navigation",
       prerequisites: "Destination is entered, Route is calculated",
-      expectedOutcome: "Clear and timely voice prompts and visual cues guide the driver along the route."
+      expectedOutcome: "Clear and timely voice prompts and visual cues guide the driver along the route.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navRouteCuj.id,
       name: "View alternative routes",
       prerequisites: "Navigation is active, Multiple routes are available",
-      expectedOutcome: "A list of alternative routes is displayed on the map with estimated time of arrival."
+      expectedOutcome: "A list of alternative routes is displayed on the map with estimated time of arrival.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navRouteCuj.id,
       name: "Add a waypoint to the current route",
       prerequisites: "Navigation is active",
-      expectedOutcome: "Waypoint is added to the route, and the route is recalculated."
+      expectedOutcome: "Waypoint is added to the route, and the route is recalculated.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navRouteCuj.id,
       name: "Cancel current navigation",
       prerequisites: "Navigation is active",
-      expectedOutcome: "Navigation is stopped, and the map returns to a default view."
+      expectedOutcome: "Navigation is stopped, and the map returns to a default view.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navPoiCuj.id,
       name: "Search for nearby Points of Interest (POI)",
       prerequisites: "Vehicle is on, Infotainment system is powered on",
-      expectedOutcome: "A list of nearby POIs matching the search criteria is displayed on the map."
+      expectedOutcome: "A list of nearby POIs matching the search criteria is displayed on the map.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navPoiCuj.id,
       name: "Get directions to a selected POI",
       prerequisites: "A POI is selected from the search results",
-      expectedOutcome: "Navigation route to the selected POI is calculated and displayed."
+      expectedOutcome: "Navigation route to the selected POI is calculated and displayed.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navTrafficCuj.id,
       name: "Receive and view traffic updates",
       prerequisites: "Navigation is active, Traffic data is available",
-      expectedOutcome: "Real-time traffic information is displayed on the navigation map, potentially with route adjustments."
+      expectedOutcome: "Real-time traffic information is displayed on the navigation map, potentially with route adjustments.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navTrafficCuj.id,
       name: "Avoid toll roads on the navigation route",
       prerequisites: "Navigation route is being calculated or is active",
-      expectedOutcome: "The navigation route is recalculated to avoid toll roads."
+      expectedOutcome: "The navigation route is recalculated to avoid toll roads.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: navMapsCuj.id,
       name: "Download offline maps for a specific region",
       prerequisites: "Infotainment system has storage capacity, Internet connectivity is available",
-      expectedOutcome: "Offline map data for the selected region is downloaded and stored for use without internet."
+      expectedOutcome: "Offline map data for the selected region is downloaded and stored for use without internet.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     
     // Media Tasks
@@ -269,70 +342,90 @@ export function createTestStorage(): MemStorage {
       cujId: mediaConnectionCuj.id,
       name: "Connect smartphone via Bluetooth",
       prerequisites: "Smartphone Bluetooth is enabled",
-      expectedOutcome: "Smartphone is successfully paired and audio can be streamed."
+      expectedOutcome: "Smartphone is successfully paired and audio can be streamed.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaPlaybackCuj.id,
       name: "Play music from connected smartphone",
       prerequisites: "Smartphone is connected via Bluetooth or USB, Music app is open on the phone",
-      expectedOutcome: "Audio playback from the smartphone begins through the car speakers."
+      expectedOutcome: "Audio playback from the smartphone begins through the car speakers.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaPlaybackCuj.id,
       name: "Control music playback (play, pause, skip) using steering wheel controls",
       prerequisites: "Music is playing from a connected device",
-      expectedOutcome: "Music playback is controlled according to the steering wheel button pressed."
+      expectedOutcome: "Music playback is controlled according to the steering wheel button pressed.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaPlaybackCuj.id,
       name: "Browse music library on connected USB drive",
       prerequisites: "USB drive with music files is connected",
-      expectedOutcome: "A list of folders and music files on the USB drive is displayed on the infotainment screen."
+      expectedOutcome: "A list of folders and music files on the USB drive is displayed on the infotainment screen.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaPlaybackCuj.id,
       name: "Adjust audio equalizer settings",
       prerequisites: "Audio is playing",
-      expectedOutcome: "The sound output is modified according to the adjusted equalizer settings."
+      expectedOutcome: "The sound output is modified according to the adjusted equalizer settings.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaRadioCuj.id,
       name: "Listen to FM/AM radio",
       prerequisites: "Vehicle is on, Infotainment system is powered on",
-      expectedOutcome: "Audio from the selected FM/AM radio station plays through the car speakers."
+      expectedOutcome: "Audio from the selected FM/AM radio station plays through the car speakers.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaRadioCuj.id,
       name: "Scan for available radio stations",
       prerequisites: "Radio is active",
-      expectedOutcome: "A list of available FM/AM radio stations is displayed."
+      expectedOutcome: "A list of available FM/AM radio stations is displayed.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaStreamingCuj.id,
       name: "Stream audio from a built-in music streaming service",
       prerequisites: "Vehicle has a subscription to a built-in streaming service, Internet connectivity is available",
-      expectedOutcome: "Audio playback from the selected streaming service begins."
+      expectedOutcome: "Audio playback from the selected streaming service begins.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaStreamingCuj.id,
       name: "Browse and search the catalog of the built-in streaming service",
       prerequisites: "Built-in streaming service is active",
-      expectedOutcome: "The user can explore the music library of the streaming service."
+      expectedOutcome: "The user can explore the music library of the streaming service.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: mediaRearSeatCuj.id,
       name: "Control playback of rear-seat entertainment (if available)",
       prerequisites: "Rear-seat entertainment system is active and linked to the main infotainment",
-      expectedOutcome: "Audio and/or video playback in the rear seats is controlled from the main infotainment unit."
+      expectedOutcome: "Audio and/or video playback in the rear seats is controlled from the main infotainment unit.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     
     // Communications Tasks
@@ -341,63 +434,81 @@ export function createTestStorage(): MemStorage {
       cujId: commCallsCuj.id,
       name: "Make a phone call using Bluetooth contacts",
       prerequisites: "Smartphone is connected via Bluetooth, Contacts are synced",
-      expectedOutcome: "The selected contact is called, and the call connects through the car speakers and microphone."
+      expectedOutcome: "The selected contact is called, and the call connects through the car speakers and microphone.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commCallsCuj.id,
       name: "Answer an incoming phone call",
       prerequisites: "Smartphone is connected via Bluetooth, Incoming call notification is displayed",
-      expectedOutcome: "The incoming call is answered and connected through the car speakers and microphone."
+      expectedOutcome: "The incoming call is answered and connected through the car speakers and microphone.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commCallsCuj.id,
       name: "End an ongoing phone call",
       prerequisites: "A phone call is active",
-      expectedOutcome: "The active phone call is disconnected."
+      expectedOutcome: "The active phone call is disconnected.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commCallsCuj.id,
       name: "View recent call history",
       prerequisites: "Smartphone is connected via Bluetooth (if required by the system)",
-      expectedOutcome: "A list of recent incoming, outgoing, and missed calls is displayed."
+      expectedOutcome: "A list of recent incoming, outgoing, and missed calls is displayed.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commMessagesCuj.id,
       name: "Send a pre-defined text message",
       prerequisites: "Smartphone is connected via Bluetooth (if required by the system), Pre-defined messages are configured",
-      expectedOutcome: "The selected pre-defined text message is sent."
+      expectedOutcome: "The selected pre-defined text message is sent.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commMessagesCuj.id,
       name: "Receive and view SMS messages",
       prerequisites: "Smartphone is connected via Bluetooth (if required by the system), SMS access is granted",
-      expectedOutcome: "New SMS messages are displayed on the infotainment screen."
+      expectedOutcome: "New SMS messages are displayed on the infotainment screen.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commMessagesCuj.id,
       name: "Reply to an SMS message using voice commands",
       prerequisites: "An SMS message is open, Voice commands are enabled",
-      expectedOutcome: "A reply message dictated by voice is sent."
+      expectedOutcome: "A reply message dictated by voice is sent.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commVoiceAssistantCuj.id,
       name: "Initiate a voice assistant command (e.g., 'Hey [Car Brand]')",
       prerequisites: "Vehicle is on, Infotainment system is powered on, Voice assistant is enabled",
-      expectedOutcome: "The voice assistant is activated and ready to receive voice commands."
+      expectedOutcome: "The voice assistant is activated and ready to receive voice commands.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: commVoiceAssistantCuj.id,
       name: "Ask the voice assistant to make a call",
       prerequisites: "Voice assistant is active, Contact name is provided",
-      expectedOutcome: "The voice assistant attempts to initiate a call to the specified contact."
+      expectedOutcome: "The voice assistant attempts to initiate a call to the specified contact.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     
     // General Tasks
@@ -406,21 +517,27 @@ export function createTestStorage(): MemStorage {
       cujId: generalSettingsCuj.id,
       name: "Adjust the infotainment system volume",
       prerequisites: "Infotainment system is powered on",
-      expectedOutcome: "The audio volume of the system is increased or decreased."
+      expectedOutcome: "The audio volume of the system is increased or decreased.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: generalSettingsCuj.id,
       name: "Adjust the display brightness",
       prerequisites: "Infotainment system display is active",
-      expectedOutcome: "The brightness of the infotainment screen is adjusted."
+      expectedOutcome: "The brightness of the infotainment screen is adjusted.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     },
     {
       id: storage.taskIdCounter++,
       cujId: generalSettingsCuj.id,
       name: "Navigate through the infotainment system menus",
       prerequisites: "Infotainment system is powered on",
-      expectedOutcome: "The user can access different features and settings of the system."
+      expectedOutcome: "The user can access different features and settings of the system.",
+      cujDatabaseVersionId: catalogVersion.id,
+      sortOrder: 0
     }
   ];
   
@@ -465,6 +582,9 @@ export function createTestStorage(): MemStorage {
     status: "in_progress",
     startDate: now.toISOString(),
     endDate: oneWeekLater.toISOString(),
+    cujDatabaseVersionId: catalogVersion.id,
+    scoringConfigId: null,
+    previousReviewId: null,
     createdAt: now.toISOString(),
     updatedAt: now.toISOString()
   };
@@ -476,6 +596,9 @@ export function createTestStorage(): MemStorage {
     status: "pending",
     startDate: now.toISOString(),
     endDate: oneWeekLater.toISOString(),
+    cujDatabaseVersionId: catalogVersion.id,
+    scoringConfigId: null,
+    previousReviewId: null,
     createdAt: now.toISOString(),
     updatedAt: now.toISOString()
   };
@@ -483,9 +606,11 @@ export function createTestStorage(): MemStorage {
   storage.reviews.set(review1.id, review1);
   storage.reviews.set(review2.id, review2);
   
-  // Set default scoring config
-  storage.scoringConfig = {
+  // Set default scoring config as the first version
+  storage.scoringConfigs.set(1, {
     id: 1,
+    version: 1,
+    changeNote: null,
     taskDoableWeight: 43.75,
     taskUsabilityWeight: 37.5,
     taskVisualsWeight: 18.75,
@@ -493,9 +618,11 @@ export function createTestStorage(): MemStorage {
     categoryResponsivenessWeight: 15,
     categoryWritingWeight: 5,
     categoryEmotionalWeight: 5,
+    categoryOverrides: [],
+    benchmarkCohort: "year",
     updatedAt: now.toISOString(),
     updatedBy: null
-  };
+  });
   
   storage.cujSyncData = {
     lastSync: now.toISOString(),
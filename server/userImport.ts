@@ -0,0 +1,153 @@
+import * as XLSX from 'xlsx';
+import { z } from 'zod';
+import { ImportError, User, UserImportRow, userRoles } from '../shared/schema';
+import type { IStorage } from './storage';
+import { hashPassword } from './auth';
+
+type ImportColumn = 'username' | 'name' | 'role' | 'password';
+
+// Column labels as shown to admins, plus the header spellings we accept for each.
+// Headers are compared case-insensitively with spaces and punctuation removed.
+const importColumns: Record<ImportColumn, { label: string; aliases: string[]; required: boolean }> = {
+  username: { label: 'Username', aliases: ['username', 'user', 'login', 'email'], required: true },
+  name: { label: 'Name', aliases: ['name', 'fullname', 'displayname'], required: true },
+  role: { label: 'Role', aliases: ['role'], required: false },
+  password: { label: 'Password', aliases: ['password', 'initialpassword'], required: false },
+};
+
+const importRowSchema = z.object({
+  username: z.string().min(1, 'Username is required').regex(/^\S+$/, 'Username cannot contain spaces'),
+  name: z.string().min(1, 'Name is required'),
+  role: z.enum(userRoles, { errorMap: () => ({ message: `Role must be one of ${userRoles.join(', ')}` }) }),
+  password: z.string().min(8, 'Password must be at least 8 characters').nullable(),
+});
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function cellText(value: unknown): string {
+  return value === undefined || value === null ? '' : String(value).trim();
+}
+
+/**
+ * Parses an uploaded CSV (or XLSX) of users. Rows without a role become reviewers, and rows
+ * without a password can only sign in through LDAP or single sign-on. All problems are collected
+ * so the admin can fix the file in one pass.
+ */
+export function parseUserSpreadsheet(buffer: Buffer): { rows: UserImportRow[]; errors: ImportError[] } {
+  let sheetRows: unknown[][];
+  try {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) {
+      return { rows: [], errors: [{ row: 0, column: null, message: 'The file does not contain any rows' }] };
+    }
+    sheetRows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, defval: '', raw: false, blankrows: true });
+  } catch (error) {
+    return { rows: [], errors: [{ row: 0, column: null, message: `Could not read file: ${String(error)}` }] };
+  }
+
+  const errors: ImportError[] = [];
+  const headerRow = (sheetRows[0] || []).map(cellText);
+
+  const columnIndexes: Partial<Record<ImportColumn, number>> = {};
+  headerRow.forEach((header, index) => {
+    const normalized = normalizeHeader(header);
+    for (const [column, definition] of Object.entries(importColumns) as [ImportColumn, typeof importColumns[ImportColumn]][]) {
+      if (columnIndexes[column] === undefined && definition.aliases.includes(normalized)) {
+        columnIndexes[column] = index;
+        break;
+      }
+    }
+  });
+
+  for (const [column, definition] of Object.entries(importColumns) as [ImportColumn, typeof importColumns[ImportColumn]][]) {
+    if (definition.required && columnIndexes[column] === undefined) {
+      errors.push({ row: 1, column: definition.label, message: `Missing required column "${definition.label}"` });
+    }
+  }
+  if (errors.length > 0) {
+    return { rows: [], errors };
+  }
+
+  const rows: UserImportRow[] = [];
+  const seenUsernames = new Map<string, number>();
+
+  sheetRows.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const value = (column: ImportColumn) => {
+      const columnIndex = columnIndexes[column];
+      return columnIndex === undefined ? '' : cellText(cells[columnIndex]);
+    };
+
+    if ((Object.keys(importColumns) as ImportColumn[]).every(column => value(column) === '')) {
+      return;
+    }
+
+    const parsed = importRowSchema.safeParse({
+      username: value('username'),
+      name: value('name'),
+      role: value('role').toLowerCase() || 'reviewer',
+      password: value('password') || null,
+    });
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const column = issue.path[0] as ImportColumn | undefined;
+        errors.push({
+          row: rowNumber,
+          column: column ? importColumns[column].label : null,
+          message: issue.message,
+        });
+      }
+      return;
+    }
+
+    const firstRow = seenUsernames.get(parsed.data.username);
+    if (firstRow !== undefined) {
+      errors.push({
+        row: rowNumber,
+        column: importColumns.username.label,
+        message: `Duplicate username "${parsed.data.username}" (first seen on row ${firstRow})`,
+      });
+      return;
+    }
+    seenUsernames.set(parsed.data.username, rowNumber);
+
+    rows.push({ row: rowNumber, ...parsed.data });
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, column: null, message: 'The file does not contain any users' });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Creates the users of an import in one go. Nothing is created when any username is already taken
+ * or the storage fails, so a corrected file can simply be uploaded again.
+ */
+export async function importUsers(
+  storage: IStorage,
+  rows: UserImportRow[]
+): Promise<{ created: User[]; errors: ImportError[] }> {
+  const errors: ImportError[] = [];
+  for (const row of rows) {
+    if (await storage.getUserByUsername(row.username)) {
+      errors.push({ row: row.row, column: importColumns.username.label, message: `User "${row.username}" already exists` });
+    }
+  }
+  if (errors.length > 0) {
+    return { created: [], errors };
+  }
+
+  const users = await Promise.all(rows.map(async row => ({
+    username: row.username,
+    name: row.name,
+    role: row.role,
+    password: row.password ? await hashPassword(row.password) : '',
+  })));
+  return { created: await storage.createUsers(users), errors };
+}
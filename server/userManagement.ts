@@ -0,0 +1,43 @@
+import { UserReassignmentResult } from '../shared/schema';
+import type { IStorage } from './storage';
+
+/**
+ * Hands a departing user's work to someone else: the reviews they lead or take part in that are
+ * still open, the categories they own within those reviews, and their reviewer assignments.
+ * Completed and published reviews keep their original reviewer.
+ */
+export async function reassignUserWork(
+  storage: IStorage,
+  fromUserId: number,
+  toUserId: number,
+  byUserId: number
+): Promise<UserReassignmentResult> {
+  const openReviews = (await storage.getReviewsByReviewer(fromUserId))
+    .filter(review => review.status !== 'completed' && !review.isPublished);
+
+  for (const review of openReviews) {
+    if (review.reviewerId === fromUserId) {
+      await storage.setReviewReviewer(review.id, toUserId, byUserId);
+    } else if (review.reviewerId !== toUserId) {
+      await storage.addReviewParticipant({ reviewId: review.id, userId: toUserId });
+    }
+
+    for (const owner of review.categoryOwners.filter(owner => owner.userId === fromUserId)) {
+      await storage.setReviewCategoryOwner({ reviewId: review.id, categoryId: owner.categoryId, userId: toUserId });
+    }
+    await storage.removeReviewParticipant(review.id, fromUserId);
+  }
+
+  const assignments = await storage.getReviewerAssignmentsForReviewer(fromUserId);
+  for (const assignment of assignments) {
+    // Where both were assigned the same car and category, the new reviewer's assignment is enough
+    const duplicate = await storage.getReviewerAssignmentByReviewerCarCategory(toUserId, assignment.carId, assignment.categoryId);
+    if (duplicate) {
+      await storage.deleteReviewerAssignment(assignment.id);
+    } else {
+      await storage.setReviewerAssignmentReviewer(assignment.id, toUserId);
+    }
+  }
+
+  return { reviews: openReviews.length, assignments: assignments.length };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, foreignKey, json, varchar, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, foreignKey, json, varchar, doublePrecision, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -10,6 +10,8 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
   name: text("name").notNull(),
   role: text("role").notNull().default("reviewer"), // reviewer, internal, external, admin
+  oidcSubject: text("oidc_subject").unique(), // Issuer and subject of the linked single sign-on account
+  deactivatedAt: timestamp("deactivated_at"), // Users who left keep their reviews, but can no longer sign in
 });
 
 // CUJ Database Version
@@ -36,6 +38,7 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
   name: true,
   role: true,
+  oidcSubject: true,
 });
 
 // CUJ (Critical User Journey) Categories
@@ -44,12 +47,16 @@ export const cujCategories = pgTable("cuj_categories", {
   name: text("name").notNull(),
   description: text("description"),
   icon: text("icon").default("category"),
+  cujDatabaseVersionId: integer("cuj_database_version_id").references(() => cujDatabaseVersions.id),
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 export const insertCujCategorySchema = createInsertSchema(cujCategories).pick({
   name: true,
   description: true,
   icon: true,
+  cujDatabaseVersionId: true,
+  sortOrder: true,
 });
 
 // CUJs
@@ -58,12 +65,16 @@ export const cujs = pgTable("cujs", {
   categoryId: integer("category_id").notNull().references(() => cujCategories.id),
   name: text("name").notNull(),
   description: text("description"),
+  cujDatabaseVersionId: integer("cuj_database_version_id").references(() => cujDatabaseVersions.id),
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 export const insertCujSchema = createInsertSchema(cujs).pick({
   categoryId: true,
   name: true,
   description: true,
+  cujDatabaseVersionId: true,
+  sortOrder: true,
 });
 
 // Tasks
@@ -73,6 +84,8 @@ export const tasks = pgTable("tasks", {
   name: text("name").notNull(),
   prerequisites: text("prerequisites"),
   expectedOutcome: text("expected_outcome").notNull(),
+  cujDatabaseVersionId: integer("cuj_database_version_id").references(() => cujDatabaseVersions.id),
+  sortOrder: integer("sort_order").notNull().default(0),
 });
 
 export const insertTaskSchema = createInsertSchema(tasks).pick({
@@ -80,6 +93,8 @@ export const insertTaskSchema = createInsertSchema(tasks).pick({
   name: true,
   prerequisites: true,
   expectedOutcome: true,
+  cujDatabaseVersionId: true,
+  sortOrder: true,
 });
 
 // Cars
@@ -116,6 +131,8 @@ export const reviews = pgTable("reviews", {
   createdBy: integer("created_by").references(() => users.id),
   lastModifiedBy: integer("last_modified_by").references(() => users.id),
   cujDatabaseVersionId: integer("cuj_database_version_id").references(() => cujDatabaseVersions.id),
+  scoringConfigId: integer("scoring_config_id").references(() => scoringConfig.id), // Config version the review was scored with on completion
+  previousReviewId: integer("previous_review_id").references((): AnyPgColumn => reviews.id), // Review of the previous build of the same vehicle
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastModifiedAt: timestamp("last_modified_at").defaultNow().notNull(),
 });
@@ -128,6 +145,7 @@ export const insertReviewSchema = createInsertSchema(reviews)
     startDate: true,
     endDate: true,
     cujDatabaseVersionId: true,
+    previousReviewId: true,
   })
   .transform((data) => ({
     ...data,
@@ -141,6 +159,22 @@ export const updateReviewSchema = createInsertSchema(reviews).pick({
   lastModifiedBy: true,
 });
 
+// Rating of an evaluation on an admin-defined dimension
+export type DimensionRating = {
+  dimensionId: number;
+  score: number;
+  feedback?: string | null;
+};
+
+export const dimensionRatingsSchema = z.array(z.object({
+  dimensionId: z.number().int(),
+  score: z.number().int(),
+  feedback: z.string().nullish(),
+})).refine(
+  (ratings) => new Set(ratings.map((rating) => rating.dimensionId)).size === ratings.length,
+  "Each dimension can only be rated once"
+);
+
 // Task Evaluations
 export const taskEvaluations = pgTable("task_evaluations", {
   id: serial("id").primaryKey(),
@@ -148,11 +182,15 @@ export const taskEvaluations = pgTable("task_evaluations", {
   taskId: integer("task_id").notNull().references(() => tasks.id),
   doable: boolean("doable"),
   undoableReason: text("undoable_reason"),
-  usabilityScore: integer("usability_score"), // 1-4
+  notApplicable: boolean("not_applicable").notNull().default(false), // Task doesn't exist on the car
+  notApplicableReason: text("not_applicable_reason"),
+  usabilityScore: integer("usability_score"), // On the scale of the built-in usability dimension
   usabilityFeedback: text("usability_feedback"),
-  visualsScore: integer("visuals_score"), // 1-4
+  visualsScore: integer("visuals_score"), // On the scale of the built-in visuals dimension
   visualsFeedback: text("visuals_feedback"),
+  ratings: json("ratings").default([]), // Ratings on admin-defined task dimensions (DimensionRating[])
   media: json("media").default([]), // Array of image/video URLs
+  evaluatedBy: integer("evaluated_by").references(() => users.id), // Participant who recorded the evaluation
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -162,25 +200,53 @@ export const insertTaskEvaluationSchema = createInsertSchema(taskEvaluations).pi
   taskId: true,
   doable: true,
   undoableReason: true,
+  notApplicable: true,
+  notApplicableReason: true,
   usabilityScore: true,
   usabilityFeedback: true,
   visualsScore: true,
   visualsFeedback: true,
   media: true,
+  evaluatedBy: true,
+}).extend({
+  ratings: dimensionRatingsSchema.optional(),
 });
 
+// Evaluations as submitted by participants. A task that is not applicable to the car needs a
+// reason, and its doability and ratings are dropped so it doesn't count towards any score
+export const taskEvaluationInputSchema = insertTaskEvaluationSchema
+  .refine(
+    (evaluation) => !evaluation.notApplicable || !!evaluation.notApplicableReason?.trim(),
+    { message: "A reason is required for tasks that are not applicable", path: ["notApplicableReason"] }
+  )
+  .transform((evaluation) => evaluation.notApplicable
+    ? {
+        ...evaluation,
+        notApplicableReason: evaluation.notApplicableReason!.trim(),
+        doable: null,
+        undoableReason: null,
+        usabilityScore: null,
+        usabilityFeedback: null,
+        visualsScore: null,
+        visualsFeedback: null,
+        ratings: []
+      }
+    : { ...evaluation, notApplicable: false, notApplicableReason: null });
+
 // Category Evaluations
 export const categoryEvaluations = pgTable("category_evaluations", {
   id: serial("id").primaryKey(),
   reviewId: integer("review_id").notNull().references(() => reviews.id),
   categoryId: integer("category_id").notNull().references(() => cujCategories.id),
-  responsivenessScore: integer("responsiveness_score"), // 1-4
+  responsivenessScore: integer("responsiveness_score"), // On the scales of the built-in dimensions
   responsivenessFeedback: text("responsiveness_feedback"), // Feedback for low scores
-  writingScore: integer("writing_score"), // 1-4
+  writingScore: integer("writing_score"),
   writingFeedback: text("writing_feedback"), // Feedback for low scores
-  emotionalScore: integer("emotional_score"), // 1-4 (bonus)
+  emotionalScore: integer("emotional_score"), // Bonus
   emotionalFeedback: text("emotional_feedback"), // Feedback for low scores
+  ratings: json("ratings").default([]), // Ratings on admin-defined category dimensions (DimensionRating[])
   media: json("media").default([]), // Array of image/video URLs
+  evaluatedBy: integer("evaluated_by").references(() => users.id), // Participant who recorded the evaluation
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -195,11 +261,66 @@ export const insertCategoryEvaluationSchema = createInsertSchema(categoryEvaluat
   emotionalScore: true,
   emotionalFeedback: true,
   media: true,
+  evaluatedBy: true,
+}).extend({
+  ratings: dimensionRatingsSchema.optional(),
+});
+
+// Evaluation Dimensions - what evaluations are rated on and the scale of each. Every built-in dimension
+// (usability, visuals, responsiveness, writing, emotional) has a seeded row with its key; their ratings
+// keep their evaluation columns and their weights are part of the scoring config. Admins can define more,
+// such as "Safety/Distraction", whose ratings are stored as evaluation ratings
+export const evaluationDimensions = pgTable("evaluation_dimensions", {
+  id: serial("id").primaryKey(),
+  key: text("key").unique(), // Built-in dimension the row defines, null for admin-defined ones
+  name: text("name").notNull(),
+  description: text("description"),
+  level: text("level").notNull(), // task or category
+  scaleMin: integer("scale_min").notNull().default(1),
+  scaleMax: integer("scale_max").notNull().default(4),
+  labels: json("labels").default([]), // Label and description of the points of the scale
+  feedbackThreshold: integer("feedback_threshold"), // Feedback is required for ratings at or below this
+  weight: doublePrecision("weight").notNull().default(0), // Added on top of the built-in weights of its level, unused for built-ins
+  isActive: boolean("is_active").notNull().default(true), // Retired dimensions keep their ratings but no longer count
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Review Participants - reviewers taking part in a review next to its lead reviewer (reviews.reviewerId)
+export const reviewParticipants = pgTable("review_participants", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReviewParticipantSchema = createInsertSchema(reviewParticipants).pick({
+  reviewId: true,
+  userId: true,
+});
+
+// Review Category Owners - the participant responsible for evaluating a category within a review
+export const reviewCategoryOwners = pgTable("review_category_owners", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id),
+  categoryId: integer("category_id").notNull().references(() => cujCategories.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertReviewCategoryOwnerSchema = createInsertSchema(reviewCategoryOwners).pick({
+  reviewId: true,
+  categoryId: true,
+  userId: true,
 });
 
 // Scoring Configuration
+// Every change creates a new version; the highest version is the current config
 export const scoringConfig = pgTable("scoring_config", {
   id: serial("id").primaryKey(),
+  version: integer("version").notNull().default(1),
+  changeNote: text("change_note"),
   // Task level weights
   taskDoableWeight: doublePrecision("task_doable_weight").notNull().default(43.75),
   taskUsabilityWeight: doublePrecision("task_usability_weight").notNull().default(37.5),
@@ -209,6 +330,10 @@ export const scoringConfig = pgTable("scoring_config", {
   categoryResponsivenessWeight: doublePrecision("category_responsiveness_weight").notNull().default(15),
   categoryWritingWeight: doublePrecision("category_writing_weight").notNull().default(5),
   categoryEmotionalWeight: doublePrecision("category_emotional_weight").notNull().default(5),
+  // Per-category overrides of the weights above, matched by category name across catalog versions
+  categoryOverrides: json("category_overrides").default([]),
+  // Published reviews are ranked against those of cars sharing this attribute (see benchmarkCohorts)
+  benchmarkCohort: text("benchmark_cohort").notNull().default("year"),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
   updatedBy: integer("updated_by").references(() => users.id),
 });
@@ -221,6 +346,9 @@ export const insertScoringConfigSchema = createInsertSchema(scoringConfig).pick(
   categoryResponsivenessWeight: true,
   categoryWritingWeight: true,
   categoryEmotionalWeight: true,
+  categoryOverrides: true,
+  benchmarkCohort: true,
+  changeNote: true,
   updatedBy: true,
 });
 
@@ -232,8 +360,11 @@ export const reports = pgTable("reports", {
   topLikes: text("top_likes"),
   topHates: text("top_hates"),
   benchmarkRank: integer("benchmark_rank"),
-  benchmarkComparison: text("benchmark_comparison"), // better, worse
+  benchmarkComparison: text("benchmark_comparison"), // better, worse or comparable, against the rest of its benchmark cohort
   topIssues: json("top_issues").default([]),
+  scoringConfigId: integer("scoring_config_id").references(() => scoringConfig.id), // Config version the overall score was calculated with
+  scoreSnapshot: json("score_snapshot"), // Score breakdown and scoring config frozen when the review was published
+  publishedAt: timestamp("published_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -246,14 +377,20 @@ export const insertReportSchema = createInsertSchema(reports).pick({
   benchmarkRank: true,
   benchmarkComparison: true,
   topIssues: true,
+  scoringConfigId: true,
+  scoreSnapshot: true,
+  publishedAt: true,
 });
 
 // Types
 export interface User {
   id: number;
-  username: string; // This will be the LDAP identifier
+  username: string; // Local or directory username
+  password: string; // bcrypt hash, empty for users provisioned from LDAP or single sign-on
   name: string;
   role: string;
+  oidcSubject: string | null;
+  deactivatedAt: Date | null;
 }
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
@@ -273,6 +410,8 @@ export interface CujCategory {
   name: string;
   description: string | null;
   icon: string | null;
+  cujDatabaseVersionId: number | null;
+  sortOrder: number;
 }
 export type InsertCujCategory = z.infer<typeof insertCujCategorySchema>;
 
@@ -281,6 +420,8 @@ export interface Cuj {
   categoryId: number;
   name: string;
   description: string | null;
+  cujDatabaseVersionId: number | null;
+  sortOrder: number;
 }
 export type InsertCuj = z.infer<typeof insertCujSchema>;
 
@@ -290,6 +431,8 @@ export interface Task {
   name: string;
   prerequisites: string | null;
   expectedOutcome: string;
+  cujDatabaseVersionId: number | null;
+  sortOrder: number;
 }
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 
@@ -316,6 +459,8 @@ export interface Review {
   createdBy: number | null;
   lastModifiedBy: number | null;
   cujDatabaseVersionId: number | null;
+  scoringConfigId: number | null;
+  previousReviewId: number | null;
   createdAt: Date;
   lastModifiedAt: Date;
 }
@@ -327,11 +472,15 @@ export interface TaskEvaluation {
   taskId: number;
   doable: boolean | null;
   undoableReason: string | null;
+  notApplicable: boolean;
+  notApplicableReason: string | null;
   usabilityScore: number | null;
   usabilityFeedback: string | null;
   visualsScore: number | null;
   visualsFeedback: string | null;
+  ratings: DimensionRating[];
   media: any[];
+  evaluatedBy: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -347,14 +496,101 @@ export interface CategoryEvaluation {
   writingFeedback: string | null;
   emotionalScore: number | null;
   emotionalFeedback: string | null;
+  ratings: DimensionRating[];
   media: any[];
+  evaluatedBy: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
 export type InsertCategoryEvaluation = z.infer<typeof insertCategoryEvaluationSchema>;
 
+export const evaluationDimensionLevels = ["task", "category"] as const;
+export type EvaluationDimensionLevel = typeof evaluationDimensionLevels[number];
+
+// Largest scale a dimension can be rated on, e.g. 0-10
+const MAX_DIMENSION_SCALE = 10;
+
+export type DimensionScaleLabel = {
+  value: number;
+  label: string;
+  description: string;
+};
+
+// Dimensions every evaluation is rated on, in the order the evaluation forms ask for them
+export const builtInDimensionKeys = ["usability", "visuals", "responsiveness", "writing", "emotional"] as const;
+export type BuiltInDimensionKey = typeof builtInDimensionKeys[number];
+
+export interface EvaluationDimension {
+  id: number;
+  key: BuiltInDimensionKey | null;
+  name: string;
+  description: string | null;
+  level: EvaluationDimensionLevel;
+  scaleMin: number;
+  scaleMax: number;
+  labels: DimensionScaleLabel[];
+  feedbackThreshold: number | null;
+  weight: number;
+  isActive: boolean;
+  createdBy: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export const evaluationDimensionSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  description: z.string().trim().nullish(),
+  level: z.enum(evaluationDimensionLevels),
+  scaleMin: z.number().int().min(0, "The scale can't start below 0"),
+  scaleMax: z.number().int().max(MAX_DIMENSION_SCALE, `The scale can't go above ${MAX_DIMENSION_SCALE}`),
+  labels: z.array(z.object({
+    value: z.number().int(),
+    label: z.string().trim().min(1, "Every label needs a name"),
+    description: z.string().trim().default(""),
+  })).default([]),
+  feedbackThreshold: z.number().int().nullish(),
+  weight: z.number().min(0, "Weight can't be negative").max(100, "Weight can't be more than 100%"),
+  isActive: z.boolean().default(true),
+}).superRefine((dimension, ctx) => {
+  if (dimension.scaleMin >= dimension.scaleMax) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["scaleMax"], message: "The scale must end above where it starts" });
+    return;
+  }
+  const inScale = (value: number) => value >= dimension.scaleMin && value <= dimension.scaleMax;
+  const values = dimension.labels.map((label) => label.value);
+  if (values.some((value) => !inScale(value)) || new Set(values).size !== values.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["labels"], message: "Labels must be for distinct points of the scale" });
+  }
+  if (dimension.feedbackThreshold != null && !inScale(dimension.feedbackThreshold)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["feedbackThreshold"], message: "The feedback threshold must be on the scale" });
+  }
+});
+export type InsertEvaluationDimension = z.infer<typeof evaluationDimensionSchema> & {
+  key?: BuiltInDimensionKey | null;
+  createdBy?: number | null;
+};
+
+export interface ReviewParticipant {
+  id: number;
+  reviewId: number;
+  userId: number;
+  createdAt: Date;
+}
+export type InsertReviewParticipant = z.infer<typeof insertReviewParticipantSchema>;
+
+export interface ReviewCategoryOwner {
+  id: number;
+  reviewId: number;
+  categoryId: number;
+  userId: number;
+  createdAt: Date;
+}
+export type InsertReviewCategoryOwner = z.infer<typeof insertReviewCategoryOwnerSchema>;
+
 export interface ScoringConfig {
   id: number;
+  version: number;
+  changeNote: string | null;
   taskDoableWeight: number;
   taskUsabilityWeight: number;
   taskVisualsWeight: number;
@@ -362,10 +598,75 @@ export interface ScoringConfig {
   categoryResponsivenessWeight: number;
   categoryWritingWeight: number;
   categoryEmotionalWeight: number;
+  categoryOverrides: CategoryWeightOverride[];
+  benchmarkCohort: BenchmarkCohort;
   updatedAt: Date;
   updatedBy: number | null;
 }
-export type InsertScoringConfig = z.infer<typeof insertScoringConfigSchema>;
+// The json and text columns are typed loosely by drizzle-zod, narrow them to the values they store
+export type InsertScoringConfig = Omit<z.infer<typeof insertScoringConfigSchema>, 'categoryOverrides' | 'benchmarkCohort'> & {
+  categoryOverrides?: CategoryWeightOverride[];
+  benchmarkCohort?: BenchmarkCohort;
+};
+
+// Car attributes a benchmark cohort can be formed by; 'all' ranks every published review together
+export const benchmarkCohorts = ["year", "androidVersion", "all"] as const;
+export type BenchmarkCohort = typeof benchmarkCohorts[number];
+
+export type ScoringWeightField =
+  | 'taskDoableWeight'
+  | 'taskUsabilityWeight'
+  | 'taskVisualsWeight'
+  | 'categoryTasksWeight'
+  | 'categoryResponsivenessWeight'
+  | 'categoryWritingWeight'
+  | 'categoryEmotionalWeight';
+
+// Weights are percentages of a score, so the task weights and the category weights other than the
+// emotional bonus each have to add up to 100
+const WEIGHT_TOTAL_TOLERANCE = 0.01;
+
+const scoringWeight = (label: string) =>
+  z.number({ required_error: `${label} is required`, invalid_type_error: `${label} must be a number` })
+    .min(0, `${label} can't be negative`)
+    .max(100, `${label} can't be more than 100%`);
+
+const addsUpTo100 = (weights: number[]) =>
+  Math.abs(weights.reduce((total, weight) => total + weight, 0) - 100) < WEIGHT_TOTAL_TOLERANCE;
+
+export const taskWeightsSchema = z.object({
+  doableWeight: scoringWeight("Doable weight"),
+  usabilityWeight: scoringWeight("Usability weight"),
+  visualsWeight: scoringWeight("Visuals weight"),
+  changeNote: z.string().optional(),
+}).refine(
+  (weights) => addsUpTo100([weights.doableWeight, weights.usabilityWeight, weights.visualsWeight]),
+  "Doable, usability and visuals weights must add up to 100%"
+);
+
+export const categoryWeightsSchema = z.object({
+  taskAvgWeight: scoringWeight("Task average weight"),
+  responsivenessWeight: scoringWeight("Responsiveness weight"),
+  writingWeight: scoringWeight("Writing weight"),
+  emotionalWeight: scoringWeight("Emotional weight"), // bonus on top, not part of the total
+  changeNote: z.string().optional(),
+}).refine(
+  (weights) => addsUpTo100([weights.taskAvgWeight, weights.responsivenessWeight, weights.writingWeight]),
+  "Task average, responsiveness and writing weights must add up to 100%"
+);
+
+// Body of a 400 response for weights that failed validation
+export type ScoringWeightErrors = {
+  error: string;
+  formErrors: string[];                              // e.g. weights not adding up to 100
+  fieldErrors: Partial<Record<string, string[]>>;    // keyed by request field
+};
+
+// Weights of one category that differ from the global config; missing weights fall back to it
+export type CategoryWeightOverride = {
+  categoryName: string;
+  importance?: number; // weight of the category in the overall score, 1 when missing
+} & Partial<Record<ScoringWeightField, number>>;
 
 export interface Report {
   id: number;
@@ -376,10 +677,16 @@ export interface Report {
   benchmarkRank: number | null;
   benchmarkComparison: string | null;
   topIssues: any[];
+  scoringConfigId: number | null;
+  scoreSnapshot: ReportScoreSnapshot | null;
+  publishedAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
-export type InsertReport = z.infer<typeof insertReportSchema>;
+// The json column is typed loosely by drizzle-zod, narrow it to the snapshot it stores
+export type InsertReport = Omit<z.infer<typeof insertReportSchema>, 'scoreSnapshot'> & {
+  scoreSnapshot?: ReportScoreSnapshot | null;
+};
 
 // Extended types for API responses
 export type TaskWithCategory = Task & {
@@ -391,6 +698,8 @@ export type TaskWithCategory = Task & {
 export type ReviewWithDetails = Omit<Review, 'lastModifiedBy' | 'cujDatabaseVersionId'> & {
   car: Car;
   reviewer: User;
+  participants: User[]; // Lead reviewer first, then the other participants
+  categoryOwners: ReviewCategoryOwner[];
   lastModifiedBy?: User;
   lastModifiedById?: number | null;
   cujDatabaseVersion?: CujDatabaseVersion;
@@ -414,13 +723,250 @@ export type ReportWithReview = Report & {
   review: ReviewWithDetails;
   categoryScores: Array<{
     category: CujCategory;
+    owner: User | null;
     score: number;
     taskScore: number;
     responsivenessScore: number;
     writingScore: number;
     emotionalScore: number;
+    cujScores: CujScore[];
   }>;
+  currentOverallScore: number | null; // Under the current scoring config, whether or not the report is published
   topIssues: Issue[];
+  notApplicableTasks: NotApplicableTask[];
+};
+
+// Scores of a report as they were when its review was published
+export type ReportScoreSnapshot = {
+  overallScore: number | null;
+  categoryScores: Array<{
+    categoryId: number;
+    categoryName: string;
+    score: number;
+    taskScore: number;
+    responsivenessScore: number;
+    writingScore: number;
+    emotionalScore: number;
+    cujScores?: CujScore[]; // missing from snapshots taken before CUJ scores existed
+  }>;
+  scoringConfig: ScoringConfig;
+};
+
+// How each score of a review is made up, from the tasks up to the overall score
+export type ScoreDimension = 'doable' | 'usability' | 'visuals' | 'tasks' | 'responsiveness' | 'writing' | 'emotional' | 'custom';
+
+export type ScoreContribution = {
+  dimension: ScoreDimension;
+  dimensionId?: number;            // admin-defined dimension of a 'custom' contribution
+  dimensionName?: string;
+  weight: number;
+  rating: number | boolean | null; // doability, a rating on the dimension's scale, or the 0-100 task average
+  points: number | null;           // points added to the 0-100 score, null when not rated
+};
+
+export type TaskScoreBreakdown = {
+  taskId: number;
+  taskName: string;
+  evaluationId: number | null; // null for tasks nobody evaluated
+  notApplicableReason: string | null; // set when the task doesn't exist on the car
+  score: number | null;
+  contributions: ScoreContribution[];
+};
+
+// Task marked as not applicable to the car, left out of scores and completion
+export type NotApplicableTask = {
+  taskId: number;
+  taskName: string;
+  cujName: string;
+  categoryName: string;
+  reason: string;
+};
+
+// Rollup of the task scores of one CUJ
+export type CujScore = {
+  cujId: number;
+  cujName: string;
+  score: number | null;      // average of its evaluated tasks
+  doableRate: number | null; // share of evaluated tasks that were doable
+  failingTaskCount: number;  // tasks that weren't doable or scored below the failing threshold
+  evaluatedTaskCount: number;
+  notApplicableTaskCount?: number; // missing from snapshots taken before tasks could be not applicable
+  taskCount: number;
+};
+
+export type CujScoreBreakdown = CujScore & {
+  tasks: TaskScoreBreakdown[];
+};
+
+export type CategoryScoreBreakdown = {
+  categoryId: number;
+  categoryName: string;
+  score: number | null;
+  importance: number; // weight of the category in the overall score
+  taskScore: number | null; // average of all evaluated tasks of the category
+  contributions: ScoreContribution[];
+  cujs: CujScoreBreakdown[];
+};
+
+export type ScoreBreakdown = {
+  scoringConfigId: number;
+  overallScore: number | null;
+  categories: CategoryScoreBreakdown[];
+};
+
+// One score compared across reviews, aligned with ReviewComparison.reviews
+export type ComparedScores = {
+  scores: Array<number | null>;
+  deltas: Array<number | null>; // difference to the first (baseline) review, null when either is unscored
+  winners: number[];            // indexes of the reviews with the highest score, empty on a tie or with fewer than two scores
+  losers: number[];             // indexes of the reviews with the lowest score
+};
+
+export type TaskComparison = ComparedScores & {
+  taskId: number;
+  taskName: string;
+};
+
+export type CujComparison = ComparedScores & {
+  cujId: number;
+  cujName: string;
+  tasks: TaskComparison[];
+};
+
+export type CategoryComparison = ComparedScores & {
+  categoryId: number;
+  categoryName: string;
+  cujs: CujComparison[];
+};
+
+// Side-by-side scores of reviews of the same catalog version, under the current scoring config
+export type ReviewComparison = {
+  scoringConfigId: number;
+  cujDatabaseVersionId: number | null;
+  reviews: Array<{ reviewId: number; car: Car; isPublished: boolean }>;
+  overall: ComparedScores;
+  categories: CategoryComparison[];
+};
+
+// Scores of reviews under candidate weights next to their scores under the current config
+export type SimulatedCategoryScore = {
+  categoryId: number;
+  categoryName: string;
+  currentScore: number | null;
+  simulatedScore: number | null;
+  delta: number | null;
+};
+
+export type SimulatedReviewScore = {
+  reviewId: number;
+  car: Car;
+  isPublished: boolean;
+  currentScore: number | null;
+  simulatedScore: number | null;
+  delta: number | null;
+  currentRank: number | null;   // among the simulated reviews, null when unscored
+  simulatedRank: number | null;
+  categories: SimulatedCategoryScore[];
+};
+
+export type ScoringSimulation = {
+  scoringConfigId: number; // config the current scores are calculated with
+  reviews: SimulatedReviewScore[];
+};
+
+// Builds of one vehicle, linked through the re-reviews of each new build
+export type BuildHistoryEntry = {
+  reviewId: number;
+  car: Car;
+  status: string;
+  isPublished: boolean;
+  overallScore: number | null;
+  startDate: Date;
+};
+
+// Ratings of a task in one build, combined over everyone who evaluated it
+export type TaskBuildResult = {
+  doable: boolean | null;        // false as soon as one evaluator couldn't do the task
+  usabilityScore: number | null; // average rating on the usability scale
+  visualsScore: number | null;
+};
+
+export type RegressionAspect = 'doable' | 'usability' | 'visuals';
+
+export type TaskRegression = {
+  categoryName: string;
+  cujName: string;
+  taskName: string;
+  previous: TaskBuildResult;
+  current: TaskBuildResult;
+  aspects: RegressionAspect[];
+  feedback: string | null; // what the evaluators of the current build noted
+};
+
+// Tasks that got worse between a review and the review of the previous build
+export type BuildRegressions = {
+  review: BuildHistoryEntry;
+  previousReview: BuildHistoryEntry;
+  regressions: TaskRegression[];
+};
+
+// Spreadsheet import of the CUJ catalog
+export type CujImportRow = {
+  row: number; // 1-based spreadsheet row, header is row 1
+  category: Omit<InsertCujCategory, 'cujDatabaseVersionId' | 'sortOrder'>;
+  cuj: Omit<InsertCuj, 'categoryId' | 'cujDatabaseVersionId' | 'sortOrder'>;
+  task: Omit<InsertTask, 'cujId' | 'cujDatabaseVersionId' | 'sortOrder'>;
+};
+
+// A problem found in one row of an uploaded spreadsheet
+export type ImportError = {
+  row: number;
+  column: string | null;
+  message: string;
+};
+
+export type CujImportError = ImportError;
+
+export type CujImportData = {
+  sourceFileName: string;
+  createdBy: number | null;
+  rows: CujImportRow[];
+};
+
+export type CujSyncResult = {
+  success: boolean;
+  message: string;
+  versionId?: number;
+  errors?: CujImportError[];
+};
+
+// Differences between two CUJ catalog versions. Entities are matched by name
+// within their parent, so ids differ between the two sides.
+export type CujCatalogFieldChange = {
+  field: string;
+  from: string | null;
+  to: string | null;
+};
+
+export type CujCatalogDiffEntry = {
+  path: string[]; // category, CUJ and task names leading to the entity
+  fromId: number | null;
+  toId: number | null;
+  changes: CujCatalogFieldChange[];
+};
+
+export type CujCatalogDiffSection = {
+  added: CujCatalogDiffEntry[];
+  removed: CujCatalogDiffEntry[];
+  modified: CujCatalogDiffEntry[];
+};
+
+export type CujCatalogDiff = {
+  fromVersion: CujDatabaseVersion;
+  toVersion: CujDatabaseVersion;
+  categories: CujCatalogDiffSection;
+  cujs: CujCatalogDiffSection;
+  tasks: CujCatalogDiffSection;
 };
 
 export type MediaItem = {
@@ -467,6 +1013,67 @@ export type ReviewerAssignmentWithDetails = ReviewerAssignment & {
   createdByUser?: User;
 };
 
+// Which reviewers cover each category of the active catalog for a car
+export type AssignmentCoverage = {
+  car: Car;
+  categories: Array<{
+    category: CujCategory;
+    reviewers: Array<Pick<User, 'id' | 'name' | 'username'>>;
+  }>;
+  unassignedCategoryIds: number[];
+};
+
+// Inter-rater agreement between reviewers who evaluated the same car
+export type AgreementDimension = 'doable' | 'usability' | 'visuals' | 'responsiveness' | 'writing' | 'emotional';
+
+export type RatingSpread = {
+  count: number;
+  mean: number | null;
+  min: number | null;
+  max: number | null;
+  range: number | null;
+  stdDev: number | null;
+};
+
+export type RaterPairKappa = {
+  raterIds: [number, number];
+  items: number; // items both raters scored
+  kappa: number | null;
+};
+
+export type DimensionAgreement = {
+  dimension: AgreementDimension;
+  items: number; // items scored by at least two raters
+  fleissKappa: number | null;
+  cohensKappa: RaterPairKappa[];
+};
+
+export type TaskAgreement = {
+  task: Pick<Task, 'id' | 'name'> & { cujName: string; categoryName: string };
+  raterIds: number[];
+  doableAgreement: number | null; // share of rater pairs agreeing on doability
+  usability: RatingSpread;
+  visuals: RatingSpread;
+  disagreement: number; // 0 = full agreement, 1 = maximal disagreement
+};
+
+export type CategoryAgreement = {
+  category: Pick<CujCategory, 'id' | 'name'>;
+  raterIds: number[];
+  responsiveness: RatingSpread;
+  writing: RatingSpread;
+  emotional: RatingSpread;
+  disagreement: number;
+};
+
+export type CarAgreement = {
+  car: Car;
+  raters: Array<Pick<User, 'id' | 'name' | 'username'>>;
+  dimensions: DimensionAgreement[];
+  tasks: TaskAgreement[];      // most disagreement first
+  categories: CategoryAgreement[];
+};
+
 // Scoring Scale Descriptions
 export const scoringScaleDescriptions = {
   usability: {
@@ -501,6 +1108,74 @@ export const scoringScaleDescriptions = {
   }
 };
 
+const scaleLabels = (descriptions: Record<number, { label: string; description: string }>): DimensionScaleLabel[] =>
+  Object.entries(descriptions).map(([value, { label, description }]) => ({ value: Number(value), label, description }));
+
+// Rows every storage seeds for the built-in dimensions. Admins can rescale and relabel them, but
+// their level is fixed, they can't be retired and their weight is set in the scoring config
+export const builtInDimensionDefinitions: Array<InsertEvaluationDimension & { key: BuiltInDimensionKey }> = [
+  {
+    key: "usability",
+    name: "Usability & Interaction",
+    description: "Rate how easy and intuitive it was to complete this task.",
+    level: "task",
+    scaleMin: 1,
+    scaleMax: 4,
+    labels: scaleLabels(scoringScaleDescriptions.usability),
+    feedbackThreshold: 2,
+    weight: 0,
+    isActive: true,
+  },
+  {
+    key: "visuals",
+    name: "Visual Design",
+    description: "Rate the visual design and aesthetics of this feature.",
+    level: "task",
+    scaleMin: 1,
+    scaleMax: 4,
+    labels: scaleLabels(scoringScaleDescriptions.visuals),
+    feedbackThreshold: 2,
+    weight: 0,
+    isActive: true,
+  },
+  {
+    key: "responsiveness",
+    name: "System Feedback & Responsiveness",
+    description: "Rate the system's performance and responsiveness for the entire category.",
+    level: "category",
+    scaleMin: 1,
+    scaleMax: 4,
+    labels: scaleLabels(scoringScaleDescriptions.responsiveness),
+    feedbackThreshold: 2,
+    weight: 0,
+    isActive: true,
+  },
+  {
+    key: "writing",
+    name: "Readability & Writing",
+    description: "Rate the quality of text and language used in this category.",
+    level: "category",
+    scaleMin: 1,
+    scaleMax: 4,
+    labels: scaleLabels(scoringScaleDescriptions.writing),
+    feedbackThreshold: 2,
+    weight: 0,
+    isActive: true,
+  },
+  {
+    key: "emotional",
+    name: "Emotional Engagement (Bonus)",
+    description: "Rate the emotional connection and satisfaction with this category.",
+    level: "category",
+    scaleMin: 1,
+    scaleMax: 4,
+    labels: scaleLabels(scoringScaleDescriptions.emotional),
+    feedbackThreshold: 2,
+    weight: 0,
+    isActive: true,
+  },
+];
+
 // For filtering reviews by status
 export const reviewStatuses = ["pending", "in_progress", "completed"] as const;
 export type ReviewStatus = typeof reviewStatuses[number];
@@ -509,6 +1184,39 @@ export type ReviewStatus = typeof reviewStatuses[number];
 export const userRoles = ["reviewer", "internal", "external", "admin"] as const;
 export type UserRole = typeof userRoles[number];
 
+// What admins can change about a user. Usernames stay fixed, as logins and directory accounts match on them
+export const updateUserSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  role: z.enum(userRoles),
+}).partial();
+export type UpdateUser = z.infer<typeof updateUserSchema>;
+
+// Hands a departing user's open reviews and reviewer assignments to someone else
+export const reassignUserSchema = z.object({
+  toUserId: z.number().int().positive(),
+});
+
+export type UserReassignmentResult = {
+  reviews: number;
+  assignments: number;
+};
+
+// One user of a CSV import. Users without a password can only sign in through LDAP or single sign-on
+export type UserImportRow = {
+  row: number; // 1-based CSV row, header is row 1
+  username: string;
+  name: string;
+  role: UserRole;
+  password: string | null;
+};
+
+export type UserImportResult = {
+  success: boolean;
+  message: string;
+  created?: User[];
+  errors?: ImportError[];
+};
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   reviews: many(reviews, { relationName: "user_reviews" }),
@@ -516,6 +1224,7 @@ export const usersRelations = relations(users, ({ many }) => ({
   createdVersions: many(cujDatabaseVersions),
   reviewerAssignments: many(reviewerAssignments),
   createdAssignments: many(reviewerAssignments, { relationName: "created_assignments" }),
+  reviewParticipations: many(reviewParticipants),
 }));
 
 export const cujDatabaseVersionsRelations = relations(cujDatabaseVersions, ({ one, many }) => ({
@@ -524,9 +1233,16 @@ export const cujDatabaseVersionsRelations = relations(cujDatabaseVersions, ({ on
     references: [users.id],
   }),
   reviews: many(reviews),
+  cujCategories: many(cujCategories),
+  cujs: many(cujs),
+  tasks: many(tasks),
 }));
 
-export const cujCategoriesRelations = relations(cujCategories, ({ many }) => ({
+export const cujCategoriesRelations = relations(cujCategories, ({ one, many }) => ({
+  cujDatabaseVersion: one(cujDatabaseVersions, {
+    fields: [cujCategories.cujDatabaseVersionId],
+    references: [cujDatabaseVersions.id],
+  }),
   cujs: many(cujs),
   categoryEvaluations: many(categoryEvaluations),
   reviewerAssignments: many(reviewerAssignments),
@@ -537,6 +1253,10 @@ export const cujsRelations = relations(cujs, ({ one, many }) => ({
     fields: [cujs.categoryId],
     references: [cujCategories.id],
   }),
+  cujDatabaseVersion: one(cujDatabaseVersions, {
+    fields: [cujs.cujDatabaseVersionId],
+    references: [cujDatabaseVersions.id],
+  }),
   tasks: many(tasks),
 }));
 
@@ -545,6 +1265,10 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     fields: [tasks.cujId],
     references: [cujs.id],
   }),
+  cujDatabaseVersion: one(cujDatabaseVersions, {
+    fields: [tasks.cujDatabaseVersionId],
+    references: [cujDatabaseVersions.id],
+  }),
   taskEvaluations: many(taskEvaluations),
 }));
 
@@ -578,6 +1302,8 @@ export const reviewsRelations = relations(reviews, ({ one, many }) => ({
   }),
   taskEvaluations: many(taskEvaluations),
   categoryEvaluations: many(categoryEvaluations),
+  participants: many(reviewParticipants),
+  categoryOwners: many(reviewCategoryOwners),
   reports: many(reports),
 }));
 
@@ -603,6 +1329,32 @@ export const categoryEvaluationsRelations = relations(categoryEvaluations, ({ on
   }),
 }));
 
+export const reviewParticipantsRelations = relations(reviewParticipants, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewParticipants.reviewId],
+    references: [reviews.id],
+  }),
+  user: one(users, {
+    fields: [reviewParticipants.userId],
+    references: [users.id],
+  }),
+}));
+
+export const reviewCategoryOwnersRelations = relations(reviewCategoryOwners, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewCategoryOwners.reviewId],
+    references: [reviews.id],
+  }),
+  category: one(cujCategories, {
+    fields: [reviewCategoryOwners.categoryId],
+    references: [cujCategories.id],
+  }),
+  user: one(users, {
+    fields: [reviewCategoryOwners.userId],
+    references: [users.id],
+  }),
+}));
+
 export const scoringConfigRelations = relations(scoringConfig, ({ one }) => ({
   updatedByUser: one(users, {
     fields: [scoringConfig.updatedBy],
@@ -636,3 +1388,108 @@ export const reviewerAssignmentsRelations = relations(reviewerAssignments, ({ on
     relationName: "created_assignments",
   }),
 }));
+
+// Sign-in Domains - when any are listed, single sign-on is limited to emails of these domains
+export const signInDomains = pgTable("sign_in_domains", {
+  id: serial("id").primaryKey(),
+  domain: text("domain").notNull().unique(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSignInDomainSchema = z.object({
+  domain: z.string()
+    .trim()
+    .toLowerCase()
+    .regex(/^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/, "Enter a domain such as example.com"),
+  createdBy: z.number().int().nullish(),
+});
+
+export interface SignInDomain {
+  id: number;
+  domain: string;
+  createdBy: number | null;
+  createdAt: Date;
+}
+export type InsertSignInDomain = z.infer<typeof insertSignInDomainSchema>;
+
+// API Tokens - personal access tokens scripts send as a Bearer header instead of a session cookie
+export const apiTokenScopes = ["read", "evaluate", "admin"] as const; // Each scope includes the ones before it
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token, which is only shown once
+  tokenPrefix: text("token_prefix").notNull(), // Start of the token, to tell tokens apart
+  scopes: json("scopes").notNull().default([]),
+  expiresAt: timestamp("expires_at"), // Never expires when null
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name can't be longer than 100 characters"),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope"),
+  expiresInDays: z.number().int()
+    .min(1, "Tokens must last at least a day")
+    .max(365, "Tokens can't last more than a year")
+    .nullish(),
+});
+
+export interface ApiToken {
+  id: number;
+  userId: number;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+export type InsertApiToken = Pick<ApiToken, 'userId' | 'name' | 'tokenHash' | 'tokenPrefix' | 'scopes' | 'expiresAt'>;
+
+// A token as returned when it is created, the only time the token itself is shown
+export type CreatedApiToken = ApiToken & { token: string };
+
+// Sessions - logins kept across server restarts by the session store in server/sessionStore.ts
+export const sessions = pgTable("sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(), // The ID in the session cookie, which is never sent back to clients
+  userId: integer("user_id").references(() => users.id), // Null until someone signs in
+  data: json("data").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+});
+
+export interface StoredSession {
+  id: number;
+  sid: string;
+  userId: number | null;
+  data: Record<string, unknown>;
+  userAgent: string | null;
+  ipAddress: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  lastSeenAt: Date;
+}
+export type InsertStoredSession = Pick<StoredSession, 'sid' | 'userId' | 'data' | 'userAgent' | 'ipAddress' | 'expiresAt'>;
+
+// A session as its user sees it, without the session ID
+export type SessionSummary = Pick<StoredSession, 'id' | 'userAgent' | 'ipAddress' | 'expiresAt' | 'createdAt' | 'lastSeenAt'> & {
+  current: boolean;
+};
+
+// Signed in users as admins see them, to force them to log out
+export type UserSessionsSummary = {
+  user: User;
+  sessionCount: number;
+  lastSeenAt: Date;
+};
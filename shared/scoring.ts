@@ -0,0 +1,442 @@
+import {
+  BuiltInDimensionKey,
+  CategoryEvaluation,
+  CategoryScoreBreakdown,
+  CujScoreBreakdown,
+  CujCategory,
+  DimensionRating,
+  EvaluationDimension,
+  NotApplicableTask,
+  ScoreBreakdown,
+  ScoreContribution,
+  ScoringConfig,
+  ScoringWeightField,
+  TaskEvaluation,
+  TaskScoreBreakdown,
+  TaskWithCategory
+} from "./schema";
+
+// Scoring engine shared by the server (reports, report generation) and the client (exports, previews).
+// Ratings are given on the scale of their evaluation dimension, 1-4 unless an admin changed it, and
+// scores are on a 0-100 scale.
+
+type TaskWeights = { doable: number, usability: number, visuals: number };
+type CategoryWeights = { tasks: number, responsiveness: number, writing: number, emotional: number };
+
+// Top of the scale each built-in dimension is rated on, as its definition says
+export type BuiltInScales = Partial<Record<BuiltInDimensionKey, number>>;
+const DEFAULT_SCALE_MAX = 4;
+
+export function getBuiltInScales(dimensions: EvaluationDimension[]): BuiltInScales {
+  const scales: BuiltInScales = {};
+  for (const dimension of dimensions) {
+    if (dimension.key) scales[dimension.key] = dimension.scaleMax;
+  }
+  return scales;
+}
+
+const scaleMaxOf = (scales: BuiltInScales, key: BuiltInDimensionKey) => scales[key] ?? DEFAULT_SCALE_MAX;
+
+// Calculate task evaluation score based on weights
+export function calculateTaskScore(
+  evaluation: Partial<TaskEvaluation> | null,
+  weights?: TaskWeights,
+  scales: BuiltInScales = {}
+): number | null {
+  // Tasks that don't exist on the car aren't scored
+  if (!evaluation || evaluation.notApplicable) return null;
+  
+  // Default weights based on requirements (as percentages)
+  // Doable: 43.75%, Usability: 37.5%, Visuals: 18.75%
+  const defaultWeights = {
+    doable: 43.75,
+    usability: 37.5,
+    visuals: 18.75
+  };
+  
+  // Use provided weights or defaults
+  const useWeights = weights || defaultWeights;
+  
+  // Ensure we have values to calculate with
+  if (evaluation.doable === undefined || evaluation.doable === null) {
+    return null;
+  }
+  
+  let score = 0;
+  let maxPossibleScore = 100; // Scale to percentage (0-100)
+  
+  // Doable is binary - full score (43.75%) or zero
+  // Yes = 43.75%/43.75% of task score, No = 0%/43.75% of task score
+  score += (evaluation.doable ? useWeights.doable : 0);
+  
+  // Usability & Interaction: 37.5% of task score, scaled by the top of its rating scale
+  if (evaluation.usabilityScore !== undefined && evaluation.usabilityScore !== null) {
+    // Convert the rating to percentage of the 37.5% weight
+    score += (evaluation.usabilityScore / scaleMaxOf(scales, 'usability')) * useWeights.usability;
+  } else {
+    maxPossibleScore -= useWeights.usability;
+  }
+  
+  // Visuals: 18.75% of task score, scaled by the top of its rating scale
+  if (evaluation.visualsScore !== undefined && evaluation.visualsScore !== null) {
+    // Convert the rating to percentage of the 18.75% weight
+    score += (evaluation.visualsScore / scaleMaxOf(scales, 'visuals')) * useWeights.visuals;
+  } else {
+    maxPossibleScore -= useWeights.visuals;
+  }
+  
+  // If we can't calculate a meaningful score, return null
+  if (maxPossibleScore === 0) return null;
+  
+  // Return score as a percentage (0-100)
+  return parseFloat((score).toFixed(1));
+}
+
+// Calculate category evaluation score based on weights
+export function calculateCategoryScore(
+  taskAvgScore: number | null,
+  categoryEval: Partial<CategoryEvaluation> | null,
+  weights?: CategoryWeights,
+  scales: BuiltInScales = {}
+): number | null {
+  if (!categoryEval && taskAvgScore === null) return null;
+  
+  // Default weights based on requirements (as percentages)
+  // Tasks: 80%, Responsiveness: 15%, Writing: 5%, Emotional: 5% (bonus)
+  const defaultWeights = {
+    tasks: 80,
+    responsiveness: 15,
+    writing: 5,
+    emotional: 5 // Bonus
+  };
+  
+  // Use provided weights or defaults
+  const useWeights = weights || defaultWeights;
+  
+  let score = 0;
+  let maxPossibleScore = 100; // Scale to percentage (0-100)
+  
+  // Average of all task scores (80% of overall score)
+  if (taskAvgScore !== null) {
+    // Convert task score (0-100) to percentage of 80% weight
+    score += taskAvgScore * (useWeights.tasks / 100);
+  } else {
+    maxPossibleScore -= useWeights.tasks;
+  }
+  
+  // System Feedback & Responsiveness (15% of overall score)
+  if (categoryEval?.responsivenessScore !== undefined && categoryEval.responsivenessScore !== null) {
+    // Convert the rating to percentage of 15% weight
+    score += (categoryEval.responsivenessScore / scaleMaxOf(scales, 'responsiveness')) * useWeights.responsiveness;
+  } else {
+    maxPossibleScore -= useWeights.responsiveness;
+  }
+  
+  // Writing (5% of overall score)
+  if (categoryEval?.writingScore !== undefined && categoryEval.writingScore !== null) {
+    // Convert the rating to percentage of 5% weight
+    score += (categoryEval.writingScore / scaleMaxOf(scales, 'writing')) * useWeights.writing;
+  } else {
+    maxPossibleScore -= useWeights.writing;
+  }
+  
+  // If we can't calculate a meaningful score, return null
+  if (maxPossibleScore === 0) return null;
+  
+  // Emotional score is a bonus (5% overall score)
+  // Only add this if it exists, but don't reduce maxPossibleScore if missing
+  if (categoryEval?.emotionalScore !== undefined && categoryEval.emotionalScore !== null) {
+    // Convert the rating to percentage of 5% weight
+    score += (categoryEval.emotionalScore / scaleMaxOf(scales, 'emotional')) * useWeights.emotional;
+  }
+  
+  // Return score as a percentage (0-100)
+  return parseFloat(score.toFixed(1));
+}
+
+// Resolve the weights a category is scored with: its overrides where set, the global config otherwise
+export function getCategoryWeights(
+  config: ScoringConfig,
+  categoryName: string
+): { task: TaskWeights, category: CategoryWeights, importance: number } {
+  const normalizedName = categoryName.trim().toLowerCase();
+  const override = (config.categoryOverrides || []).find(
+    categoryOverride => categoryOverride.categoryName.trim().toLowerCase() === normalizedName
+  );
+  const weight = (field: ScoringWeightField) => override?.[field] ?? config[field];
+  
+  return {
+    task: {
+      doable: weight('taskDoableWeight'),
+      usability: weight('taskUsabilityWeight'),
+      visuals: weight('taskVisualsWeight')
+    },
+    category: {
+      tasks: weight('categoryTasksWeight'),
+      responsiveness: weight('categoryResponsivenessWeight'),
+      writing: weight('categoryWritingWeight'),
+      emotional: weight('categoryEmotionalWeight')
+    },
+    importance: override?.importance ?? 1
+  };
+}
+
+// Calculate the overall score of a review as the average of the categories that were evaluated,
+// weighted by the importance of each category (equal when not given)
+export function calculateOverallScore(categoryScores: Array<number | null>, importance?: number[]): number | null {
+  let weightedSum = 0;
+  let totalImportance = 0;
+  categoryScores.forEach((score, index) => {
+    if (score === null) return;
+    
+    const categoryImportance = importance?.[index] ?? 1;
+    weightedSum += score * categoryImportance;
+    totalImportance += categoryImportance;
+  });
+  if (totalImportance === 0) return null;
+  
+  return parseFloat((weightedSum / totalImportance).toFixed(1));
+}
+
+const roundPoints = (points: number) => parseFloat(points.toFixed(2));
+
+// Points a rating adds to a score, null when it wasn't rated
+const ratingPoints = (rating: number | null | undefined, weight: number, scaleMax: number) =>
+  rating === undefined || rating === null ? null : roundPoints((rating / scaleMax) * weight);
+
+// Points the admin-defined dimensions of an evaluation contributed, like a built-in rating would
+// on the dimension's own scale
+function dimensionContributions(
+  ratings: DimensionRating[] | null | undefined,
+  dimensions: EvaluationDimension[]
+): ScoreContribution[] {
+  return dimensions.map(dimension => {
+    const rating = ratings?.find(entry => entry.dimensionId === dimension.id)?.score ?? null;
+    return {
+      dimension: 'custom',
+      dimensionId: dimension.id,
+      dimensionName: dimension.name,
+      weight: dimension.weight,
+      rating,
+      points: ratingPoints(rating, dimension.weight, dimension.scaleMax)
+    };
+  });
+}
+
+// Rated dimensions add their weight on top of the 100% of the built-in ones, so the score is scaled
+// back to 0-100. Unrated dimensions are left out, so defining one doesn't lower earlier scores
+function addDimensionPoints(score: number | null, contributions: ScoreContribution[]): number | null {
+  const rated = contributions.filter(contribution => contribution.points !== null);
+  if (score === null || rated.length === 0) return score;
+  
+  const weight = rated.reduce((total, contribution) => total + contribution.weight, 0);
+  const points = rated.reduce((total, contribution) => total + contribution.points!, 0);
+  return parseFloat(((score + points) * 100 / (100 + weight)).toFixed(1));
+}
+
+/**
+ * Why a rating doesn't fit its dimension: off the scale, or low enough to need feedback that is
+ * missing. Null when the rating is valid.
+ */
+export function dimensionRatingError(dimension: EvaluationDimension, rating: DimensionRating): string | null {
+  if (rating.score < dimension.scaleMin || rating.score > dimension.scaleMax) {
+    return `${dimension.name} must be rated from ${dimension.scaleMin} to ${dimension.scaleMax}`;
+  }
+  if (dimension.feedbackThreshold !== null && rating.score <= dimension.feedbackThreshold && !rating.feedback?.trim()) {
+    return `${dimension.name} needs feedback for ratings of ${dimension.feedbackThreshold} or lower`;
+  }
+  return null;
+}
+
+// Built-in ratings of an evaluation, e.g. usabilityScore
+export type BuiltInRatings = Partial<Record<`${BuiltInDimensionKey}Score`, number | null>>;
+
+/**
+ * Why a built-in rating of an evaluation is off its dimension's scale, null when all of them fit.
+ * Feedback on low built-in ratings is asked for by the evaluation forms but not required.
+ */
+export function builtInRatingsError(evaluation: BuiltInRatings, dimensions: EvaluationDimension[]): string | null {
+  for (const dimension of dimensions) {
+    const score = dimension.key ? evaluation[`${dimension.key}Score`] : undefined;
+    if (score === undefined || score === null) continue;
+
+    const error = dimensionRatingError({ ...dimension, feedbackThreshold: null }, { dimensionId: dimension.id, score });
+    if (error) return error;
+  }
+  return null;
+}
+
+// Whether an evaluation holds a rating on the dimension, in its own column for built-in dimensions
+export function hasDimensionRating(
+  evaluation: BuiltInRatings & { ratings?: DimensionRating[] | null },
+  dimension: Pick<EvaluationDimension, 'id' | 'key'>
+): boolean {
+  return dimension.key
+    ? evaluation[`${dimension.key}Score`] != null
+    : (evaluation.ratings ?? []).some(rating => rating.dimensionId === dimension.id);
+}
+
+// Score a task evaluation together with the points each dimension contributed to it. The dimensions
+// give the scales of the built-in ratings and the admin-defined dimensions to add
+export function calculateTaskScoreBreakdown(
+  evaluation: Partial<TaskEvaluation> | null,
+  weights: TaskWeights,
+  dimensions: EvaluationDimension[] = []
+): { score: number | null, contributions: ScoreContribution[] } {
+  const doable = evaluation?.notApplicable ? null : evaluation?.doable ?? null;
+  const scales = getBuiltInScales(dimensions);
+  const custom = dimensionContributions(evaluation?.ratings, dimensions.filter(dimension => !dimension.key));
+  
+  return {
+    score: addDimensionPoints(calculateTaskScore(evaluation, weights, scales), custom),
+    contributions: [
+      { dimension: 'doable', weight: weights.doable, rating: doable, points: doable === null ? null : (doable ? weights.doable : 0) },
+      { dimension: 'usability', weight: weights.usability, rating: evaluation?.usabilityScore ?? null, points: ratingPoints(evaluation?.usabilityScore, weights.usability, scaleMaxOf(scales, 'usability')) },
+      { dimension: 'visuals', weight: weights.visuals, rating: evaluation?.visualsScore ?? null, points: ratingPoints(evaluation?.visualsScore, weights.visuals, scaleMaxOf(scales, 'visuals')) },
+      ...custom
+    ]
+  };
+}
+
+// Score a category together with the points its task average and ratings contributed to it
+export function calculateCategoryScoreBreakdown(
+  taskAvgScore: number | null,
+  categoryEval: Partial<CategoryEvaluation> | null,
+  weights: CategoryWeights,
+  dimensions: EvaluationDimension[] = []
+): { score: number | null, contributions: ScoreContribution[] } {
+  const scales = getBuiltInScales(dimensions);
+  const custom = dimensionContributions(categoryEval?.ratings, dimensions.filter(dimension => !dimension.key));
+  
+  return {
+    score: addDimensionPoints(calculateCategoryScore(taskAvgScore, categoryEval, weights, scales), custom),
+    contributions: [
+      { dimension: 'tasks', weight: weights.tasks, rating: taskAvgScore, points: taskAvgScore === null ? null : roundPoints(taskAvgScore * (weights.tasks / 100)) },
+      { dimension: 'responsiveness', weight: weights.responsiveness, rating: categoryEval?.responsivenessScore ?? null, points: ratingPoints(categoryEval?.responsivenessScore, weights.responsiveness, scaleMaxOf(scales, 'responsiveness')) },
+      { dimension: 'writing', weight: weights.writing, rating: categoryEval?.writingScore ?? null, points: ratingPoints(categoryEval?.writingScore, weights.writing, scaleMaxOf(scales, 'writing')) },
+      { dimension: 'emotional', weight: weights.emotional, rating: categoryEval?.emotionalScore ?? null, points: ratingPoints(categoryEval?.emotionalScore, weights.emotional, scaleMaxOf(scales, 'emotional')) },
+      ...custom
+    ]
+  };
+}
+
+const average = (scores: number[]) =>
+  scores.length > 0 ? scores.reduce((sum, score) => sum + score, 0) / scores.length : null;
+
+// Task scores below this count as failing, like the "very poor" band of the score colors
+export const FAILING_TASK_SCORE = 65;
+
+// Roll the task scores of a CUJ up into its score, doable rate and failing task count
+function calculateCujScore(
+  cuj: { cujId: number, cujName: string, taskCount: number },
+  tasks: TaskScoreBreakdown[]
+): CujScoreBreakdown {
+  const evaluated = tasks.filter(task => task.evaluationId !== null && task.notApplicableReason === null);
+  const notApplicable = tasks.filter(task => task.notApplicableReason !== null);
+  const doable = evaluated
+    .map(task => task.contributions.find(contribution => contribution.dimension === 'doable')?.rating)
+    .filter((rating): rating is boolean => typeof rating === 'boolean');
+  const failing = evaluated.filter(task =>
+    task.contributions.some(contribution => contribution.dimension === 'doable' && contribution.rating === false) ||
+    (task.score !== null && task.score < FAILING_TASK_SCORE)
+  );
+  const score = average(evaluated.map(task => task.score).filter((score): score is number => score !== null));
+  
+  return {
+    ...cuj,
+    score: score === null ? null : parseFloat(score.toFixed(1)),
+    doableRate: doable.length > 0 ? doable.filter(Boolean).length / doable.length : null,
+    failingTaskCount: new Set(failing.map(task => task.taskId)).size,
+    evaluatedTaskCount: new Set(evaluated.map(task => task.taskId)).size,
+    notApplicableTaskCount: new Set(notApplicable.map(task => task.taskId)).size,
+    tasks
+  };
+}
+
+/**
+ * Scores a review from the task up to the overall score. Every category and task of the review's
+ * catalog is listed; evaluations of tasks outside of it are ignored. A task evaluated by several
+ * participants appears once per evaluation, and all of them count towards the averages. Built-in
+ * ratings are scaled by their dimension's definition, and ratings on admin-defined dimensions count
+ * for the active dimensions given.
+ */
+export function calculateScoreBreakdown(
+  config: ScoringConfig,
+  categories: CujCategory[],
+  tasks: TaskWithCategory[],
+  taskEvaluations: TaskEvaluation[],
+  categoryEvaluations: CategoryEvaluation[],
+  dimensions: EvaluationDimension[] = []
+): ScoreBreakdown {
+  const activeDimensions = dimensions.filter(dimension => dimension.isActive);
+  const taskDimensions = activeDimensions.filter(dimension => dimension.level === 'task');
+  const categoryDimensions = activeDimensions.filter(dimension => dimension.level === 'category');
+  
+  const evaluationsByTaskId = new Map<number, TaskEvaluation[]>();
+  for (const evaluation of taskEvaluations) {
+    const taskEvaluationsOfTask = evaluationsByTaskId.get(evaluation.taskId) || [];
+    taskEvaluationsOfTask.push(evaluation);
+    evaluationsByTaskId.set(evaluation.taskId, taskEvaluationsOfTask);
+  }
+  
+  const categoryBreakdowns: CategoryScoreBreakdown[] = categories.map(category => {
+    const weights = getCategoryWeights(config, category.name);
+    
+    const cujs = new Map<number, { cujId: number, cujName: string, taskCount: number, tasks: TaskScoreBreakdown[] }>();
+    for (const task of tasks.filter(task => task.cuj.categoryId === category.id)) {
+      const cuj = cujs.get(task.cujId) || { cujId: task.cujId, cujName: task.cuj.name, taskCount: 0, tasks: [] };
+      const evaluations = evaluationsByTaskId.get(task.id) || [];
+      
+      const taskBreakdowns: TaskScoreBreakdown[] = (evaluations.length > 0 ? evaluations : [null]).map(evaluation => ({
+        taskId: task.id,
+        taskName: task.name,
+        evaluationId: evaluation?.id ?? null,
+        notApplicableReason: evaluation?.notApplicable ? evaluation.notApplicableReason || '' : null,
+        ...calculateTaskScoreBreakdown(evaluation, weights.task, taskDimensions)
+      }));
+      cuj.tasks.push(...taskBreakdowns);
+      cuj.taskCount++;
+      cujs.set(task.cujId, cuj);
+    }
+    
+    const cujBreakdowns = Array.from(cujs.values()).map(({ tasks: cujTasks, ...cuj }) => calculateCujScore(cuj, cujTasks));
+    
+    const taskScore = average(cujBreakdowns
+      .flatMap(cuj => cuj.tasks)
+      .map(task => task.score)
+      .filter((score): score is number => score !== null));
+    const categoryEval = categoryEvaluations.find(evaluation => evaluation.categoryId === category.id) || null;
+    
+    return {
+      categoryId: category.id,
+      categoryName: category.name,
+      importance: weights.importance,
+      taskScore,
+      ...calculateCategoryScoreBreakdown(taskScore, categoryEval, weights.category, categoryDimensions),
+      cujs: cujBreakdowns
+    };
+  });
+  
+  return {
+    scoringConfigId: config.id,
+    overallScore: calculateOverallScore(
+      categoryBreakdowns.map(category => category.score),
+      categoryBreakdowns.map(category => category.importance)
+    ),
+    categories: categoryBreakdowns
+  };
+}
+
+// Tasks of a breakdown that were marked as not applicable to the car, in catalog order
+export function listNotApplicableTasks(breakdown: ScoreBreakdown): NotApplicableTask[] {
+  return breakdown.categories.flatMap(category => category.cujs.flatMap(cuj => cuj.tasks
+    .filter(task => task.notApplicableReason !== null)
+    .map(task => ({
+      taskId: task.taskId,
+      taskName: task.taskName,
+      cujName: cuj.cujName,
+      categoryName: category.categoryName,
+      reason: task.notApplicableReason!
+    }))
+  ));
+}
@@ -40,7 +40,26 @@ declare -a test_suites=(
   "__tests__/api/reviews.test.ts:Reviews API Tests"
   "__tests__/api/media.test.ts:Media API Tests"
   "__tests__/api/cuj-sync.test.ts:CUJ Sync API Tests"
+  "__tests__/api/cuj-catalog.test.ts:CUJ Catalog API Tests"
+  "__tests__/api/review-access.test.ts:Review Access API Tests"
+  "__tests__/api/scoring-config.test.ts:Scoring Config API Tests"
+  "__tests__/api/api-tokens.test.ts:API Token API Tests"
   "__tests__/unit/scoring.test.ts:Scoring Unit Tests"
+  "__tests__/unit/cuj-import.test.ts:CUJ Import Unit Tests"
+  "__tests__/unit/cuj-diff.test.ts:CUJ Catalog Diff Unit Tests"
+  "__tests__/unit/review-scope.test.ts:Review Scope Unit Tests"
+  "__tests__/unit/agreement.test.ts:Inter-rater Agreement Unit Tests"
+  "__tests__/unit/report-generation.test.ts:Report Generation Unit Tests"
+  "__tests__/unit/scoring-config-history.test.ts:Scoring Config History Unit Tests"
+  "__tests__/unit/score-breakdown.test.ts:Score Breakdown Unit Tests"
+  "__tests__/unit/comparison.test.ts:Review Comparison Unit Tests"
+  "__tests__/unit/build-history.test.ts:Build History Unit Tests"
+  "__tests__/unit/scoring-simulation.test.ts:Scoring Simulation Unit Tests"
+  "__tests__/unit/auth.test.ts:Authentication Unit Tests"
+  "__tests__/unit/oidc.test.ts:OIDC Unit Tests"
+  "__tests__/unit/api-tokens.test.ts:API Token Unit Tests"
+  "__tests__/unit/session-store.test.ts:Session Store Unit Tests"
+  "__tests__/unit/user-management.test.ts:User Management Unit Tests"
   "__tests__/e2e/login.test.ts:Login E2E Tests"
   "__tests__/e2e/review-workflow.test.ts:Review Workflow E2E Tests"
   "__tests__/e2e/media-capture.test.ts:Media Capture E2E Tests"